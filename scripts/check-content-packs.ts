@@ -0,0 +1,40 @@
+// Checks that the test modules score the same performance the same way on
+// every content pack: a perfect run and a run with half the items wrong must
+// land in the same risk level whichever pack was used, for every built-in
+// scoring profile. Run with `npm run check-packs`.
+import { contentPacks } from '../src/lib/contentPacks';
+import { phonemeCount, scaleErrors } from '../src/lib/assessments';
+import { builtInProfiles, CountedFeature, getRiskLevel, getRule, referenceItems } from '../src/lib/scoring';
+
+const itemCounts: Record<CountedFeature, (pack: (typeof contentPacks)[number]) => number> = {
+  spellingErrors: pack => pack.spelling.length,
+  phonemeErrors: pack => phonemeCount(pack.phonemes)
+};
+
+const shares = [0, 0.5];
+const failures: string[] = [];
+
+builtInProfiles.forEach(profile => {
+  (Object.keys(itemCounts) as CountedFeature[]).forEach(feature => {
+    const rule = getRule(profile, feature);
+    shares.forEach(share => {
+      const levels = contentPacks.map(pack => {
+        const items = itemCounts[feature](pack);
+        const value = scaleErrors(items * share, items, referenceItems(profile, feature));
+        return { pack: pack.id, items, value, level: getRiskLevel(value, rule) };
+      });
+      if (new Set(levels.map(l => l.level)).size > 1) {
+        failures.push(
+          `${profile.id} ${feature} at ${share * 100}% wrong: `
+          + levels.map(l => `${l.pack} (${l.items} items) -> ${l.value} ${l.level}`).join(', ')
+        );
+      }
+    });
+  });
+});
+
+if (failures.length > 0) {
+  console.error(failures.join('\n'));
+  process.exit(1);
+}
+console.log(`content packs: ${contentPacks.length} packs score alike under ${builtInProfiles.length} profiles`);
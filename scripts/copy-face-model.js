@@ -0,0 +1,19 @@
+// Copies the MediaPipe face mesh solution (wasm runtime and the face mesh
+// model with iris landmarks) from the @mediapipe/face_mesh package into
+// public/models/face_mesh, so the webcam gaze mode loads it from the app
+// itself and works offline. Runs before `npm run dev` and `npm run build`.
+import { copyFile, mkdir, readdir } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+const packageDir = dirname(require.resolve('@mediapipe/face_mesh/package.json'));
+const outDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'models', 'face_mesh');
+
+const assets = (await readdir(packageDir)).filter(name => /\.(binarypb|data|js|wasm)$/.test(name));
+await mkdir(outDir, { recursive: true });
+for (const name of assets) {
+  await copyFile(join(packageDir, name), join(outDir, name));
+}
+console.log(`face mesh: ${assets.length} file(s) copied to ${outDir}`);
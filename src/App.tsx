@@ -1,5 +1,5 @@
-import React, { useState, useCallback } from 'react';
-import * as tf from '@tensorflow/tfjs';
+import React, { useState, useEffect, useRef } from 'react';
+import { flushSync } from 'react-dom';
 import { Bar, Radar, Doughnut } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
@@ -14,7 +14,91 @@ import {
   LineElement,
   ArcElement
 } from 'chart.js';
-import { Brain, Upload, FileSpreadsheet, UserSquare2, AlertTriangle } from 'lucide-react';
+import { Brain, FileSpreadsheet, UserSquare2, AlertTriangle, Users, Settings2, History, Save, BarChart3, GraduationCap, ClipboardList, Eye, Camera, BookOpen, Accessibility, Lock, ShieldCheck } from 'lucide-react';
+import { AnalysisResult, CohortRow, Engine, FormDataType, Measurements, ModelPrediction } from './types';
+import { ImportedRow } from './lib/importer';
+import { isComplete, validateMeasurements } from './lib/validation';
+import { CohortDataset } from './lib/cohortStats';
+import { loadPredictionModel, PredictionModel } from './lib/model';
+import { loadTrainedModel } from './lib/training';
+import {
+  analyzeData,
+  builtInProfiles,
+  defaultOperatingPoint,
+  defaultProfile,
+  featureKeys,
+  OperatingPoint,
+  profileForLanguage,
+  riskDetailKeys,
+  ScoringProfile
+} from './lib/scoring';
+import { Calibration, calibratedProbability } from './lib/calibration';
+import { CaptureQuality } from './lib/webcamGaze';
+import { scoreRows } from './lib/scoringService';
+import {
+  addAssessment,
+  clearStudents,
+  ConsentRecord,
+  createId,
+  createStudent,
+  deleteStudent,
+  listStudents,
+  saveStudent,
+  StudentRecord,
+  today
+} from './lib/studentStore';
+import { AuditAction, AuditEntry, clearAuditLog, listAuditLog, logAccess } from './lib/auditLog';
+import { deidentifyStudents, DeidentifyOptions } from './lib/deidentify';
+import { lockVault, resetVault } from './lib/vault';
+import { downloadFile } from './lib/download';
+import { explainResult } from './lib/explain';
+import { ageForGradeBand, buildPlan, InterventionLibrary, localizeLibrary } from './lib/interventions';
+import { ChartImage, ReportData, saveReportPDF } from './lib/report';
+import { AccessibilitySettings, applyAccessibilitySettings } from './lib/accessibility';
+import { browserLocale, defaultLocale, findLocale, MessageKey, MessageParams, translate } from './lib/i18n';
+import {
+  loadAccessibilitySettings,
+  loadActiveProfileId,
+  clearVaultReset,
+  loadCalibrations,
+  loadCustomProfiles,
+  loadInterventionLibrary,
+  loadLanguage,
+  loadOperatingPoints,
+  loadVaultReset,
+  resetInterventionLibrary,
+  saveAccessibilitySettings,
+  saveActiveProfileId,
+  saveCalibrations,
+  saveCustomProfiles,
+  saveInterventionLibrary,
+  saveLanguage,
+  saveOperatingPoints
+} from './lib/profileStore';
+import CohortTable from './components/CohortTable';
+import EngineComparison from './components/EngineComparison';
+import ProfileEditor from './components/ProfileEditor';
+import StudentRecords from './components/StudentRecords';
+import SaveAssessment from './components/SaveAssessment';
+import ExplanationPanel from './components/ExplanationPanel';
+import ReportActions, { ReportFormat } from './components/ReportActions';
+import PrintableReport from './components/PrintableReport';
+import ImportWizard from './components/ImportWizard';
+import MeasurementForm from './components/MeasurementForm';
+import AssessmentModules from './components/AssessmentModules';
+import GazeImport from './components/GazeImport';
+import WebcamGaze from './components/WebcamGaze';
+import CohortDashboard from './components/CohortDashboard';
+import TrainingPanel from './components/TrainingPanel';
+import DecisionPanel from './components/DecisionPanel';
+import InterventionPlanPanel from './components/InterventionPlanPanel';
+import InterventionLibraryEditor from './components/InterventionLibraryEditor';
+import AccessibilityPanel from './components/AccessibilityPanel';
+import ChartDataTable from './components/ChartDataTable';
+import ReadAloud, { SpeechContext } from './components/ReadAloud';
+import LanguageSelect, { I18nContext } from './components/LanguageSelect';
+import VaultGate from './components/VaultGate';
+import PrivacyPanel from './components/PrivacyPanel';
 
 ChartJS.register(
   CategoryScale,
@@ -29,15 +113,6 @@ ChartJS.register(
   ArcElement
 );
 
-interface FormDataType {
-  readingSpeed: number;
-  fixationDuration: number;
-  saccadeLength: number;
-  phonemeErrors: number;
-  spellingErrors: number;
-  comprehensionScore: number;
-}
-
 const initialFormData: FormDataType = {
   readingSpeed: 60,
   fixationDuration: 350,
@@ -47,163 +122,427 @@ const initialFormData: FormDataType = {
   comprehensionScore: 70
 };
 
+type Tab = 'input' | 'results' | 'cohort' | 'analytics' | 'students' | 'profiles' | 'training' | 'interventions' | 'privacy';
+
 function App() {
-  const [formData, setFormData] = useState<FormDataType>(initialFormData);
-  const [result, setResult] = useState<any>(null);
-  const [activeTab, setActiveTab] = useState('input');
-  const [inputMethod, setInputMethod] = useState<'manual' | 'csv'>('manual');
-  const [csvError, setCsvError] = useState<string | null>(null);
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({
-      ...prev,
-      [name]: Number(value)
-    }));
+  const [formData, setFormData] = useState<Measurements>(initialFormData);
+  const [result, setResult] = useState<AnalysisResult | null>(null);
+  // The measurements and profile `result` was scored with; the form and the
+  // active profile may have changed since.
+  const [analyzedData, setAnalyzedData] = useState<Measurements | null>(null);
+  const [analyzedProfile, setAnalyzedProfile] = useState<ScoringProfile | null>(null);
+  const [modelResult, setModelResult] = useState<ModelPrediction | null>(null);
+  // Quality of the webcam capture behind the form's gaze measurements, and of
+  // the one behind the displayed result.
+  const [gazeQuality, setGazeQuality] = useState<CaptureQuality | null>(null);
+  const [resultGazeQuality, setResultGazeQuality] = useState<CaptureQuality | null>(null);
+  const [cohort, setCohort] = useState<CohortRow[]>([]);
+  const [cohortDatasets, setCohortDatasets] = useState<CohortDataset[]>([]);
+  const [cohortProfile, setCohortProfile] = useState<ScoringProfile | null>(null);
+  const [model, setModel] = useState<PredictionModel | null>(null);
+  const [modelError, setModelError] = useState<string | null>(null);
+  // No artifact exported and none trained in the browser.
+  const [modelMissing, setModelMissing] = useState(false);
+  const [hasTrainedModel, setHasTrainedModel] = useState(false);
+  const [engine, setEngine] = useState<Engine>('heuristic');
+  const [language, setLanguage] = useState<string>(() => findLocale(loadLanguage())?.code ?? browserLocale().code);
+  const [customProfiles, setCustomProfiles] = useState<ScoringProfile[]>(loadCustomProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string>(() => loadActiveProfileId() ?? profileForLanguage(language).id);
+  const [calibrations, setCalibrations] = useState<Record<string, Calibration>>(loadCalibrations);
+  const [operatingPoints, setOperatingPoints] = useState<Record<string, OperatingPoint>>(loadOperatingPoints);
+  const [interventionLibrary, setInterventionLibrary] = useState<InterventionLibrary>(loadInterventionLibrary);
+  // Age typed on the plan; until then it follows the profile's grade band.
+  const [planAge, setPlanAge] = useState<number | null | undefined>(undefined);
+  const [accessibility, setAccessibility] = useState<AccessibilitySettings>(loadAccessibilitySettings);
+  const [showAccessibility, setShowAccessibility] = useState(false);
+
+  const [reportStudentId, setReportStudentId] = useState('');
+  const [report, setReport] = useState<ReportData | null>(null);
+  const radarRef = useRef<ChartJS<'radar'>>(null);
+  const doughnutRef = useRef<ChartJS<'doughnut'>>(null);
+  const [students, setStudents] = useState<StudentRecord[]>([]);
+  const [selectedStudentId, setSelectedStudentId] = useState<string | null>(null);
+  const [studentError, setStudentError] = useState<string | null>(null);
+  // Who unlocked the student records; null while they are locked.
+  const [actor, setActor] = useState<string | null>(null);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+
+  const profiles = [...builtInProfiles, ...customProfiles];
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? defaultProfile;
+  const activeCalibration = calibrations[activeProfile.id] ?? null;
+  const activeOperatingPoint = operatingPoints[activeProfile.id] ?? defaultOperatingPoint;
+  const resultProfile = analyzedProfile ?? activeProfile;
+  const resultCalibration = calibrations[resultProfile.id] ?? null;
+  const resultOperatingPoint = operatingPoints[resultProfile.id] ?? defaultOperatingPoint;
+  const locale = findLocale(language) ?? defaultLocale;
+  const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+  const [activeTab, setActiveTab] = useState<Tab>('input');
+  const [inputMethod, setInputMethod] = useState<'manual' | 'tests' | 'gaze' | 'webcam' | 'csv'>('manual');
+
+  // A model trained in the browser takes precedence over the shipped artifact.
+  const loadModel = async () => {
+    const trained = await loadTrainedModel().catch(() => null);
+    setHasTrainedModel(trained !== null);
+    const loaded = trained ?? await loadPredictionModel();
+    setModelMissing(loaded === null);
+    return loaded;
   };
 
-  const handleCSVUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    setCsvError(null);
+  useEffect(() => {
+    let cancelled = false;
+    loadModel()
+      .then(loaded => {
+        if (!cancelled) setModel(loaded);
+      })
+      .catch(error => {
+        if (!cancelled) setModelError(error instanceof Error ? error.message : t('error.loadModel'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    applyAccessibilitySettings(accessibility);
+  }, [accessibility]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale.code;
+  }, [locale.code]);
 
-    if (file) {
+  useEffect(() => {
+    if (!actor) return;
+    Promise.all([listStudents(), listAuditLog()])
+      .then(([loaded, log]) => {
+        setStudents(loaded);
+        setAuditLog(log);
+      })
+      .catch(error => setStudentError(error instanceof Error ? error.message : t('error.loadStudents')));
+  }, [actor]);
+
+  // Logging must not block the action it records, but a failure is shown.
+  const audit = (action: AuditAction, logged: StudentRecord[], detail?: string) => {
+    if (!actor) return;
+    logAccess(actor, action, logged, detail)
+      .then(entry => setAuditLog(prev => [entry, ...prev]))
+      .catch(error => setStudentError(error instanceof Error ? error.message : t('error.auditLog')));
+  };
+
+  // A reset happens while locked, so it is logged by whoever sets the new
+  // passphrase, before the log is first read.
+  const handleUnlocked = async (name: string) => {
+    const resetAt = loadVaultReset();
+    if (resetAt) {
       try {
-        const text = await file.text();
-        const lines = text.trim().split('\n');
-        
-        if (lines.length < 2) {
-          throw new Error('CSV file must contain a header row and at least one data row');
-        }
-
-        const header = lines[0].toLowerCase().split(',');
-        const data = lines[1].split(',');
-
-        const expectedHeaders = [
-          'reading speed',
-          'fixation duration',
-          'saccade length',
-          'phoneme errors',
-          'spelling errors',
-          'comprehension score'
-        ];
-
-        // Validate headers
-        const isValidFormat = expectedHeaders.every(h => 
-          header.some(csvHeader => csvHeader.trim() === h)
-        );
-
-        if (!isValidFormat) {
-          throw new Error('Invalid CSV format. Please ensure the headers match the required format.');
-        }
-
-        // Map CSV data to form data
-        const newFormData = {
-          readingSpeed: Number(data[header.indexOf('reading speed')]) || initialFormData.readingSpeed,
-          fixationDuration: Number(data[header.indexOf('fixation duration')]) || initialFormData.fixationDuration,
-          saccadeLength: Number(data[header.indexOf('saccade length')]) || initialFormData.saccadeLength,
-          phonemeErrors: Number(data[header.indexOf('phoneme errors')]) || initialFormData.phonemeErrors,
-          spellingErrors: Number(data[header.indexOf('spelling errors')]) || initialFormData.spellingErrors,
-          comprehensionScore: Number(data[header.indexOf('comprehension score')]) || initialFormData.comprehensionScore
-        };
-
-        // Validate numbers
-        Object.entries(newFormData).forEach(([key, value]) => {
-          if (isNaN(value)) {
-            throw new Error(`Invalid number in ${key.replace(/([A-Z])/g, ' $1').toLowerCase()}`);
-          }
-        });
-
-        setFormData(newFormData);
-        // Automatically analyze after successful CSV upload
-        const predictionResult = await analyzeData(newFormData);
-        setResult(predictionResult);
-        setActiveTab('results');
+        await logAccess(name, 'reset', [], t('auditDetail.reset', { at: new Date(resetAt).toLocaleString(locale.code) }));
+        clearVaultReset();
       } catch (error) {
-        setCsvError(error instanceof Error ? error.message : 'Error processing CSV file');
+        setStudentError(error instanceof Error ? error.message : t('error.auditLog'));
       }
     }
+    setActor(name);
   };
 
-  const analyzeData = useCallback(async (dataToAnalyze: FormDataType = formData) => {
-    const features = [
-      dataToAnalyze.readingSpeed,
-      dataToAnalyze.fixationDuration,
-      dataToAnalyze.saccadeLength,
-      dataToAnalyze.phonemeErrors,
-      dataToAnalyze.spellingErrors,
-      dataToAnalyze.comprehensionScore
-    ];
-
-    let riskScore = 0;
-    const weights = [0.25, 0.15, 0.15, 0.20, 0.15, 0.10];
-    
-    const thresholds = {
-      readingSpeed: { low: 50, high: 80 },
-      fixationDuration: { low: 300, high: 400 },
-      saccadeLength: { low: 20, high: 35 },
-      phonemeErrors: { low: 8, high: 12 },
-      spellingErrors: { low: 5, high: 10 },
-      comprehensionScore: { low: 60, high: 80 }
-    };
+  const handleLock = () => {
+    lockVault();
+    setActor(null);
+    setStudents([]);
+    setAuditLog([]);
+    setSelectedStudentId(null);
+    setReport(null);
+  };
 
-    features.forEach((value, index) => {
-      const weight = weights[index];
-      let score = 0;
-      
-      switch(index) {
-        case 0:
-          score = value < thresholds.readingSpeed.low ? 2 : value < thresholds.readingSpeed.high ? 1 : 0;
-          break;
-        case 1:
-          score = value > thresholds.fixationDuration.high ? 2 : value > thresholds.fixationDuration.low ? 1 : 0;
-          break;
-        case 2:
-          score = value < thresholds.saccadeLength.low ? 2 : value < thresholds.saccadeLength.high ? 1 : 0;
-          break;
-        case 3:
-          score = value > thresholds.phonemeErrors.high ? 2 : value > thresholds.phonemeErrors.low ? 1 : 0;
-          break;
-        case 4:
-          score = value > thresholds.spellingErrors.high ? 2 : value > thresholds.spellingErrors.low ? 1 : 0;
-          break;
-        case 5:
-          score = value < thresholds.comprehensionScore.low ? 2 : value < thresholds.comprehensionScore.high ? 1 : 0;
-          break;
-      }
-      
-      riskScore += score * weight;
-    });
-
-    const normalizedScore = (riskScore / 2) * 10;
-
-    return {
-      prediction: normalizedScore >= 5 ? 1 : 0,
-      riskScore: normalizedScore,
-      confidence: (1 - Math.abs(5 - normalizedScore) / 5) * 100,
-      details: {
-        readingSpeedRisk: features[0] < thresholds.readingSpeed.low ? 'High' : features[0] < thresholds.readingSpeed.high ? 'Medium' : 'Low',
-        fixationRisk: features[1] > thresholds.fixationDuration.high ? 'High' : features[1] > thresholds.fixationDuration.low ? 'Medium' : 'Low',
-        saccadeRisk: features[2] < thresholds.saccadeLength.low ? 'High' : features[2] < thresholds.saccadeLength.high ? 'Medium' : 'Low',
-        phonemeRisk: features[3] > thresholds.phonemeErrors.high ? 'High' : features[3] > thresholds.phonemeErrors.low ? 'Medium' : 'Low',
-        spellingRisk: features[4] > thresholds.spellingErrors.high ? 'High' : features[4] > thresholds.spellingErrors.low ? 'Medium' : 'Low',
-        comprehensionRisk: features[5] < thresholds.comprehensionScore.low ? 'High' : features[5] < thresholds.comprehensionScore.high ? 'Medium' : 'Low'
+  // The audit log is sealed under the forgotten passphrase too, so it is
+  // deleted with the records; handleUnlocked records the reset in the new one.
+  // Errors are rethrown for the passphrase form to show as well.
+  const handleResetVault = async () => {
+    setStudentError(null);
+    try {
+      await clearStudents();
+      await clearAuditLog();
+      resetVault();
+    } catch (error) {
+      setStudentError(error instanceof Error ? error.message : t('vault.resetFailed'));
+      throw error;
+    }
+    setStudents([]);
+    setAuditLog([]);
+    setSelectedStudentId(null);
+  };
+
+  const storeStudent = async (student: StudentRecord) => {
+    const saved = await saveStudent(student);
+    setStudents(prev => [...prev.filter(s => s.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+    return saved;
+  };
+
+  const handleCreateStudent = async (name: string, consent: ConsentRecord) => {
+    const saved = await storeStudent(createStudent(name, consent));
+    setSelectedStudentId(saved.id);
+    audit('create', [saved]);
+  };
+
+  const handleRecordConsent = async (id: string, consent: ConsentRecord) => {
+    const student = students.find(s => s.id === id);
+    if (!student) throw new Error('Student not found');
+    const saved = await storeStudent({ ...student, consent });
+    audit('update', [saved], t('auditDetail.consent'));
+  };
+
+  const handleSelectStudent = (id: string) => {
+    setSelectedStudentId(id);
+    const student = students.find(s => s.id === id);
+    if (student) audit('view', [student]);
+  };
+
+  const handleModelSaved = (trained: PredictionModel) => {
+    setModel(trained);
+    setModelError(null);
+    setModelMissing(false);
+    setHasTrainedModel(true);
+  };
+
+  const handleModelDeleted = () => {
+    setModel(null);
+    loadModel()
+      .then(setModel)
+      .catch(error => setModelError(error instanceof Error ? error.message : t('error.loadModel')));
+  };
+
+  const handleDeleteStudent = async (id: string) => {
+    const student = students.find(s => s.id === id);
+    await deleteStudent(id);
+    if (student) audit('delete', [student]);
+    setStudents(prev => prev.filter(s => s.id !== id));
+    setSelectedStudentId(null);
+  };
+
+  const handleSaveAssessment = async (
+    target: { studentId: string } | { newName: string; consent: ConsentRecord },
+    date: string
+  ) => {
+    if (!result || !analyzedData) return null;
+    const student = 'studentId' in target
+      ? students.find(s => s.id === target.studentId)
+      : createStudent(target.newName, target.consent);
+    if (!student) throw new Error('Student not found');
+    // Dated with the assessment so goals and review dates count from it.
+    const savedPlan = planFor(date);
+    const saved = await storeStudent(addAssessment(student, {
+      date,
+      data: analyzedData,
+      result,
+      profileId: resultProfile.id,
+      ...(savedPlan ? { plan: savedPlan } : {})
+    }));
+    setSelectedStudentId(saved.id);
+    setReportStudentId(saved.name);
+    audit('studentId' in target ? 'update' : 'create', [saved], t('auditDetail.assessment', { date }));
+    return saved.id;
+  };
+
+  // Saves every scored cohort row that carries a student ID, matching existing
+  // records by name so repeated termly uploads build up each student's history.
+  // Only students already on record with guardian consent can be saved.
+  const handleSaveCohort = async () => {
+    const date = today();
+    const byName = new Map(students.map(s => [s.name.toLowerCase(), s]));
+    const saved: StudentRecord[] = [];
+    const skipped: string[] = [];
+    for (const row of cohort) {
+      if (!cohortProfile || !row.studentId || !row.data || !row.result) continue;
+      const student = byName.get(row.studentId.toLowerCase());
+      if (!student?.consent) {
+        skipped.push(row.studentId);
+        continue;
       }
+      const updated = await storeStudent(addAssessment(student, {
+        date,
+        data: row.data,
+        result: row.result,
+        profileId: cohortProfile.id
+      }));
+      byName.set(updated.name.toLowerCase(), updated);
+      saved.push(updated);
+    }
+    if (saved.length > 0) audit('update', saved, t('auditDetail.cohort', { date }));
+    setStudentError(
+      skipped.length > 0 ? t('cohort.skipped', { names: skipped.join(', ') })
+        : saved.length === 0 ? t('error.noStudentRows')
+          : null
+    );
+  };
+
+  // Only students whose guardian agreed to research sharing are exported.
+  const handleExportDeidentified = async (options: DeidentifyOptions) => {
+    const exported = await deidentifyStudents(students, options);
+    downloadFile(exported.csv, `deidentified-${today()}.csv`, 'text/csv');
+    audit(
+      'export',
+      students.filter(student => student.consent?.research),
+      t('auditDetail.deidentified', { count: exported.assessments })
+    );
+    return exported;
+  };
+
+  // A named report can only be made while unlocked, so that it is logged.
+  const handleExportReport = (format: ReportFormat, studentId: string, date: string) => {
+    if (!result || !analyzedData || (!actor && studentId.trim())) return;
+    const chartImages: ChartImage[] = [];
+    if (radarRef.current) {
+      chartImages.push({ title: t('results.riskAnalysis'), dataUrl: radarRef.current.toBase64Image() });
+    }
+    if (doughnutRef.current) {
+      chartImages.push({ title: t('results.overallRiskScore'), dataUrl: doughnutRef.current.toBase64Image() });
+    }
+    const nextReport: ReportData = {
+      locale,
+      studentId,
+      date,
+      profileName: resultProfile.name,
+      measurements: analyzedData,
+      result,
+      modelResult,
+      calibrated: resultCalibration ? calibratedProbability(resultCalibration, result) : null,
+      plan,
+      chartImages
     };
-  }, [formData]);
+    const student = students.find(s => s.name.toLowerCase() === studentId.trim().toLowerCase());
+    audit('report', student ? [student] : [], t(`auditDetail.${format}`, { student: studentId }));
+
+    if (format === 'pdf') {
+      saveReportPDF(nextReport);
+      return;
+    }
+    // Render the print layout synchronously so it is in the DOM before the
+    // browser's print dialog snapshots the page.
+    flushSync(() => setReport(nextReport));
+    window.print();
+  };
+
+  const handleSelectProfile = (id: string) => {
+    setActiveProfileId(id);
+    saveActiveProfileId(id);
+  };
+
+  const handleSaveProfile = (profile: ScoringProfile) => {
+    const next = [...customProfiles.filter(p => p.id !== profile.id), profile];
+    setCustomProfiles(next);
+    saveCustomProfiles(next);
+    handleSelectProfile(profile.id);
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    const next = customProfiles.filter(p => p.id !== id);
+    setCustomProfiles(next);
+    saveCustomProfiles(next);
+    handleSelectProfile(defaultProfile.id);
+  };
+
+  const handleSaveInterventionLibrary = (library: InterventionLibrary) => {
+    setInterventionLibrary(library);
+    saveInterventionLibrary(library);
+  };
+
+  const handleResetInterventionLibrary = () => {
+    resetInterventionLibrary();
+    setInterventionLibrary(loadInterventionLibrary());
+  };
+
+  const handleAccessibilityChange = (settings: AccessibilitySettings) => {
+    setAccessibility(settings);
+    saveAccessibilitySettings(settings);
+  };
+
+  // A built-in profile follows the language to that language's norms for the
+  // same grade band; custom profiles are left as chosen.
+  const handleLanguageChange = (code: string) => {
+    setLanguage(code);
+    saveLanguage(code);
+    if (builtInProfiles.includes(activeProfile) && activeProfile.language !== code) {
+      handleSelectProfile(profileForLanguage(code, activeProfile.gradeBand).id);
+    }
+  };
+
+  const handleCalibrated = (calibration: Calibration) => {
+    const next = { ...calibrations, [calibration.profileId]: calibration };
+    setCalibrations(next);
+    saveCalibrations(next);
+  };
+
+  // Re-scores the result on screen so the decision follows the new cut-off.
+  const handleOperatingPointChange = (point: OperatingPoint) => {
+    const next = { ...operatingPoints, [resultProfile.id]: point };
+    setOperatingPoints(next);
+    saveOperatingPoints(next);
+    if (analyzedData) setResult(analyzeData(analyzedData, resultProfile, point));
+  };
+
+  const handleInputChange = (feature: keyof FormDataType, value: number | null) => {
+    if (feature === 'fixationDuration' || feature === 'saccadeLength') setGazeQuality(null);
+    setFormData(prev => ({
+      ...prev,
+      [feature]: value
+    }));
+  };
+
+  // Webcam captures carry a quality score so a low-quality one stays flagged
+  // on the result; tracker files and typed values clear it.
+  const handleGazeApply = (values: Partial<Measurements>, quality: CaptureQuality | null = null) => {
+    setFormData(prev => ({ ...prev, ...values }));
+    setGazeQuality(quality);
+  };
+
+  // Score every row; a row that failed to parse keeps its errors instead of
+  // rejecting the whole file.
+  const handleImport = async (importedRows: ImportedRow[], groupName: string) => {
+    const scored = scoreRows(importedRows, { profile: activeProfile, operatingPoint: activeOperatingPoint });
+    const rows: CohortRow[] = await Promise.all(scored.map(async row => ({
+      ...row,
+      modelResult: row.data && model && isComplete(row.data) ? await model.predict(row.data) : null
+    })));
+
+    setCohort(rows);
+    setCohortProfile(activeProfile);
+    // Every upload is kept for the session so groups can be compared.
+    setCohortDatasets(prev => [...prev, { id: createId(), name: groupName, rows, operatingPoint: activeOperatingPoint }]);
+    setActiveTab('cohort');
+  };
+
+  const handleViewCohortRow = (row: CohortRow) => {
+    if (!row.data || !row.result) return;
+    setFormData(row.data);
+    setAnalyzedData(row.data);
+    setAnalyzedProfile(cohortProfile);
+    setGazeQuality(null);
+    setResultGazeQuality(null);
+    setResult(row.result);
+    setModelResult(row.modelResult);
+    setReportStudentId(row.studentId);
+    setActiveTab('results');
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const predictionResult = await analyzeData();
-    setResult(predictionResult);
+    if (!validation.canScore) return;
+    setResult(analyzeData(formData, activeProfile, activeOperatingPoint));
+    setAnalyzedData(formData);
+    setAnalyzedProfile(activeProfile);
+    setResultGazeQuality(gazeQuality);
+    setModelResult(model && isComplete(formData) ? await model.predict(formData) : null);
     setActiveTab('results');
   };
 
+  const validation = validateMeasurements(formData, locale);
+
+  const featureNames = featureKeys.map(feature => t(`feature.${feature}`));
+
   const barChartData = {
-    labels: ['Reading Speed', 'Fixation Duration', 'Saccade Length', 'Phoneme Errors', 'Spelling Errors', 'Comprehension'],
+    labels: featureNames,
     datasets: [
       {
-        label: 'Current Values',
-        data: Object.values(formData),
+        label: t('chart.currentValues'),
+        data: featureKeys.map(feature => formData[feature]),
         backgroundColor: 'rgba(53, 162, 235, 0.5)',
         borderColor: 'rgb(53, 162, 235)',
         borderWidth: 1
@@ -212,11 +551,16 @@ function App() {
   };
 
   const radarChartData = {
-    labels: ['Reading Speed', 'Fixation Duration', 'Saccade Length', 'Phoneme Errors', 'Spelling Errors', 'Comprehension'],
+    labels: featureNames,
     datasets: [
       {
-        label: 'Risk Profile',
-        data: result ? Object.values(result.details).map(risk => risk === 'High' ? 3 : risk === 'Medium' ? 2 : 1) : [],
+        label: t('chart.riskProfile'),
+        data: result
+          ? featureKeys.map(feature => {
+            const risk = result.details[riskDetailKeys[feature]];
+            return risk === 'High' ? 3 : risk === 'Medium' ? 2 : risk === 'Low' ? 1 : 0;
+          })
+          : [],
         backgroundColor: 'rgba(255, 99, 132, 0.2)',
         borderColor: 'rgb(255, 99, 132)',
         pointBackgroundColor: 'rgb(255, 99, 132)',
@@ -228,7 +572,7 @@ function App() {
   };
 
   const doughnutChartData = {
-    labels: ['Risk Score', 'Safe Zone'],
+    labels: [t('chart.riskScore'), t('chart.safeZone')],
     datasets: [
       {
         data: result ? [result.riskScore, 10 - result.riskScore] : [0, 10],
@@ -245,235 +589,439 @@ function App() {
     ]
   };
 
-  return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50 py-6 flex flex-col justify-center sm:py-12">
-      <div className="relative py-3 sm:max-w-4xl sm:mx-auto">
-        <div className="relative px-4 py-10 bg-white shadow-lg sm:rounded-3xl sm:p-20">
-          <div className="max-w-3xl mx-auto">
-            <div className="flex items-center justify-center mb-8">
-              <Brain className="w-10 h-10 text-blue-600 mr-3" />
-              <h1 className="text-3xl font-bold text-blue-600">Dyslexia Detection System</h1>
-            </div>
-            
-            <div className="flex mb-8 border-b">
-              <button
-                className={`flex items-center px-6 py-3 ${activeTab === 'input' ? 'border-b-2 border-blue-500 text-blue-600' : 'text-gray-500'}`}
-                onClick={() => setActiveTab('input')}
-              >
-                <UserSquare2 className="w-5 h-5 mr-2" />
-                Input Data
-              </button>
-              <button
-                className={`flex items-center px-6 py-3 ${activeTab === 'results' ? 'border-b-2 border-blue-500 text-blue-600' : 'text-gray-500'}`}
-                onClick={() => setActiveTab('results')}
-                disabled={!result}
-              >
-                <Brain className="w-5 h-5 mr-2" />
-                Results
-              </button>
-            </div>
+  // The headline prediction follows the selected engine; the heuristic result
+  // still drives the per-feature breakdown since the model has no such notion.
+  const explanation = result && analyzedData ? explainResult(analyzedData, resultProfile, resultOperatingPoint, locale) : null;
+  // The model has no indeterminate band; only the heuristic can defer to a retest.
+  const activeDecision = engine === 'model' && modelResult
+    ? (modelResult.prediction === 1 ? 'risk' : 'low')
+    : result?.decision;
 
-            {activeTab === 'input' && (
-              <div className="space-y-6">
-                <div className="flex space-x-4 mb-6">
-                  <button
-                    className={`flex-1 py-2 px-4 rounded-lg flex items-center justify-center ${
-                      inputMethod === 'manual' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600'
-                    }`}
-                    onClick={() => setInputMethod('manual')}
-                  >
-                    <UserSquare2 className="w-5 h-5 mr-2" />
-                    Manual Input
-                  </button>
+  const tabs: { id: Tab; label: string; icon: typeof Brain; disabled?: boolean }[] = [
+    { id: 'input', label: t('tab.input'), icon: UserSquare2 },
+    { id: 'results', label: t('tab.results'), icon: Brain, disabled: !result },
+    { id: 'cohort', label: t('tab.cohort'), icon: Users, disabled: cohort.length === 0 },
+    { id: 'analytics', label: t('tab.analytics'), icon: BarChart3, disabled: cohortDatasets.length === 0 },
+    { id: 'students', label: t('tab.students'), icon: History },
+    { id: 'profiles', label: t('tab.profiles'), icon: Settings2 },
+    { id: 'training', label: t('tab.training'), icon: GraduationCap },
+    { id: 'interventions', label: t('tab.interventions'), icon: BookOpen },
+    { id: 'privacy', label: t('tab.privacy'), icon: ShieldCheck }
+  ];
+
+  // Arrow keys, Home and End move between the enabled tabs (WAI-ARIA tabs pattern).
+  const handleTabKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    const enabled = tabs.filter(tab => !tab.disabled);
+    const index = enabled.findIndex(tab => tab.id === activeTab);
+    const target =
+      e.key === 'ArrowRight' ? enabled[(index + 1) % enabled.length] :
+      e.key === 'ArrowLeft' ? enabled[(index - 1 + enabled.length) % enabled.length] :
+      e.key === 'Home' ? enabled[0] :
+      e.key === 'End' ? enabled[enabled.length - 1] :
+      null;
+    if (!target) return;
+    e.preventDefault();
+    setActiveTab(target.id);
+    document.getElementById(`tab-${target.id}`)?.focus();
+  };
+
+  // The plan's rules see the headline decision and the heuristic's per-feature levels.
+  const planFor = (createdAt: string) => result && analyzedData && activeDecision
+    ? buildPlan(
+      analyzedData,
+      { ...result, decision: activeDecision },
+      localizeLibrary(interventionLibrary, locale),
+      planAge === undefined ? ageForGradeBand(resultProfile.gradeBand) : planAge,
+      createdAt
+    )
+    : null;
+  const plan = planFor(today());
+
+  const languageSelect = <LanguageSelect value={locale.code} onChange={handleLanguageChange} />;
+
+  // Only the Students and Privacy tabs and saving results need the records,
+  // so the passphrase is asked for there rather than on opening the app.
+  const vaultGate = <VaultGate onUnlocked={handleUnlocked} onReset={handleResetVault} />;
+
+  return (
+    <I18nContext.Provider value={locale}>
+      <SpeechContext.Provider value={accessibility.speech ? { rate: accessibility.speechRate } : null}>
+        <div className="min-h-screen print:hidden bg-gradient-to-br from-blue-50 to-indigo-50 py-6 flex flex-col justify-center sm:py-12">
+          <div className="relative py-3 sm:max-w-4xl sm:mx-auto">
+            <div className="relative px-4 py-10 bg-white shadow-lg sm:rounded-3xl sm:p-20">
+              <div className="max-w-3xl mx-auto">
+                <div className="flex items-center justify-center mb-8">
+                  <Brain className="w-10 h-10 text-blue-600 mr-3" aria-hidden="true" />
+                  <h1 className="text-3xl font-bold text-blue-600">{t('app.title')}</h1>
                   <button
-                    className={`flex-1 py-2 px-4 rounded-lg flex items-center justify-center ${
-                      inputMethod === 'csv' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600'
-                    }`}
-                    onClick={() => setInputMethod('csv')}
+                    type="button"
+                    className={`ml-4 p-2 rounded-lg ${showAccessibility ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600'}`}
+                    aria-label={t('app.readingSettings')}
+                    title={t('app.readingSettings')}
+                    aria-expanded={showAccessibility}
+                    aria-controls="reading-settings"
+                    onClick={() => setShowAccessibility(prev => !prev)}
                   >
-                    <FileSpreadsheet className="w-5 h-5 mr-2" />
-                    CSV Upload
+                    <Accessibility className="w-5 h-5" aria-hidden="true" />
                   </button>
+                  <div className="ml-2">{languageSelect}</div>
+                  {actor && (
+                    <button
+                      type="button"
+                      className="ml-2 p-2 rounded-lg bg-gray-100 text-gray-600"
+                      aria-label={t('app.lock')}
+                      title={t('app.lock')}
+                      onClick={handleLock}
+                    >
+                      <Lock className="w-5 h-5" aria-hidden="true" />
+                    </button>
+                  )}
                 </div>
 
-                {inputMethod === 'csv' ? (
-                  <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
-                    <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-                    <label className="block">
-                      <span className="sr-only">Choose CSV file</span>
-                      <input
-                        type="file"
-                        className="block w-full text-sm text-gray-500
-                          file:mr-4 file:py-2 file:px-4
-                          file:rounded-full file:border-0
-                          file:text-sm file:font-semibold
-                          file:bg-blue-50 file:text-blue-700
-                          hover:file:bg-blue-100"
-                        accept=".csv"
-                        onChange={handleCSVUpload}
-                      />
-                    </label>
-                    <p className="text-sm text-gray-500 mt-2">Upload a CSV file with the required measurements</p>
-                    {csvError && (
-                      <div className="mt-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
-                        {csvError}
-                      </div>
-                    )}
-                    <div className="mt-4 text-sm text-gray-600">
-                      <p className="font-medium">Required CSV format:</p>
-                      <code className="block bg-gray-50 p-2 mt-2 rounded text-left">
-                        reading speed,fixation duration,saccade length,phoneme errors,spelling errors,comprehension score<br/>
-                        60,350,30,10,7,70
-                      </code>
-                    </div>
-                  </div>
-                ) : (
-                  <form onSubmit={handleSubmit} className="space-y-4">
-                    {Object.entries(formData).map(([key, value]) => (
-                      <div key={key} className="relative">
-                        <label className="block text-sm font-medium text-gray-700">
-                          {key.replace(/([A-Z])/g, ' $1').trim()}
-                        </label>
-                        <div className="flex items-center space-x-4">
-                          <input
-                            type="range"
-                            name={key}
-                            value={value}
-                            onChange={handleInputChange}
-                            className="flex-grow h-2 bg-blue-100 rounded-lg appearance-none cursor-pointer"
-                            min={0}
-                            max={key === 'comprehensionScore' ? 100 : 500}
-                          />
-                          <span className="w-12 text-sm text-gray-500">{value}</span>
-                        </div>
-                      </div>
-                    ))}
+                {showAccessibility && (
+                  <AccessibilityPanel id="reading-settings" settings={accessibility} onChange={handleAccessibilityChange} />
+                )}
+              
+                <div role="tablist" aria-label={t('app.sections')} className="flex mb-8 border-b overflow-x-auto">
+                  {tabs.map(({ id, label, icon: Icon, disabled }) => (
                     <button
-                      type="submit"
-                      className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                      key={id}
+                      id={`tab-${id}`}
+                      role="tab"
+                      aria-selected={activeTab === id}
+                      aria-controls="tab-panel"
+                      tabIndex={activeTab === id ? 0 : -1}
+                      className={`flex items-center px-6 py-3 ${activeTab === id ? 'border-b-2 border-blue-500 text-blue-600' : 'text-gray-500'}`}
+                      onClick={() => setActiveTab(id)}
+                      onKeyDown={handleTabKeyDown}
+                      disabled={disabled}
                     >
-                      <Brain className="w-5 h-5 mr-2" />
-                      Analyze Data
+                      <Icon className="w-5 h-5 mr-2" aria-hidden="true" />
+                      {label}
                     </button>
-                  </form>
-                )}
+                  ))}
+                </div>
 
-                {inputMethod === 'manual' && (
-                  <div className="mt-8">
-                    <h2 className="text-xl font-semibold mb-4">Current Measurements</h2>
-                    <Bar data={barChartData} options={{
-                      responsive: true,
-                      plugins: {
-                        legend: {
-                          position: 'top' as const,
-                        },
-                        title: {
-                          display: true,
-                          text: 'Measurement Values'
-                        }
-                      }
-                    }} />
-                  </div>
-                )}
-              </div>
-            )}
-
-            {activeTab === 'results' && result && (
-              <div className="space-y-8">
-                <div className={`p-6 rounded-lg ${result.prediction === 1 ? 'bg-red-50' : 'bg-green-50'}`}>
-                  <div className="flex items-center justify-between mb-4">
-                    <h2 className="text-2xl font-bold">
-                      {result.prediction === 1 ? 'Dyslexia Risk Detected' : 'Low Dyslexia Risk'}
-                    </h2>
-                    <AlertTriangle className={`w-8 h-8 ${result.prediction === 1 ? 'text-red-500' : 'text-green-500'}`} />
-                  </div>
-                  
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-                    <div>
-                      <h3 className="font-semibold mb-4">Risk Analysis</h3>
-                      <div className="h-64">
-                        <Radar data={radarChartData} options={{
-                          scales: {
-                            r: {
-                              beginAtZero: true,
-                              max: 3,
-                              ticks: {
-                                stepSize: 1
+                <div id="tab-panel" role="tabpanel" aria-labelledby={`tab-${activeTab}`}>
+                  {activeTab === 'input' && (
+                    <div className="space-y-6">
+                      <p className="text-sm text-gray-500">
+                        {t('input.profile')}: <span className="font-medium text-gray-700">{activeProfile.name}</span>
+                      </p>
+                      <div role="group" aria-label={t('input.method')} className="flex space-x-4 mb-6">
+                        <button
+                          className={`flex-1 py-2 px-4 rounded-lg flex items-center justify-center ${
+                            inputMethod === 'manual' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600'
+                          }`}
+                          onClick={() => setInputMethod('manual')}
+                          aria-pressed={inputMethod === 'manual'}
+                        >
+                          <UserSquare2 className="w-5 h-5 mr-2" />
+                          {t('input.manual')}
+                        </button>
+                        <button
+                          className={`flex-1 py-2 px-4 rounded-lg flex items-center justify-center ${
+                            inputMethod === 'tests' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600'
+                          }`}
+                          onClick={() => setInputMethod('tests')}
+                          aria-pressed={inputMethod === 'tests'}
+                        >
+                          <ClipboardList className="w-5 h-5 mr-2" />
+                          {t('input.tests')}
+                        </button>
+                        <button
+                          className={`flex-1 py-2 px-4 rounded-lg flex items-center justify-center ${
+                            inputMethod === 'gaze' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600'
+                          }`}
+                          onClick={() => setInputMethod('gaze')}
+                          aria-pressed={inputMethod === 'gaze'}
+                        >
+                          <Eye className="w-5 h-5 mr-2" />
+                          {t('input.gaze')}
+                        </button>
+                        <button
+                          className={`flex-1 py-2 px-4 rounded-lg flex items-center justify-center ${
+                            inputMethod === 'webcam' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600'
+                          }`}
+                          onClick={() => setInputMethod('webcam')}
+                          aria-pressed={inputMethod === 'webcam'}
+                        >
+                          <Camera className="w-5 h-5 mr-2" />
+                          {t('input.webcam')}
+                        </button>
+                        <button
+                          className={`flex-1 py-2 px-4 rounded-lg flex items-center justify-center ${
+                            inputMethod === 'csv' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600'
+                          }`}
+                          onClick={() => setInputMethod('csv')}
+                          aria-pressed={inputMethod === 'csv'}
+                        >
+                          <FileSpreadsheet className="w-5 h-5 mr-2" />
+                          {t('input.csv')}
+                        </button>
+                      </div>
+
+                      {inputMethod === 'csv' && <ImportWizard onImport={handleImport} />}
+                      {inputMethod === 'tests' && (
+                        <AssessmentModules language={locale.code} profile={activeProfile} onComplete={handleInputChange} />
+                      )}
+                      {inputMethod === 'gaze' && <GazeImport profile={activeProfile} onApply={values => handleGazeApply(values)} />}
+                      {inputMethod === 'webcam' && (
+                        <WebcamGaze language={locale.code} profile={activeProfile} onApply={handleGazeApply} />
+                      )}
+                      {inputMethod === 'manual' && (
+                        <MeasurementForm
+                          data={formData}
+                          validation={validation}
+                          defaults={initialFormData}
+                          onChange={handleInputChange}
+                          onSubmit={handleSubmit}
+                        />
+                      )}
+
+                      {inputMethod === 'manual' && (
+                        <div className="mt-8">
+                          <h2 className="text-xl font-semibold mb-4">{t('input.currentMeasurements')}</h2>
+                          <Bar data={barChartData} role="img" aria-label={t('chart.measurementsLabel')} options={{
+                            responsive: true,
+                            plugins: {
+                              legend: {
+                                position: 'top' as const,
+                              },
+                              title: {
+                                display: true,
+                                text: t('chart.measurementValues')
                               }
                             }
-                          }
-                        }} />
-                      </div>
+                          }} />
+                          <ChartDataTable caption={t('chart.measurementValues')} data={barChartData} />
+                        </div>
+                      )}
                     </div>
-                    
-                    <div>
-                      <h3 className="font-semibold mb-4">Overall Risk Score</h3>
-                      <div className="h-64">
-                        <Doughnut data={doughnutChartData} options={{
-                          circumference: 180,
-                          rotation: -90,
-                          plugins: {
-                            legend: {
-                              position: 'bottom'
-                            }
-                          }
-                        }} />
-                      </div>
-                      <div className="text-center mt-4">
-                        <p className="text-2xl font-bold">{result.riskScore.toFixed(1)}/10</p>
-                        <p className="text-sm text-gray-500">Risk Score</p>
-                      </div>
+                  )}
+
+                  {activeTab === 'profiles' && (
+                    <ProfileEditor
+                      profiles={profiles}
+                      builtInIds={builtInProfiles.map(profile => profile.id)}
+                      activeProfile={activeProfile}
+                      onSelect={handleSelectProfile}
+                      onSave={handleSaveProfile}
+                      onDelete={handleDeleteProfile}
+                    />
+                  )}
+
+                  {activeTab === 'training' && (
+                    <TrainingPanel
+                      activeModelName={model?.name ?? null}
+                      hasTrainedModel={hasTrainedModel}
+                      onModelSaved={handleModelSaved}
+                      onModelDeleted={handleModelDeleted}
+                      profile={activeProfile}
+                      calibration={activeCalibration}
+                      onCalibrated={handleCalibrated}
+                    />
+                  )}
+
+                  {activeTab === 'interventions' && (
+                    <InterventionLibraryEditor
+                      library={interventionLibrary}
+                      onSave={handleSaveInterventionLibrary}
+                      onReset={handleResetInterventionLibrary}
+                    />
+                  )}
+
+                  {activeTab === 'privacy' && (actor ? (
+                    <PrivacyPanel
+                      students={students}
+                      auditLog={auditLog}
+                      onExportDeidentified={handleExportDeidentified}
+                    />
+                  ) : vaultGate)}
+
+                  {studentError && (
+                    <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+                      {studentError}
                     </div>
-                  </div>
-
-                  <div className="mt-8">
-                    <h3 className="font-semibold mb-4">Detailed Analysis:</h3>
-                    <div className="grid grid-cols-2 gap-4">
-                      {Object.entries(result.details).map(([key, value]) => (
-                        <div key={key} className="bg-white rounded-lg p-4 shadow-sm">
-                          <span className="block text-sm text-gray-600">{key.replace(/([A-Z])/g, ' $1').trim()}</span>
-                          <span className={`inline-block mt-1 px-2 py-1 rounded-full text-sm ${
-                            value === 'High' ? 'bg-red-100 text-red-800' : 
-                            value === 'Medium' ? 'bg-yellow-100 text-yellow-800' : 
-                            'bg-green-100 text-green-800'
-                          }`}>
-                            {value}
-                          </span>
-                        </div>
-                      ))}
+                  )}
+
+                  {activeTab === 'analytics' && cohortDatasets.length > 0 && (
+                    <CohortDashboard datasets={cohortDatasets} />
+                  )}
+
+                  {activeTab === 'students' && (actor ? (
+                    <StudentRecords
+                      students={students}
+                      selectedId={selectedStudentId}
+                      actor={actor}
+                      onSelect={handleSelectStudent}
+                      onCreate={handleCreateStudent}
+                      onRecordConsent={handleRecordConsent}
+                      onDelete={handleDeleteStudent}
+                    />
+                  ) : vaultGate)}
+
+                  {activeTab === 'cohort' && cohort.length > 0 && (
+                    <div className="space-y-4">
+                      {actor ? (
+                        <button
+                          type="button"
+                          className="py-2 px-4 rounded-lg bg-gray-100 text-gray-600 text-sm flex items-center"
+                          onClick={handleSaveCohort}
+                        >
+                          <Save className="w-4 h-4 mr-2" />
+                          {t('cohort.save', { date: today() })}
+                        </button>
+                      ) : vaultGate}
+                      <CohortTable rows={cohort} onView={handleViewCohortRow} />
                     </div>
-                  </div>
-                </div>
+                  )}
 
-                {result.prediction === 1 && (
-                  <div className="bg-blue-50 rounded-lg p-6">
-                    <h3 className="font-semibold text-lg mb-4">Recommendations:</h3>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div className="bg-white p-4 rounded-lg shadow-sm">
-                        <h4 className="font-medium text-blue-600 mb-2">Immediate Actions</h4>
-                        <ul className="list-disc pl-5 space-y-2 text-sm">
-                          <li>Schedule a professional assessment</li>
-                          <li>Discuss concerns with educators</li>
-                          <li>Keep track of reading difficulties</li>
-                        </ul>
-                      </div>
-                      <div className="bg-white p-4 rounded-lg shadow-sm">
-                        <h4 className="font-medium text-blue-600 mb-2">Long-term Strategies</h4>
-                        <ul className="list-disc pl-5 space-y-2 text-sm">
-                          <li>Implement structured reading programs</li>
-                          <li>Use multi-sensory learning approaches</li>
-                          <li>Regular phonemic awareness exercises</li>
-                        </ul>
+                  {activeTab === 'results' && result && (
+                    <div className="space-y-8">
+                      <EngineComparison
+                        engine={engine}
+                        onEngineChange={setEngine}
+                        heuristic={result}
+                        model={modelResult}
+                        modelLoaded={model !== null}
+                        modelName={model?.name ?? null}
+                        modelError={modelError}
+                        modelMissing={modelMissing}
+                        calibrated={resultCalibration ? calibratedProbability(resultCalibration, result) : null}
+                      />
+
+                      <DecisionPanel
+                        result={result}
+                        calibration={resultCalibration}
+                        operatingPoint={resultOperatingPoint}
+                        onOperatingPointChange={handleOperatingPointChange}
+                      />
+
+                      <div className={`p-6 rounded-lg ${
+                        activeDecision === 'risk' ? 'bg-red-50' : activeDecision === 'indeterminate' ? 'bg-yellow-50' : 'bg-green-50'
+                      }`}>
+                        <div className="flex items-center justify-between mb-4">
+                          <ReadAloud
+                            text={t('results.spoken', {
+                              decision: activeDecision ? t(`decision.${activeDecision}`) : '',
+                              score: result.riskScore.toFixed(1)
+                            })}
+                          >
+                            <h2 className="text-2xl font-bold" aria-live="polite">
+                              {activeDecision && t(`decision.${activeDecision}`)}
+                            </h2>
+                          </ReadAloud>
+                          <AlertTriangle aria-hidden="true" className={`w-8 h-8 ${
+                            activeDecision === 'risk' ? 'text-red-500' : activeDecision === 'indeterminate' ? 'text-yellow-500' : 'text-green-500'
+                          }`} />
+                        </div>
+                    
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                          <div>
+                            <h3 className="font-semibold mb-4">{t('results.riskAnalysis')}</h3>
+                            <div className="h-64">
+                              <Radar ref={radarRef} data={radarChartData} role="img" aria-label={t('chart.riskProfileLabel')} options={{
+                                scales: {
+                                  r: {
+                                    beginAtZero: true,
+                                    max: 3,
+                                    ticks: {
+                                      stepSize: 1
+                                    }
+                                  }
+                                }
+                              }} />
+                            </div>
+                            <ChartDataTable caption={t('chart.riskProfileCaption')} data={radarChartData} />
+                          </div>
+                      
+                          <div>
+                            <h3 className="font-semibold mb-4">{t('results.overallRiskScore')}</h3>
+                            <div className="h-64">
+                              <Doughnut
+                                ref={doughnutRef}
+                                data={doughnutChartData}
+                                role="img"
+                                aria-label={t('chart.gaugeLabel', { score: result.riskScore.toFixed(1) })}
+                                options={{
+                                  circumference: 180,
+                                  rotation: -90,
+                                  plugins: {
+                                    legend: {
+                                      position: 'bottom'
+                                    }
+                                  }
+                                }}
+                              />
+                            </div>
+                            <ChartDataTable caption={t('chart.gaugeCaption')} data={doughnutChartData} />
+                            <div className="text-center mt-4">
+                              <p className="text-2xl font-bold">{result.riskScore.toFixed(1)}/10</p>
+                              <p className="text-sm text-gray-500">{t('results.riskScore')}</p>
+                              {result.missingFeatures.length > 0 && (
+                                <p className="text-sm text-yellow-700 mt-2">
+                                  {t('results.notMeasured', {
+                                    features: result.missingFeatures.map(feature => t(`feature.${feature}`)).join(', '),
+                                    margin: result.confidence.toFixed(0)
+                                  })}
+                                </p>
+                              )}
+                              {resultGazeQuality?.lowQuality && (
+                                <p className="text-sm text-yellow-700 mt-2">
+                                  {t('results.lowQualityGaze', { score: resultGazeQuality.score.toFixed(0) })}
+                                </p>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+
+                        <div className="mt-8">
+                          <h3 className="font-semibold mb-4">{t('results.detailedAnalysis')}</h3>
+                          <div className="grid grid-cols-2 gap-4">
+                            {featureKeys.map(feature => {
+                              const value = result.details[riskDetailKeys[feature]];
+                              return (
+                                <div key={feature} className="bg-white rounded-lg p-4 shadow-sm">
+                                  <span className="block text-sm text-gray-600">{t(`feature.${feature}`)}</span>
+                                  <span className={`inline-block mt-1 px-2 py-1 rounded-full text-sm ${
+                                    value === 'High' ? 'bg-red-100 text-red-800' :
+                                    value === 'Medium' ? 'bg-yellow-100 text-yellow-800' :
+                                    'bg-green-100 text-green-800'
+                                  }`}>
+                                    {t(`level.${value}`)}
+                                  </span>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </div>
                       </div>
+
+                      {explanation && <ExplanationPanel explanation={explanation} />}
+
+                      {plan && <InterventionPlanPanel plan={plan} onAgeChange={setPlanAge} />}
+
+                      {actor ? (
+                        <SaveAssessment
+                          students={students}
+                          defaultStudentId={selectedStudentId}
+                          actor={actor}
+                          onSave={handleSaveAssessment}
+                        />
+                      ) : vaultGate}
+
+                      <ReportActions defaultStudentId={reportStudentId} locked={!actor} onExport={handleExportReport} />
                     </div>
-                  </div>
-                )}
+                  )}
+                </div>
               </div>
-            )}
+            </div>
           </div>
         </div>
-      </div>
-    </div>
+        {report && <PrintableReport report={report} />}
+      </SpeechContext.Provider>
+    </I18nContext.Provider>
   );
 }
 
@@ -0,0 +1,177 @@
+import React from 'react';
+import { RotateCcw, Volume2 } from 'lucide-react';
+import {
+  AccessibilitySettings,
+  defaultAccessibilitySettings,
+  LineLength,
+  overlayColors,
+  OverlayTheme,
+  ReadingFont,
+  readingFontLabels,
+  speak,
+  speechSupported
+} from '../lib/accessibility';
+import { MessageKey } from '../lib/i18n';
+import { useI18n } from './LanguageSelect';
+
+interface AccessibilityPanelProps {
+  id: string;
+  settings: AccessibilitySettings;
+  onChange: (settings: AccessibilitySettings) => void;
+}
+
+const lineLengthKeys: Record<LineLength, MessageKey> = {
+  full: 'settings.lineFull',
+  wide: 'settings.lineWide',
+  narrow: 'settings.lineNarrow'
+};
+
+const lineHeights = [1.5, 1.8, 2.2];
+
+function AccessibilityPanel({ id, settings, onChange }: AccessibilityPanelProps) {
+  const { t } = useI18n();
+  const update = (changes: Partial<AccessibilitySettings>) => onChange({ ...settings, ...changes });
+
+  const slider = (
+    field: 'textScale' | 'letterSpacing' | 'wordSpacing' | 'speechRate',
+    label: string,
+    min: number,
+    max: number,
+    step: number,
+    format: (value: number) => string
+  ) => (
+    <label className="block text-sm">
+      <span className="flex justify-between text-gray-700">
+        <span>{label}</span>
+        <span className="text-gray-500">{format(settings[field])}</span>
+      </span>
+      <input
+        type="range"
+        className="w-full"
+        min={min}
+        max={max}
+        step={step}
+        value={settings[field]}
+        aria-valuetext={format(settings[field])}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ [field]: Number(e.target.value) })}
+      />
+    </label>
+  );
+
+  return (
+    <section id={id} aria-labelledby={`${id}-title`} className="bg-gray-50 rounded-lg p-4 mb-8 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 id={`${id}-title`} className="font-semibold">{t('settings.title')}</h2>
+        <button
+          type="button"
+          className="py-1 px-3 rounded-lg bg-white text-gray-600 text-sm flex items-center"
+          onClick={() => onChange(defaultAccessibilitySettings)}
+        >
+          <RotateCcw className="w-4 h-4 mr-1" aria-hidden="true" />
+          {t('settings.reset')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block text-sm">
+          <span className="block text-gray-700">{t('settings.font')}</span>
+          <select
+            value={settings.font}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => update({ font: e.target.value as ReadingFont })}
+            className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+          >
+            {Object.entries(readingFontLabels).map(([font, label]) => (
+              <option key={font} value={font}>{font === 'default' ? t('settings.fontDefault') : label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm">
+          <span className="block text-gray-700">{t('settings.lineLength')}</span>
+          <select
+            value={settings.lineLength}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => update({ lineLength: e.target.value as LineLength })}
+            className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+          >
+            {(Object.keys(lineLengthKeys) as LineLength[]).map(length => (
+              <option key={length} value={length}>{t(lineLengthKeys[length])}</option>
+            ))}
+          </select>
+        </label>
+        {slider('textScale', t('settings.textSize'), 0.75, 2, 0.125, v => `${Math.round(v * 100)}%`)}
+        <label className="block text-sm">
+          <span className="block text-gray-700">{t('settings.lineSpacing')}</span>
+          <select
+            value={settings.lineHeight ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+              update({ lineHeight: e.target.value ? Number(e.target.value) : null })}
+            className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+          >
+            <option value="">{t('settings.default')}</option>
+            {lineHeights.map(value => <option key={value} value={value}>{value}</option>)}
+          </select>
+        </label>
+        {slider('letterSpacing', t('settings.letterSpacing'), 0, 0.3, 0.02, v => (v === 0 ? t('settings.normal') : `+${v.toFixed(2)} em`))}
+        {slider('wordSpacing', t('settings.wordSpacing'), 0, 0.8, 0.05, v => (v === 0 ? t('settings.normal') : `+${v.toFixed(2)} em`))}
+      </div>
+
+      <fieldset>
+        <legend className="text-sm text-gray-700 mb-1">{t('settings.overlay')}</legend>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(overlayColors) as OverlayTheme[]).map(overlay => (
+            <label
+              key={overlay}
+              className={`flex items-center px-3 py-1 rounded-lg border-2 text-sm cursor-pointer focus-within:ring-2 focus-within:ring-blue-500 ${
+                settings.overlay === overlay ? 'border-blue-500' : 'border-gray-200'
+              }`}
+            >
+              <input
+                type="radio"
+                name={`${id}-overlay`}
+                className="sr-only"
+                checked={settings.overlay === overlay}
+                onChange={() => update({ overlay })}
+              />
+              <span
+                aria-hidden="true"
+                className="w-4 h-4 rounded-full border border-gray-300 mr-2"
+                style={{ background: overlay === 'none' ? '#ffffff' : overlayColors[overlay] }}
+              />
+              {t(`overlay.${overlay}`)}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      {speechSupported ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={settings.speech}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ speech: e.target.checked })}
+            />
+            {t('settings.speech')}
+          </label>
+          <div className="flex items-end space-x-2">
+            <div className="flex-grow">
+              {slider('speechRate', t('settings.speechRate'), 0.5, 2, 0.1, v => `${v.toFixed(1)}×`)}
+            </div>
+            <button
+              type="button"
+              className="p-2 rounded-lg bg-white text-blue-600"
+              aria-label={t('settings.trySpeech')}
+              onClick={() => speak(t('settings.speechSample'), settings.speechRate)}
+            >
+              <Volume2 className="w-4 h-4" aria-hidden="true" />
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">{t('settings.noSpeech')}</p>
+      )}
+    </section>
+  );
+}
+
+export default AccessibilityPanel;
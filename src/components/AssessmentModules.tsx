@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { CheckCircle } from 'lucide-react';
+import { FormDataType } from '../types';
+import { contentPacks, packForGradeBand, packsForLanguage } from '../lib/contentPacks';
+import { AssessmentModule, moduleFeatures, phonemeCount, scaleErrors } from '../lib/assessments';
+import { referenceItems, ScoringProfile } from '../lib/scoring';
+import ReadingTest from './ReadingTest';
+import SpellingTest from './SpellingTest';
+import PhonemeTest from './PhonemeTest';
+import ComprehensionQuiz from './ComprehensionQuiz';
+import { useI18n } from './LanguageSelect';
+
+interface AssessmentModulesProps {
+  // Interface language; picks the content packs offered.
+  language: string;
+  // The active scoring profile: its grade band picks the initial content
+  // pack, and error counts are scaled to the test length its cut-offs assume.
+  profile: ScoringProfile;
+  onComplete: (feature: keyof FormDataType, value: number) => void;
+}
+
+const modules: AssessmentModule[] = ['reading', 'comprehension', 'spelling', 'phoneme'];
+
+function AssessmentModules({ language, profile, onComplete }: AssessmentModulesProps) {
+  const { t } = useI18n();
+  const { gradeBand } = profile;
+  const [packId, setPackId] = useState(() => packForGradeBand(language, gradeBand).id);
+  const [activeModule, setActiveModule] = useState<AssessmentModule>('reading');
+  const [completed, setCompleted] = useState<Partial<Record<AssessmentModule, number>>>({});
+  // A pack chosen in another language gives way to this language's default.
+  const defaultPack = packForGradeBand(language, gradeBand);
+  const pack = contentPacks.find(p => p.id === packId && p.language === defaultPack.language) ?? defaultPack;
+
+  const spellingReference = referenceItems(profile, 'spellingErrors');
+  const phonemeReference = referenceItems(profile, 'phonemeErrors');
+  const scale = (module: AssessmentModule, value: number) =>
+    module === 'spelling' ? scaleErrors(value, pack.spelling.length, spellingReference)
+      : module === 'phoneme' ? scaleErrors(value, phonemeCount(pack.phonemes), phonemeReference)
+        : value;
+
+  const complete = (module: AssessmentModule) => (raw: number) => {
+    const value = scale(module, raw);
+    setCompleted(prev => ({ ...prev, [module]: value }));
+    onComplete(moduleFeatures[module], value);
+    const next = modules.find(m => m !== module && completed[m] === undefined);
+    if (next) setActiveModule(next);
+  };
+
+  const handlePackChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setPackId(e.target.value);
+    setCompleted({});
+  };
+
+  return (
+    <div className="space-y-6">
+      <label className="block text-sm">
+        <span className="block font-medium text-gray-700">{t('modules.pack')}</span>
+        <select value={pack.id} onChange={handlePackChange} className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2">
+          {packsForLanguage(pack.language).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </label>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {modules.map(module => {
+          const feature = moduleFeatures[module];
+          const value = completed[module];
+          return (
+            <button
+              key={module}
+              type="button"
+              onClick={() => setActiveModule(module)}
+              aria-pressed={activeModule === module}
+              className={`p-3 rounded-lg text-left text-sm border-2 ${
+                activeModule === module ? 'border-blue-500 bg-blue-50' : 'border-transparent bg-gray-50'
+              }`}
+            >
+              <span className="flex items-center font-medium">
+                {value !== undefined && <CheckCircle className="w-4 h-4 mr-1 text-green-600" />}
+                {t(`module.${module}`)}
+              </span>
+              <span className="block text-xs text-gray-500">
+                {t(`feature.${feature}`)}{value !== undefined && `: ${value} ${t(`unit.${feature}`)}`}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Every module stays mounted so switching between them keeps progress;
+          keying by pack starts them all afresh when the pack changes. */}
+      <div key={pack.id}>
+        <div className={activeModule === 'reading' ? '' : 'hidden'}>
+          <ReadingTest passage={pack.passage} onComplete={complete('reading')} />
+        </div>
+        <div className={activeModule === 'comprehension' ? '' : 'hidden'}>
+          <ComprehensionQuiz
+            passageTitle={pack.passage.title}
+            questions={pack.comprehension}
+            onComplete={complete('comprehension')}
+          />
+        </div>
+        <div className={activeModule === 'spelling' ? '' : 'hidden'}>
+          <SpellingTest items={pack.spelling} language={pack.language} onComplete={complete('spelling')} />
+        </div>
+        <div className={activeModule === 'phoneme' ? '' : 'hidden'}>
+          <PhonemeTest items={pack.phonemes} onComplete={complete('phoneme')} />
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        {t('modules.hint')} {t('modules.scaled', { words: spellingReference, phonemes: phonemeReference })}
+      </p>
+    </div>
+  );
+}
+
+export default AssessmentModules;
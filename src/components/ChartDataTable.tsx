@@ -0,0 +1,54 @@
+import { useI18n } from './LanguageSelect';
+
+type ChartValue = number | [number, number] | null | undefined;
+
+interface ChartDataTableProps {
+  caption: string;
+  // Structurally the chart's own `data`, so every chart passes it unchanged.
+  data: {
+    labels?: unknown[];
+    datasets: { label?: string; data: ChartValue[] }[];
+  };
+}
+
+// Text alternative to a chart: its data as a table, collapsed by default.
+function ChartDataTable({ caption, data }: ChartDataTableProps) {
+  const { t } = useI18n();
+  const formatValue = (value: ChartValue) => {
+    if (value === null || value === undefined) return '—';
+    const format = (n: number) => String(Number(n.toFixed(2)));
+    return Array.isArray(value) ? t('chart.range', { from: format(value[0]), to: format(value[1]) }) : format(value);
+  };
+  return (
+    <details className="mt-2 text-sm">
+      <summary className="cursor-pointer text-blue-600">{t('chart.showTable')}</summary>
+      <div className="overflow-x-auto mt-2">
+        <table className="min-w-full">
+          <caption className="text-left text-gray-600 mb-1">{caption}</caption>
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-3 py-2 text-left font-medium text-gray-600" />
+              {data.datasets.map((dataset, i) => (
+                <th key={i} scope="col" className="px-3 py-2 text-left font-medium text-gray-600">
+                  {dataset.label ?? t('chart.value')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {(data.labels ?? []).map((label, row) => (
+              <tr key={row}>
+                <th scope="row" className="px-3 py-2 text-left font-normal">{String(label)}</th>
+                {data.datasets.map((dataset, i) => (
+                  <td key={i} className="px-3 py-2">{formatValue(dataset.data[row])}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+}
+
+export default ChartDataTable;
@@ -0,0 +1,270 @@
+import React, { useState } from 'react';
+import { Bar, Doughnut } from 'react-chartjs-2';
+import { FormDataType, RiskLevel } from '../types';
+import { featureKeys } from '../lib/scoring';
+import {
+  atRiskShare,
+  CohortDataset,
+  featureRiskMix,
+  featureValues,
+  findOutliers,
+  histogram,
+  riskBandCounts,
+  riskBands,
+  scoredRows,
+  summarizeFeature
+} from '../lib/cohortStats';
+import ChartDataTable from './ChartDataTable';
+import { useI18n } from './LanguageSelect';
+
+interface CohortDashboardProps {
+  datasets: CohortDataset[];
+}
+
+const BIN_COUNT = 8;
+
+const groupColors = ['rgba(53, 162, 235, 0.5)', 'rgba(255, 159, 64, 0.5)'];
+
+const levelColors: Record<RiskLevel, string> = {
+  High: 'rgba(255, 99, 132, 0.6)',
+  Medium: 'rgba(255, 205, 86, 0.6)',
+  Low: 'rgba(75, 192, 192, 0.6)',
+  Missing: 'rgba(201, 203, 207, 0.6)'
+};
+
+const formatNumber = (value: number | null) => (value === null ? '—' : value.toFixed(1));
+
+function CohortDashboard({ datasets }: CohortDashboardProps) {
+  const { t } = useI18n();
+  const [groupAId, setGroupAId] = useState(datasets[datasets.length - 1]?.id ?? '');
+  const [groupBId, setGroupBId] = useState('');
+  const [feature, setFeature] = useState<keyof FormDataType>('readingSpeed');
+
+  const groupA = datasets.find(d => d.id === groupAId) ?? datasets[datasets.length - 1];
+  const groupB = datasets.find(d => d.id === groupBId && d.id !== groupA?.id) ?? null;
+  const groups = groupB ? [groupA, groupB] : [groupA];
+
+  if (!groupA) {
+    return <p className="text-sm text-gray-500">{t('analytics.empty')}</p>;
+  }
+
+  const featureLabel = (key: keyof FormDataType) => t(`feature.${key}`);
+
+  // Bins are built from both groups combined so their histograms line up,
+  // and a group with no values still gets empty bins.
+  const allValues = groups.flatMap(g => featureValues(g.rows, feature));
+  const bins = histogram(allValues, BIN_COUNT);
+  const range: [number, number] = [Math.min(...allValues), Math.max(...allValues)];
+  const histograms = groups.map(g =>
+    allValues.length > 0 ? histogram(featureValues(g.rows, feature), BIN_COUNT, range) : []);
+
+  const histogramData = {
+    labels: bins.map(bin => bin.label),
+    datasets: groups.map((g, i) => ({
+      label: g.name,
+      data: histograms[i].map(bin => bin.count),
+      backgroundColor: groupColors[i]
+    }))
+  };
+
+  // Labelled with group A's cut-offs; each group is counted with its own.
+  const bands = riskBands(groupA.operatingPoint);
+  const bandLabels = bands.map(band => t(band.label, { min: +band.min.toFixed(1), max: +Math.min(band.max, 10).toFixed(1) }));
+
+  const bandData = {
+    labels: bandLabels,
+    datasets: [
+      {
+        label: t('analytics.students'),
+        data: riskBandCounts(groupA.rows, bands),
+        backgroundColor: ['rgba(75, 192, 192, 0.5)', 'rgba(255, 205, 86, 0.5)', 'rgba(255, 159, 64, 0.5)', 'rgba(255, 99, 132, 0.5)']
+      }
+    ]
+  };
+
+  const bandComparisonData = {
+    labels: bandLabels,
+    datasets: groups.map((g, i) => {
+      const counts = riskBandCounts(g.rows, riskBands(g.operatingPoint));
+      const total = counts.reduce((sum, c) => sum + c, 0) || 1;
+      return { label: g.name, data: counts.map(c => (c / total) * 100), backgroundColor: groupColors[i] };
+    })
+  };
+
+  const mix = featureRiskMix(groupA.rows);
+  const mixData = {
+    labels: featureKeys.map(featureLabel),
+    datasets: (['High', 'Medium', 'Low', 'Missing'] as RiskLevel[]).map(level => ({
+      label: t(`level.${level}`),
+      data: featureKeys.map(key => mix[key][level]),
+      backgroundColor: levelColors[level]
+    }))
+  };
+
+  const outliers = findOutliers(groupA.rows);
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="text-sm">
+          <span className="block font-medium text-gray-700">{t('analytics.groupA')}</span>
+          <select
+            value={groupA.id}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setGroupAId(e.target.value)}
+            className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+          >
+            {datasets.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+          </select>
+        </label>
+        <label className="text-sm">
+          <span className="block font-medium text-gray-700">{t('analytics.groupB')}</span>
+          <select
+            value={groupB?.id ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setGroupBId(e.target.value)}
+            className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+          >
+            <option value="">{t('analytics.noComparison')}</option>
+            {datasets.filter(d => d.id !== groupA.id).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className={`grid gap-4 text-center ${groupB ? 'grid-cols-2' : 'grid-cols-1'}`}>
+        {groups.map((g, i) => (
+          <div key={g.id} className="rounded-lg p-4" style={{ backgroundColor: groupColors[i].replace('0.5', '0.1') }}>
+            <p className="font-medium">{g.name}</p>
+            <p className="text-2xl font-bold">{(atRiskShare(g.rows) * 100).toFixed(0)}%</p>
+            <p className="text-sm text-gray-500">{t('analytics.atRiskOf', { count: scoredRows(g.rows).length })}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div>
+          <h3 className="font-semibold mb-4">{t('analytics.bands', { name: groupA.name })}</h3>
+          <Doughnut
+            data={bandData}
+            role="img"
+            aria-label={t('analytics.bandsChart', { name: groupA.name })}
+            options={{ plugins: { legend: { position: 'bottom' } } }}
+          />
+          <ChartDataTable caption={t('analytics.bandsCaption', { name: groupA.name })} data={bandData} />
+        </div>
+        <div>
+          <h3 className="font-semibold mb-4">{t('analytics.mix')}</h3>
+          <Bar data={mixData} role="img" aria-label={t('analytics.mixChart')} options={{
+            indexAxis: 'y' as const,
+            responsive: true,
+            scales: { x: { stacked: true }, y: { stacked: true } },
+            plugins: { legend: { position: 'bottom' } }
+          }} />
+          <ChartDataTable caption={t('analytics.mixCaption')} data={mixData} />
+        </div>
+      </div>
+
+      {groupB && (
+        <div>
+          <h3 className="font-semibold mb-4">{t('analytics.share')}</h3>
+          <Bar
+            data={bandComparisonData}
+            role="img"
+            aria-label={t('analytics.shareChart')}
+            options={{ responsive: true, scales: { y: { max: 100, beginAtZero: true } } }}
+          />
+          <ChartDataTable caption={t('analytics.shareCaption')} data={bandComparisonData} />
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold">{t('analytics.distribution')}</h3>
+          <select
+            value={feature}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFeature(e.target.value as keyof FormDataType)}
+            className="border border-gray-300 rounded-lg px-3 py-1 text-sm"
+          >
+            {featureKeys.map(key => <option key={key} value={key}>{featureLabel(key)}</option>)}
+          </select>
+        </div>
+        {allValues.length > 0 ? (
+          <>
+            <Bar data={histogramData} role="img" aria-label={t('analytics.histogramChart', { feature: featureLabel(feature) })} options={{
+              responsive: true,
+              plugins: { title: { display: true, text: t('analytics.histogram', { feature: featureLabel(feature) }) } }
+            }} />
+            <ChartDataTable caption={t('analytics.histogramCaption', { feature: featureLabel(feature) })} data={histogramData} />
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">{t('analytics.noValues', { feature: featureLabel(feature) })}</p>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <h3 className="font-semibold mb-2">{t('analytics.summary')}</h3>
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-600">{t('analytics.feature')}</th>
+              {groups.map(g => (
+                <th key={g.id} className="px-3 py-2 text-left font-medium text-gray-600">{t('analytics.meanMedian', { name: g.name })}</th>
+              ))}
+              {groupB && <th className="px-3 py-2 text-left font-medium text-gray-600">{t('analytics.difference')}</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {featureKeys.map(key => {
+              const summaries = groups.map(g => summarizeFeature(g.rows, key));
+              const a = summaries[0].mean;
+              const b = summaries[1]?.mean ?? null;
+              return (
+                <tr key={key}>
+                  <td className="px-3 py-2">{featureLabel(key)}</td>
+                  {summaries.map((summary, i) => (
+                    <td key={groups[i].id} className="px-3 py-2">
+                      {formatNumber(summary.mean)} / {formatNumber(summary.median)}
+                    </td>
+                  ))}
+                  {groupB && (
+                    <td className="px-3 py-2">{a === null || b === null ? '—' : `${b - a > 0 ? '+' : ''}${(b - a).toFixed(1)}`}</td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="overflow-x-auto">
+        <h3 className="font-semibold mb-2">{t('analytics.outliers', { name: groupA.name })}</h3>
+        {outliers.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('analytics.noOutliers')}</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-600">{t('import.row')}</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-600">{t('cohort.student')}</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-600">{t('analytics.feature')}</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-600">{t('analytics.value')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {outliers.map(outlier => (
+                <tr key={`${outlier.rowNumber}-${outlier.feature}`} className="bg-yellow-50">
+                  <td className="px-3 py-2 text-gray-500">{outlier.rowNumber}</td>
+                  <td className="px-3 py-2">{outlier.studentId || '—'}</td>
+                  <td className="px-3 py-2">{featureLabel(outlier.feature)}</td>
+                  <td className="px-3 py-2">
+                    {outlier.value} <span className="text-xs text-gray-500">({t(`analytics.unusually.${outlier.direction}`)})</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CohortDashboard;
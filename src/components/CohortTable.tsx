@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Eye } from 'lucide-react';
+import { CohortRow, Decision, RiskDetails, RiskLevel } from '../types';
+import { MessageKey } from '../lib/i18n';
+import { useI18n } from './LanguageSelect';
+
+type SortKey = 'rowNumber' | 'studentId' | 'riskScore' | 'prediction' | 'modelProbability' | keyof RiskDetails;
+type PredictionFilter = 'all' | Decision | 'error';
+
+const riskColumns: { key: keyof RiskDetails; label: MessageKey }[] = [
+  { key: 'readingSpeedRisk', label: 'short.readingSpeed' },
+  { key: 'fixationRisk', label: 'short.fixationDuration' },
+  { key: 'saccadeRisk', label: 'short.saccadeLength' },
+  { key: 'phonemeRisk', label: 'short.phonemeErrors' },
+  { key: 'spellingRisk', label: 'short.spellingErrors' },
+  { key: 'comprehensionRisk', label: 'short.comprehensionScore' }
+];
+
+const decisionText: Record<Decision, MessageKey> = {
+  risk: 'cohort.risk',
+  indeterminate: 'cohort.retest',
+  low: 'cohort.low'
+};
+
+const riskOrder: Record<RiskLevel, number> = { Missing: -1, Low: 0, Medium: 1, High: 2 };
+
+export const riskBadgeClass = (value: RiskLevel) =>
+  value === 'High' ? 'bg-red-100 text-red-800' :
+  value === 'Medium' ? 'bg-yellow-100 text-yellow-800' :
+  value === 'Missing' ? 'bg-gray-100 text-gray-600' :
+  'bg-green-100 text-green-800';
+
+// Rows that failed to parse always sort last so they never hide valid results.
+const sortValue = (row: CohortRow, key: SortKey): number | string | null => {
+  if (key === 'rowNumber') return row.rowNumber;
+  if (key === 'studentId') return row.studentId.toLowerCase();
+  if (key === 'modelProbability') return row.modelResult?.probability ?? null;
+  if (!row.result) return null;
+  if (key === 'riskScore') return row.result.riskScore;
+  if (key === 'prediction') return row.result.prediction;
+  return riskOrder[row.result.details[key]];
+};
+
+interface CohortTableProps {
+  rows: CohortRow[];
+  onView: (row: CohortRow) => void;
+}
+
+function CohortTable({ rows, onView }: CohortTableProps) {
+  const { t } = useI18n();
+  const [sortKey, setSortKey] = useState<SortKey>('riskScore');
+  const [sortDesc, setSortDesc] = useState(true);
+  const [search, setSearch] = useState('');
+  const [predictionFilter, setPredictionFilter] = useState<PredictionFilter>('all');
+
+  const visibleRows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filtered = rows.filter(row => {
+      if (query && !row.studentId.toLowerCase().includes(query)) return false;
+      switch (predictionFilter) {
+        case 'risk':
+        case 'indeterminate':
+        case 'low':
+          return row.result?.decision === predictionFilter;
+        case 'error':
+          return row.error !== null;
+        default:
+          return true;
+      }
+    });
+
+    return [...filtered].sort((a, b) => {
+      const av = sortValue(a, sortKey);
+      const bv = sortValue(b, sortKey);
+      if (av === null && bv === null) return a.rowNumber - b.rowNumber;
+      if (av === null) return 1;
+      if (bv === null) return -1;
+      const cmp = av < bv ? -1 : av > bv ? 1 : a.rowNumber - b.rowNumber;
+      return sortDesc ? -cmp : cmp;
+    });
+  }, [rows, search, predictionFilter, sortKey, sortDesc]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDesc(prev => !prev);
+    } else {
+      setSortKey(key);
+      setSortDesc(key !== 'rowNumber' && key !== 'studentId');
+    }
+  };
+
+  const scored = rows.filter(row => row.result);
+  const atRisk = scored.filter(row => row.result?.prediction === 1).length;
+  const errors = rows.length - scored.length;
+  const hasModel = rows.some(row => row.modelResult);
+
+  const header = (key: SortKey, label: string) => (
+    <th className="px-3 py-2 text-left font-medium text-gray-600">
+      <button type="button" className="flex items-center" onClick={() => handleSort(key)}>
+        {label}
+        {sortKey === key && (sortDesc ? <ArrowDown className="w-3 h-3 ml-1" /> : <ArrowUp className="w-3 h-3 ml-1" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4 text-center">
+        <div className="bg-blue-50 rounded-lg p-4">
+          <p className="text-2xl font-bold">{scored.length}</p>
+          <p className="text-sm text-gray-500">{t('cohort.scored')}</p>
+        </div>
+        <div className="bg-red-50 rounded-lg p-4">
+          <p className="text-2xl font-bold">{atRisk}</p>
+          <p className="text-sm text-gray-500">{t('cohort.atRisk')}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4">
+          <p className="text-2xl font-bold">{errors}</p>
+          <p className="text-sm text-gray-500">{t('cohort.errorRows')}</p>
+        </div>
+      </div>
+
+      <div className="flex space-x-4">
+        <input
+          type="text"
+          placeholder={t('cohort.search')}
+          value={search}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearch(e.target.value)}
+          className="flex-grow border border-gray-300 rounded-lg px-3 py-2 text-sm"
+        />
+        <select
+          value={predictionFilter}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setPredictionFilter(e.target.value as PredictionFilter)}
+          className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+        >
+          <option value="all">{t('cohort.filterAll')}</option>
+          <option value="risk">{t('cohort.filterRisk')}</option>
+          <option value="indeterminate">{t('cohort.filterIndeterminate')}</option>
+          <option value="low">{t('cohort.filterLow')}</option>
+          <option value="error">{t('cohort.filterErrors')}</option>
+        </select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {header('rowNumber', t('import.row'))}
+              {header('studentId', t('cohort.student'))}
+              {header('riskScore', t('results.riskScore'))}
+              {header('prediction', t('cohort.prediction'))}
+              {hasModel && header('modelProbability', t('cohort.modelProbability'))}
+              {riskColumns.map(({ key, label }) => (
+                <React.Fragment key={key}>{header(key, t(label))}</React.Fragment>
+              ))}
+              <th className="px-3 py-2 text-left font-medium text-gray-600">{t('cohort.issues')}</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {visibleRows.map(row => (
+              <tr key={row.rowNumber} className={row.error ? 'bg-red-50' : ''}>
+                <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                <td className="px-3 py-2">{row.studentId || '—'}</td>
+                <td className="px-3 py-2 font-medium">{row.result ? row.result.riskScore.toFixed(1) : '—'}</td>
+                <td className="px-3 py-2">
+                  {row.result ? t(decisionText[row.result.decision]) : '—'}
+                </td>
+                {hasModel && (
+                  <td className="px-3 py-2">
+                    {row.modelResult ? `${(row.modelResult.probability * 100).toFixed(0)}%` : '—'}
+                  </td>
+                )}
+                {riskColumns.map(({ key }) => (
+                  <td key={key} className="px-3 py-2">
+                    {row.result ? (
+                      <span className={`inline-block px-2 py-1 rounded-full text-xs ${riskBadgeClass(row.result.details[key])}`}>
+                        {t(`level.${row.result.details[key]}`)}
+                      </span>
+                    ) : '—'}
+                  </td>
+                ))}
+                <td className="px-3 py-2">
+                  {row.error && <span className="block text-red-600">{row.error}</span>}
+                  {row.warning && <span className="block text-yellow-700">{row.warning}</span>}
+                </td>
+                <td className="px-3 py-2">
+                  {row.result && (
+                    <button
+                      type="button"
+                      className="text-blue-600 hover:text-blue-800"
+                      onClick={() => onView(row)}
+                      title={t('cohort.view')}
+                      aria-label={t('cohort.view')}
+                    >
+                      <Eye className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {visibleRows.length === 0 && (
+          <p className="text-center text-sm text-gray-500 py-6">{t('cohort.noMatch')}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CohortTable;
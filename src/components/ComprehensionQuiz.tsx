@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { CheckCircle } from 'lucide-react';
+import { QuizQuestion } from '../lib/contentPacks';
+import { scoreQuiz } from '../lib/assessments';
+import ReadAloud from './ReadAloud';
+import { useI18n } from './LanguageSelect';
+
+interface ComprehensionQuizProps {
+  passageTitle: string;
+  questions: QuizQuestion[];
+  onComplete: (percentCorrect: number) => void;
+}
+
+// Given after the timed reading, without the passage on screen.
+function ComprehensionQuiz({ passageTitle, questions, onComplete }: ComprehensionQuizProps) {
+  const { t } = useI18n();
+  const [answers, setAnswers] = useState<(number | null)[]>(() => questions.map(() => null));
+  const [submitted, setSubmitted] = useState(false);
+  const score = scoreQuiz(questions, answers);
+
+  return (
+    <div className="space-y-4">
+      <ReadAloud>
+        <p className="text-sm text-gray-500">{t('quiz.instructions', { title: passageTitle })}</p>
+      </ReadAloud>
+      <ol className="space-y-4">
+        {questions.map((question, i) => (
+          <li key={question.prompt} className="text-sm">
+            <fieldset>
+              <legend className="font-medium mb-1">{i + 1}. {question.prompt}</legend>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+                {question.options.map((option, j) => {
+                  const marked = !submitted ? ''
+                    : j === question.answer ? 'text-green-700 font-medium'
+                      : answers[i] === j ? 'text-red-700 line-through' : '';
+                  return (
+                    <label key={option} className={`flex items-center ${marked}`}>
+                      <input
+                        type="radio"
+                        name={`question-${i}`}
+                        className="mr-2"
+                        checked={answers[i] === j}
+                        disabled={submitted}
+                        onChange={() => setAnswers(prev => prev.map((a, k) => (k === i ? j : a)))}
+                      />
+                      {option}
+                    </label>
+                  );
+                })}
+              </div>
+            </fieldset>
+          </li>
+        ))}
+      </ol>
+
+      {!submitted ? (
+        <button
+          type="button"
+          onClick={() => setSubmitted(true)}
+          className="py-2 px-4 rounded-lg bg-blue-600 text-white"
+        >
+          {t('quiz.score')}
+        </button>
+      ) : (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            {t('quiz.result', {
+              score,
+              correct: questions.filter((q, i) => answers[i] === q.answer).length,
+              total: questions.length
+            })}
+          </p>
+          <button
+            type="button"
+            onClick={() => onComplete(score)}
+            className="py-2 px-4 rounded-lg bg-green-600 text-white flex items-center"
+          >
+            <CheckCircle className="w-4 h-4 mr-2" />
+            {t('modules.useResult')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ComprehensionQuiz;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { ConsentMethod, consentMethods, ConsentRecord, today } from '../lib/studentStore';
+import { useI18n } from './LanguageSelect';
+
+interface ConsentFormProps {
+  consent: ConsentRecord;
+  onChange: (consent: ConsentRecord) => void;
+}
+
+export const blankConsent = (recordedBy: string): ConsentRecord => ({
+  guardianName: '',
+  relationship: '',
+  method: 'signed-form',
+  date: today(),
+  research: false,
+  recordedBy
+});
+
+// Fields for the guardian consent a new student needs before being saved.
+function ConsentForm({ consent, onChange }: ConsentFormProps) {
+  const { t } = useI18n();
+  const update = (changes: Partial<ConsentRecord>) => onChange({ ...consent, ...changes });
+  const inputClass = 'mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-sm';
+
+  return (
+    <fieldset className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+      <legend className="font-medium text-sm">{t('consent.title')}</legend>
+      <p className="text-xs text-gray-500">{t('consent.required')}</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="block text-sm">
+          <span className="block text-gray-700">{t('consent.guardianName')}</span>
+          <input
+            type="text"
+            value={consent.guardianName}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ guardianName: e.target.value })}
+            className={inputClass}
+            required
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="block text-gray-700">{t('consent.relationship')}</span>
+          <input
+            type="text"
+            value={consent.relationship}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ relationship: e.target.value })}
+            className={inputClass}
+            required
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="block text-gray-700">{t('consent.method')}</span>
+          <select
+            value={consent.method}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => update({ method: e.target.value as ConsentMethod })}
+            className={inputClass}
+          >
+            {consentMethods.map(method => (
+              <option key={method} value={method}>{t(`consent.method.${method}`)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm">
+          <span className="block text-gray-700">{t('consent.date')}</span>
+          <input
+            type="date"
+            value={consent.date}
+            max={today()}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ date: e.target.value })}
+            className={inputClass}
+            required
+          />
+        </label>
+      </div>
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          className="mr-2"
+          checked={consent.research}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ research: e.target.checked })}
+        />
+        {t('consent.research')}
+      </label>
+    </fieldset>
+  );
+}
+
+export default ConsentForm;
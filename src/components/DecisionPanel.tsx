@@ -0,0 +1,154 @@
+import React from 'react';
+import { Crosshair } from 'lucide-react';
+import { AnalysisResult } from '../types';
+import { OperatingPoint } from '../lib/scoring';
+import { calibratedProbability, Calibration, operatingPointOptions, rocAt, TARGET_RATE } from '../lib/calibration';
+import { useI18n } from './LanguageSelect';
+
+interface DecisionPanelProps {
+  result: AnalysisResult;
+  calibration: Calibration | null;
+  operatingPoint: OperatingPoint;
+  onOperatingPointChange: (point: OperatingPoint) => void;
+}
+
+const decisionClass = {
+  risk: 'bg-red-100 text-red-800',
+  indeterminate: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-green-100 text-green-800'
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+function DecisionPanel({ result, calibration, operatingPoint, onOperatingPointChange }: DecisionPanelProps) {
+  const { t } = useI18n();
+  const calibrated = calibration ? calibratedProbability(calibration, result) : null;
+  const options = calibration ? operatingPointOptions(calibration) : [];
+  const rates = calibration ? rocAt(calibration, operatingPoint.threshold) : null;
+  const { threshold, indeterminateMargin } = operatingPoint;
+
+  const setThreshold = (value: number) => onOperatingPointChange({ ...operatingPoint, threshold: value });
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{t('decisionPanel.title')}</h3>
+        <span className={`px-3 py-1 rounded-full text-sm ${decisionClass[result.decision]}`}>
+          {t(`decision.${result.decision}`)}
+        </span>
+      </div>
+
+      {result.decision === 'indeterminate' && (
+        <p className="text-sm text-yellow-800 bg-yellow-50 p-3 rounded-lg">
+          {result.scoreRange[0] < threshold && result.scoreRange[1] >= threshold
+            ? t('decisionPanel.rangeStraddles', {
+              low: result.scoreRange[0].toFixed(1),
+              high: result.scoreRange[1].toFixed(1),
+              threshold: threshold.toFixed(1)
+            })
+            : t('decisionPanel.withinMargin', {
+              score: result.riskScore.toFixed(1),
+              margin: indeterminateMargin.toFixed(1),
+              threshold: threshold.toFixed(1)
+            })}
+          {' '}{t('decisionPanel.retest')}
+        </p>
+      )}
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">{t('decisionPanel.calibrated')}</h4>
+        {calibrated && calibration ? (
+          <>
+            <div className="relative h-4 bg-white rounded-full border border-gray-200">
+              <div
+                className="absolute h-full bg-blue-200 rounded-full"
+                style={{ left: percent(calibrated.lower), width: percent(calibrated.upper - calibrated.lower) }}
+              />
+              <div className="absolute h-full w-1 bg-blue-600" style={{ left: percent(calibrated.probability) }} />
+            </div>
+            <p className="mt-2 text-sm">
+              <span className="text-xl font-bold">{percent(calibrated.probability)}</span>
+              <span className="text-gray-500">
+                {' '}· {t('decisionPanel.interval', { lower: percent(calibrated.lower), upper: percent(calibrated.upper) })}
+                {' '}· {t('decisionPanel.fitted', {
+                  count: calibration.sampleSize,
+                  method: calibration.map.method === 'platt' ? 'Platt' : 'isotonic'
+                })}
+              </span>
+            </p>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">
+            {t('decisionPanel.notCalibrated')}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+          <Crosshair className="w-4 h-4 mr-1" />
+          {t('decisionPanel.operatingPoint')}
+        </h4>
+        {options.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-3">
+            {options.map(option => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => setThreshold(option.threshold)}
+                className={`py-1 px-3 rounded-lg text-sm ${
+                  option.threshold === threshold ? 'bg-blue-600 text-white' : 'bg-white text-gray-600'
+                }`}
+                title={t('decisionPanel.optionRates', {
+                  sensitivity: percent(option.sensitivity),
+                  specificity: percent(option.specificity)
+                })}
+              >
+                {t(`operatingPoint.${option.id}`, { rate: TARGET_RATE * 100 })} (≥ {option.threshold.toFixed(1)})
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <label>
+            <span className="block text-gray-600">{t('decisionPanel.threshold', { value: threshold.toFixed(1) })}</span>
+            <input
+              type="range"
+              min={0}
+              max={10}
+              step={0.1}
+              value={threshold}
+              aria-valuetext={t('decisionPanel.thresholdValue', { value: threshold.toFixed(1) })}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setThreshold(Number(e.target.value))}
+              className="w-full"
+            />
+          </label>
+          <label>
+            <span className="block text-gray-600">{t('decisionPanel.margin', { value: indeterminateMargin.toFixed(1) })}</span>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={indeterminateMargin}
+              aria-valuetext={t('decisionPanel.marginValue', { value: indeterminateMargin.toFixed(1) })}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                onOperatingPointChange({ ...operatingPoint, indeterminateMargin: Number(e.target.value) })}
+              className="w-full"
+            />
+          </label>
+        </div>
+        {rates && (
+          <p className="mt-2 text-sm text-gray-500">
+            {t('decisionPanel.rates', {
+              sensitivity: percent(rates.sensitivity),
+              specificity: percent(rates.specificity)
+            })}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default DecisionPanel;
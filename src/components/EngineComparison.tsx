@@ -0,0 +1,106 @@
+import { Cpu, SlidersHorizontal } from 'lucide-react';
+import { AnalysisResult, Engine, ModelPrediction } from '../types';
+import { CalibratedProbability } from '../lib/calibration';
+import { describeCalibrated } from '../lib/report';
+import { useI18n } from './LanguageSelect';
+
+interface EngineComparisonProps {
+  engine: Engine;
+  onEngineChange: (engine: Engine) => void;
+  heuristic: AnalysisResult;
+  model: ModelPrediction | null;
+  modelLoaded: boolean;
+  modelName: string | null;
+  modelError: string | null;
+  // True when there is no model to load at all, rather than one that failed.
+  modelMissing: boolean;
+  // Shown instead of the decision margin when the profile is calibrated.
+  calibrated: CalibratedProbability | null;
+}
+
+function EngineComparison({
+  engine,
+  onEngineChange,
+  heuristic,
+  model,
+  modelLoaded,
+  modelName,
+  modelError,
+  modelMissing,
+  calibrated
+}: EngineComparisonProps) {
+  const { locale, t } = useI18n();
+  const cardClass = (active: boolean) =>
+    `bg-white rounded-lg p-4 shadow-sm border-2 ${active ? 'border-blue-500' : 'border-transparent'}`;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold">{t('engine.title')}</h3>
+        <div className="flex space-x-2">
+          <button
+            className={`py-1 px-3 rounded-lg text-sm flex items-center ${
+              engine === 'heuristic' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600'
+            }`}
+            onClick={() => onEngineChange('heuristic')}
+          >
+            <SlidersHorizontal className="w-4 h-4 mr-1" />
+            {t('engine.heuristic')}
+          </button>
+          <button
+            className={`py-1 px-3 rounded-lg text-sm flex items-center ${
+              engine === 'model' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600'
+            } disabled:opacity-50`}
+            onClick={() => onEngineChange('model')}
+            disabled={!model}
+          >
+            <Cpu className="w-4 h-4 mr-1" />
+            {t('engine.model')}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className={cardClass(engine === 'heuristic')}>
+          <h4 className="font-medium text-blue-600 mb-2">{t('engine.heuristicTitle')}</h4>
+          <p className="text-2xl font-bold">{heuristic.riskScore.toFixed(1)}/10</p>
+          <p className="text-sm text-gray-500">{t('engine.riskScore')}</p>
+          <p className="mt-2 text-sm">
+            {calibrated
+              ? t('engine.calibrated', {
+                decision: t(`decision.${heuristic.decision}`),
+                probability: describeCalibrated(locale, calibrated)
+              })
+              : t('engine.margin', {
+                decision: t(`decision.${heuristic.decision}`),
+                margin: heuristic.confidence.toFixed(0)
+              })}
+          </p>
+        </div>
+
+        <div className={cardClass(engine === 'model' && model !== null)}>
+          <h4 className="font-medium text-blue-600 mb-2">{modelName ? t('engine.modelTitle', { name: modelName }) : t('engine.model')}</h4>
+          {model ? (
+            <>
+              <p className="text-2xl font-bold">{(model.probability * 100).toFixed(1)}%</p>
+              <p className="text-sm text-gray-500">{t('engine.probability')}</p>
+              <p className="mt-2 text-sm">{model.prediction === 1 ? t('engine.riskDetected') : t('engine.lowRisk')}</p>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">
+              {modelError
+                ? t('engine.unavailable', { error: modelError })
+                : modelMissing
+                  ? t('engine.notInstalled')
+                  : modelLoaded
+                    ? t('engine.needsAll')
+                    : t('engine.loading')}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default EngineComparison;
@@ -0,0 +1,124 @@
+import { Bar } from 'react-chartjs-2';
+import { Download } from 'lucide-react';
+import { Explanation } from '../lib/explain';
+import { downloadFile } from '../lib/download';
+import ChartDataTable from './ChartDataTable';
+import { useI18n } from './LanguageSelect';
+
+interface ExplanationPanelProps {
+  explanation: Explanation;
+}
+
+function ExplanationPanel({ explanation }: ExplanationPanelProps) {
+  const { t } = useI18n();
+  // Waterfall: each feature is a floating bar from the running total before
+  // it to the running total after it, ending in the overall score.
+  let running = 0;
+  const steps = explanation.contributions.map(c => {
+    const start = running;
+    running += c.contribution;
+    return [start, running] as [number, number];
+  });
+
+  const waterfallData = {
+    labels: [...explanation.contributions.map(c => t(`feature.${c.feature}`)), t('results.riskScore')],
+    datasets: [
+      {
+        label: t('explain.contribution'),
+        data: [...steps, [0, explanation.riskScore] as [number, number]],
+        backgroundColor: [
+          ...explanation.contributions.map(c =>
+            c.level === 'High' ? 'rgba(255, 99, 132, 0.5)' :
+            c.level === 'Medium' ? 'rgba(255, 205, 86, 0.5)' :
+            'rgba(75, 192, 192, 0.5)'
+          ),
+          'rgba(53, 162, 235, 0.5)'
+        ],
+        borderWidth: 1
+      }
+    ]
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-sm space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-lg">{t('explain.title')}</h3>
+        <button
+          type="button"
+          className="py-1 px-3 rounded-lg bg-gray-100 text-gray-600 text-sm flex items-center"
+          onClick={() => downloadFile(JSON.stringify(explanation, null, 2), 'explanation.json', 'application/json')}
+        >
+          <Download className="w-4 h-4 mr-1" />
+          JSON
+        </button>
+      </div>
+
+      <div>
+        <Bar data={waterfallData} role="img" aria-label={t('explain.waterfallChart')} options={{
+          responsive: true,
+          scales: { y: { min: 0, max: 10 } },
+          plugins: {
+            legend: { display: false },
+            title: { display: true, text: t('explain.waterfall') }
+          }
+        }} />
+        <ChartDataTable caption={t('explain.waterfallCaption')} data={waterfallData} />
+      </div>
+
+      <div>
+        <h4 className="font-medium text-blue-600 mb-2">{t('explain.topDrivers')}</h4>
+        {explanation.topDrivers.length > 0 ? (
+          <ul className="list-disc pl-5 space-y-2 text-sm">
+            {explanation.topDrivers.map(driver => <li key={driver}>{driver}</li>)}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">{t('explain.allLow')}</p>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-600">{t('explain.measurement')}</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-600">{t('analytics.value')}</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-600">{t('explain.points')}</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-600">{t('explain.nextThreshold')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {explanation.contributions.map(c => (
+              <tr key={c.feature}>
+                <td className="px-3 py-2">{t(`feature.${c.feature}`)}</td>
+                <td className="px-3 py-2">{c.value ?? t('explain.notMeasured')}</td>
+                <td className="px-3 py-2">{c.contribution.toFixed(2)}</td>
+                <td className="px-3 py-2 text-gray-600">
+                  {c.nextThreshold === null
+                    ? '—'
+                    : t('explain.away', { value: c.nextThreshold, distance: c.distanceToThreshold ?? '' })}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <h4 className="font-medium text-blue-600 mb-2">{t('explain.changes')}</h4>
+        {explanation.counterfactuals.length > 0 ? (
+          <ul className="list-disc pl-5 space-y-2 text-sm">
+            {explanation.counterfactuals.slice(0, 5).map(cf => (
+              <li key={`${cf.feature}-${cf.toLevel}`} className={cf.flipsPrediction ? 'font-medium' : ''}>
+                {cf.description}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">{t('explain.noChanges')}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ExplanationPanel;
@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CheckCircle, Eye, Image, Upload } from 'lucide-react';
+import { FormDataType } from '../types';
+import {
+  analyzeGaze,
+  defaultDetectionSettings,
+  DetectionAlgorithm,
+  DetectionSettings,
+  GazeRecording,
+  readGazeFile,
+  ScreenSize,
+  toScoredSaccadeLength
+} from '../lib/gaze';
+import { MessageKey } from '../lib/i18n';
+import { ScoringProfile } from '../lib/scoring';
+import GazeMetricsTable from './GazeMetricsTable';
+import { useI18n } from './LanguageSelect';
+import ScanpathPlot from './ScanpathPlot';
+
+interface GazeImportProps {
+  // The active scoring profile, whose display the saccade length is given in.
+  profile: ScoringProfile;
+  onApply: (values: Partial<Record<keyof FormDataType, number>>) => void;
+}
+
+interface SettingField {
+  key: keyof Omit<DetectionSettings, 'algorithm'>;
+  label: MessageKey;
+  step: number;
+  algorithm?: DetectionAlgorithm;
+}
+
+const settingFields: SettingField[] = [
+  { key: 'pixelsPerDegree', label: 'gaze.pixelsPerDegree', step: 1 },
+  { key: 'velocityThreshold', label: 'gaze.velocityThreshold', step: 1, algorithm: 'ivt' },
+  { key: 'dispersionThreshold', label: 'gaze.dispersionThreshold', step: 0.1, algorithm: 'idt' },
+  { key: 'minFixationDuration', label: 'gaze.minFixation', step: 10 },
+  { key: 'maxGapDuration', label: 'gaze.maxGap', step: 5 }
+];
+
+function GazeImport({ profile, onApply }: GazeImportProps) {
+  const { t } = useI18n();
+  const [screen, setScreen] = useState<ScreenSize>({ width: 1920, height: 1080 });
+  const [file, setFile] = useState<File | null>(null);
+  const [recording, setRecording] = useState<GazeRecording | null>(null);
+  const [settings, setSettings] = useState<DetectionSettings>(defaultDetectionSettings);
+  const [stimulusUrl, setStimulusUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [applied, setApplied] = useState(false);
+
+  // Normalized coordinates are scaled by the screen size, so re-read the
+  // file whenever it changes.
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    readGazeFile(file, screen)
+      .then(loaded => {
+        if (!cancelled) setRecording(loaded);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setRecording(null);
+        setError(err instanceof Error ? err.message : t('gaze.readError'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, screen]);
+
+  useEffect(() => () => {
+    if (stimulusUrl) URL.revokeObjectURL(stimulusUrl);
+  }, [stimulusUrl]);
+
+  const analysis = useMemo(() => (recording ? analyzeGaze(recording, settings) : null), [recording, settings]);
+  const metrics = analysis?.metrics;
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    setError(null);
+    setApplied(false);
+    if (selected) setFile(selected);
+  };
+
+  const handleStimulus = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (selected) setStimulusUrl(URL.createObjectURL(selected));
+  };
+
+  const handleApply = () => {
+    if (!metrics) return;
+    const values: Partial<Record<keyof FormDataType, number>> = {};
+    if (metrics.meanFixationDuration !== null) values.fixationDuration = Math.round(metrics.meanFixationDuration);
+    if (metrics.meanSaccadeLength !== null) values.saccadeLength = toScoredSaccadeLength(metrics.meanSaccadeLength, profile);
+    onApply(values);
+    setApplied(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
+        <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <label className="block">
+          <span className="sr-only">{t('gaze.chooseFile')}</span>
+          <input
+            type="file"
+            className="block w-full text-sm text-gray-500
+              file:mr-4 file:py-2 file:px-4
+              file:rounded-full file:border-0
+              file:text-sm file:font-semibold
+              file:bg-blue-50 file:text-blue-700
+              hover:file:bg-blue-100"
+            accept=".csv,.tsv,.txt,.xlsx,.asc"
+            onChange={handleFile}
+          />
+        </label>
+        <p className="text-sm text-gray-500 mt-2">{t('gaze.fileHint')}</p>
+      </div>
+
+      {error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">{error}</div>}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+        <label>
+          <span className="block font-medium text-gray-700">{t('gaze.screenWidth')}</span>
+          <input
+            type="number"
+            value={screen.width}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setScreen(prev => ({ ...prev, width: Number(e.target.value) || prev.width }))}
+            className="mt-1 w-full border border-gray-300 rounded-lg px-2 py-1"
+          />
+        </label>
+        <label>
+          <span className="block font-medium text-gray-700">{t('gaze.screenHeight')}</span>
+          <input
+            type="number"
+            value={screen.height}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setScreen(prev => ({ ...prev, height: Number(e.target.value) || prev.height }))}
+            className="mt-1 w-full border border-gray-300 rounded-lg px-2 py-1"
+          />
+        </label>
+        <label>
+          <span className="block font-medium text-gray-700">{t('gaze.algorithm')}</span>
+          <select
+            value={settings.algorithm}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+              setSettings(prev => ({ ...prev, algorithm: e.target.value as DetectionAlgorithm }))}
+            className="mt-1 w-full border border-gray-300 rounded-lg px-2 py-1"
+          >
+            <option value="ivt">{t('gaze.ivt')}</option>
+            <option value="idt">{t('gaze.idt')}</option>
+          </select>
+        </label>
+        {settingFields
+          .filter(field => !field.algorithm || field.algorithm === settings.algorithm)
+          .map(field => (
+            <label key={field.key}>
+              <span className="block font-medium text-gray-700">{t(field.label)}</span>
+              <input
+                type="number"
+                min={0}
+                step={field.step}
+                value={settings[field.key]}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setSettings(prev => ({ ...prev, [field.key]: Number(e.target.value) }))}
+                className="mt-1 w-full border border-gray-300 rounded-lg px-2 py-1"
+              />
+            </label>
+          ))}
+      </div>
+
+      {recording && analysis && metrics && (
+        <div className="space-y-4">
+          <h3 className="font-semibold flex items-center">
+            <Eye className="w-5 h-5 mr-2" />
+            {recording.fileName} · {recording.format} · {t('gaze.samples', {
+              count: recording.samples.length,
+              rate: (1000 / recording.sampleIntervalMs).toFixed(0)
+            })}
+          </h3>
+
+          <GazeMetricsTable metrics={metrics} />
+
+          {metrics.trackingLoss > 0.2 && (
+            <p className="text-sm text-yellow-700 bg-yellow-50 p-3 rounded-lg">{t('gaze.highLoss')}</p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium">{t('gaze.scanpath')}</h4>
+            <label className="flex items-center text-sm text-blue-700 cursor-pointer hover:underline">
+              <Image className="w-4 h-4 mr-1" />
+              {t(stimulusUrl ? 'gaze.changeStimulus' : 'gaze.addStimulus')}
+              <input type="file" accept="image/*" className="sr-only" onChange={handleStimulus} />
+            </label>
+          </div>
+          <ScanpathPlot fixations={analysis.fixations} saccades={analysis.saccades} screen={screen} stimulusUrl={stimulusUrl} />
+          <p className="text-xs text-gray-500">{t('gaze.scanpathLegend')}</p>
+
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={metrics.fixationCount < 2}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center disabled:opacity-50"
+          >
+            <CheckCircle className="w-5 h-5 mr-2" />
+            {t(applied ? 'gaze.applied' : 'gaze.apply')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default GazeImport;
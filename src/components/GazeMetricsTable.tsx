@@ -0,0 +1,36 @@
+import { GazeMetrics } from '../lib/gaze';
+import { useI18n } from './LanguageSelect';
+
+interface GazeMetricsTableProps {
+  metrics: GazeMetrics;
+}
+
+const format = (value: number | null, digits = 0, suffix = '') =>
+  value === null ? '—' : `${value.toFixed(digits)}${suffix}`;
+
+function GazeMetricsTable({ metrics }: GazeMetricsTableProps) {
+  const { t } = useI18n();
+  return (
+    <table className="min-w-full text-sm">
+      <tbody className="divide-y divide-gray-100">
+        {[
+          [t('gaze.duration'), format(metrics.durationMs / 1000, 1, ' s')],
+          [t('gaze.trackingLoss'), format(metrics.trackingLoss * 100, 1, '%')],
+          [t('gaze.fixations'), String(metrics.fixationCount)],
+          [t('gaze.meanFixation'), format(metrics.meanFixationDuration, 0, ' ms')],
+          [t('gaze.medianFixation'), format(metrics.medianFixationDuration, 0, ' ms')],
+          [t('gaze.meanSaccade'), format(metrics.meanSaccadeLength, 1, '°')],
+          [t('gaze.regressionRate'), format(metrics.regressionRate === null ? null : metrics.regressionRate * 100, 1, '%')],
+          [t('gaze.fixationsPerSecond'), format(metrics.fixationsPerSecond, 2)]
+        ].map(([label, value]) => (
+          <tr key={label}>
+            <td className="py-1 pr-4 text-gray-600">{label}</td>
+            <td className="py-1 font-medium">{value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default GazeMetricsTable;
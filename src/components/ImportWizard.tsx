@@ -0,0 +1,235 @@
+import React, { useMemo, useState } from 'react';
+import { Brain, Upload } from 'lucide-react';
+import {
+  ColumnMapping,
+  detectUnits,
+  describeErrors,
+  ImportedRow,
+  ImportField,
+  importFieldLabel,
+  importFields,
+  ImportTable,
+  mapRows,
+  missingMappings,
+  readTable,
+  suggestMapping,
+  unitOptions,
+  UnitSelection
+} from '../lib/importer';
+import { useI18n } from './LanguageSelect';
+
+interface ImportWizardProps {
+  onImport: (rows: ImportedRow[], groupName: string) => void;
+}
+
+const PREVIEW_ROWS = 10;
+
+function ImportWizard({ onImport }: ImportWizardProps) {
+  const { locale, t } = useI18n();
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [units, setUnits] = useState<UnitSelection>({});
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [groupName, setGroupName] = useState('');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    setFileError(null);
+    if (!file) return;
+
+    try {
+      const loaded = await readTable(file);
+      const suggested = suggestMapping(loaded.headers);
+      setTable(loaded);
+      setGroupName(loaded.fileName.replace(/\.[^.]+$/, ''));
+      setMapping(suggested);
+      setUnits(detectUnits(loaded, suggested));
+    } catch (error) {
+      setTable(null);
+      setMapping(null);
+      setFileError(error instanceof Error ? error.message : t('import.readError'));
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    if (!table || !mapping) return;
+    const next = { ...mapping, [field]: value === '' ? null : Number(value) };
+    setMapping(next);
+    setUnits(detectUnits(table, next));
+  };
+
+  const missing = mapping ? missingMappings(mapping) : [];
+  const rows = useMemo(
+    () => (table && mapping && missingMappings(mapping).length === 0 ? mapRows(table, mapping, units, locale) : []),
+    [table, mapping, units, locale]
+  );
+  const validCount = rows.filter(row => row.data).length;
+  const errorRows = rows.filter(row => row.errors.length > 0);
+  const warningCount = rows.filter(row => row.warnings.length > 0).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
+        <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <label className="block">
+          <span className="sr-only">{t('import.chooseFile')}</span>
+          <input
+            type="file"
+            className="block w-full text-sm text-gray-500
+              file:mr-4 file:py-2 file:px-4
+              file:rounded-full file:border-0
+              file:text-sm file:font-semibold
+              file:bg-blue-50 file:text-blue-700
+              hover:file:bg-blue-100"
+            accept=".csv,.tsv,.txt,.xlsx,.xls,.ods"
+            onChange={handleFile}
+          />
+        </label>
+        <p className="text-sm text-gray-500 mt-2">
+          {t('import.hint')}
+        </p>
+        {fileError && (
+          <div className="mt-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            {fileError}
+          </div>
+        )}
+        {!table && (
+          <div className="mt-4 text-sm text-gray-600">
+            <p className="font-medium">{t('import.example')}</p>
+            <code className="block bg-gray-50 p-2 mt-2 rounded text-left">
+              student id,reading speed,fixation duration,saccade length,phoneme errors,spelling errors,comprehension score<br/>
+              S001,60,350,30,10,7,70<br/>
+              S002,45,420,18,13,11,55
+            </code>
+          </div>
+        )}
+      </div>
+
+      {table && mapping && (
+        <div className="space-y-4">
+          <h3 className="font-semibold">{t('import.mappingTitle', { file: table.fileName })}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {importFields.map(field => {
+              const feature = field === 'studentId' ? null : field;
+              const options = feature ? unitOptions[feature] : undefined;
+              return (
+                <div key={field} className="text-sm">
+                  <label className="block font-medium text-gray-700">{importFieldLabel(field, locale)}</label>
+                  <div className="flex space-x-2 mt-1">
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e: React.ChangeEvent<HTMLSelectElement>) => handleMappingChange(field, e.target.value)}
+                      className={`flex-grow border rounded-lg px-2 py-1 ${
+                        feature && missing.includes(feature) ? 'border-red-400' : 'border-gray-300'
+                      }`}
+                    >
+                      <option value="">{t('import.notMapped')}</option>
+                      {table.headers.map((header, i) => (
+                        <option key={i} value={i}>{header || t('import.column', { number: i + 1 })}</option>
+                      ))}
+                    </select>
+                    {feature && options && mapping[feature] !== null && (
+                      <select
+                        value={units[feature] ?? options[0].id}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                          setUnits(prev => ({ ...prev, [feature]: e.target.value }))}
+                        className="border border-gray-300 rounded-lg px-2 py-1"
+                        title={t('import.sourceUnit')}
+                      >
+                        {options.map(option => (
+                          <option key={option.id} value={option.id}>{t(`importUnit.${option.id}`)}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {missing.length > 0 && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+              {t('import.mapMissing', { fields: missing.map(field => importFieldLabel(field, locale)).join(', ') })}
+            </div>
+          )}
+
+          {rows.length > 0 && (
+            <>
+              <h3 className="font-semibold">
+                {t('import.preview', { rows: rows.length, valid: validCount, errors: errorRows.length, warnings: warningCount })}
+              </h3>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">{t('import.row')}</th>
+                      {importFields.map(field => (
+                        <th key={field} className="px-3 py-2 text-left font-medium text-gray-600">
+                          {importFieldLabel(field, locale)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {rows.slice(0, PREVIEW_ROWS).map(row => (
+                      <tr key={row.rowNumber}>
+                        <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                        {importFields.map(field => {
+                          const error = row.errors.find(e => e.field === field);
+                          const warning = row.warnings.find(w => w.field === field);
+                          return (
+                            <td
+                              key={field}
+                              className={`px-3 py-2 ${
+                                error ? 'bg-red-100 text-red-800' : warning ? 'bg-yellow-100 text-yellow-800' : ''
+                              }`}
+                              title={error?.message ?? warning?.message}
+                            >
+                              {row.cells[field] || <span className="text-gray-400">{t('import.missingCell')}</span>}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {errorRows.length > 0 && (
+                <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg space-y-1">
+                  {errorRows.slice(0, 20).map(row => (
+                    <p key={row.rowNumber}>{t('import.rowErrors', { row: row.rowNumber, errors: describeErrors(row.errors) })}</p>
+                  ))}
+                  {errorRows.length > 20 && <p>{t('import.moreErrors', { count: errorRows.length - 20 })}</p>}
+                </div>
+              )}
+
+              <label className="block text-sm">
+                <span className="block font-medium text-gray-700">{t('import.groupName')}</span>
+                <input
+                  type="text"
+                  value={groupName}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setGroupName(e.target.value)}
+                  className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+                />
+              </label>
+
+              <button
+                type="button"
+                className="w-full flex justify-center items-center py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                disabled={validCount === 0}
+                onClick={() => onImport(rows, groupName.trim() || table.fileName)}
+              >
+                <Brain className="w-5 h-5 mr-2" />
+                {validCount === 1 ? t('import.scoreOne') : t('import.scoreMany', { count: validCount })}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ImportWizard;
@@ -0,0 +1,343 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Plus, RotateCcw, Save, Trash2, Upload } from 'lucide-react';
+import { featureKeys } from '../lib/scoring';
+import { Locale, translate } from '../lib/i18n';
+import {
+  categories,
+  EvidenceLevel,
+  evidenceLevels,
+  GoalTemplate,
+  intensities,
+  Intensity,
+  Intervention,
+  InterventionCategory,
+  InterventionLibrary,
+  InterventionRule,
+  validateInterventionLibrary
+} from '../lib/interventions';
+import { exportInterventionLibrary, importInterventionLibrary } from '../lib/profileStore';
+import { useI18n } from './LanguageSelect';
+
+interface InterventionLibraryEditorProps {
+  library: InterventionLibrary;
+  onSave: (library: InterventionLibrary) => void;
+  onReset: () => void;
+}
+
+const describeRule = (locale: Locale, rule: InterventionRule) => {
+  const or = translate(locale, 'library.or');
+  const parts = [
+    ...(rule.decisions.length > 0
+      ? [translate(locale, 'library.decisionIs', { decisions: rule.decisions.map(d => translate(locale, `decision.${d}`)).join(or) })]
+      : []),
+    ...rule.conditions.map(c => translate(locale, 'library.featureIs', {
+      feature: translate(locale, `feature.${c.feature}`),
+      levels: c.levels.map(level => translate(locale, `level.${level}`)).join(or)
+    }))
+  ];
+  return parts.length > 0 ? parts.join(translate(locale, 'library.and')) : translate(locale, 'library.always');
+};
+
+const newIntervention = (name: string): Intervention => ({
+  id: `custom-${Date.now().toString(36)}`,
+  name,
+  category: 'decoding',
+  description: '',
+  minAge: 5,
+  maxAge: 18,
+  intensity: 'moderate',
+  evidence: 'consensus',
+  goal: null
+});
+
+function InterventionLibraryEditor({ library, onSave, onReset }: InterventionLibraryEditorProps) {
+  const { locale, t } = useI18n();
+  const [draft, setDraft] = useState<InterventionLibrary>(library);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(library);
+    setError(null);
+  }, [library]);
+
+  const updateIntervention = (index: number, changes: Partial<Intervention>) => {
+    setDraft(prev => ({
+      ...prev,
+      interventions: prev.interventions.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    }));
+  };
+
+  const updateGoal = (index: number, changes: Partial<GoalTemplate> | null) => {
+    const current = draft.interventions[index].goal ?? { feature: featureKeys[0], targetLevel: 'Low', weeks: 12 };
+    updateIntervention(index, { goal: changes === null ? null : { ...current, ...changes } });
+  };
+
+  // Rules left without any intervention are removed with it.
+  const removeIntervention = (id: string) => {
+    setDraft(prev => ({
+      interventions: prev.interventions.filter(item => item.id !== id),
+      rules: prev.rules
+        .map(rule => ({ ...rule, interventions: rule.interventions.filter(ruleId => ruleId !== id) }))
+        .filter(rule => rule.interventions.length > 0)
+    }));
+  };
+
+  const updateRule = (index: number, changes: Partial<InterventionRule>) => {
+    setDraft(prev => ({
+      ...prev,
+      rules: prev.rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule))
+    }));
+  };
+
+  const handleSave = () => {
+    try {
+      onSave(validateInterventionLibrary(draft));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('library.invalid'));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onSave(await importInterventionLibrary(file));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('library.importError'));
+    }
+  };
+
+  const nameOf = (id: string) => draft.interventions.find(item => item.id === id)?.name ?? id;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">{t('library.intro')}</p>
+        <div className="flex space-x-2">
+          <label className="py-2 px-4 rounded-lg bg-gray-100 text-gray-600 text-sm flex items-center cursor-pointer">
+            <Upload className="w-4 h-4 mr-2" />
+            {t('profile.import')}
+            <input type="file" accept=".json,application/json" className="sr-only" onChange={handleImport} />
+          </label>
+          <button
+            type="button"
+            className="py-2 px-4 rounded-lg bg-gray-100 text-gray-600 text-sm flex items-center"
+            onClick={() => exportInterventionLibrary(library)}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {t('profile.export')}
+          </button>
+          <button
+            type="button"
+            className="py-2 px-4 rounded-lg bg-gray-100 text-gray-600 text-sm flex items-center"
+            onClick={() => {
+              if (window.confirm(t('library.confirmReset'))) onReset();
+            }}
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            {t('library.reset')}
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="font-semibold">{t('library.interventions')}</h3>
+        {draft.interventions.map((item, index) => (
+          <div key={item.id} className="border border-gray-200 rounded-lg p-4 space-y-3 text-sm">
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                aria-label={t('library.name')}
+                value={item.name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateIntervention(index, { name: e.target.value })}
+                className="flex-grow border border-gray-300 rounded px-2 py-1 font-medium"
+              />
+              <button
+                type="button"
+                aria-label={t('library.delete', { name: item.name })}
+                className="px-2 text-red-600 hover:bg-red-50 rounded"
+                onClick={() => removeIntervention(item.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <textarea
+              aria-label={t('library.description')}
+              value={item.description}
+              rows={2}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateIntervention(index, { description: e.target.value })}
+              className="w-full border border-gray-300 rounded px-2 py-1"
+            />
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              <label>
+                <span className="block text-xs text-gray-500">{t('library.category')}</span>
+                <select
+                  value={item.category}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                    updateIntervention(index, { category: e.target.value as InterventionCategory })}
+                  className="w-full border border-gray-300 rounded px-2 py-1"
+                >
+                  {categories.map(id => (
+                    <option key={id} value={id}>{t(`category.${id}`)}</option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <span className="block text-xs text-gray-500">{t('library.intensity')}</span>
+                <select
+                  value={item.intensity}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                    updateIntervention(index, { intensity: e.target.value as Intensity })}
+                  className="w-full border border-gray-300 rounded px-2 py-1"
+                >
+                  {intensities.map(id => (
+                    <option key={id} value={id}>{t(`intensity.${id}`)}</option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <span className="block text-xs text-gray-500">{t('library.evidence')}</span>
+                <select
+                  value={item.evidence}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                    updateIntervention(index, { evidence: e.target.value as EvidenceLevel })}
+                  className="w-full border border-gray-300 rounded px-2 py-1"
+                >
+                  {evidenceLevels.map(level => <option key={level} value={level}>{t(`evidence.${level}`)}</option>)}
+                </select>
+              </label>
+              {(['minAge', 'maxAge'] as const).map(field => (
+                <label key={field}>
+                  <span className="block text-xs text-gray-500">{t(field === 'minAge' ? 'library.minAge' : 'library.maxAge')}</span>
+                  <input
+                    type="number"
+                    value={item[field]}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      updateIntervention(index, { [field]: e.target.valueAsNumber })}
+                    className="w-full border border-gray-300 rounded px-2 py-1"
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs text-gray-500">{t('library.goal')}</span>
+              <select
+                aria-label={t('library.goalFeature')}
+                value={item.goal?.feature ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                  updateGoal(index, e.target.value ? { feature: e.target.value as GoalTemplate['feature'] } : null)}
+                className="border border-gray-300 rounded px-2 py-1"
+              >
+                <option value="">{t('library.noGoal')}</option>
+                {featureKeys.map(feature => <option key={feature} value={feature}>{t(`feature.${feature}`)}</option>)}
+              </select>
+              {item.goal && (
+                <>
+                  <span className="text-xs text-gray-500">{t('library.reaches')}</span>
+                  <select
+                    aria-label={t('library.goalLevel')}
+                    value={item.goal.targetLevel}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                      updateGoal(index, { targetLevel: e.target.value as GoalTemplate['targetLevel'] })}
+                    className="border border-gray-300 rounded px-2 py-1"
+                  >
+                    <option value="Low">{t('library.goalLow')}</option>
+                    <option value="Medium">{t('library.goalMedium')}</option>
+                  </select>
+                  <span className="text-xs text-gray-500">{t('library.within')}</span>
+                  <input
+                    type="number"
+                    aria-label={t('library.goalWeeks')}
+                    min={1}
+                    value={item.goal.weeks}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateGoal(index, { weeks: e.target.valueAsNumber })}
+                    className="w-16 border border-gray-300 rounded px-2 py-1"
+                  />
+                  <span className="text-xs text-gray-500">{t('library.weeks')}</span>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+        <button
+          type="button"
+          className="py-2 px-4 rounded-lg bg-gray-100 text-gray-600 text-sm flex items-center"
+          onClick={() => setDraft(prev => ({ ...prev, interventions: [...prev.interventions, newIntervention(t('library.newName'))] }))}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          {t('library.add')}
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <h3 className="font-semibold mb-2">{t('library.rules')}</h3>
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-600">{t('library.when')}</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-600">{t('library.reasonShown')}</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-600">{t('library.adds')}</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-600">{t('library.priority')}</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {draft.rules.map((rule, index) => (
+              <tr key={rule.id}>
+                <td className="px-3 py-2">{describeRule(locale, rule)}</td>
+                <td className="px-3 py-2">
+                  <input
+                    type="text"
+                    aria-label={t('library.reason')}
+                    value={rule.description}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateRule(index, { description: e.target.value })}
+                    className="w-full border border-gray-300 rounded px-2 py-1"
+                  />
+                </td>
+                <td className="px-3 py-2">{rule.interventions.map(nameOf).join(', ')}</td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    aria-label={t('library.priority')}
+                    min={0}
+                    max={100}
+                    value={rule.priority}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateRule(index, { priority: e.target.valueAsNumber })}
+                    className="w-20 border border-gray-300 rounded px-2 py-1"
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <button
+                    type="button"
+                    aria-label={t('library.deleteRule')}
+                    className="px-2 text-red-600 hover:bg-red-50 rounded"
+                    onClick={() => setDraft(prev => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-500 mt-2">{t('library.rulesHint')}</p>
+      </div>
+
+      {error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">{error}</div>}
+
+      <button
+        type="button"
+        className="w-full flex justify-center items-center py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+        onClick={handleSave}
+      >
+        <Save className="w-5 h-5 mr-2" />
+        {t('library.save')}
+      </button>
+    </div>
+  );
+}
+
+export default InterventionLibraryEditor;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { Target } from 'lucide-react';
+import { EvidenceLevel, InterventionPlan, planTiers } from '../lib/interventions';
+import { useI18n } from './LanguageSelect';
+
+interface InterventionPlanPanelProps {
+  plan: InterventionPlan;
+  onAgeChange: (age: number | null) => void;
+}
+
+export const evidenceBadgeClass: Record<EvidenceLevel, string> = {
+  strong: 'bg-green-100 text-green-800',
+  moderate: 'bg-blue-100 text-blue-800',
+  emerging: 'bg-yellow-100 text-yellow-800',
+  consensus: 'bg-gray-100 text-gray-700'
+};
+
+function InterventionPlanPanel({ plan, onAgeChange }: InterventionPlanPanelProps) {
+  const { t } = useI18n();
+  return (
+    <div className="bg-blue-50 rounded-lg p-6 space-y-6">
+      <div className="flex items-end justify-between">
+        <h3 className="font-semibold text-lg">{t('plan.title')}</h3>
+        <label className="text-sm">
+          <span className="block text-gray-600">{t('plan.age')}</span>
+          <input
+            type="number"
+            min={3}
+            max={21}
+            value={plan.age ?? ''}
+            placeholder={t('plan.anyAge')}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              onAgeChange(Number.isFinite(e.target.valueAsNumber) ? e.target.valueAsNumber : null)}
+            className="mt-1 w-24 border border-gray-300 rounded-lg px-2 py-1"
+          />
+        </label>
+      </div>
+
+      {planTiers.map(tier => {
+        const items = plan.items.filter(item => item.tier === tier);
+        if (items.length === 0) return null;
+        return (
+          <div key={tier}>
+            <h4 className="font-medium text-blue-600 mb-2">{t(`tier.${tier}`)}</h4>
+            <ol className="space-y-3">
+              {items.map(item => {
+                const { intervention, reasons } = item;
+                // Items are sorted by priority, so tiers number consecutively.
+                const position = plan.items.indexOf(item) + 1;
+                return (
+                  <li key={intervention.id} className="bg-white p-4 rounded-lg shadow-sm text-sm">
+                    <div className="flex items-start justify-between">
+                      <span className="font-medium">{position}. {intervention.name}</span>
+                      <span
+                        className={`ml-2 px-2 py-0.5 rounded-full text-xs whitespace-nowrap ${evidenceBadgeClass[intervention.evidence]}`}
+                        title={t(`evidence.${intervention.evidence}`)}
+                      >
+                        {t('plan.evidence', { grade: t(`evidence.${intervention.evidence}`).charAt(0) })}
+                      </span>
+                    </div>
+                    <p className="text-gray-600 mt-1">{intervention.description}</p>
+                    <p className="text-xs text-gray-500 mt-2">
+                      {t(`category.${intervention.category}`)} · {t(`intensity.${intervention.intensity}`)}
+                      {' · '}{t('plan.ages', { min: intervention.minAge, max: intervention.maxAge })}
+                    </p>
+                    <p className="text-xs text-gray-500">{t('plan.why', { reasons: reasons.join('; ') })}</p>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        );
+      })}
+
+      {plan.goals.length > 0 && (
+        <div>
+          <h4 className="font-medium text-blue-600 mb-2 flex items-center">
+            <Target className="w-4 h-4 mr-1" />
+            {t('plan.goals')}
+          </h4>
+          <ul className="list-disc pl-5 space-y-1 text-sm">
+            {plan.goals.map(goal => (
+              <li key={goal.feature}>
+                {t('plan.goal', {
+                  feature: t(`feature.${goal.feature}`),
+                  from: t(`level.${goal.baselineLevel}`),
+                  to: t(`level.${goal.targetLevel}`),
+                  date: goal.reviewBy
+                })}
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-gray-500 mt-2">
+            {t('plan.trackGoals')}
+          </p>
+        </div>
+      )}
+
+      {plan.excludedForAge.length > 0 && (
+        <p className="text-xs text-gray-500">
+          {t('plan.excluded', { names: plan.excludedForAge.join(', ') })}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default InterventionPlanPanel;
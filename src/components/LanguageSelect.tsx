@@ -0,0 +1,37 @@
+import React, { createContext, useContext } from 'react';
+import { Languages } from 'lucide-react';
+import { defaultLocale, Locale, locales, MessageKey, MessageParams, translate } from '../lib/i18n';
+
+// The active UI locale; components outside a provider fall back to English.
+export const I18nContext = createContext<Locale>(defaultLocale);
+
+export function useI18n() {
+  const locale = useContext(I18nContext);
+  return { locale, t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params) };
+}
+
+interface LanguageSelectProps {
+  value: string;
+  onChange: (code: string) => void;
+}
+
+function LanguageSelect({ value, onChange }: LanguageSelectProps) {
+  const { t } = useI18n();
+  return (
+    <label className="flex items-center text-sm text-gray-600">
+      <Languages className="w-4 h-4 mr-1" aria-hidden="true" />
+      <span className="sr-only">{t('app.language')}</span>
+      <select
+        value={value}
+        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onChange(e.target.value)}
+        className="border border-gray-300 rounded-lg px-2 py-1"
+      >
+        {locales.map(locale => (
+          <option key={locale.code} value={locale.code} lang={locale.code}>{locale.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export default LanguageSelect;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { AlertTriangle, Brain } from 'lucide-react';
+import { FormDataType, Measurements } from '../types';
+import { featureKeys } from '../lib/scoring';
+import { featureSchema, ValidationReport } from '../lib/validation';
+import { useI18n } from './LanguageSelect';
+
+interface MeasurementFormProps {
+  data: Measurements;
+  validation: ValidationReport;
+  // Value restored when an optional feature is marked as measured again.
+  defaults: FormDataType;
+  onChange: (feature: keyof FormDataType, value: number | null) => void;
+  onSubmit: (e: React.FormEvent) => void;
+}
+
+function MeasurementForm({ data, validation, defaults, onChange, onSubmit }: MeasurementFormProps) {
+  const { t } = useI18n();
+  return (
+    <form onSubmit={onSubmit} className="space-y-4">
+      {featureKeys.map(feature => {
+        const spec = featureSchema[feature];
+        const value = data[feature];
+        const issue = validation.issues.find(i => i.feature === feature && value !== null);
+        const [min, max] = spec.validRange;
+        const label = t(`feature.${feature}`);
+        const unit = t(`unit.${feature}`);
+        return (
+          <div key={feature} className="relative">
+            <div className="flex items-center justify-between">
+              <label htmlFor={`input-${feature}`} className="block text-sm font-medium text-gray-700">
+                {label} <span className="text-gray-400 font-normal">({unit})</span>
+                {spec.required && <span className="text-red-500 ml-1">*</span>}
+              </label>
+              {!spec.required && (
+                <label className="flex items-center text-xs text-gray-500">
+                  <input
+                    type="checkbox"
+                    className="mr-1"
+                    checked={value === null}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      onChange(feature, e.target.checked ? null : defaults[feature])}
+                  />
+                  {t('form.notMeasured')}
+                </label>
+              )}
+            </div>
+            {value === null ? (
+              <p className="text-sm text-gray-400 italic py-1">{t('form.missing')}</p>
+            ) : (
+              <div className="flex items-center space-x-4">
+                <input
+                  type="range"
+                  name={feature}
+                  value={value}
+                  aria-label={label}
+                  aria-valuetext={`${value} ${unit}`}
+                  aria-describedby={issue ? `issue-${feature}` : undefined}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(feature, Number(e.target.value))}
+                  className="flex-grow h-2 bg-blue-100 rounded-lg appearance-none cursor-pointer"
+                  min={min}
+                  max={max}
+                  step={spec.step}
+                />
+                <input
+                  id={`input-${feature}`}
+                  type="number"
+                  value={value}
+                  aria-invalid={issue?.severity === 'error'}
+                  aria-describedby={issue ? `issue-${feature}` : undefined}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                    if (!Number.isNaN(e.target.valueAsNumber)) onChange(feature, e.target.valueAsNumber);
+                  }}
+                  className="w-20 border border-gray-300 rounded px-2 py-1 text-sm"
+                  step={spec.step}
+                />
+              </div>
+            )}
+            {issue && (
+              <p id={`issue-${feature}`} className={`flex items-center text-xs mt-1 ${issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}`}>
+                <AlertTriangle className="w-3 h-3 mr-1" aria-hidden="true" />
+                {issue.message}
+              </p>
+            )}
+          </div>
+        );
+      })}
+      {validation.missing.length > 0 && validation.canScore && (
+        <p className="text-sm text-yellow-700 bg-yellow-50 p-3 rounded-lg">
+          {validation.missing.length === 1
+            ? t('form.missingOne')
+            : t('form.missingMany', { count: validation.missing.length })}
+        </p>
+      )}
+      <button
+        type="submit"
+        disabled={!validation.canScore}
+        className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        <Brain className="w-5 h-5 mr-2" />
+        {t('form.analyze')}
+      </button>
+    </form>
+  );
+}
+
+export default MeasurementForm;
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { CheckCircle } from 'lucide-react';
+import { PhonemeItem } from '../lib/contentPacks';
+import { countPhonemeErrors } from '../lib/assessments';
+import ReadAloud from './ReadAloud';
+import { useI18n } from './LanguageSelect';
+
+interface PhonemeTestProps {
+  items: PhonemeItem[];
+  onComplete: (errors: number) => void;
+}
+
+// Examiner-scored: the examiner says each item, the student says its sounds
+// one by one, and the examiner clicks every sound that was missed or wrong.
+function PhonemeTest({ items, onComplete }: PhonemeTestProps) {
+  const { t } = useI18n();
+  const [missed, setMissed] = useState<boolean[][]>(() => items.map(item => item.phonemes.map(() => false)));
+  const errors = countPhonemeErrors(items, missed);
+
+  const toggle = (i: number, j: number) =>
+    setMissed(prev => prev.map((row, r) => (r === i ? row.map((m, c) => (c === j ? !m : m)) : row)));
+
+  return (
+    <div className="space-y-4">
+      <ReadAloud>
+        <p className="text-sm text-gray-500">{t('phoneme.instructions')}</p>
+      </ReadAloud>
+      <table className="min-w-full text-sm">
+        <tbody className="divide-y divide-gray-100">
+          {items.map((item, i) => (
+            <tr key={item.item}>
+              <td className="py-2 pr-4 font-medium">
+                {item.item}
+                {item.nonword && <span className="ml-2 text-xs text-gray-400">{t('phoneme.nonword')}</span>}
+              </td>
+              <td className="py-2">
+                <div className="flex flex-wrap gap-1">
+                  {item.phonemes.map((phoneme, j) => (
+                    <button
+                      key={j}
+                      type="button"
+                      onClick={() => toggle(i, j)}
+                      aria-pressed={missed[i][j]}
+                      className={`px-2 py-1 rounded border font-mono ${
+                        missed[i][j] ? 'bg-red-100 border-red-300 text-red-800 line-through' : 'bg-white border-gray-300'
+                      }`}
+                    >
+                      /{phoneme}/
+                    </button>
+                  ))}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          <span className="font-semibold">{t(errors === 1 ? 'phoneme.errorsOne' : 'phoneme.errorsMany', { count: errors })}</span>
+          {' '}{t('phoneme.outOf', { total: items.reduce((sum, item) => sum + item.phonemes.length, 0) })}
+        </p>
+        <button
+          type="button"
+          onClick={() => onComplete(errors)}
+          className="py-2 px-4 rounded-lg bg-green-600 text-white flex items-center"
+        >
+          <CheckCircle className="w-4 h-4 mr-2" />
+          {t('modules.useResult')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default PhonemeTest;
@@ -0,0 +1,87 @@
+import { describeCalibrated, planSections, ReportData, riskRows } from '../lib/report';
+import { MessageKey, MessageParams, translate } from '../lib/i18n';
+
+interface PrintableReportProps {
+  report: ReportData;
+}
+
+// Print-only counterpart of the PDF export; hidden on screen and shown in
+// place of the app when the browser prints.
+// Written in the report's own language, like the PDF.
+function PrintableReport({ report }: PrintableReportProps) {
+  const t = (key: MessageKey, params?: MessageParams) => translate(report.locale, key, params);
+  const sections = planSections(report.plan, report.locale);
+  return (
+    <div className="hidden print:block p-8 text-black text-sm">
+      <h1 className="text-2xl font-bold mb-4">{t('report.heading')}</h1>
+      <div className="grid grid-cols-3 gap-4 mb-6">
+        <p><span className="font-semibold">{t('report.student')}:</span> {report.studentId || t('report.notSpecified')}</p>
+        <p><span className="font-semibold">{t('report.date')}:</span> {report.date}</p>
+        <p><span className="font-semibold">{t('report.profile')}:</span> {report.profileName}</p>
+      </div>
+
+      <h2 className="text-lg font-bold mb-2">{t('report.result')}</h2>
+      <p className="font-semibold">
+        {t(`decision.${report.result.decision}`)}
+      </p>
+      <p>{t('results.riskScore')}: {report.result.riskScore.toFixed(1)} / 10</p>
+      {report.calibrated ? (
+        <p>{t('decisionPanel.calibrated')}: {describeCalibrated(report.locale, report.calibrated)}</p>
+      ) : (
+        <p>{t('report.margin')}: {report.result.confidence.toFixed(0)}%</p>
+      )}
+      {report.modelResult && (
+        <p>{t('report.modelProbability')}: {(report.modelResult.probability * 100).toFixed(1)}%</p>
+      )}
+
+      <h2 className="text-lg font-bold mt-6 mb-2">{t('report.measurements')}</h2>
+      <table className="w-full border-collapse">
+        <thead>
+          <tr>
+            <th className="border px-2 py-1 text-left">{t('explain.measurement')}</th>
+            <th className="border px-2 py-1 text-left">{t('analytics.value')}</th>
+            <th className="border px-2 py-1 text-left">{t('report.risk')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {riskRows(report).map(row => (
+            <tr key={row.feature}>
+              <td className="border px-2 py-1">{row.label}</td>
+              <td className="border px-2 py-1">{row.value}</td>
+              <td className="border px-2 py-1 font-semibold">{row.risk}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {report.chartImages.length > 0 && (
+        <div className="grid grid-cols-2 gap-4 mt-6 break-inside-avoid">
+          {report.chartImages.map(image => (
+            <figure key={image.title}>
+              <img src={image.dataUrl} alt={image.title} className="w-full" />
+              <figcaption className="text-center text-xs mt-1">{image.title}</figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+
+      {sections.length > 0 && (
+        <div className="break-inside-avoid">
+          <h2 className="text-lg font-bold mt-6 mb-2">{t('plan.title')}</h2>
+          {sections.map(group => (
+            <div key={group.title} className="mb-2">
+              <h3 className="font-semibold">{group.title}</h3>
+              <ul className="list-disc pl-5">
+                {group.items.map(item => <li key={item}>{item}</li>)}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="mt-8 text-xs border-t pt-2">{t('report.disclaimer')}</p>
+    </div>
+  );
+}
+
+export default PrintableReport;
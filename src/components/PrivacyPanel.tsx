@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { FileDown, ScrollText, ShieldCheck } from 'lucide-react';
+import { StudentRecord, today } from '../lib/studentStore';
+import { AuditEntry, auditLogToCsv } from '../lib/auditLog';
+import { DeidentifiedExport, defaultDeidentifyOptions, DeidentifyOptions } from '../lib/deidentify';
+import { downloadFile } from '../lib/download';
+import { useI18n } from './LanguageSelect';
+
+interface PrivacyPanelProps {
+  students: StudentRecord[];
+  auditLog: AuditEntry[];
+  onExportDeidentified: (options: DeidentifyOptions) => Promise<DeidentifiedExport>;
+}
+
+function PrivacyPanel({ students, auditLog, onExportDeidentified }: PrivacyPanelProps) {
+  const { locale, t } = useI18n();
+  const [options, setOptions] = useState<DeidentifyOptions>(defaultDeidentifyOptions);
+  const [status, setStatus] = useState<string | null>(null);
+  const consenting = students.filter(student => student.consent?.research).length;
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStatus(null);
+    try {
+      const exported = await onExportDeidentified(options);
+      const summary = t('privacy.exported', {
+        assessments: t(exported.assessments === 1 ? 'privacy.assessmentsOne' : 'privacy.assessmentsMany', { count: exported.assessments }),
+        students: t(exported.students === 1 ? 'privacy.studentsOne' : 'privacy.studentsMany', { count: exported.students })
+      });
+      setStatus(exported.excluded > 0 ? `${summary} ${t('privacy.excluded', { count: exported.excluded })}` : summary);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : t('privacy.exportFailed'));
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <form onSubmit={handleExport} className="bg-gray-50 rounded-lg p-6 space-y-4">
+        <h3 className="font-semibold flex items-center">
+          <ShieldCheck className="w-5 h-5 mr-2" />
+          {t('privacy.exportTitle')}
+        </h3>
+        <p className="text-sm text-gray-600">
+          {t('privacy.exportIntro', { consenting, total: students.length })}
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <label>
+            <span className="block text-gray-700">{t('privacy.studyKey')}</span>
+            <input
+              type="password"
+              autoComplete="off"
+              value={options.studyKey}
+              aria-describedby="study-key-hint"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setOptions({ ...options, studyKey: e.target.value })}
+              className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+            />
+            <span id="study-key-hint" className="block text-xs text-gray-500 mt-1">{t('privacy.studyKeyHint')}</span>
+          </label>
+          <label>
+            <span className="block text-gray-700">{t('privacy.maxShift')}</span>
+            <input
+              type="number"
+              min={0}
+              max={365}
+              value={options.maxShiftDays}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setOptions({ ...options, maxShiftDays: e.target.valueAsNumber })}
+              className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+            />
+          </label>
+        </div>
+        <div className="flex items-center space-x-4">
+          <button
+            type="submit"
+            disabled={consenting === 0}
+            className="py-2 px-4 rounded-lg bg-blue-600 text-white text-sm flex items-center disabled:opacity-50"
+          >
+            <FileDown className="w-4 h-4 mr-2" />
+            {t('privacy.export')}
+          </button>
+          {status && <span className="text-sm text-gray-600">{status}</span>}
+        </div>
+      </form>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold flex items-center">
+            <ScrollText className="w-5 h-5 mr-2" />
+            {t('privacy.auditTitle')}
+          </h3>
+          <button
+            type="button"
+            disabled={auditLog.length === 0}
+            className="py-1 px-3 rounded-lg bg-gray-100 text-gray-600 text-sm flex items-center disabled:opacity-50"
+            onClick={() => downloadFile(auditLogToCsv(auditLog), `audit-log-${today()}.csv`, 'text/csv')}
+          >
+            <FileDown className="w-4 h-4 mr-1" />
+            {t('privacy.downloadCsv')}
+          </button>
+        </div>
+        {auditLog.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('privacy.auditEmpty')}</p>
+        ) : (
+          <div className="overflow-x-auto max-h-96">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-600">{t('privacy.when')}</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-600">{t('privacy.who')}</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-600">{t('privacy.action')}</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-600">{t('privacy.students')}</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-600">{t('privacy.detail')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {auditLog.map(entry => (
+                  <tr key={entry.id}>
+                    <td className="px-3 py-2 whitespace-nowrap">{new Date(entry.at).toLocaleString(locale.code)}</td>
+                    <td className="px-3 py-2">{entry.actor}</td>
+                    <td className="px-3 py-2">{t(`audit.${entry.action}`)}</td>
+                    <td className="px-3 py-2">
+                      {entry.students.length > 3
+                        ? t('privacy.studentsMany', { count: entry.students.length })
+                        : entry.students.map(s => s.name).join(', ')}
+                    </td>
+                    <td className="px-3 py-2 text-gray-500">{entry.detail ?? ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default PrivacyPanel;
@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Save, Trash2, Upload } from 'lucide-react';
+import { FeatureRule, RiskDirection, ScoringProfile, validateProfile } from '../lib/scoring';
+import { exportProfile, importProfile } from '../lib/profileStore';
+import { useI18n } from './LanguageSelect';
+
+interface ProfileEditorProps {
+  profiles: ScoringProfile[];
+  builtInIds: string[];
+  activeProfile: ScoringProfile;
+  onSelect: (id: string) => void;
+  onSave: (profile: ScoringProfile) => void;
+  onDelete: (id: string) => void;
+}
+
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '') || 'profile';
+
+function ProfileEditor({ profiles, builtInIds, activeProfile, onSelect, onSave, onDelete }: ProfileEditorProps) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<ScoringProfile>(activeProfile);
+  const [error, setError] = useState<string | null>(null);
+  const isBuiltIn = builtInIds.includes(activeProfile.id);
+
+  useEffect(() => {
+    setDraft(activeProfile);
+    setError(null);
+  }, [activeProfile]);
+
+  const updateRule = (index: number, changes: Partial<FeatureRule>) => {
+    setDraft(prev => ({
+      ...prev,
+      rules: prev.rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule))
+    }));
+  };
+
+  const handleSave = () => {
+    // Built-in profiles are never overwritten; saving one creates a copy.
+    const id = isBuiltIn ? `${slugify(draft.name)}-${Date.now().toString(36)}` : draft.id;
+    const name = isBuiltIn && draft.name === activeProfile.name ? t('profile.customName', { name: draft.name }) : draft.name;
+    try {
+      onSave(validateProfile({ ...draft, id, name }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('profile.invalid'));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const profile = await importProfile(file);
+      const clash = builtInIds.includes(profile.id);
+      onSave(clash ? { ...profile, id: `${profile.id}-${Date.now().toString(36)}` } : profile);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('profile.importError'));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end space-x-4">
+        <label className="flex-grow">
+          <span className="block text-sm font-medium text-gray-700">{t('profile.active')}</span>
+          <select
+            value={activeProfile.id}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onSelect(e.target.value)}
+            className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          >
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>
+                {builtInIds.includes(profile.id) ? t('profile.builtInName', { name: profile.name }) : profile.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="py-2 px-4 rounded-lg bg-gray-100 text-gray-600 text-sm flex items-center cursor-pointer">
+          <Upload className="w-4 h-4 mr-2" />
+          {t('profile.import')}
+          <input type="file" accept=".json,application/json" className="sr-only" onChange={handleImport} />
+        </label>
+        <button
+          type="button"
+          className="py-2 px-4 rounded-lg bg-gray-100 text-gray-600 text-sm flex items-center"
+          onClick={() => exportProfile(activeProfile)}
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {t('profile.export')}
+        </button>
+      </div>
+
+      {activeProfile.description && <p className="text-sm text-gray-500">{activeProfile.description}</p>}
+
+      <label className="block">
+        <span className="block text-sm font-medium text-gray-700">{t('profile.name')}</span>
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+          className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+        />
+      </label>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-600">{t('analytics.feature')}</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-600">{t('profile.riskWhen')}</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-600">{t('profile.low')}</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-600">{t('profile.high')}</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-600">{t('profile.weight')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {draft.rules.map((rule, index) => (
+              <tr key={rule.feature}>
+                <td className="px-3 py-2">{t(`feature.${rule.feature}`)}</td>
+                <td className="px-3 py-2">
+                  <select
+                    value={rule.direction}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                      updateRule(index, { direction: e.target.value as RiskDirection })}
+                    className="border border-gray-300 rounded px-2 py-1"
+                  >
+                    <option value="lower">{t('profile.lower')}</option>
+                    <option value="higher">{t('profile.higher')}</option>
+                  </select>
+                </td>
+                {(['low', 'high', 'weight'] as const).map(field => (
+                  <td key={field} className="px-3 py-2">
+                    <input
+                      type="number"
+                      step={field === 'weight' ? 0.05 : 1}
+                      value={rule[field]}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        updateRule(index, { [field]: e.target.valueAsNumber })}
+                      className="w-24 border border-gray-300 rounded px-2 py-1"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="flex space-x-4">
+        <button
+          type="button"
+          className="flex-1 flex justify-center items-center py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+          onClick={handleSave}
+        >
+          <Save className="w-5 h-5 mr-2" />
+          {t(isBuiltIn ? 'profile.saveAsNew' : 'profile.save')}
+        </button>
+        {!isBuiltIn && (
+          <button
+            type="button"
+            className="py-3 px-4 rounded-lg text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 flex items-center"
+            onClick={() => onDelete(activeProfile.id)}
+          >
+            <Trash2 className="w-5 h-5 mr-2" />
+            {t('profile.delete')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ProfileEditor;
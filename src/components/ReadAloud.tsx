@@ -0,0 +1,40 @@
+import React, { createContext, useContext, useRef } from 'react';
+import { Volume2 } from 'lucide-react';
+import { speak, speechSupported } from '../lib/accessibility';
+import { useI18n } from './LanguageSelect';
+
+// Speech rate while read-aloud is switched on in the reading settings; null
+// when it is off.
+export const SpeechContext = createContext<{ rate: number } | null>(null);
+
+interface ReadAloudProps {
+  children: React.ReactNode;
+  // Spoken instead of the children's text when given.
+  text?: string;
+}
+
+// Adds a read-aloud button beside its children when read-aloud is on.
+function ReadAloud({ children, text }: ReadAloudProps) {
+  const speech = useContext(SpeechContext);
+  const { t } = useI18n();
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  if (!speech || !speechSupported) return <>{children}</>;
+
+  return (
+    <div className="flex items-start">
+      <div ref={contentRef} className="flex-grow">{children}</div>
+      <button
+        type="button"
+        className="ml-2 p-1 rounded text-blue-600 hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label={t('results.readAloud')}
+        title={t('results.readAloud')}
+        onClick={() => speak(text ?? contentRef.current?.textContent ?? '', speech.rate)}
+      >
+        <Volume2 className="w-4 h-4" aria-hidden="true" />
+      </button>
+    </div>
+  );
+}
+
+export default ReadAloud;
@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react';
+import { CheckCircle, Play, Square } from 'lucide-react';
+import { ReadingPassage } from '../lib/contentPacks';
+import { passageWords, wordsPerMinute } from '../lib/assessments';
+import ReadAloud from './ReadAloud';
+import { useI18n } from './LanguageSelect';
+
+interface ReadingTestProps {
+  passage: ReadingPassage;
+  onComplete: (wordsPerMinute: number) => void;
+}
+
+type Phase = 'ready' | 'reading' | 'review';
+
+// The student reads the passage aloud while the examiner runs the timer. If
+// the student stops early, the examiner clicks the last word read, or moves to
+// it with the arrow keys.
+function ReadingTest({ passage, onComplete }: ReadingTestProps) {
+  const { t } = useI18n();
+  const words = passageWords(passage.text);
+  const [phase, setPhase] = useState<Phase>('ready');
+  const [startedAt, setStartedAt] = useState(0);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [lastWord, setLastWord] = useState(words.length - 1);
+  const wordRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  const start = () => {
+    setStartedAt(performance.now());
+    setLastWord(words.length - 1);
+    setPhase('reading');
+  };
+
+  const stop = () => {
+    setElapsedMs(performance.now() - startedAt);
+    setPhase('review');
+  };
+
+  const wpm = wordsPerMinute(lastWord + 1, elapsedMs);
+
+  // Only the marked word is in the tab order; arrows, Home and End move the
+  // mark so the passage is one tab stop rather than one per word.
+  const handleWordKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    const target =
+      e.key === 'ArrowRight' || e.key === 'ArrowDown' ? Math.min(lastWord + 1, words.length - 1) :
+      e.key === 'ArrowLeft' || e.key === 'ArrowUp' ? Math.max(lastWord - 1, 0) :
+      e.key === 'Home' ? 0 :
+      e.key === 'End' ? words.length - 1 :
+      null;
+    if (target === null) return;
+    e.preventDefault();
+    setLastWord(target);
+    wordRefs.current[target]?.focus();
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-semibold">{passage.title}</h3>
+      {phase === 'ready' ? (
+        <ReadAloud>
+          <p className="text-sm text-gray-500">{t('reading.instructions')}</p>
+        </ReadAloud>
+      ) : phase === 'reading' ? (
+        <p className="text-lg leading-relaxed bg-white rounded-lg p-4 shadow-sm">
+          {words.map((word, i) => <span key={i}>{word} </span>)}
+        </p>
+      ) : (
+        <p
+          role="group"
+          aria-label={t('reading.lastWord')}
+          className="text-lg leading-relaxed bg-white rounded-lg p-4 shadow-sm"
+        >
+          {words.map((word, i) => (
+            <React.Fragment key={i}>
+              <button
+                type="button"
+                ref={element => { wordRefs.current[i] = element; }}
+                tabIndex={i === lastWord ? 0 : -1}
+                aria-pressed={i === lastWord}
+                onClick={() => setLastWord(i)}
+                onKeyDown={handleWordKeyDown}
+                className={`rounded ${i <= lastWord ? 'bg-blue-50' : 'text-gray-400'} ${i === lastWord ? 'ring-2 ring-blue-400' : ''}`}
+              >
+                {word}
+              </button>{' '}
+            </React.Fragment>
+          ))}
+        </p>
+      )}
+
+      {phase === 'ready' && (
+        <button type="button" onClick={start} className="py-2 px-4 rounded-lg bg-blue-600 text-white flex items-center">
+          <Play className="w-4 h-4 mr-2" />
+          {t('reading.start')}
+        </button>
+      )}
+      {phase === 'reading' && (
+        <button type="button" onClick={stop} className="py-2 px-4 rounded-lg bg-red-600 text-white flex items-center">
+          <Square className="w-4 h-4 mr-2" />
+          {t('reading.stop')}
+        </button>
+      )}
+      {phase === 'review' && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            {t('reading.timing', { seconds: (elapsedMs / 1000).toFixed(1), read: lastWord + 1, total: words.length })}
+            {' '}= <span className="font-semibold">{t('reading.wpm', { wpm })}</span>.
+            {' '}{t('reading.markHint')}
+          </p>
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={() => onComplete(wpm)}
+              className="py-2 px-4 rounded-lg bg-green-600 text-white flex items-center"
+            >
+              <CheckCircle className="w-4 h-4 mr-2" />
+              {t('modules.useResult')}
+            </button>
+            <button type="button" onClick={() => setPhase('ready')} className="py-2 px-4 rounded-lg bg-gray-100 text-gray-600">
+              {t('reading.retry')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ReadingTest;
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { FileDown, Printer } from 'lucide-react';
+import { today } from '../lib/studentStore';
+import { useI18n } from './LanguageSelect';
+
+export type ReportFormat = 'pdf' | 'print';
+
+interface ReportActionsProps {
+  defaultStudentId: string;
+  // While student records are locked, only an unnamed report can be made.
+  locked: boolean;
+  onExport: (format: ReportFormat, studentId: string, date: string) => void;
+}
+
+function ReportActions({ defaultStudentId, locked, onExport }: ReportActionsProps) {
+  const { t } = useI18n();
+  const [studentId, setStudentId] = useState(defaultStudentId);
+  const [date, setDate] = useState(today);
+
+  useEffect(() => {
+    setStudentId(defaultStudentId);
+  }, [defaultStudentId]);
+
+  const blocked = locked && studentId.trim() !== '';
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6 space-y-4">
+      <h3 className="font-semibold">{t('report.title')}</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <input
+          type="text"
+          placeholder={t('save.studentName')}
+          value={studentId}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStudentId(e.target.value)}
+          className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+        />
+        <input
+          type="date"
+          value={date}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDate(e.target.value)}
+          className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+        />
+      </div>
+      {blocked && <p className="text-sm text-gray-600">{t('report.unlockFirst')}</p>}
+      <div className="flex space-x-4">
+        <button
+          type="button"
+          disabled={blocked}
+          className="py-2 px-4 rounded-lg bg-blue-600 text-white text-sm flex items-center disabled:opacity-50"
+          onClick={() => onExport('pdf', studentId, date)}
+        >
+          <FileDown className="w-4 h-4 mr-2" />
+          {t('report.pdf')}
+        </button>
+        <button
+          type="button"
+          disabled={blocked}
+          className="py-2 px-4 rounded-lg bg-gray-100 text-gray-600 text-sm flex items-center disabled:opacity-50"
+          onClick={() => onExport('print', studentId, date)}
+        >
+          <Printer className="w-4 h-4 mr-2" />
+          {t('report.print')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ReportActions;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Save } from 'lucide-react';
+import { ConsentRecord, StudentRecord, today, validateConsent } from '../lib/studentStore';
+import { useI18n } from './LanguageSelect';
+import ConsentForm, { blankConsent } from './ConsentForm';
+
+interface SaveAssessmentProps {
+  students: StudentRecord[];
+  defaultStudentId: string | null;
+  // Who is signed in; recorded on the consent for a new student.
+  actor: string;
+  // Resolves to the id of the student the assessment was saved to.
+  onSave: (target: { studentId: string } | { newName: string; consent: ConsentRecord }, date: string) => Promise<string | null>;
+}
+
+function SaveAssessment({ students, defaultStudentId, actor, onSave }: SaveAssessmentProps) {
+  const { t } = useI18n();
+  const [studentId, setStudentId] = useState(defaultStudentId ?? '');
+  const [newName, setNewName] = useState('');
+  const [consent, setConsent] = useState(() => blankConsent(actor));
+  const [date, setDate] = useState(today);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStatus(null);
+    if (!studentId && !newName.trim()) {
+      setStatus(t('save.chooseStudent'));
+      return;
+    }
+    try {
+      const savedId = await onSave(studentId ? { studentId } : { newName, consent: validateConsent(consent) }, date);
+      // A new student is selected once saved, so saving again adds to that
+      // record instead of creating a second student with the same name.
+      if (savedId) {
+        setStudentId(savedId);
+        setNewName('');
+        setConsent(blankConsent(actor));
+      }
+      setStatus(t('save.saved'));
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : t('save.failed'));
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-6 space-y-4">
+      <h3 className="font-semibold">{t('save.title')}</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <select
+          value={studentId}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setStudentId(e.target.value)}
+          className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+        >
+          <option value="">{t('save.newStudent')}</option>
+          {students.map(s => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+        {!studentId && (
+          <input
+            type="text"
+            placeholder={t('save.studentName')}
+            value={newName}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewName(e.target.value)}
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          />
+        )}
+        <input
+          type="date"
+          value={date}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDate(e.target.value)}
+          className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          required
+        />
+      </div>
+      {!studentId && <ConsentForm consent={consent} onChange={setConsent} />}
+      <div className="flex items-center space-x-4">
+        <button type="submit" className="py-2 px-4 rounded-lg bg-blue-600 text-white text-sm flex items-center">
+          <Save className="w-4 h-4 mr-2" />
+          {t('save.submit')}
+        </button>
+        {status && <span className="text-sm text-gray-600">{status}</span>}
+      </div>
+    </form>
+  );
+}
+
+export default SaveAssessment;
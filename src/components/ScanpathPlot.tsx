@@ -0,0 +1,53 @@
+import { Fixation, Saccade, ScreenSize } from '../lib/gaze';
+import { useI18n } from './LanguageSelect';
+
+interface ScanpathPlotProps {
+  fixations: Fixation[];
+  saccades: Saccade[];
+  screen: ScreenSize;
+  // Object URL of a screenshot of what the student was reading.
+  stimulusUrl: string | null;
+}
+
+// Circle area grows with fixation duration; 250 ms is drawn at this radius.
+const BASE_RADIUS = 18;
+
+function ScanpathPlot({ fixations, saccades, screen, stimulusUrl }: ScanpathPlotProps) {
+  const { t } = useI18n();
+  const radius = (duration: number) => BASE_RADIUS * Math.sqrt(duration / 250);
+
+  return (
+    <svg
+      viewBox={`0 0 ${screen.width} ${screen.height}`}
+      className="w-full border border-gray-200 rounded-lg bg-white"
+      role="img"
+      aria-label={t('gaze.scanpathChart', { fixations: fixations.length, saccades: saccades.length })}
+    >
+      {stimulusUrl && (
+        <image href={stimulusUrl} x={0} y={0} width={screen.width} height={screen.height} preserveAspectRatio="xMinYMin meet" />
+      )}
+      {saccades.map((saccade, i) => (
+        <line
+          key={i}
+          x1={saccade.from.x}
+          y1={saccade.from.y}
+          x2={saccade.to.x}
+          y2={saccade.to.y}
+          stroke={saccade.regression ? 'rgb(255, 159, 64)' : 'rgb(53, 162, 235)'}
+          strokeWidth={3}
+          opacity={0.8}
+        />
+      ))}
+      {fixations.map((fixation, i) => (
+        <g key={i}>
+          <circle cx={fixation.x} cy={fixation.y} r={radius(fixation.duration)} fill="rgba(53, 162, 235, 0.35)" stroke="rgb(53, 162, 235)" />
+          <text x={fixation.x} y={fixation.y} fontSize={14} textAnchor="middle" dominantBaseline="central" fill="#1f2937">
+            {i + 1}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+export default ScanpathPlot;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { CheckCircle, Eye, EyeOff, Volume2 } from 'lucide-react';
+import { SpellingItem } from '../lib/contentPacks';
+import { scoreSpelling } from '../lib/assessments';
+import { speak, speechSupported } from '../lib/accessibility';
+import ReadAloud from './ReadAloud';
+import { useI18n } from './LanguageSelect';
+
+interface SpellingTestProps {
+  items: SpellingItem[];
+  // Language of the items, for the dictation voice.
+  language: string;
+  onComplete: (errors: number) => void;
+}
+
+// Word, sentence, word: the usual dictation pattern.
+const dictate = (item: SpellingItem, language: string) => speak(`${item.word}. ${item.sentence} ${item.word}.`, 1, language);
+
+function SpellingTest({ items, language, onComplete }: SpellingTestProps) {
+  const { t } = useI18n();
+  const [responses, setResponses] = useState<string[]>(() => items.map(() => ''));
+  const [showWords, setShowWords] = useState(!speechSupported);
+  const [submitted, setSubmitted] = useState(false);
+  const { errors, marks } = scoreSpelling(items, responses);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm text-gray-500">
+        <ReadAloud>
+          <p>
+            {t(speechSupported ? 'spelling.instructionsSpoken' : 'spelling.instructions')}
+          </p>
+        </ReadAloud>
+        <button type="button" onClick={() => setShowWords(prev => !prev)} className="flex items-center hover:underline">
+          {showWords ? <EyeOff className="w-4 h-4 mr-1" /> : <Eye className="w-4 h-4 mr-1" />}
+          {t(showWords ? 'spelling.hideWords' : 'spelling.showWords')}
+        </button>
+      </div>
+
+      <ol className="space-y-2">
+        {items.map((item, i) => (
+          <li key={item.word} className="flex items-center space-x-2 text-sm">
+            <span className="w-6 text-gray-400">{i + 1}.</span>
+            {speechSupported && (
+              <button type="button" onClick={() => dictate(item, language)} className="p-1 rounded bg-blue-50 text-blue-700" title={t('spelling.play')} aria-label={t('spelling.playNumber', { number: i + 1 })}>
+                <Volume2 className="w-4 h-4" />
+              </button>
+            )}
+            {showWords && <span className="w-64 text-gray-500">{item.word} — <em>{item.sentence}</em></span>}
+            <input
+              type="text"
+              autoComplete="off"
+              autoCapitalize="off"
+              spellCheck={false}
+              value={responses[i]}
+              disabled={submitted}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setResponses(prev => prev.map((r, j) => (j === i ? e.target.value : r)))}
+              className={`flex-grow border rounded px-2 py-1 ${
+                submitted ? (marks[i].correct ? 'border-green-400 bg-green-50' : 'border-red-400 bg-red-50') : 'border-gray-300'
+              }`}
+            />
+            {submitted && !marks[i].correct && <span className="text-xs text-gray-500">{item.word}</span>}
+          </li>
+        ))}
+      </ol>
+
+      {!submitted ? (
+        <button type="button" onClick={() => setSubmitted(true)} className="py-2 px-4 rounded-lg bg-blue-600 text-white">
+          {t('spelling.mark')}
+        </button>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            <span className="font-semibold">{t(errors === 1 ? 'spelling.errorsOne' : 'spelling.errorsMany', { count: errors })}</span>
+            {' '}{t('spelling.outOf', { total: items.length })}
+          </p>
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={() => onComplete(errors)}
+              className="py-2 px-4 rounded-lg bg-green-600 text-white flex items-center"
+            >
+              <CheckCircle className="w-4 h-4 mr-2" />
+              {t('modules.useResult')}
+            </button>
+            <button type="button" onClick={() => setSubmitted(false)} className="py-2 px-4 rounded-lg bg-gray-100 text-gray-600">
+              {t('spelling.edit')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SpellingTest;
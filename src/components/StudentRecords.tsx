@@ -0,0 +1,320 @@
+import React, { useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import { ShieldCheck, Trash2, UserPlus } from 'lucide-react';
+import { FormDataType } from '../types';
+import { featureKeys } from '../lib/scoring';
+import { compareAssessments, ConsentRecord, StudentRecord, today, validateConsent } from '../lib/studentStore';
+import { GoalStatus, goalProgress } from '../lib/interventions';
+import { riskBadgeClass } from './CohortTable';
+import ChartDataTable from './ChartDataTable';
+import ConsentForm, { blankConsent } from './ConsentForm';
+import { useI18n } from './LanguageSelect';
+
+interface StudentRecordsProps {
+  students: StudentRecord[];
+  selectedId: string | null;
+  // Who is signed in; recorded on new consent records.
+  actor: string;
+  onSelect: (id: string) => void;
+  onCreate: (name: string, consent: ConsentRecord) => Promise<void>;
+  onRecordConsent: (id: string, consent: ConsentRecord) => Promise<void>;
+  onDelete: (id: string) => void;
+}
+
+const goalStatusClass: Record<GoalStatus, string> = {
+  met: 'bg-green-100 text-green-800',
+  'in-progress': 'bg-blue-100 text-blue-800',
+  overdue: 'bg-red-100 text-red-800',
+  'not-assessed': 'bg-gray-100 text-gray-700'
+};
+
+const formatDelta = (delta: number | null, digits = 0) =>
+  delta === null ? '—' : delta === 0 ? '±0' : `${delta > 0 ? '+' : ''}${delta.toFixed(digits)}`;
+
+function StudentRecords({ students, selectedId, actor, onSelect, onCreate, onRecordConsent, onDelete }: StudentRecordsProps) {
+  const { t } = useI18n();
+  const [newName, setNewName] = useState('');
+  const [consent, setConsent] = useState(() => blankConsent(actor));
+  const [missingConsent, setMissingConsent] = useState(() => blankConsent(actor));
+  const [consentError, setConsentError] = useState<string | null>(null);
+  const student = students.find(s => s.id === selectedId) ?? null;
+  const assessments = student?.assessments ?? [];
+  const labels = assessments.map(a => a.date);
+  // Goals come from the latest plan; earlier plans are superseded by it.
+  const plan = [...assessments].reverse().find(a => a.plan)?.plan;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    setConsentError(null);
+    try {
+      await onCreate(newName, validateConsent(consent));
+      setNewName('');
+      setConsent(blankConsent(actor));
+    } catch (error) {
+      setConsentError(error instanceof Error ? error.message : t('students.addError'));
+    }
+  };
+
+  // For students saved before consent was required.
+  const handleRecordConsent = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!student) return;
+    setConsentError(null);
+    try {
+      await onRecordConsent(student.id, validateConsent(missingConsent));
+      setMissingConsent(blankConsent(actor));
+    } catch (error) {
+      setConsentError(error instanceof Error ? error.message : t('students.consentError'));
+    }
+  };
+
+  // Null points (features not measured that session) render as gaps.
+  const lineData = (label: string, data: (number | null)[], color: string) => ({
+    labels,
+    datasets: [
+      {
+        label,
+        data,
+        borderColor: color,
+        backgroundColor: color,
+        tension: 0.2
+      }
+    ]
+  });
+
+  const featureChart = (feature: keyof FormDataType) => {
+    const label = t(`feature.${feature}`);
+    const data = lineData(label, assessments.map(a => a.data[feature]), 'rgb(53, 162, 235)');
+    return (
+      <div key={feature} className="bg-white rounded-lg p-4 shadow-sm">
+        <Line
+          data={data}
+          role="img"
+          aria-label={t('students.featureChart', { feature: label })}
+          options={{
+            responsive: true,
+            plugins: {
+              legend: { display: false },
+              title: { display: true, text: label }
+            }
+          }}
+        />
+        <ChartDataTable caption={t('students.featureCaption', { feature: label })} data={data} />
+      </div>
+    );
+  };
+
+  const riskScoreData = lineData(t('results.riskScore'), assessments.map(a => a.result.riskScore), 'rgb(255, 99, 132)');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end space-x-4">
+        <label className="flex-grow">
+          <span className="block text-sm font-medium text-gray-700">{t('cohort.student')}</span>
+          <select
+            value={selectedId ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onSelect(e.target.value)}
+            className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          >
+            <option value="" disabled>
+              {t(students.length === 0 ? 'students.none' : 'students.select')}
+            </option>
+            {students.map(s => (
+              <option key={s.id} value={s.id}>
+                {t(s.assessments.length === 1 ? 'students.optionOne' : 'students.optionMany', {
+                  name: s.name,
+                  count: s.assessments.length
+                })}
+              </option>
+            ))}
+          </select>
+        </label>
+        {student && (
+          <button
+            type="button"
+            className="py-2 px-4 rounded-lg text-sm text-red-600 bg-red-50 hover:bg-red-100 flex items-center"
+            onClick={() => {
+              if (window.confirm(t('students.confirmDelete', { name: student.name }))) {
+                onDelete(student.id);
+              }
+            }}
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            {t('profile.delete')}
+          </button>
+        )}
+      </div>
+
+      {student?.consent && (
+        <p className="text-sm text-gray-600 flex items-center">
+          <ShieldCheck className="w-4 h-4 mr-2 text-green-600" aria-hidden="true" />
+          {t(student.consent.research ? 'students.consentResearch' : 'students.consentNoResearch', {
+            guardian: student.consent.guardianName,
+            relationship: student.consent.relationship,
+            date: student.consent.date,
+            recordedBy: student.consent.recordedBy
+          })}
+        </p>
+      )}
+
+      {student && !student.consent && (
+        <form onSubmit={handleRecordConsent} className="space-y-3">
+          <p className="text-sm text-yellow-800 bg-yellow-50 p-3 rounded-lg">
+            {t('students.consentMissing', { name: student.name })}
+          </p>
+          <ConsentForm consent={missingConsent} onChange={setMissingConsent} />
+          <button type="submit" className="py-2 px-4 rounded-lg bg-blue-600 text-white text-sm flex items-center">
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            {t('students.recordConsent')}
+          </button>
+        </form>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-3">
+        <div className="flex space-x-4">
+          <input
+            type="text"
+            placeholder={t('students.newName')}
+            value={newName}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewName(e.target.value)}
+            className="flex-grow border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          />
+          <button type="submit" className="py-2 px-4 rounded-lg bg-blue-600 text-white text-sm flex items-center">
+            <UserPlus className="w-4 h-4 mr-2" />
+            {t('students.add')}
+          </button>
+        </div>
+        {newName.trim() && <ConsentForm consent={consent} onChange={setConsent} />}
+      </form>
+
+      {consentError && <p className="text-sm text-red-600">{consentError}</p>}
+
+      {student && assessments.length === 0 && (
+        <p className="text-sm text-gray-500">
+          {t('students.noAssessments', { name: student.name })}
+        </p>
+      )}
+
+      {student && assessments.length > 0 && (
+        <>
+          <div className="bg-white rounded-lg p-4 shadow-sm">
+            <Line
+              data={riskScoreData}
+              role="img"
+              aria-label={t('students.riskChart')}
+              options={{
+                responsive: true,
+                scales: { y: { min: 0, max: 10 } },
+                plugins: {
+                  legend: { display: false },
+                  title: { display: true, text: t('results.overallRiskScore') }
+                }
+              }}
+            />
+            <ChartDataTable caption={t('students.riskCaption')} data={riskScoreData} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {featureKeys.map(featureChart)}
+          </div>
+
+          {plan && plan.goals.length > 0 && (
+            <div>
+              <h3 className="font-semibold mb-2">{t('students.goals', { date: plan.createdAt })}</h3>
+              <ul className="space-y-2 text-sm">
+                {plan.goals.map(goal => {
+                  const { status, latest } = goalProgress(goal, plan, assessments, today());
+                  return (
+                    <li key={goal.feature} className="flex items-center justify-between bg-white rounded-lg p-3 shadow-sm">
+                      <span>
+                        {t('plan.goal', {
+                          feature: t(`feature.${goal.feature}`),
+                          from: t(`level.${goal.baselineLevel}`),
+                          to: t(`level.${goal.targetLevel}`),
+                          date: goal.reviewBy
+                        })}
+                        {latest && (
+                          <span className="block text-xs text-gray-500">
+                            {t('students.latest', {
+                              level: t(`level.${latest.level}`),
+                              date: latest.date,
+                              value: latest.value ?? '—',
+                              baseline: goal.baselineValue ?? '—'
+                            })}
+                          </span>
+                        )}
+                      </span>
+                      <span className={`ml-2 px-2 py-0.5 rounded-full text-xs whitespace-nowrap ${goalStatusClass[status]}`}>
+                        {t(`goalStatus.${status}`)}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <h3 className="font-semibold mb-2">{t('students.changes')}</h3>
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-600">{t('report.date')}</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-600">{t('results.riskScore')}</th>
+                  {featureKeys.map(feature => (
+                    <th key={feature} className="px-3 py-2 text-left font-medium text-gray-600">{t(`feature.${feature}`)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {[...assessments].reverse().map(assessment => {
+                  const index = assessments.indexOf(assessment);
+                  const change = compareAssessments(assessments[index - 1], assessment);
+                  return (
+                    <tr key={assessment.id}>
+                      <td className="px-3 py-2 whitespace-nowrap">{assessment.date}</td>
+                      <td className="px-3 py-2">
+                        <span className="font-medium">{assessment.result.riskScore.toFixed(1)}</span>
+                        {change && (
+                          <span className="block text-xs text-gray-500">{formatDelta(change.riskScoreDelta, 1)}</span>
+                        )}
+                      </td>
+                      {featureKeys.map((feature, i) => {
+                        const featureChange = change?.features[i];
+                        return (
+                          <td
+                            key={feature}
+                            className={`px-3 py-2 ${featureChange?.crossedBand ? 'bg-yellow-50' : ''}`}
+                          >
+                            <span>{assessment.data[feature] ?? '—'}</span>
+                            {featureChange && (
+                              <span className="block text-xs text-gray-500">{formatDelta(featureChange.delta)}</span>
+                            )}
+                            {featureChange?.crossedBand && (
+                              <span
+                                className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs ${riskBadgeClass(featureChange.level)}`}
+                                title={t('students.moved', {
+                                  from: t(`level.${featureChange.previousLevel}`),
+                                  to: t(`level.${featureChange.level}`)
+                                })}
+                              >
+                                {t(`level.${featureChange.previousLevel}`)} → {t(`level.${featureChange.level}`)}
+                              </span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default StudentRecords;
@@ -0,0 +1,494 @@
+import React, { useMemo, useState } from 'react';
+import { Scatter } from 'react-chartjs-2';
+import { Gauge, Play, Save, Trash2, Upload } from 'lucide-react';
+import { FormDataType } from '../types';
+import { analyzeData, featureKeys, ScoringProfile } from '../lib/scoring';
+import {
+  ColumnMapping,
+  detectUnits,
+  ImportTable,
+  missingMappings,
+  readTable,
+  suggestMapping,
+  unitOptions,
+  UnitSelection
+} from '../lib/importer';
+import { PredictionModel } from '../lib/model';
+import { applyCalibration, Calibration, CalibrationMethod, fitCalibration } from '../lib/calibration';
+import {
+  defaultTrainingOptions,
+  deleteTrainedModel,
+  findLabelColumn,
+  saveTrainedModel,
+  toLabeledDataset,
+  trainModel,
+  TrainingOptions,
+  TrainingResult
+} from '../lib/training';
+import { MessageKey } from '../lib/i18n';
+import { useI18n } from './LanguageSelect';
+import ChartDataTable from './ChartDataTable';
+
+interface TrainingPanelProps {
+  activeModelName: string | null;
+  hasTrainedModel: boolean;
+  onModelSaved: (model: PredictionModel) => void;
+  onModelDeleted: () => void;
+  profile: ScoringProfile;
+  calibration: Calibration | null;
+  onCalibrated: (calibration: Calibration) => void;
+}
+
+interface OptionField {
+  key: keyof TrainingOptions;
+  label: MessageKey;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const optionFields: OptionField[] = [
+  { key: 'testFraction', label: 'training.testFraction', min: 0.1, max: 0.5, step: 0.05 },
+  { key: 'epochs', label: 'training.epochs', min: 1, max: 500, step: 1 },
+  { key: 'batchSize', label: 'training.batchSize', min: 1, max: 512, step: 1 },
+  { key: 'learningRate', label: 'training.learningRate', min: 0.0001, max: 1, step: 0.0001 },
+  { key: 'hiddenUnits', label: 'training.hiddenUnits', min: 0, max: 64, step: 1 },
+  { key: 'seed', label: 'training.seed', min: 0, max: 1e9, step: 1 }
+];
+
+const curveOptions = (title: string, xLabel: string, yLabel: string) => ({
+  responsive: true,
+  plugins: { legend: { display: false }, title: { display: true, text: title } },
+  scales: {
+    x: { min: 0, max: 1, title: { display: true, text: xLabel } },
+    y: { min: 0, max: 1, title: { display: true, text: yLabel } }
+  }
+});
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function TrainingPanel({
+  activeModelName,
+  hasTrainedModel,
+  onModelSaved,
+  onModelDeleted,
+  profile,
+  calibration,
+  onCalibrated
+}: TrainingPanelProps) {
+  const { t } = useI18n();
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [units, setUnits] = useState<UnitSelection>({});
+  const [labelIndex, setLabelIndex] = useState<number | null>(null);
+  const [options, setOptions] = useState<TrainingOptions>(defaultTrainingOptions);
+  const [progress, setProgress] = useState<{ epoch: number; loss: number } | null>(null);
+  const [training, setTraining] = useState(false);
+  const [result, setResult] = useState<TrainingResult | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [calibrationMethod, setCalibrationMethod] = useState<CalibrationMethod>('isotonic');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    setError(null);
+    setResult(null);
+    if (!file) return;
+
+    try {
+      const loaded = await readTable(file);
+      const suggested = suggestMapping(loaded.headers);
+      setTable(loaded);
+      setMapping(suggested);
+      setUnits(detectUnits(loaded, suggested));
+      setLabelIndex(findLabelColumn(loaded.headers));
+    } catch (err) {
+      setTable(null);
+      setMapping(null);
+      setError(err instanceof Error ? err.message : t('import.readError'));
+    }
+  };
+
+  const handleMappingChange = (feature: keyof FormDataType, value: string) => {
+    if (!table || !mapping) return;
+    const next = { ...mapping, [feature]: value === '' ? null : Number(value) };
+    setMapping(next);
+    setUnits(detectUnits(table, next));
+  };
+
+  const missing = mapping ? missingMappings(mapping) : [];
+  const dataset = useMemo(
+    () => (table && mapping && labelIndex !== null && missingMappings(mapping).length === 0
+      ? toLabeledDataset(table, mapping, units, labelIndex)
+      : null),
+    [table, mapping, units, labelIndex]
+  );
+  const positives = dataset?.examples.filter(e => e.label === 1).length ?? 0;
+
+  const handleTrain = async () => {
+    if (!dataset) return;
+    result?.model.dispose();
+    setTraining(true);
+    setResult(null);
+    setSaved(false);
+    setError(null);
+    try {
+      setResult(await trainModel(dataset, options, (epoch, loss) => setProgress({ epoch: epoch + 1, loss })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('training.failed'));
+    } finally {
+      setTraining(false);
+      setProgress(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!result) return;
+    try {
+      onModelSaved(await saveTrainedModel(result));
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('training.saveFailed'));
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteTrainedModel();
+      setSaved(false);
+      onModelDeleted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('training.deleteFailed'));
+    }
+  };
+
+  // Calibrates the heuristic risk score of the active profile, using every
+  // labeled row; it has no train/test split of its own.
+  const handleCalibrate = () => {
+    if (!dataset) return;
+    setError(null);
+    try {
+      onCalibrated(fitCalibration(
+        profile.id,
+        calibrationMethod,
+        dataset.examples.map(e => analyzeData(e.data, profile).riskScore),
+        dataset.examples.map(e => e.label)
+      ));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('training.calibrationFailed'));
+    }
+  };
+
+  const report = result?.report;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between text-sm text-gray-500">
+        <p>
+          {t('training.modelInUse')} <span className="font-medium text-gray-700">{activeModelName ?? t('training.noModel')}</span>
+        </p>
+        {hasTrainedModel && (
+          <button type="button" onClick={handleDelete} className="flex items-center text-red-600 hover:underline">
+            <Trash2 className="w-4 h-4 mr-1" />
+            {t('training.delete')}
+          </button>
+        )}
+      </div>
+
+      {calibration && (
+        <div className="bg-gray-50 rounded-lg p-4">
+          <p className="text-sm text-gray-600">
+            {t('training.calibrated', {
+              profile: profile.name,
+              method: t(`calibration.${calibration.map.method}`),
+              rows: calibration.sampleSize,
+              auc: calibration.auc.toFixed(3),
+              date: calibration.fittedAt.slice(0, 10)
+            })}
+          </p>
+          <Scatter
+            data={{
+              datasets: [
+                {
+                  label: t('training.calibratedProbability'),
+                  data: calibration.band.score.map(score => ({ x: score, y: applyCalibration(calibration.map, score) })),
+                  showLine: true,
+                  pointRadius: 0,
+                  borderColor: 'rgb(53, 162, 235)'
+                },
+                {
+                  label: t('training.band'),
+                  data: calibration.band.score.map((score, i) => ({ x: score, y: calibration.band.lower[i] })),
+                  showLine: true,
+                  pointRadius: 0,
+                  borderDash: [4, 4],
+                  borderColor: 'rgb(201, 203, 207)'
+                },
+                {
+                  label: t('training.bandUpper'),
+                  data: calibration.band.score.map((score, i) => ({ x: score, y: calibration.band.upper[i] })),
+                  showLine: true,
+                  pointRadius: 0,
+                  borderDash: [4, 4],
+                  borderColor: 'rgb(201, 203, 207)'
+                }
+              ]
+            }}
+            options={{
+              responsive: true,
+              plugins: { legend: { display: false } },
+              scales: {
+                x: { min: 0, max: 10, title: { display: true, text: t('chart.riskScore') } },
+                y: { min: 0, max: 1, title: { display: true, text: t('training.probabilityAxis') } }
+              }
+            }}
+          />
+          <ChartDataTable
+            caption={t('training.calibrationCaption')}
+            data={{
+              labels: calibration.band.score,
+              datasets: [
+                { label: t('training.calibratedProbability'), data: calibration.band.score.map(score => applyCalibration(calibration.map, score)) },
+                { label: t('training.band'), data: calibration.band.score.map((_, i): [number, number] => [calibration.band.lower[i], calibration.band.upper[i]]) }
+              ]
+            }}
+          />
+        </div>
+      )}
+
+      <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
+        <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <label className="block">
+          <span className="sr-only">{t('training.chooseFile')}</span>
+          <input
+            type="file"
+            className="block w-full text-sm text-gray-500
+              file:mr-4 file:py-2 file:px-4
+              file:rounded-full file:border-0
+              file:text-sm file:font-semibold
+              file:bg-blue-50 file:text-blue-700
+              hover:file:bg-blue-100"
+            accept=".csv,.tsv,.txt,.xlsx,.xls,.ods"
+            onChange={handleFile}
+          />
+        </label>
+        <p className="text-sm text-gray-500 mt-2">
+          {t('training.hint')}
+        </p>
+      </div>
+
+      {error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">{error}</div>}
+
+      {table && mapping && (
+        <div className="space-y-4">
+          <h3 className="font-semibold">{t('training.columns', { file: table.fileName })}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="text-sm">
+              <label className="block font-medium text-gray-700">{t('training.label')}</label>
+              <select
+                value={labelIndex ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                  setLabelIndex(e.target.value === '' ? null : Number(e.target.value))}
+                className={`mt-1 w-full border rounded-lg px-2 py-1 ${labelIndex === null ? 'border-red-400' : 'border-gray-300'}`}
+              >
+                <option value="">{t('import.notMapped')}</option>
+                {table.headers.map((header, i) => <option key={i} value={i}>{header || t('import.column', { number: i + 1 })}</option>)}
+              </select>
+            </div>
+            {featureKeys.map(feature => {
+              const unitChoices = unitOptions[feature];
+              return (
+                <div key={feature} className="text-sm">
+                  <label className="block font-medium text-gray-700">{t(`feature.${feature}`)}</label>
+                  <div className="flex space-x-2 mt-1">
+                    <select
+                      value={mapping[feature] ?? ''}
+                      onChange={(e: React.ChangeEvent<HTMLSelectElement>) => handleMappingChange(feature, e.target.value)}
+                      className={`flex-grow border rounded-lg px-2 py-1 ${missing.includes(feature) ? 'border-red-400' : 'border-gray-300'}`}
+                    >
+                      <option value="">{t('import.notMapped')}</option>
+                      {table.headers.map((header, i) => <option key={i} value={i}>{header || t('import.column', { number: i + 1 })}</option>)}
+                    </select>
+                    {unitChoices && mapping[feature] !== null && (
+                      <select
+                        value={units[feature] ?? unitChoices[0].id}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                          setUnits(prev => ({ ...prev, [feature]: e.target.value }))}
+                        className="border border-gray-300 rounded-lg px-2 py-1"
+                        title={t('import.sourceUnit')}
+                      >
+                        {unitChoices.map(option => <option key={option.id} value={option.id}>{t(`importUnit.${option.id}`)}</option>)}
+                      </select>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {dataset && (
+            <p className="text-sm text-gray-600">
+              {t('training.rows', {
+                count: dataset.examples.length,
+                positive: positives,
+                negative: dataset.examples.length - positives
+              })}
+              {dataset.skipped.length > 0 && t('training.skipped', {
+                count: dataset.skipped.length,
+                rows: dataset.skipped.slice(0, 10).join(', ') + (dataset.skipped.length > 10 ? ', …' : '')
+              })}
+            </p>
+          )}
+
+          <h3 className="font-semibold">{t('training.calibrateTitle', { profile: profile.name })}</h3>
+          <div className="flex space-x-2">
+            <select
+              value={calibrationMethod}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setCalibrationMethod(e.target.value as CalibrationMethod)}
+              className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+            >
+              <option value="isotonic">{t('training.isotonic')}</option>
+              <option value="platt">{t('training.platt')}</option>
+            </select>
+            <button
+              type="button"
+              onClick={handleCalibrate}
+              disabled={!dataset || dataset.examples.length === 0}
+              className="py-1 px-3 rounded-lg bg-blue-600 text-white text-sm flex items-center disabled:opacity-50"
+            >
+              <Gauge className="w-4 h-4 mr-1" />
+              {t('training.fitCalibration')}
+            </button>
+          </div>
+
+          <h3 className="font-semibold">{t('training.hyperparameters')}</h3>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {optionFields.map(field => (
+              <label key={field.key} className="text-sm">
+                <span className="block font-medium text-gray-700">{t(field.label)}</span>
+                <input
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  value={options[field.key]}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setOptions(prev => ({ ...prev, [field.key]: Number(e.target.value) }))}
+                  className="mt-1 w-full border border-gray-300 rounded-lg px-2 py-1"
+                />
+              </label>
+            ))}
+          </div>
+
+          <button
+            type="button"
+            onClick={handleTrain}
+            disabled={!dataset || dataset.examples.length === 0 || training}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center disabled:opacity-50"
+          >
+            <Play className="w-5 h-5 mr-2" />
+            {training && progress
+              ? t('training.progress', { epoch: progress.epoch, epochs: options.epochs, loss: progress.loss.toFixed(4) })
+              : training ? t('training.training') : t('training.train')}
+          </button>
+        </div>
+      )}
+
+      {result && report && (
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold">
+              {t('training.evaluation', { test: result.testSize, train: result.trainSize })}
+            </h3>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saved}
+              className="py-1 px-3 rounded-lg bg-green-600 text-white text-sm flex items-center disabled:opacity-50"
+            >
+              <Save className="w-4 h-4 mr-1" />
+              {saved ? t('training.saved') : t('training.save')}
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+            {[
+              [t('training.accuracy'), report.metrics.accuracy],
+              [t('training.precision'), report.metrics.precision],
+              [t('training.recall'), report.metrics.recall],
+              ['F1', report.metrics.f1],
+              ['ROC AUC', report.roc.auc]
+            ].map(([label, value]) => (
+              <div key={label} className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">{label}</p>
+                <p className="text-lg font-bold">{percent(value as number)}</p>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h4 className="font-medium mb-2">{t('training.confusion')}</h4>
+            <table className="text-sm text-center">
+              <thead>
+                <tr>
+                  <th />
+                  <th className="px-4 py-2 font-medium text-gray-600">{t('training.predictedRisk')}</th>
+                  <th className="px-4 py-2 font-medium text-gray-600">{t('training.predictedNoRisk')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <th className="px-4 py-2 font-medium text-gray-600 text-left">{t('training.actualDyslexia')}</th>
+                  <td className="px-4 py-2 bg-green-50">{report.confusion.tp}</td>
+                  <td className="px-4 py-2 bg-red-50">{report.confusion.fn}</td>
+                </tr>
+                <tr>
+                  <th className="px-4 py-2 font-medium text-gray-600 text-left">{t('training.actualNoDyslexia')}</th>
+                  <td className="px-4 py-2 bg-red-50">{report.confusion.fp}</td>
+                  <td className="px-4 py-2 bg-green-50">{report.confusion.tn}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <Scatter
+              data={{
+                datasets: [
+                  { data: report.roc.points.map(({ x, y }) => ({ x, y })), showLine: true, borderColor: 'rgb(53, 162, 235)', backgroundColor: 'rgb(53, 162, 235)' },
+                  { data: [{ x: 0, y: 0 }, { x: 1, y: 1 }], showLine: true, borderDash: [4, 4], borderColor: 'rgb(201, 203, 207)', pointRadius: 0 }
+                ]
+              }}
+              options={curveOptions(t('training.roc', { auc: report.roc.auc.toFixed(3) }), t('training.falsePositiveRate'), t('training.truePositiveRate'))}
+            />
+            <Scatter
+              data={{
+                datasets: [
+                  { data: report.pr.points.map(({ x, y }) => ({ x, y })), showLine: true, borderColor: 'rgb(255, 159, 64)', backgroundColor: 'rgb(255, 159, 64)' }
+                ]
+              }}
+              options={curveOptions(t('training.pr', { ap: report.pr.averagePrecision.toFixed(3) }), t('training.recall'), t('training.precision'))}
+            />
+            <Scatter
+              data={{
+                datasets: [
+                  {
+                    data: report.calibration.map(bin => ({ x: bin.meanPredicted, y: bin.observedRate })),
+                    showLine: true,
+                    borderColor: 'rgb(75, 192, 192)',
+                    backgroundColor: 'rgb(75, 192, 192)'
+                  },
+                  { data: [{ x: 0, y: 0 }, { x: 1, y: 1 }], showLine: true, borderDash: [4, 4], borderColor: 'rgb(201, 203, 207)', pointRadius: 0 }
+                ]
+              }}
+              options={curveOptions(t('training.calibration'), t('training.meanPredicted'), t('training.observedRate'))}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TrainingPanel;
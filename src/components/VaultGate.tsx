@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { LockKeyhole, Trash2 } from 'lucide-react';
+import { createVault, MIN_PASSPHRASE_LENGTH, unlockVault, vaultExists } from '../lib/vault';
+import { useI18n } from './LanguageSelect';
+
+interface VaultGateProps {
+  // Called with the name of the person unlocking, for the audit log.
+  onUnlocked: (actor: string) => void;
+  // Deletes every encrypted record along with the passphrase.
+  onReset: () => Promise<void>;
+}
+
+// Shown in place of anything that reads or writes student records while they
+// are locked. Sets the passphrase on first use and asks for it afterwards.
+function VaultGate({ onUnlocked, onReset }: VaultGateProps) {
+  const { t } = useI18n();
+  const [creating, setCreating] = useState(() => !vaultExists());
+  const [actor, setActor] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!actor.trim()) {
+      setError(t('vault.nameRequired'));
+      return;
+    }
+    if (creating && passphrase !== confirm) {
+      setError(t('vault.mismatch'));
+      return;
+    }
+    setBusy(true);
+    try {
+      await (creating ? createVault(passphrase) : unlockVault(passphrase));
+      onUnlocked(actor.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('vault.failed'));
+      setBusy(false);
+    }
+  };
+
+  // The way out of a forgotten passphrase: the records cannot be decrypted
+  // without it, so they are deleted and a new passphrase can be set.
+  const handleReset = async () => {
+    if (!window.confirm(t('vault.confirmReset'))) return;
+    setError(null);
+    setBusy(true);
+    try {
+      await onReset();
+      setCreating(true);
+      setPassphrase('');
+      setConfirm('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('vault.resetFailed'));
+    }
+    setBusy(false);
+  };
+
+  const inputClass = 'mt-1 w-full border border-gray-300 rounded-lg px-3 py-2';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-6 space-y-4 max-w-md">
+      <h3 className="font-semibold flex items-center">
+        <LockKeyhole className="w-5 h-5 mr-2" aria-hidden="true" />
+        {creating ? t('vault.createTitle') : t('vault.unlockTitle')}
+      </h3>
+      <p className="text-sm text-gray-600">
+        {creating ? t('vault.createIntro', { min: MIN_PASSPHRASE_LENGTH }) : t('vault.unlockIntro')}
+      </p>
+      <label className="block text-sm">
+        <span className="block text-gray-700">{t('vault.actor')}</span>
+        <input
+          type="text"
+          autoComplete="name"
+          value={actor}
+          aria-describedby="vault-actor-hint"
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setActor(e.target.value)}
+          className={inputClass}
+        />
+        <span id="vault-actor-hint" className="block text-xs text-gray-500 mt-1">{t('vault.actorHint')}</span>
+      </label>
+      <label className="block text-sm">
+        <span className="block text-gray-700">{t('vault.passphrase')}</span>
+        <input
+          type="password"
+          autoComplete={creating ? 'new-password' : 'current-password'}
+          value={passphrase}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassphrase(e.target.value)}
+          className={inputClass}
+        />
+      </label>
+      {creating && (
+        <label className="block text-sm">
+          <span className="block text-gray-700">{t('vault.confirm')}</span>
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={confirm}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConfirm(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+      )}
+      {error && (
+        <p role="alert" className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">{error}</p>
+      )}
+      <button
+        type="submit"
+        disabled={busy}
+        className="w-full py-3 px-4 rounded-lg bg-blue-600 text-white text-sm font-medium disabled:opacity-50"
+      >
+        {busy ? t('vault.working') : creating ? t('vault.create') : t('vault.unlock')}
+      </button>
+      {!creating && (
+        <button
+          type="button"
+          disabled={busy}
+          onClick={handleReset}
+          className="text-sm text-red-600 flex items-center disabled:opacity-50"
+        >
+          <Trash2 className="w-4 h-4 mr-1" aria-hidden="true" />
+          {t('vault.reset')}
+        </button>
+      )}
+    </form>
+  );
+}
+
+export default VaultGate;
@@ -0,0 +1,349 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Camera, CheckCircle, Crosshair, Loader2 } from 'lucide-react';
+import { Measurements } from '../types';
+import { analyzeGaze, GazeAnalysis, GazeSample, ScreenSize, toScoredSaccadeLength } from '../lib/gaze';
+import {
+  blinkOpenness,
+  CalibrationSample,
+  calibrationTargets,
+  captureQuality,
+  CaptureQuality,
+  FaceTracker,
+  fitGazeCalibration,
+  GazeCalibration,
+  loadFaceTracker,
+  minimumQualityScore,
+  predictGaze,
+  toGazeRecording,
+  webcamDetectionSettings
+} from '../lib/webcamGaze';
+import { packForGradeBand } from '../lib/contentPacks';
+import { ScoringProfile } from '../lib/scoring';
+import GazeMetricsTable from './GazeMetricsTable';
+import ReadAloud from './ReadAloud';
+import ScanpathPlot from './ScanpathPlot';
+import { useI18n } from './LanguageSelect';
+
+interface WebcamGazeProps {
+  // Interface language and the active scoring profile; together they pick
+  // the reading passage, and the profile sets the scale of saccade length.
+  language: string;
+  profile: ScoringProfile;
+  onApply: (values: Partial<Measurements>, quality: CaptureQuality) => void;
+}
+
+type Stage = 'idle' | 'starting' | 'ready' | 'calibrating' | 'calibrated' | 'reading' | 'done';
+
+// Each dot is shown for SETTLE_MS before frames are kept, giving the eyes
+// time to land on it.
+const SETTLE_MS = 800;
+const COLLECT_MS = 1200;
+
+const nextFrame = () => new Promise<void>(resolve => requestAnimationFrame(() => resolve()));
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+function WebcamGaze({ language, profile, onApply }: WebcamGazeProps) {
+  const { locale, t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const trackerRef = useRef<FaceTracker | null>(null);
+  // Bumped to abandon a running calibration or recording loop; `finishRef`
+  // ends a recording normally.
+  const runRef = useRef(0);
+  const finishRef = useRef(false);
+
+  const [stage, setStage] = useState<Stage>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [pixelsPerDegree, setPixelsPerDegree] = useState(webcamDetectionSettings.pixelsPerDegree);
+  const [targets, setTargets] = useState<{ x: number; y: number }[]>([]);
+  const [targetIndex, setTargetIndex] = useState(0);
+  const [calibration, setCalibration] = useState<GazeCalibration | null>(null);
+  const [analysis, setAnalysis] = useState<GazeAnalysis | null>(null);
+  const [quality, setQuality] = useState<CaptureQuality | null>(null);
+  const [applied, setApplied] = useState(false);
+  const passage = packForGradeBand(language, profile.gradeBand).passage;
+
+  useEffect(() => () => {
+    runRef.current++;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    trackerRef.current?.dispose();
+  }, []);
+
+  const fullscreen = stage === 'calibrating' || stage === 'calibrated' || stage === 'reading';
+
+  const leaveFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined);
+  };
+
+  const handleStart = async () => {
+    setError(null);
+    setStage('starting');
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { width: 640, height: 480, facingMode: 'user' } });
+      streamRef.current = stream;
+      const video = videoRef.current!;
+      video.srcObject = stream;
+      await video.play();
+      trackerRef.current = await loadFaceTracker();
+      setStage('ready');
+    } catch (err) {
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+      setError(err instanceof Error ? err.message : t('webcam.startError'));
+      setStage('idle');
+    }
+  };
+
+  const handleCalibrate = async () => {
+    const tracker = trackerRef.current;
+    const video = videoRef.current;
+    if (!tracker || !video) return;
+    setError(null);
+    setStage('calibrating');
+    const run = ++runRef.current;
+    // The overlay is fixed to the viewport, so the whole page goes full
+    // screen; calibration dots then cover the display the student reads on.
+    await document.documentElement.requestFullscreen?.().catch(() => undefined);
+    await delay(300);
+
+    const screen: ScreenSize = { width: window.innerWidth, height: window.innerHeight };
+    const points = calibrationTargets(screen);
+    setTargets(points);
+    const samples: CalibrationSample[] = [];
+    for (let i = 0; i < points.length && runRef.current === run; i++) {
+      setTargetIndex(i);
+      await delay(SETTLE_MS);
+      const until = performance.now() + COLLECT_MS;
+      while (performance.now() < until && runRef.current === run) {
+        const features = await tracker.estimate(video);
+        if (features && features.openness >= blinkOpenness) {
+          samples.push({ point: i, target: points[i], features: features.vector });
+        }
+        await nextFrame();
+      }
+    }
+    if (runRef.current !== run) return;
+
+    try {
+      setCalibration(fitGazeCalibration(samples, screen));
+      setStage('calibrated');
+    } catch (err) {
+      leaveFullscreen();
+      setError(err instanceof Error ? err.message : t('webcam.calibrationError'));
+      setStage('ready');
+    }
+  };
+
+  const handleRecord = async () => {
+    const tracker = trackerRef.current;
+    const video = videoRef.current;
+    if (!tracker || !video || !calibration) return;
+    setStage('reading');
+    const run = ++runRef.current;
+    finishRef.current = false;
+
+    const samples: GazeSample[] = [];
+    const start = performance.now();
+    while (runRef.current === run && !finishRef.current) {
+      const features = await tracker.estimate(video);
+      const t = performance.now() - start;
+      if (features && features.openness >= blinkOpenness) {
+        const gaze = predictGaze(calibration.mapping, features.vector);
+        samples.push({ t, x: gaze.x, y: gaze.y, valid: true });
+      } else {
+        samples.push({ t, x: NaN, y: NaN, valid: false });
+      }
+      await nextFrame();
+    }
+    if (runRef.current !== run) return;
+
+    leaveFullscreen();
+    const recording = toGazeRecording(samples);
+    setAnalysis(analyzeGaze(recording, { ...webcamDetectionSettings, pixelsPerDegree }));
+    setQuality(captureQuality(recording, calibration, pixelsPerDegree, locale));
+    setApplied(false);
+    setStage('done');
+  };
+
+  const handleCancel = () => {
+    runRef.current++;
+    leaveFullscreen();
+    setStage(analysis ? 'done' : 'ready');
+  };
+
+  const apply = (useValues: boolean) => {
+    if (!analysis || !quality) return;
+    const { meanFixationDuration, meanSaccadeLength } = analysis.metrics;
+    onApply({
+      fixationDuration: useValues && meanFixationDuration !== null ? Math.round(meanFixationDuration) : null,
+      saccadeLength: useValues && meanSaccadeLength !== null ? toScoredSaccadeLength(meanSaccadeLength, profile) : null
+    }, quality);
+    setApplied(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <ReadAloud>
+        <p className="text-sm text-gray-500">{t('webcam.intro', { title: passage.title })}</p>
+      </ReadAloud>
+
+      {error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">{error}</div>}
+
+      <div className="flex items-start space-x-4">
+        <video ref={videoRef} muted playsInline className="w-48 rounded-lg bg-gray-100 -scale-x-100" />
+        <div className="flex-1 space-y-3 text-sm">
+          <label className="block">
+            <span className="block font-medium text-gray-700">{t('gaze.pixelsPerDegree')}</span>
+            <input
+              type="number"
+              min={1}
+              value={pixelsPerDegree}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPixelsPerDegree(Number(e.target.value) || pixelsPerDegree)}
+              className="mt-1 w-32 border border-gray-300 rounded-lg px-2 py-1"
+            />
+          </label>
+          {(stage === 'idle' || stage === 'starting') && (
+            <button
+              type="button"
+              onClick={handleStart}
+              disabled={stage === 'starting'}
+              className="py-2 px-4 rounded-lg bg-blue-600 text-white flex items-center disabled:opacity-50"
+            >
+              {stage === 'starting' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Camera className="w-4 h-4 mr-2" />}
+              {t(stage === 'starting' ? 'webcam.loading' : 'webcam.start')}
+            </button>
+          )}
+          {(stage === 'ready' || stage === 'done') && (
+            <button
+              type="button"
+              onClick={handleCalibrate}
+              className="py-2 px-4 rounded-lg bg-blue-600 text-white flex items-center"
+            >
+              <Crosshair className="w-4 h-4 mr-2" />
+              {t(stage === 'done' ? 'webcam.calibrateAgain' : 'webcam.calibrate')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className={fullscreen ? 'fixed inset-0 z-50 bg-white' : 'hidden'}>
+        {stage === 'calibrating' && targets[targetIndex] && (
+          <>
+            <p className="absolute top-4 w-full text-center text-gray-500">
+              {t('webcam.lookAtDot', { number: targetIndex + 1, total: targets.length })}
+            </p>
+            <div
+              className="absolute w-5 h-5 rounded-full bg-red-500 ring-4 ring-red-200 -translate-x-1/2 -translate-y-1/2"
+              style={{ left: targets[targetIndex].x, top: targets[targetIndex].y }}
+            />
+          </>
+        )}
+        {stage === 'calibrated' && calibration && (
+          <div className="h-full flex flex-col items-center justify-center space-y-4">
+            <p className="text-lg">
+              {t('webcam.calibrationResult', { error: (calibration.meanErrorPx / pixelsPerDegree).toFixed(1) })}
+            </p>
+            <p className="text-gray-500">{t('webcam.readNext')}</p>
+            <div className="flex space-x-4">
+              <button type="button" onClick={handleRecord} className="py-2 px-4 rounded-lg bg-blue-600 text-white">
+                {t('webcam.showPassage')}
+              </button>
+              <button type="button" onClick={handleCalibrate} className="py-2 px-4 rounded-lg bg-gray-100 text-gray-600">
+                {t('webcam.recalibrate')}
+              </button>
+            </div>
+          </div>
+        )}
+        {stage === 'reading' && (
+          <div className="h-full flex flex-col items-center justify-center px-16">
+            <p className="max-w-4xl text-2xl leading-loose text-gray-900">{passage.text}</p>
+            <button
+              type="button"
+              onClick={() => { finishRef.current = true; }}
+              className="mt-12 py-2 px-6 rounded-lg bg-green-600 text-white"
+            >
+              {t('webcam.finished')}
+            </button>
+          </div>
+        )}
+        {fullscreen && (
+          <button type="button" onClick={handleCancel} className="absolute top-4 right-4 text-sm text-gray-500 hover:underline">
+            {t('webcam.cancel')}
+          </button>
+        )}
+      </div>
+
+      {stage === 'done' && analysis && quality && calibration && (
+        <div className="space-y-4">
+          <div className={`p-4 rounded-lg ${quality.lowQuality ? 'bg-yellow-50' : 'bg-green-50'}`}>
+            <h3 className="font-semibold flex items-center">
+              {quality.lowQuality
+                ? <AlertTriangle className="w-5 h-5 mr-2 text-yellow-600" />
+                : <CheckCircle className="w-5 h-5 mr-2 text-green-600" />}
+              {t('webcam.quality', { score: quality.score.toFixed(0) })}
+              {quality.lowQuality && ` — ${t('webcam.lowQuality')}`}
+            </h3>
+            <p className="text-sm text-gray-600 mt-1">
+              {t('webcam.qualityDetail', {
+                error: quality.calibrationErrorDeg.toFixed(1),
+                rate: quality.samplingRateHz.toFixed(0),
+                tracked: (quality.validFraction * 100).toFixed(0),
+                onScreen: (quality.onScreenFraction * 100).toFixed(0)
+              })}
+            </p>
+            {quality.issues.length > 0 && (
+              <ul className="list-disc list-inside text-sm text-yellow-800 mt-2">
+                {quality.issues.map(issue => <li key={issue}>{issue}</li>)}
+              </ul>
+            )}
+            {quality.lowQuality && (
+              <p className="text-sm text-yellow-800 mt-2">
+                {t('webcam.lowQualityHint', { score: minimumQualityScore })}
+              </p>
+            )}
+          </div>
+
+          <GazeMetricsTable metrics={analysis.metrics} />
+          <ScanpathPlot fixations={analysis.fixations} saccades={analysis.saccades} screen={calibration.screen} stimulusUrl={null} />
+
+          {applied ? (
+            <p className="text-sm text-green-700 flex items-center">
+              <CheckCircle className="w-4 h-4 mr-1" />
+              {t('gaze.applied')}
+            </p>
+          ) : quality.lowQuality ? (
+            <div className="flex space-x-4">
+              <button
+                type="button"
+                onClick={() => apply(false)}
+                className="flex-1 py-2 px-4 rounded-lg bg-blue-600 text-white"
+              >
+                {t('webcam.leaveUnmeasured')}
+              </button>
+              <button
+                type="button"
+                onClick={() => apply(true)}
+                disabled={analysis.metrics.fixationCount < 2}
+                className="flex-1 py-2 px-4 rounded-lg bg-gray-100 text-gray-600 disabled:opacity-50"
+              >
+                {t('webcam.useAnyway')}
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => apply(true)}
+              disabled={analysis.metrics.fixationCount < 2}
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center disabled:opacity-50"
+            >
+              <CheckCircle className="w-5 h-5 mr-2" />
+              {t('gaze.apply')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default WebcamGaze;
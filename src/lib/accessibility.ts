@@ -0,0 +1,123 @@
+// Reading settings for the app's own interface: font, spacing, line length,
+// a colour overlay and read-aloud. They are applied as attributes and CSS
+// variables on <html>; the matching rules are in index.css.
+
+export type ReadingFont = 'default' | 'verdana' | 'comic' | 'opendyslexic';
+
+export const readingFontLabels: Record<ReadingFont, string> = {
+  default: 'Default',
+  verdana: 'Verdana',
+  comic: 'Comic Sans',
+  opendyslexic: 'OpenDyslexic'
+};
+
+// System fonts only; OpenDyslexic is used where it is installed and falls
+// back to the other sans-serif faces recommended for dyslexic readers.
+const fontStacks: Record<ReadingFont, string> = {
+  default: '',
+  verdana: 'Verdana, Tahoma, "DejaVu Sans", sans-serif',
+  comic: '"Comic Sans MS", "Comic Neue", "Chalkboard SE", sans-serif',
+  opendyslexic: 'OpenDyslexic, "OpenDyslexic Regular", Verdana, Tahoma, sans-serif'
+};
+
+export type LineLength = 'full' | 'wide' | 'narrow';
+
+const lineLengths: Record<LineLength, string> = { full: '', wide: '80ch', narrow: '60ch' };
+
+export type OverlayTheme = 'none' | 'cream' | 'yellow' | 'blue' | 'green' | 'rose' | 'grey';
+
+export const overlayColors: Record<OverlayTheme, string> = {
+  none: 'transparent',
+  cream: '#fdf3d8',
+  yellow: '#fff6a8',
+  blue: '#d3e9ff',
+  green: '#d6f3da',
+  rose: '#fde0e4',
+  grey: '#e2e2e2'
+};
+
+export interface AccessibilitySettings {
+  font: ReadingFont;
+  // Multiplies the root font size; every rem-based size follows it.
+  textScale: number;
+  // Extra spacing, in em.
+  letterSpacing: number;
+  wordSpacing: number;
+  // Unitless line height; null keeps each element's own.
+  lineHeight: number | null;
+  lineLength: LineLength;
+  overlay: OverlayTheme;
+  // Shows read-aloud buttons next to instructions and results.
+  speech: boolean;
+  speechRate: number;
+}
+
+export const defaultAccessibilitySettings: AccessibilitySettings = {
+  font: 'default',
+  textScale: 1,
+  letterSpacing: 0,
+  wordSpacing: 0,
+  lineHeight: null,
+  lineLength: 'full',
+  overlay: 'none',
+  speech: false,
+  speechRate: 1
+};
+
+// Fills in anything missing or malformed from the defaults, so stored
+// settings from an older version still load.
+export function normalizeAccessibilitySettings(input: unknown): AccessibilitySettings {
+  const value = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const pick = <T>(key: keyof AccessibilitySettings, valid: (v: unknown) => boolean) =>
+    (valid(value[key]) ? value[key] : defaultAccessibilitySettings[key]) as T;
+  const inRange = (min: number, max: number) => (v: unknown) => typeof v === 'number' && v >= min && v <= max;
+
+  return {
+    font: pick('font', v => typeof v === 'string' && v in fontStacks),
+    textScale: pick('textScale', inRange(0.75, 2)),
+    letterSpacing: pick('letterSpacing', inRange(0, 0.5)),
+    wordSpacing: pick('wordSpacing', inRange(0, 1)),
+    lineHeight: pick('lineHeight', v => v === null || inRange(1, 3)(v)),
+    lineLength: pick('lineLength', v => typeof v === 'string' && v in lineLengths),
+    overlay: pick('overlay', v => typeof v === 'string' && v in overlayColors),
+    speech: pick('speech', v => typeof v === 'boolean'),
+    speechRate: pick('speechRate', inRange(0.5, 2))
+  };
+}
+
+export function applyAccessibilitySettings(settings: AccessibilitySettings, root: HTMLElement = document.documentElement) {
+  const setVariable = (name: string, value: string) => {
+    if (value) {
+      root.style.setProperty(name, value);
+    } else {
+      root.style.removeProperty(name);
+    }
+  };
+  setVariable('--reading-font', fontStacks[settings.font]);
+  setVariable('--reading-letter-spacing', settings.letterSpacing > 0 ? `${settings.letterSpacing}em` : '');
+  setVariable('--reading-word-spacing', settings.wordSpacing > 0 ? `${settings.wordSpacing}em` : '');
+  setVariable('--reading-line-height', settings.lineHeight === null ? '' : String(settings.lineHeight));
+  setVariable('--reading-line-length', lineLengths[settings.lineLength]);
+  setVariable('--reading-overlay', settings.overlay === 'none' ? '' : overlayColors[settings.overlay]);
+  root.toggleAttribute('data-reading-line-height', settings.lineHeight !== null);
+  root.toggleAttribute('data-reading-line-length', settings.lineLength !== 'full');
+  root.toggleAttribute('data-reading-overlay', settings.overlay !== 'none');
+  root.style.fontSize = settings.textScale === 1 ? '' : `${settings.textScale * 100}%`;
+}
+
+export const speechSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Replaces anything already being spoken. The voice follows the page
+// language unless `lang` names the language of the text.
+export function speak(text: string, rate = 1, lang = document.documentElement.lang || 'en') {
+  if (!speechSupported) return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.rate = rate;
+  utterance.lang = lang;
+  window.speechSynthesis.speak(utterance);
+}
+
+export function stopSpeaking() {
+  if (speechSupported) window.speechSynthesis.cancel();
+}
@@ -0,0 +1,64 @@
+import { FormDataType } from '../types';
+import { PhonemeItem, QuizQuestion, SpellingItem } from './contentPacks';
+
+export type AssessmentModule = 'reading' | 'spelling' | 'phoneme' | 'comprehension';
+
+// The measurement each module fills in.
+export const moduleFeatures: Record<AssessmentModule, keyof FormDataType> = {
+  reading: 'readingSpeed',
+  spelling: 'spellingErrors',
+  phoneme: 'phonemeErrors',
+  comprehension: 'comprehensionScore'
+};
+
+export const passageWords = (text: string) => text.split(/\s+/).filter(Boolean);
+
+// Words read per minute, rounded to a whole word.
+export function wordsPerMinute(wordsRead: number, elapsedMs: number): number {
+  if (elapsedMs <= 0) return 0;
+  return Math.round(wordsRead / (elapsedMs / 60000));
+}
+
+export interface SpellingMark {
+  word: string;
+  response: string;
+  correct: boolean;
+}
+
+// Case, surrounding spaces and a trailing full stop are not spelling errors.
+const normalizeSpelling = (text: string) => text.trim().toLowerCase().replace(/\.$/, '');
+
+export function scoreSpelling(items: SpellingItem[], responses: string[]): { errors: number; marks: SpellingMark[] } {
+  const marks = items.map((item, i) => {
+    const response = responses[i] ?? '';
+    return { word: item.word, response, correct: normalizeSpelling(response) === normalizeSpelling(item.word) };
+  });
+  return { errors: marks.filter(mark => !mark.correct).length, marks };
+}
+
+// One error per phoneme the examiner marked as missed or wrong, so longer
+// items weigh more than short ones. Scale with scaleErrors before scoring.
+export function countPhonemeErrors(items: PhonemeItem[], missed: boolean[][]): number {
+  return items.reduce(
+    (sum, item, i) => sum + item.phonemes.filter((_, j) => missed[i]?.[j]).length,
+    0
+  );
+}
+
+export const phonemeCount = (items: PhonemeItem[]) => items.reduce((sum, item) => sum + item.phonemes.length, 0);
+
+// Packs differ in length, so a raw error count would land in a different risk
+// level depending on the pack. The count becomes a rate per item, expressed
+// for the test length the profile's cut-offs assume, and rounded to a whole
+// error as the form expects.
+export function scaleErrors(errors: number, itemCount: number, referenceItems: number): number {
+  if (itemCount <= 0) return 0;
+  return Math.round((errors / itemCount) * referenceItems);
+}
+
+// Percentage of questions answered correctly; unanswered questions count as wrong.
+export function scoreQuiz(questions: QuizQuestion[], answers: (number | null)[]): number {
+  if (questions.length === 0) return 0;
+  const correct = questions.filter((question, i) => answers[i] === question.answer).length;
+  return Math.round((correct / questions.length) * 100);
+}
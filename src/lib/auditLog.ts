@@ -0,0 +1,64 @@
+import { formatDelimited } from './csv';
+import { createId, SealedEntry, withStore } from './studentStore';
+import { decryptJSON, encryptJSON } from './vault';
+
+export type AuditAction = 'view' | 'create' | 'update' | 'delete' | 'report' | 'export' | 'reset';
+
+// One access to student records. Names are kept alongside ids so the log
+// still reads after a record is deleted; entries are encrypted like records.
+export interface AuditEntry {
+  id: string;
+  // ISO timestamp.
+  at: string;
+  // Who was signed in when unlocking the app.
+  actor: string;
+  action: AuditAction;
+  students: { id: string; name: string }[];
+  detail?: string;
+}
+
+export async function logAccess(
+  actor: string,
+  action: AuditAction,
+  students: { id: string; name: string }[],
+  detail?: string
+): Promise<AuditEntry> {
+  const entry: AuditEntry = {
+    id: createId(),
+    at: new Date().toISOString(),
+    actor,
+    action,
+    students: students.map(({ id, name }) => ({ id, name })),
+    ...(detail ? { detail } : {})
+  };
+  const sealed: SealedEntry = { id: entry.id, payload: await encryptJSON(entry) };
+  await withStore('audit', 'readwrite', store => store.put(sealed));
+  return entry;
+}
+
+// Newest first.
+export async function listAuditLog(): Promise<AuditEntry[]> {
+  const entries = await withStore('audit', 'readonly', store => store.getAll() as IDBRequest<SealedEntry[]>);
+  const log = await Promise.all(entries.map(entry => decryptJSON<AuditEntry>(entry.payload)));
+  return log.sort((a, b) => b.at.localeCompare(a.at));
+}
+
+// Only when the vault is reset, since entries sealed under a forgotten
+// passphrase cannot be read.
+export async function clearAuditLog(): Promise<void> {
+  await withStore('audit', 'readwrite', store => store.clear());
+}
+
+export function auditLogToCsv(log: AuditEntry[]): string {
+  return formatDelimited([
+    ['at', 'actor', 'action', 'studentIds', 'studentNames', 'detail'],
+    ...log.map(entry => [
+      entry.at,
+      entry.actor,
+      entry.action,
+      entry.students.map(s => s.id).join(' '),
+      entry.students.map(s => s.name).join('; '),
+      entry.detail ?? ''
+    ])
+  ]);
+}
@@ -0,0 +1,225 @@
+import { AnalysisResult } from '../types';
+import { CurvePoint, rocCurve } from './metrics';
+import { seededRandom } from './random';
+
+export type CalibrationMethod = 'platt' | 'isotonic';
+
+// Maps a 0–10 risk score to P(dyslexia). Platt fits a sigmoid
+// 1 / (1 + exp(-(a * score + b))); isotonic fits a non-decreasing step
+// function, stored as knots and interpolated linearly between them.
+export type CalibrationMap =
+  | { method: 'platt'; a: number; b: number }
+  | { method: 'isotonic'; x: number[]; y: number[] };
+
+// A calibration fitted for one scoring profile, since each profile produces
+// its own score distribution.
+export interface Calibration {
+  profileId: string;
+  fittedAt: string;
+  sampleSize: number;
+  map: CalibrationMap;
+  // 90% bootstrap band of the calibrated probability over a 0–10 score grid.
+  band: { score: number[]; lower: number[]; upper: number[] };
+  // ROC of the raw score on the calibration data; thresholds are scores.
+  roc: CurvePoint[];
+  auc: number;
+}
+
+export interface CalibratedProbability {
+  probability: number;
+  lower: number;
+  upper: number;
+}
+
+export interface OperatingPointOption {
+  id: 'balanced' | 'sensitive' | 'specific';
+  threshold: number;
+  sensitivity: number;
+  specificity: number;
+}
+
+const BOOTSTRAP_SAMPLES = 200;
+const BAND_GRID = Array.from({ length: 41 }, (_, i) => i / 4);
+// Sensitivity or specificity targeted by the non-balanced operating points.
+export const TARGET_RATE = 0.9;
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+// Platt (1999) with smoothed targets to avoid overfitting small sets,
+// solved by Newton's method on the log-loss.
+export function fitPlatt(scores: number[], labels: number[]): CalibrationMap {
+  const positives = labels.filter(l => l === 1).length;
+  const negatives = labels.length - positives;
+  const hi = (positives + 1) / (positives + 2);
+  const lo = 1 / (negatives + 2);
+  const targets = labels.map(l => (l === 1 ? hi : lo));
+
+  let a = 0;
+  let b = Math.log((positives + 1) / (negatives + 1));
+  for (let iteration = 0; iteration < 100; iteration++) {
+    let gA = 0, gB = 0, hAA = 0, hAB = 0, hBB = 0;
+    scores.forEach((s, i) => {
+      const p = sigmoid(a * s + b);
+      const d = p - targets[i];
+      const w = Math.max(p * (1 - p), 1e-12);
+      gA += d * s;
+      gB += d;
+      hAA += w * s * s;
+      hAB += w * s;
+      hBB += w;
+    });
+    // Small ridge keeps the Hessian invertible when every score is equal.
+    hAA += 1e-9;
+    hBB += 1e-9;
+    const det = hAA * hBB - hAB * hAB;
+    const stepA = (hBB * gA - hAB * gB) / det;
+    const stepB = (hAA * gB - hAB * gA) / det;
+    a -= stepA;
+    b -= stepB;
+    if (Math.abs(stepA) < 1e-8 && Math.abs(stepB) < 1e-8) break;
+  }
+  return { method: 'platt', a, b };
+}
+
+// Pool-adjacent-violators over the distinct scores.
+export function fitIsotonic(scores: number[], labels: number[]): CalibrationMap {
+  const byScore = new Map<number, { sum: number; count: number }>();
+  scores.forEach((s, i) => {
+    const entry = byScore.get(s) ?? { sum: 0, count: 0 };
+    entry.sum += labels[i];
+    entry.count += 1;
+    byScore.set(s, entry);
+  });
+
+  const blocks = [...byScore.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([score, { sum, count }]) => ({ xs: [score], sum, count }));
+  const pooled: typeof blocks = [];
+  blocks.forEach(block => {
+    pooled.push(block);
+    while (pooled.length > 1) {
+      const last = pooled[pooled.length - 1];
+      const prev = pooled[pooled.length - 2];
+      if (prev.sum / prev.count <= last.sum / last.count) break;
+      pooled.splice(pooled.length - 2, 2, {
+        xs: [...prev.xs, ...last.xs],
+        sum: prev.sum + last.sum,
+        count: prev.count + last.count
+      });
+    }
+  });
+
+  const x: number[] = [];
+  const y: number[] = [];
+  pooled.forEach(block => {
+    block.xs.forEach(score => {
+      x.push(score);
+      y.push(block.sum / block.count);
+    });
+  });
+  return { method: 'isotonic', x, y };
+}
+
+// Linear interpolation through sorted knots, flat beyond either end.
+const interpolate = (xs: number[], ys: number[], value: number) => {
+  if (value <= xs[0]) return ys[0];
+  if (value >= xs[xs.length - 1]) return ys[ys.length - 1];
+  const i = xs.findIndex(x => x >= value);
+  const t = (value - xs[i - 1]) / (xs[i] - xs[i - 1]);
+  return ys[i - 1] + t * (ys[i] - ys[i - 1]);
+};
+
+export function applyCalibration(map: CalibrationMap, score: number): number {
+  return map.method === 'platt' ? sigmoid(map.a * score + map.b) : interpolate(map.x, map.y, score);
+}
+
+const fitMap = (method: CalibrationMethod, scores: number[], labels: number[]) =>
+  method === 'platt' ? fitPlatt(scores, labels) : fitIsotonic(scores, labels);
+
+const percentile = (sorted: number[], q: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))))];
+
+export function fitCalibration(
+  profileId: string,
+  method: CalibrationMethod,
+  scores: number[],
+  labels: number[],
+  seed = 1
+): Calibration {
+  if (scores.length < 10) {
+    throw new Error('At least 10 labeled rows are needed to calibrate');
+  }
+  if (new Set(labels).size < 2) {
+    throw new Error('Calibration data must contain both labels');
+  }
+
+  // Refit on resamples of the data; resamples with a single class are
+  // skipped because neither method can be fitted on them.
+  const random = seededRandom(seed);
+  const curves: number[][] = [];
+  for (let sample = 0; sample < BOOTSTRAP_SAMPLES; sample++) {
+    const picks = scores.map(() => Math.floor(random() * scores.length));
+    const sampleLabels = picks.map(i => labels[i]);
+    if (new Set(sampleLabels).size < 2) continue;
+    const map = fitMap(method, picks.map(i => scores[i]), sampleLabels);
+    curves.push(BAND_GRID.map(score => applyCalibration(map, score)));
+  }
+  const band = {
+    score: BAND_GRID,
+    lower: BAND_GRID.map((_, j) => percentile(curves.map(c => c[j]).sort((a, b) => a - b), 0.05)),
+    upper: BAND_GRID.map((_, j) => percentile(curves.map(c => c[j]).sort((a, b) => a - b), 0.95))
+  };
+
+  const { points, auc } = rocCurve(labels, scores);
+  return {
+    profileId,
+    fittedAt: new Date().toISOString(),
+    sampleSize: scores.length,
+    map: fitMap(method, scores, labels),
+    band,
+    // The (0, 0) anchor has an infinite threshold, which JSON cannot store.
+    roc: points.filter(point => Number.isFinite(point.threshold)),
+    auc
+  };
+}
+
+// The probability at the result's score, with an interval spanning both the
+// bootstrap band and every score the unmeasured features could produce.
+export function calibratedProbability(calibration: Calibration, result: AnalysisResult): CalibratedProbability {
+  const { score, lower, upper } = calibration.band;
+  const probability = applyCalibration(calibration.map, result.riskScore);
+  return {
+    probability,
+    lower: Math.min(probability, ...result.scoreRange.map(s => interpolate(score, lower, s))),
+    upper: Math.max(probability, ...result.scoreRange.map(s => interpolate(score, upper, s)))
+  };
+}
+
+// Sensitivity and specificity of the calibration data at a score threshold.
+export function rocAt(calibration: Calibration, threshold: number) {
+  // Points run from the highest threshold down. "score >= threshold" flags
+  // the same rows as the lowest observed score still at or above it.
+  const point = [...calibration.roc].reverse().find(p => p.threshold >= threshold);
+  return point
+    ? { sensitivity: point.y, specificity: 1 - point.x }
+    : { sensitivity: 0, specificity: 1 };
+}
+
+export function operatingPointOptions(calibration: Calibration): OperatingPointOption[] {
+  const rated = calibration.roc.map(p => ({ threshold: p.threshold, sensitivity: p.y, specificity: 1 - p.x }));
+  if (rated.length === 0) return [];
+
+  // Youden's J: the point furthest above the chance diagonal.
+  const balanced = rated.reduce((best, p) =>
+    p.sensitivity + p.specificity > best.sensitivity + best.specificity ? p : best);
+  // Highest threshold that still reaches the target sensitivity, and lowest
+  // threshold that still reaches the target specificity.
+  const sensitive = rated.find(p => p.sensitivity >= TARGET_RATE) ?? rated[rated.length - 1];
+  const specific = [...rated].reverse().find(p => p.specificity >= TARGET_RATE) ?? rated[0];
+
+  return [
+    { id: 'balanced', ...balanced },
+    { id: 'sensitive', ...sensitive },
+    { id: 'specific', ...specific }
+  ];
+}
@@ -0,0 +1,153 @@
+import { CohortRow, Decision, FormDataType, RiskLevel } from '../types';
+import { featureKeys, OperatingPoint, riskDetailKeys } from './scoring';
+import { MessageKey } from './i18n';
+
+// A named batch of scored rows, e.g. one class or one term's upload.
+export interface CohortDataset {
+  id: string;
+  name: string;
+  rows: CohortRow[];
+  // The cut-off the rows were scored with.
+  operatingPoint: OperatingPoint;
+}
+
+export interface RiskBand {
+  label: MessageKey;
+  decision: Decision;
+  min: number;
+  max: number;
+}
+
+// Bands over the 0–10 risk score, cut where the operating point's
+// indeterminate band is; at-risk scores are halved into Elevated and High.
+export function riskBands(point: OperatingPoint): RiskBand[] {
+  const lower = Math.max(0, point.threshold - point.indeterminateMargin);
+  const upper = Math.min(10, point.threshold + point.indeterminateMargin);
+  const severe = (upper + 10) / 2;
+  return [
+    { label: 'band.low', decision: 'low', min: 0, max: lower },
+    { label: 'band.retest', decision: 'indeterminate', min: lower, max: upper },
+    { label: 'band.elevated', decision: 'risk', min: upper, max: severe },
+    { label: 'band.high', decision: 'risk', min: severe, max: 10.0001 }
+  ];
+}
+
+export interface HistogramBin {
+  label: string;
+  count: number;
+}
+
+export interface Outlier {
+  rowNumber: number;
+  studentId: string;
+  feature: keyof FormDataType;
+  value: number;
+  // Which side of the Tukey fence the value falls on.
+  direction: 'low' | 'high';
+}
+
+export interface FeatureSummary {
+  mean: number | null;
+  median: number | null;
+  count: number;
+}
+
+export const scoredRows = (rows: CohortRow[]) => rows.filter(row => row.data && row.result);
+
+export const featureValues = (rows: CohortRow[], feature: keyof FormDataType) =>
+  scoredRows(rows)
+    .map(row => row.data?.[feature] ?? null)
+    .filter((value): value is number => value !== null);
+
+const quantile = (sorted: number[], q: number) => {
+  const pos = (sorted.length - 1) * q;
+  const base = Math.floor(pos);
+  const rest = pos - base;
+  return sorted[base + 1] !== undefined ? sorted[base] + rest * (sorted[base + 1] - sorted[base]) : sorted[base];
+};
+
+export function summarizeFeature(rows: CohortRow[], feature: keyof FormDataType): FeatureSummary {
+  const values = featureValues(rows, feature).sort((a, b) => a - b);
+  if (values.length === 0) return { mean: null, median: null, count: 0 };
+  return {
+    mean: values.reduce((sum, v) => sum + v, 0) / values.length,
+    median: quantile(values, 0.5),
+    count: values.length
+  };
+}
+
+// Equal-width bins over [min, max]. Passing the range explicitly lets two
+// groups share bins so their histograms can be overlaid.
+export function histogram(values: number[], binCount: number, range?: [number, number]): HistogramBin[] {
+  if (values.length === 0 && !range) return [];
+  const min = range ? range[0] : Math.min(...values);
+  const max = range ? range[1] : Math.max(...values);
+  const width = max > min ? (max - min) / binCount : 1;
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    label: `${+(min + i * width).toFixed(1)}–${+(min + (i + 1) * width).toFixed(1)}`,
+    count: 0
+  }));
+  values.forEach(value => {
+    const index = Math.min(binCount - 1, Math.max(0, Math.floor((value - min) / width)));
+    bins[index].count += 1;
+  });
+  return bins;
+}
+
+// Rows are placed by their decision, so the counts agree with the cohort
+// table: a row whose missing measurements could cross the threshold counts
+// as a retest whatever its score. Only at-risk rows are split by score.
+export function riskBandCounts(rows: CohortRow[], bands: RiskBand[]): number[] {
+  return bands.map(band =>
+    scoredRows(rows).filter(row => {
+      const result = row.result;
+      if (!result || result.decision !== band.decision) return false;
+      return band.decision !== 'risk' || (result.riskScore >= band.min && result.riskScore < band.max);
+    }).length
+  );
+}
+
+// Count of rows at each risk level, per feature.
+export function featureRiskMix(rows: CohortRow[]): Record<keyof FormDataType, Record<RiskLevel, number>> {
+  const mix = {} as Record<keyof FormDataType, Record<RiskLevel, number>>;
+  featureKeys.forEach(feature => {
+    mix[feature] = { High: 0, Medium: 0, Low: 0, Missing: 0 };
+    scoredRows(rows).forEach(row => {
+      const level = row.result?.details[riskDetailKeys[feature]];
+      if (level) mix[feature][level] += 1;
+    });
+  });
+  return mix;
+}
+
+// Tukey's fences: values more than 1.5 IQR beyond the quartiles. Needs a
+// handful of values to be meaningful, so small groups report none.
+export function findOutliers(rows: CohortRow[]): Outlier[] {
+  const outliers: Outlier[] = [];
+  featureKeys.forEach(feature => {
+    const sorted = featureValues(rows, feature).sort((a, b) => a - b);
+    if (sorted.length < 5) return;
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const fence = 1.5 * (q3 - q1);
+    scoredRows(rows).forEach(row => {
+      const value = row.data?.[feature];
+      if (value === null || value === undefined) return;
+      if (value < q1 - fence || value > q3 + fence) {
+        outliers.push({
+          rowNumber: row.rowNumber,
+          studentId: row.studentId,
+          feature,
+          value,
+          direction: value < q1 - fence ? 'low' : 'high'
+        });
+      }
+    });
+  });
+  return outliers;
+}
+
+export const atRiskShare = (rows: CohortRow[]) => {
+  const scored = scoredRows(rows);
+  return scored.length > 0 ? scored.filter(row => row.result?.prediction === 1).length / scored.length : 0;
+};
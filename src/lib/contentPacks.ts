@@ -0,0 +1,514 @@
+// Test content for the built-in assessment modules, one pack per language and
+// grade band. Grade bands use the same strings as ScoringProfile.gradeBand so
+// the pack can follow the active profile.
+
+export interface ReadingPassage {
+  title: string;
+  text: string;
+}
+
+export interface QuizQuestion {
+  prompt: string;
+  options: string[];
+  // Index into `options`.
+  answer: number;
+}
+
+export interface SpellingItem {
+  word: string;
+  // Read aloud after the word so the student hears it in context.
+  sentence: string;
+}
+
+export interface PhonemeItem {
+  item: string;
+  // Expected segmentation, one entry per phoneme, written as the examiner
+  // would say it.
+  phonemes: string[];
+  nonword: boolean;
+}
+
+export interface ContentPack {
+  id: string;
+  name: string;
+  gradeBand: string;
+  language: string;
+  passage: ReadingPassage;
+  comprehension: QuizQuestion[];
+  spelling: SpellingItem[];
+  phonemes: PhonemeItem[];
+}
+
+export const contentPacks: ContentPack[] = [
+  {
+    id: 'en-grades-1-2',
+    name: 'Grades 1–2',
+    gradeBand: '1-2',
+    language: 'en',
+    passage: {
+      title: 'The Lost Hat',
+      text: 'Sam had a red hat. He wore it to the park every day. One windy morning, the wind took his hat up into a tall tree. '
+        + 'Sam could not reach it. He asked his big sister for help. She got a long stick from the shed. '
+        + 'She poked the branch, and the hat fell down into the grass. Sam put his hat back on and held it tight. '
+        + 'On the way home, he said thank you and gave his sister half of his apple.'
+    },
+    comprehension: [
+      { prompt: 'What color was Sam\'s hat?', options: ['Blue', 'Red', 'Green', 'Yellow'], answer: 1 },
+      { prompt: 'Where did the hat end up?', options: ['In a pond', 'On a roof', 'In a tall tree', 'Under a car'], answer: 2 },
+      { prompt: 'Who helped Sam?', options: ['His dad', 'His friend', 'His big sister', 'A park worker'], answer: 2 },
+      { prompt: 'What did she use to get the hat?', options: ['A ladder', 'A long stick', 'A ball', 'A rope'], answer: 1 },
+      { prompt: 'How did Sam say thank you?', options: ['He gave her half his apple', 'He drew her a picture', 'He gave her his hat', 'He sang a song'], answer: 0 }
+    ],
+    spelling: [
+      { word: 'cat', sentence: 'The cat sat on the mat.' },
+      { word: 'dog', sentence: 'My dog likes to run.' },
+      { word: 'sun', sentence: 'The sun is hot.' },
+      { word: 'fish', sentence: 'A fish swims in the pond.' },
+      { word: 'ship', sentence: 'The ship sailed away.' },
+      { word: 'frog', sentence: 'The frog can jump.' },
+      { word: 'jump', sentence: 'I can jump high.' },
+      { word: 'milk', sentence: 'I drink milk at lunch.' },
+      { word: 'tree', sentence: 'The tree is tall.' },
+      { word: 'play', sentence: 'We play outside.' },
+      { word: 'rain', sentence: 'The rain made puddles.' },
+      { word: 'night', sentence: 'The stars shine at night.' }
+    ],
+    phonemes: [
+      { item: 'cat', phonemes: ['k', 'a', 't'], nonword: false },
+      { item: 'sun', phonemes: ['s', 'u', 'n'], nonword: false },
+      { item: 'ship', phonemes: ['sh', 'i', 'p'], nonword: false },
+      { item: 'frog', phonemes: ['f', 'r', 'o', 'g'], nonword: false },
+      { item: 'stop', phonemes: ['s', 't', 'o', 'p'], nonword: false },
+      { item: 'lat', phonemes: ['l', 'a', 't'], nonword: true },
+      { item: 'mip', phonemes: ['m', 'i', 'p'], nonword: true },
+      { item: 'gub', phonemes: ['g', 'u', 'b'], nonword: true },
+      { item: 'snom', phonemes: ['s', 'n', 'o', 'm'], nonword: true },
+      { item: 'chep', phonemes: ['ch', 'e', 'p'], nonword: true }
+    ]
+  },
+  {
+    id: 'en-grades-3-5',
+    name: 'Grades 3–5',
+    gradeBand: '3-5',
+    language: 'en',
+    passage: {
+      title: 'The Community Garden',
+      text: 'Behind the library there was an empty lot full of weeds and broken bricks. Maya walked past it every day on her way to school. '
+        + 'One spring, she asked the librarian whether the lot could become a garden. The librarian liked the idea, '
+        + 'and together they wrote a letter to the town council. A month later, the council said yes. '
+        + 'Neighbors arrived on a Saturday with shovels, gloves and wheelbarrows. They pulled the weeds, carried away the bricks '
+        + 'and built six wooden planting boxes. Maya\'s class planted tomatoes, beans and sunflowers. '
+        + 'All summer, families took turns watering the boxes. By August the sunflowers were taller than the fence, '
+        + 'and the library held a picnic where everyone shared the vegetables they had grown.'
+    },
+    comprehension: [
+      { prompt: 'Where was the empty lot?', options: ['Next to the school', 'Behind the library', 'Beside the town hall', 'Across from the park'], answer: 1 },
+      { prompt: 'Who did Maya first share her idea with?', options: ['Her teacher', 'The mayor', 'The librarian', 'Her parents'], answer: 2 },
+      { prompt: 'Why did they write to the town council?', options: ['To ask permission to use the lot', 'To complain about the weeds', 'To ask for money', 'To invite them to a picnic'], answer: 0 },
+      { prompt: 'What did the neighbors build?', options: ['A fence', 'A shed', 'Six planting boxes', 'A picnic table'], answer: 2 },
+      { prompt: 'What does the passage suggest about the garden by August?', options: ['It had failed', 'It had grown well', 'It was closed', 'It was moved'], answer: 1 },
+      { prompt: 'What is the main idea of the passage?', options: ['Sunflowers grow quickly', 'Libraries lend books', 'A community turned an empty lot into a garden', 'Weeds are hard to pull'], answer: 2 }
+    ],
+    spelling: [
+      { word: 'because', sentence: 'We stayed inside because it rained.' },
+      { word: 'friend', sentence: 'My friend lives next door.' },
+      { word: 'garden', sentence: 'We planted beans in the garden.' },
+      { word: 'careful', sentence: 'Be careful with the glass.' },
+      { word: 'laugh', sentence: 'The joke made us laugh.' },
+      { word: 'thought', sentence: 'I thought about the answer.' },
+      { word: 'people', sentence: 'Many people came to the picnic.' },
+      { word: 'library', sentence: 'I borrowed a book from the library.' },
+      { word: 'caught', sentence: 'She caught the ball.' },
+      { word: 'several', sentence: 'We saw several birds.' },
+      { word: 'neighbor', sentence: 'Our neighbor has a dog.' },
+      { word: 'different', sentence: 'Each box had a different plant.' },
+      { word: 'surprise', sentence: 'The party was a surprise.' },
+      { word: 'kitchen', sentence: 'Dinner is cooking in the kitchen.' },
+      { word: 'straight', sentence: 'Draw a straight line.' }
+    ],
+    phonemes: [
+      { item: 'plant', phonemes: ['p', 'l', 'a', 'n', 't'], nonword: false },
+      { item: 'string', phonemes: ['s', 't', 'r', 'i', 'ng'], nonword: false },
+      { item: 'thrash', phonemes: ['th', 'r', 'a', 'sh'], nonword: false },
+      { item: 'crisp', phonemes: ['k', 'r', 'i', 's', 'p'], nonword: false },
+      { item: 'blinked', phonemes: ['b', 'l', 'i', 'n', 'k', 't'], nonword: false },
+      { item: 'frelp', phonemes: ['f', 'r', 'e', 'l', 'p'], nonword: true },
+      { item: 'stom', phonemes: ['s', 't', 'o', 'm'], nonword: true },
+      { item: 'glimt', phonemes: ['g', 'l', 'i', 'm', 't'], nonword: true },
+      { item: 'shraft', phonemes: ['sh', 'r', 'a', 'f', 't'], nonword: true },
+      { item: 'plinder', phonemes: ['p', 'l', 'i', 'n', 'd', 'er'], nonword: true }
+    ]
+  },
+  {
+    id: 'en-grades-6-8',
+    name: 'Grades 6–8',
+    gradeBand: '6-8',
+    language: 'en',
+    passage: {
+      title: 'Measuring the Rain',
+      text: 'For centuries, farmers have tried to predict the weather, but accurate records only became common in the last two hundred years. '
+        + 'One of the simplest instruments is the rain gauge, a narrow container that collects precipitation so it can be measured. '
+        + 'Because rain falls unevenly, a single gauge tells you little about a whole region. Meteorologists therefore rely on networks of gauges, '
+        + 'sometimes maintained by volunteers who record their readings each morning at the same time. '
+        + 'Consistency matters: a reading taken at noon cannot be compared fairly with one taken at dawn. '
+        + 'Today, radar and satellites estimate rainfall over enormous areas, yet scientists still calibrate those estimates against ground gauges. '
+        + 'In other words, modern technology has not replaced the humble container in the backyard; it depends on it. '
+        + 'Long records from volunteers have helped researchers detect changes in rainfall patterns that would otherwise have gone unnoticed.'
+    },
+    comprehension: [
+      { prompt: 'What does a rain gauge do?', options: ['Predicts storms', 'Collects rain so it can be measured', 'Tracks wind speed', 'Photographs clouds'], answer: 1 },
+      { prompt: 'Why do meteorologists use networks of gauges?', options: ['Gauges break often', 'Rain falls unevenly across a region', 'Volunteers prefer it', 'Radar requires it'], answer: 1 },
+      { prompt: 'Why are readings taken at the same time each day?', options: ['So they can be compared fairly', 'Because rain only falls at dawn', 'To save time', 'Because radar is off at noon'], answer: 0 },
+      { prompt: 'How are radar and satellite estimates checked?', options: ['Against older satellites', 'Against ground gauges', 'By asking farmers', 'They are not checked'], answer: 1 },
+      { prompt: 'What does "calibrate" most likely mean in the passage?', options: ['Replace', 'Adjust to agree with a standard', 'Predict', 'Collect'], answer: 1 },
+      { prompt: 'What is the author\'s main point?', options: ['Radar is unreliable', 'Farmers predict weather well', 'Simple ground measurements remain essential', 'Rain is increasing everywhere'], answer: 2 }
+    ],
+    spelling: [
+      { word: 'necessary', sentence: 'Water is necessary for plants.' },
+      { word: 'separate', sentence: 'Keep the samples separate.' },
+      { word: 'environment', sentence: 'We must protect the environment.' },
+      { word: 'government', sentence: 'The government passed a new law.' },
+      { word: 'definitely', sentence: 'I will definitely be there.' },
+      { word: 'occurred', sentence: 'The storm occurred overnight.' },
+      { word: 'rhythm', sentence: 'The song has a steady rhythm.' },
+      { word: 'accommodate', sentence: 'The hall can accommodate everyone.' },
+      { word: 'conscience', sentence: 'Let your conscience guide you.' },
+      { word: 'measurement', sentence: 'Record each measurement carefully.' },
+      { word: 'committee', sentence: 'The committee met on Monday.' },
+      { word: 'temperature', sentence: 'The temperature dropped at night.' },
+      { word: 'knowledge', sentence: 'Reading builds knowledge.' },
+      { word: 'immediately', sentence: 'Reply immediately, please.' },
+      { word: 'precipitation', sentence: 'Rain and snow are precipitation.' }
+    ],
+    phonemes: [
+      { item: 'strength', phonemes: ['s', 't', 'r', 'e', 'ng', 'th'], nonword: false },
+      { item: 'splashed', phonemes: ['s', 'p', 'l', 'a', 'sh', 't'], nonword: false },
+      { item: 'scripts', phonemes: ['s', 'k', 'r', 'i', 'p', 't', 's'], nonword: false },
+      { item: 'crumbled', phonemes: ['k', 'r', 'u', 'm', 'b', 'l', 'd'], nonword: false },
+      { item: 'glimpsed', phonemes: ['g', 'l', 'i', 'm', 'p', 's', 't'], nonword: false },
+      { item: 'splont', phonemes: ['s', 'p', 'l', 'o', 'n', 't'], nonword: true },
+      { item: 'strimp', phonemes: ['s', 't', 'r', 'i', 'm', 'p'], nonword: true },
+      { item: 'thrusk', phonemes: ['th', 'r', 'u', 's', 'k'], nonword: true },
+      { item: 'clempt', phonemes: ['k', 'l', 'e', 'm', 'p', 't'], nonword: true },
+      { item: 'frandled', phonemes: ['f', 'r', 'a', 'n', 'd', 'l', 'd'], nonword: true }
+    ]
+  },
+  {
+    id: 'es-grades-1-2',
+    name: 'Cursos 1–2',
+    gradeBand: '1-2',
+    language: 'es',
+    passage: {
+      title: 'El sombrero perdido',
+      text: 'Sam tenía un sombrero rojo. Lo llevaba al parque todos los días. Una mañana de mucho viento, el aire subió su sombrero a un árbol alto. '
+        + 'Sam no lo alcanzaba. Le pidió ayuda a su hermana mayor. Ella sacó un palo largo del cobertizo. '
+        + 'Golpeó la rama y el sombrero cayó en la hierba. Sam se puso el sombrero y lo sujetó fuerte. '
+        + 'De camino a casa, le dio las gracias y le regaló la mitad de su manzana.'
+    },
+    comprehension: [
+      { prompt: '¿De qué color era el sombrero de Sam?', options: ['Azul', 'Rojo', 'Verde', 'Amarillo'], answer: 1 },
+      { prompt: '¿Dónde acabó el sombrero?', options: ['En un estanque', 'En un tejado', 'En un árbol alto', 'Debajo de un coche'], answer: 2 },
+      { prompt: '¿Quién ayudó a Sam?', options: ['Su padre', 'Un amigo', 'Su hermana mayor', 'Un jardinero del parque'], answer: 2 },
+      { prompt: '¿Qué usó ella para bajar el sombrero?', options: ['Una escalera', 'Un palo largo', 'Una pelota', 'Una cuerda'], answer: 1 },
+      { prompt: '¿Cómo le dio Sam las gracias?', options: ['Le regaló la mitad de su manzana', 'Le hizo un dibujo', 'Le dio su sombrero', 'Le cantó una canción'], answer: 0 }
+    ],
+    spelling: [
+      { word: 'casa', sentence: 'Mi casa tiene un jardín.' },
+      { word: 'perro', sentence: 'El perro corre mucho.' },
+      { word: 'sol', sentence: 'El sol calienta.' },
+      { word: 'pez', sentence: 'El pez nada en el agua.' },
+      { word: 'barco', sentence: 'El barco se fue lejos.' },
+      { word: 'rana', sentence: 'La rana salta.' },
+      { word: 'vaso', sentence: 'Bebo un vaso de agua.' },
+      { word: 'leche', sentence: 'Tomo leche en el desayuno.' },
+      { word: 'árbol', sentence: 'El árbol es muy alto.' },
+      { word: 'jugar', sentence: 'Salimos a jugar.' },
+      { word: 'lluvia', sentence: 'La lluvia hizo charcos.' },
+      { word: 'hoja', sentence: 'Una hoja cayó al suelo.' }
+    ],
+    phonemes: [
+      { item: 'sol', phonemes: ['s', 'o', 'l'], nonword: false },
+      { item: 'mesa', phonemes: ['m', 'e', 's', 'a'], nonword: false },
+      { item: 'pato', phonemes: ['p', 'a', 't', 'o'], nonword: false },
+      { item: 'flor', phonemes: ['f', 'l', 'o', 'r'], nonword: false },
+      { item: 'tren', phonemes: ['t', 'r', 'e', 'n'], nonword: false },
+      { item: 'lapo', phonemes: ['l', 'a', 'p', 'o'], nonword: true },
+      { item: 'mipa', phonemes: ['m', 'i', 'p', 'a'], nonword: true },
+      { item: 'gufo', phonemes: ['g', 'u', 'f', 'o'], nonword: true },
+      { item: 'tresa', phonemes: ['t', 'r', 'e', 's', 'a'], nonword: true },
+      { item: 'chepo', phonemes: ['ch', 'e', 'p', 'o'], nonword: true }
+    ]
+  },
+  {
+    id: 'es-grades-3-5',
+    name: 'Cursos 3–5',
+    gradeBand: '3-5',
+    language: 'es',
+    passage: {
+      title: 'El huerto del barrio',
+      text: 'Detrás de la biblioteca había un solar vacío lleno de malas hierbas y ladrillos rotos. Maya pasaba por allí cada día de camino al colegio. '
+        + 'Una primavera, le preguntó a la bibliotecaria si el solar podía convertirse en un huerto. A la bibliotecaria le gustó la idea, '
+        + 'y juntas escribieron una carta al ayuntamiento. Un mes después, el ayuntamiento dijo que sí. '
+        + 'Los vecinos llegaron un sábado con palas, guantes y carretillas. Arrancaron las hierbas, se llevaron los ladrillos '
+        + 'y construyeron seis jardineras de madera. La clase de Maya plantó tomates, judías y girasoles. '
+        + 'Durante todo el verano, las familias se turnaron para regar. En agosto los girasoles eran más altos que la valla, '
+        + 'y la biblioteca organizó un pícnic en el que todos compartieron las verduras que habían cultivado.'
+    },
+    comprehension: [
+      { prompt: '¿Dónde estaba el solar vacío?', options: ['Junto al colegio', 'Detrás de la biblioteca', 'Al lado del ayuntamiento', 'Enfrente del parque'], answer: 1 },
+      { prompt: '¿A quién le contó Maya su idea primero?', options: ['A su maestra', 'Al alcalde', 'A la bibliotecaria', 'A sus padres'], answer: 2 },
+      { prompt: '¿Por qué escribieron al ayuntamiento?', options: ['Para pedir permiso para usar el solar', 'Para quejarse de las hierbas', 'Para pedir dinero', 'Para invitarlos a un pícnic'], answer: 0 },
+      { prompt: '¿Qué construyeron los vecinos?', options: ['Una valla', 'Un cobertizo', 'Seis jardineras', 'Una mesa de pícnic'], answer: 2 },
+      { prompt: '¿Qué sugiere el texto sobre el huerto en agosto?', options: ['Había fracasado', 'Había crecido bien', 'Estaba cerrado', 'Lo habían trasladado'], answer: 1 },
+      { prompt: '¿Cuál es la idea principal del texto?', options: ['Los girasoles crecen deprisa', 'Las bibliotecas prestan libros', 'Un barrio convirtió un solar vacío en un huerto', 'Las malas hierbas son difíciles de arrancar'], answer: 2 }
+    ],
+    spelling: [
+      { word: 'vecino', sentence: 'Mi vecino tiene un perro.' },
+      { word: 'hierba', sentence: 'La hierba está mojada.' },
+      { word: 'girasol', sentence: 'El girasol mira al sol.' },
+      { word: 'llevaron', sentence: 'Se llevaron los ladrillos.' },
+      { word: 'ayudar', sentence: 'Me gusta ayudar en casa.' },
+      { word: 'zanahoria', sentence: 'El conejo come una zanahoria.' },
+      { word: 'cocina', sentence: 'La cena está en la cocina.' },
+      { word: 'hacer', sentence: 'Tengo que hacer los deberes.' },
+      { word: 'jirafa', sentence: 'La jirafa tiene el cuello largo.' },
+      { word: 'abuelo', sentence: 'Mi abuelo cuenta cuentos.' },
+      { word: 'verano', sentence: 'En verano hace calor.' },
+      { word: 'ahora', sentence: 'Ahora es mi turno.' },
+      { word: 'biblioteca', sentence: 'Saqué un libro de la biblioteca.' },
+      { word: 'cuidado', sentence: 'Ten cuidado con el vaso.' },
+      { word: 'juguete', sentence: 'Guardé el juguete en la caja.' }
+    ],
+    phonemes: [
+      { item: 'planta', phonemes: ['p', 'l', 'a', 'n', 't', 'a'], nonword: false },
+      { item: 'trigo', phonemes: ['t', 'r', 'i', 'g', 'o'], nonword: false },
+      { item: 'blanco', phonemes: ['b', 'l', 'a', 'n', 'k', 'o'], nonword: false },
+      { item: 'grande', phonemes: ['g', 'r', 'a', 'n', 'd', 'e'], nonword: false },
+      { item: 'flecha', phonemes: ['f', 'l', 'e', 'ch', 'a'], nonword: false },
+      { item: 'plesto', phonemes: ['p', 'l', 'e', 's', 't', 'o'], nonword: true },
+      { item: 'trunda', phonemes: ['t', 'r', 'u', 'n', 'd', 'a'], nonword: true },
+      { item: 'blonca', phonemes: ['b', 'l', 'o', 'n', 'k', 'a'], nonword: true },
+      { item: 'frisma', phonemes: ['f', 'r', 'i', 's', 'm', 'a'], nonword: true },
+      { item: 'glenta', phonemes: ['g', 'l', 'e', 'n', 't', 'a'], nonword: true }
+    ]
+  },
+  {
+    id: 'es-grades-6-8',
+    name: 'Cursos 6–8',
+    gradeBand: '6-8',
+    language: 'es',
+    passage: {
+      title: 'Medir la lluvia',
+      text: 'Durante siglos, los agricultores han intentado predecir el tiempo, pero los registros precisos solo se hicieron habituales en los últimos doscientos años. '
+        + 'Uno de los instrumentos más sencillos es el pluviómetro, un recipiente estrecho que recoge la precipitación para poder medirla. '
+        + 'Como la lluvia no cae por igual en todas partes, un solo pluviómetro dice poco de toda una región. Por eso los meteorólogos usan redes de pluviómetros, '
+        + 'a veces atendidas por voluntarios que anotan la lectura cada mañana a la misma hora. '
+        + 'La constancia importa: una lectura tomada a mediodía no se puede comparar con justicia con otra tomada al amanecer. '
+        + 'Hoy el radar y los satélites estiman la lluvia sobre zonas enormes, pero los científicos siguen calibrando esas estimaciones con los pluviómetros de tierra. '
+        + 'Es decir, la tecnología moderna no ha sustituido al humilde recipiente del patio; depende de él. '
+        + 'Los largos registros de los voluntarios han ayudado a detectar cambios en las lluvias que de otro modo habrían pasado inadvertidos.'
+    },
+    comprehension: [
+      { prompt: '¿Para qué sirve un pluviómetro?', options: ['Para predecir tormentas', 'Para recoger la lluvia y medirla', 'Para medir el viento', 'Para fotografiar las nubes'], answer: 1 },
+      { prompt: '¿Por qué usan los meteorólogos redes de pluviómetros?', options: ['Los pluviómetros se rompen a menudo', 'La lluvia no cae por igual en una región', 'Los voluntarios lo prefieren', 'El radar lo exige'], answer: 1 },
+      { prompt: '¿Por qué se toman las lecturas a la misma hora cada día?', options: ['Para poder compararlas con justicia', 'Porque solo llueve al amanecer', 'Para ahorrar tiempo', 'Porque el radar se apaga a mediodía'], answer: 0 },
+      { prompt: '¿Cómo se comprueban las estimaciones del radar y los satélites?', options: ['Con satélites más antiguos', 'Con los pluviómetros de tierra', 'Preguntando a los agricultores', 'No se comprueban'], answer: 1 },
+      { prompt: '¿Qué significa probablemente «calibrar» en el texto?', options: ['Sustituir', 'Ajustar para que coincida con una referencia', 'Predecir', 'Recoger'], answer: 1 },
+      { prompt: '¿Cuál es la idea principal del autor?', options: ['El radar no es fiable', 'Los agricultores predicen bien el tiempo', 'Las mediciones sencillas en tierra siguen siendo esenciales', 'La lluvia aumenta en todas partes'], answer: 2 }
+    ],
+    spelling: [
+      { word: 'necesario', sentence: 'Es necesario beber agua.' },
+      { word: 'excepción', sentence: 'Hoy haremos una excepción.' },
+      { word: 'gobierno', sentence: 'El gobierno aprobó una ley nueva.' },
+      { word: 'hervir', sentence: 'Pon el agua a hervir.' },
+      { word: 'precipitación', sentence: 'La lluvia y la nieve son precipitación.' },
+      { word: 'conciencia', sentence: 'Actúa según tu conciencia.' },
+      { word: 'vehículo', sentence: 'El vehículo se detuvo.' },
+      { word: 'exhausto', sentence: 'Llegó exhausto de la carrera.' },
+      { word: 'temperatura', sentence: 'La temperatura bajó por la noche.' },
+      { word: 'conocimiento', sentence: 'Leer aumenta el conocimiento.' },
+      { word: 'inmediatamente', sentence: 'Responde inmediatamente, por favor.' },
+      { word: 'absorber', sentence: 'La tierra puede absorber el agua.' },
+      { word: 'proyecto', sentence: 'Terminamos el proyecto a tiempo.' },
+      { word: 'medición', sentence: 'Anota cada medición con cuidado.' },
+      { word: 'hubiera', sentence: 'Ojalá hubiera llovido más.' }
+    ],
+    phonemes: [
+      { item: 'transporte', phonemes: ['t', 'r', 'a', 'n', 's', 'p', 'o', 'r', 't', 'e'], nonword: false },
+      { item: 'instrumento', phonemes: ['i', 'n', 's', 't', 'r', 'u', 'm', 'e', 'n', 't', 'o'], nonword: false },
+      { item: 'abstracto', phonemes: ['a', 'b', 's', 't', 'r', 'a', 'k', 't', 'o'], nonword: false },
+      { item: 'pluviómetro', phonemes: ['p', 'l', 'u', 'b', 'i', 'o', 'm', 'e', 't', 'r', 'o'], nonword: false },
+      { item: 'explorar', phonemes: ['e', 'k', 's', 'p', 'l', 'o', 'r', 'a', 'r'], nonword: false },
+      { item: 'transfolpe', phonemes: ['t', 'r', 'a', 'n', 's', 'f', 'o', 'l', 'p', 'e'], nonword: true },
+      { item: 'plostrenda', phonemes: ['p', 'l', 'o', 's', 't', 'r', 'e', 'n', 'd', 'a'], nonword: true },
+      { item: 'bendistro', phonemes: ['b', 'e', 'n', 'd', 'i', 's', 't', 'r', 'o'], nonword: true },
+      { item: 'glustramo', phonemes: ['g', 'l', 'u', 's', 't', 'r', 'a', 'm', 'o'], nonword: true },
+      { item: 'frontelca', phonemes: ['f', 'r', 'o', 'n', 't', 'e', 'l', 'k', 'a'], nonword: true }
+    ]
+  },
+  {
+    id: 'fi-grades-1-2',
+    name: 'Luokat 1–2',
+    gradeBand: '1-2',
+    language: 'fi',
+    passage: {
+      title: 'Kadonnut hattu',
+      text: 'Samilla oli punainen hattu. Hän käytti sitä puistossa joka päivä. Eräänä tuulisena aamuna tuuli vei hatun korkeaan puuhun. '
+        + 'Sami ei ylettynyt siihen. Hän pyysi isosiskoltaan apua. Sisko haki vajasta pitkän kepin. '
+        + 'Hän tökkäsi oksaa, ja hattu putosi nurmikolle. Sami pani hatun päähänsä ja piti siitä tiukasti kiinni. '
+        + 'Kotimatkalla hän kiitti siskoaan ja antoi tälle puolet omenastaan.'
+    },
+    comprehension: [
+      { prompt: 'Minkä värinen Samin hattu oli?', options: ['Sininen', 'Punainen', 'Vihreä', 'Keltainen'], answer: 1 },
+      { prompt: 'Mihin hattu joutui?', options: ['Lampeen', 'Katolle', 'Korkeaan puuhun', 'Auton alle'], answer: 2 },
+      { prompt: 'Kuka auttoi Samia?', options: ['Isä', 'Ystävä', 'Isosisko', 'Puiston työntekijä'], answer: 2 },
+      { prompt: 'Millä sisko sai hatun alas?', options: ['Tikkailla', 'Pitkällä kepillä', 'Pallolla', 'Köydellä'], answer: 1 },
+      { prompt: 'Miten Sami kiitti siskoaan?', options: ['Antoi puolet omenastaan', 'Piirsi kuvan', 'Antoi hattunsa', 'Lauloi laulun'], answer: 0 }
+    ],
+    spelling: [
+      { word: 'kala', sentence: 'Kala ui järvessä.' },
+      { word: 'kissa', sentence: 'Kissa nukkuu sohvalla.' },
+      { word: 'tuuli', sentence: 'Tuuli puhaltaa kovaa.' },
+      { word: 'puu', sentence: 'Puu on korkea.' },
+      { word: 'kello', sentence: 'Kello soi kahdeksalta.' },
+      { word: 'sammakko', sentence: 'Sammakko hyppää kivelle.' },
+      { word: 'maito', sentence: 'Juon maitoa ruoalla.' },
+      { word: 'sade', sentence: 'Sade teki lätäköitä.' },
+      { word: 'tyttö', sentence: 'Tyttö juoksee pihalla.' },
+      { word: 'yö', sentence: 'Tähdet loistavat yöllä.' },
+      { word: 'leikki', sentence: 'Leikki jatkui pitkään.' },
+      { word: 'hattu', sentence: 'Hattu lensi puuhun.' }
+    ],
+    phonemes: [
+      { item: 'kala', phonemes: ['k', 'a', 'l', 'a'], nonword: false },
+      { item: 'tuli', phonemes: ['t', 'u', 'l', 'i'], nonword: false },
+      { item: 'talo', phonemes: ['t', 'a', 'l', 'o'], nonword: false },
+      { item: 'kuu', phonemes: ['k', 'uu'], nonword: false },
+      { item: 'mato', phonemes: ['m', 'a', 't', 'o'], nonword: false },
+      { item: 'nemu', phonemes: ['n', 'e', 'm', 'u'], nonword: true },
+      { item: 'rupo', phonemes: ['r', 'u', 'p', 'o'], nonword: true },
+      { item: 'sike', phonemes: ['s', 'i', 'k', 'e'], nonword: true },
+      { item: 'mylä', phonemes: ['m', 'y', 'l', 'ä'], nonword: true },
+      { item: 'kelu', phonemes: ['k', 'e', 'l', 'u'], nonword: true }
+    ]
+  },
+  {
+    id: 'fi-grades-3-5',
+    name: 'Luokat 3–5',
+    gradeBand: '3-5',
+    language: 'fi',
+    passage: {
+      title: 'Korttelin puutarha',
+      text: 'Kirjaston takana oli tyhjä tontti täynnä rikkaruohoja ja rikkinäisiä tiiliä. Maya käveli sen ohi joka päivä koulumatkallaan. '
+        + 'Eräänä keväänä hän kysyi kirjastonhoitajalta, voisiko tontista tehdä puutarhan. Kirjastonhoitaja piti ajatuksesta, '
+        + 'ja yhdessä he kirjoittivat kirjeen kunnanvaltuustolle. Kuukautta myöhemmin valtuusto vastasi myöntävästi. '
+        + 'Naapurit saapuivat lauantaina lapioiden, hanskojen ja kottikärryjen kanssa. He kitkivät rikkaruohot, veivät tiilet pois '
+        + 'ja rakensivat kuusi puista kasvulaatikkoa. Mayan luokka istutti tomaatteja, papuja ja auringonkukkia. '
+        + 'Koko kesän perheet kastelivat laatikoita vuorotellen. Elokuussa auringonkukat olivat aitaa korkeampia, '
+        + 'ja kirjasto järjesti piknikin, jossa kaikki jakoivat kasvattamiaan vihanneksia.'
+    },
+    comprehension: [
+      { prompt: 'Missä tyhjä tontti oli?', options: ['Koulun vieressä', 'Kirjaston takana', 'Kunnantalon vieressä', 'Puiston vastapäätä'], answer: 1 },
+      { prompt: 'Kenelle Maya kertoi ideastaan ensimmäisenä?', options: ['Opettajalleen', 'Kunnanjohtajalle', 'Kirjastonhoitajalle', 'Vanhemmilleen'], answer: 2 },
+      { prompt: 'Miksi he kirjoittivat kunnanvaltuustolle?', options: ['Pyytääkseen lupaa käyttää tonttia', 'Valittaakseen rikkaruohoista', 'Pyytääkseen rahaa', 'Kutsuakseen heidät piknikille'], answer: 0 },
+      { prompt: 'Mitä naapurit rakensivat?', options: ['Aidan', 'Vajan', 'Kuusi kasvulaatikkoa', 'Piknikpöydän'], answer: 2 },
+      { prompt: 'Mitä teksti kertoo puutarhasta elokuussa?', options: ['Se oli epäonnistunut', 'Se oli kasvanut hyvin', 'Se oli suljettu', 'Se oli siirretty'], answer: 1 },
+      { prompt: 'Mikä on tekstin pääajatus?', options: ['Auringonkukat kasvavat nopeasti', 'Kirjastot lainaavat kirjoja', 'Asukkaat tekivät tyhjästä tontista puutarhan', 'Rikkaruohoja on vaikea kitkeä'], answer: 2 }
+    ],
+    spelling: [
+      { word: 'kirjasto', sentence: 'Lainasin kirjan kirjastosta.' },
+      { word: 'naapuri', sentence: 'Naapurilla on koira.' },
+      { word: 'puutarha', sentence: 'Istutimme papuja puutarhaan.' },
+      { word: 'kenkä', sentence: 'Kenkä jäi eteiseen.' },
+      { word: 'sänky', sentence: 'Sänky on pehmeä.' },
+      { word: 'auringonkukka', sentence: 'Auringonkukka kääntyy aurinkoa kohti.' },
+      { word: 'ystävä', sentence: 'Ystävä asuu naapurissa.' },
+      { word: 'tomaatti', sentence: 'Tomaatti kypsyi elokuussa.' },
+      { word: 'hengittää', sentence: 'On hyvä hengittää syvään.' },
+      { word: 'kirjoittaa', sentence: 'Osaan kirjoittaa kirjeen.' },
+      { word: 'keittiö', sentence: 'Ruoka valmistuu keittiössä.' },
+      { word: 'yllätys', sentence: 'Juhlat olivat yllätys.' },
+      { word: 'tuttu', sentence: 'Tie oli minulle tuttu.' },
+      { word: 'varovainen', sentence: 'Ole varovainen lasin kanssa.' },
+      { word: 'lauantai', sentence: 'Lauantai oli aurinkoinen.' }
+    ],
+    phonemes: [
+      { item: 'kukka', phonemes: ['k', 'u', 'kk', 'a'], nonword: false },
+      { item: 'tuuli', phonemes: ['t', 'uu', 'l', 'i'], nonword: false },
+      { item: 'kenkä', phonemes: ['k', 'e', 'ng', 'k', 'ä'], nonword: false },
+      { item: 'sänky', phonemes: ['s', 'ä', 'ng', 'k', 'y'], nonword: false },
+      { item: 'kasvi', phonemes: ['k', 'a', 's', 'v', 'i'], nonword: false },
+      { item: 'hulppa', phonemes: ['h', 'u', 'l', 'pp', 'a'], nonword: true },
+      { item: 'tiimo', phonemes: ['t', 'ii', 'm', 'o'], nonword: true },
+      { item: 'sarkku', phonemes: ['s', 'a', 'r', 'kk', 'u'], nonword: true },
+      { item: 'vemppi', phonemes: ['v', 'e', 'm', 'pp', 'i'], nonword: true },
+      { item: 'lunkka', phonemes: ['l', 'u', 'ng', 'kk', 'a'], nonword: true }
+    ]
+  },
+  {
+    id: 'fi-grades-6-8',
+    name: 'Luokat 6–8',
+    gradeBand: '6-8',
+    language: 'fi',
+    passage: {
+      title: 'Sateen mittaaminen',
+      text: 'Maanviljelijät ovat vuosisatoja yrittäneet ennustaa säätä, mutta tarkat havainnot yleistyivät vasta viimeisten kahdensadan vuoden aikana. '
+        + 'Yksi yksinkertaisimmista mittalaitteista on sademittari, kapea astia, joka kerää sateen mittaamista varten. '
+        + 'Koska sade jakautuu epätasaisesti, yksi mittari kertoo vähän koko alueesta. Siksi meteorologit käyttävät mittariverkkoja, '
+        + 'joita joskus hoitavat vapaaehtoiset, jotka kirjaavat lukeman joka aamu samaan aikaan. '
+        + 'Johdonmukaisuus on tärkeää: keskipäivällä otettua lukemaa ei voi reilusti verrata aamunkoitteessa otettuun. '
+        + 'Nykyään tutkat ja satelliitit arvioivat sademääriä valtavilta alueilta, mutta tutkijat kalibroivat arviot yhä maassa olevilla mittareilla. '
+        + 'Toisin sanoen nykytekniikka ei ole korvannut vaatimatonta astiaa takapihalla, vaan se on siitä riippuvainen. '
+        + 'Vapaaehtoisten pitkät havaintosarjat ovat auttaneet tutkijoita huomaamaan sateiden muutoksia, jotka muuten olisivat jääneet huomaamatta.'
+    },
+    comprehension: [
+      { prompt: 'Mihin sademittaria käytetään?', options: ['Myrskyjen ennustamiseen', 'Sateen keräämiseen ja mittaamiseen', 'Tuulen nopeuden mittaamiseen', 'Pilvien kuvaamiseen'], answer: 1 },
+      { prompt: 'Miksi meteorologit käyttävät mittariverkkoja?', options: ['Mittarit rikkoutuvat usein', 'Sade jakautuu alueella epätasaisesti', 'Vapaaehtoiset haluavat niin', 'Tutka vaatii sitä'], answer: 1 },
+      { prompt: 'Miksi lukemat otetaan joka päivä samaan aikaan?', options: ['Jotta niitä voi verrata reilusti', 'Koska sataa vain aamulla', 'Ajan säästämiseksi', 'Koska tutka on keskipäivällä pois päältä'], answer: 0 },
+      { prompt: 'Miten tutkan ja satelliittien arvioita tarkistetaan?', options: ['Vanhemmilla satelliiteilla', 'Maassa olevilla mittareilla', 'Kysymällä maanviljelijöiltä', 'Niitä ei tarkisteta'], answer: 1 },
+      { prompt: 'Mitä ”kalibroida” todennäköisesti tarkoittaa tekstissä?', options: ['Korvata', 'Säätää vastaamaan vertailukohtaa', 'Ennustaa', 'Kerätä'], answer: 1 },
+      { prompt: 'Mikä on kirjoittajan pääajatus?', options: ['Tutka on epäluotettava', 'Maanviljelijät ennustavat sään hyvin', 'Yksinkertaiset maanpinnan mittaukset ovat yhä välttämättömiä', 'Sateet lisääntyvät kaikkialla'], answer: 2 }
+    ],
+    spelling: [
+      { word: 'välttämätön', sentence: 'Vesi on kasveille välttämätöntä.' },
+      { word: 'erillinen', sentence: 'Näytteille on erillinen hylly.' },
+      { word: 'ympäristö', sentence: 'Meidän on suojeltava ympäristöä.' },
+      { word: 'hallitus', sentence: 'Hallitus hyväksyi uuden lain.' },
+      { word: 'ehdottomasti', sentence: 'Tulen ehdottomasti paikalle.' },
+      { word: 'tapahtui', sentence: 'Myrsky tapahtui yöllä.' },
+      { word: 'rytmi', sentence: 'Laulussa on tasainen rytmi.' },
+      { word: 'omatunto', sentence: 'Anna omantunnon ohjata.' },
+      { word: 'mittaus', sentence: 'Kirjaa jokainen mittaus huolellisesti.' },
+      { word: 'toimikunta', sentence: 'Toimikunta kokoontui maanantaina.' },
+      { word: 'lämpötila', sentence: 'Lämpötila laski yöllä.' },
+      { word: 'tietämys', sentence: 'Lukeminen kartuttaa tietämystä.' },
+      { word: 'välittömästi', sentence: 'Vastaa välittömästi, kiitos.' },
+      { word: 'sademäärä', sentence: 'Sademäärä kasvoi syksyllä.' },
+      { word: 'vapaaehtoinen', sentence: 'Vapaaehtoinen kirjasi lukeman.' }
+    ],
+    phonemes: [
+      { item: 'kirjasto', phonemes: ['k', 'i', 'r', 'j', 'a', 's', 't', 'o'], nonword: false },
+      { item: 'mittari', phonemes: ['m', 'i', 'tt', 'a', 'r', 'i'], nonword: false },
+      { item: 'lämpötila', phonemes: ['l', 'ä', 'm', 'p', 'ö', 't', 'i', 'l', 'a'], nonword: false },
+      { item: 'hengitys', phonemes: ['h', 'e', 'ng', 'i', 't', 'y', 's'], nonword: false },
+      { item: 'ympäristö', phonemes: ['y', 'm', 'p', 'ä', 'r', 'i', 's', 't', 'ö'], nonword: false },
+      { item: 'kartumela', phonemes: ['k', 'a', 'r', 't', 'u', 'm', 'e', 'l', 'a'], nonword: true },
+      { item: 'sölkkyrä', phonemes: ['s', 'ö', 'l', 'kk', 'y', 'r', 'ä'], nonword: true },
+      { item: 'tarnoppi', phonemes: ['t', 'a', 'r', 'n', 'o', 'pp', 'i'], nonword: true },
+      { item: 'hyystelä', phonemes: ['h', 'yy', 's', 't', 'e', 'l', 'ä'], nonword: true },
+      { item: 'muvaskotti', phonemes: ['m', 'u', 'v', 'a', 's', 'k', 'o', 'tt', 'i'], nonword: true }
+    ]
+  }
+
+];
+
+export const packsForLanguage = (language: string) => contentPacks.filter(pack => pack.language === language);
+
+// The pack in `language` matching a profile's grade band, or that language's
+// middle band when the profile does not name one. A language without packs of
+// its own gets the English ones.
+export function packForGradeBand(language: string, gradeBand?: string): ContentPack {
+  const packs = packsForLanguage(language);
+  if (packs.length === 0) return packForGradeBand('en', gradeBand);
+  return packs.find(pack => pack.gradeBand === gradeBand) ?? packs[Math.floor(packs.length / 2)];
+}
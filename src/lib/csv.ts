@@ -0,0 +1,82 @@
+export type Delimiter = ',' | ';' | '\t';
+
+const candidateDelimiters: Delimiter[] = [',', ';', '\t'];
+
+// Picks the delimiter that occurs most often outside quotes on the header
+// line, so semicolon exports from European spreadsheet locales just work.
+export function detectDelimiter(text: string): Delimiter {
+  const counts = new Map<Delimiter, number>(candidateDelimiters.map(d => [d, 0]));
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(char as Delimiter)) {
+      counts.set(char as Delimiter, (counts.get(char as Delimiter) ?? 0) + 1);
+    }
+  }
+  return candidateDelimiters.reduce((best, d) => ((counts.get(d) ?? 0) > (counts.get(best) ?? 0) ? d : best), ',');
+}
+
+// RFC 4180 parser: quoted fields may contain delimiters, doubled quotes and
+// line breaks; records end in LF or CRLF; a leading BOM is ignored. Blank
+// records are dropped.
+export function parseDelimited(input: string, delimiter: Delimiter = detectDelimiter(input)): string[][] {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field at end of file');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+// Inverse of parseDelimited: fields containing the delimiter, a quote or a
+// line break are quoted, with quotes doubled. Records end in CRLF.
+export function formatDelimited(rows: string[][], delimiter: Delimiter = ','): string {
+  const quote = (field: string) =>
+    field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  return rows.map(row => row.map(quote).join(delimiter)).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,78 @@
+import { formatDelimited } from './csv';
+import { featureKeys, riskDetailKeys } from './scoring';
+import { StudentRecord } from './studentStore';
+
+export interface DeidentifyOptions {
+  // Secret that keys the pseudonyms and date shifts. The same key gives the
+  // same pseudonyms in every export, so a study can link them; an empty key
+  // uses a random one and the export cannot be linked to any other.
+  studyKey: string;
+  // Each student's dates move by the same number of days, up to this many
+  // either way, so intervals between assessments are kept.
+  maxShiftDays: number;
+}
+
+export const defaultDeidentifyOptions: DeidentifyOptions = { studyKey: '', maxShiftDays: 30 };
+
+export interface DeidentifiedExport {
+  csv: string;
+  students: number;
+  assessments: number;
+  // Students left out because research sharing was not consented to.
+  excluded: number;
+}
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const shiftDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+// Drops names, consent details and record ids; keeps measurements, scores
+// and risk levels under an HMAC pseudonym with shifted dates.
+export async function deidentifyStudents(students: StudentRecord[], options: DeidentifyOptions): Promise<DeidentifiedExport> {
+  if (!Number.isInteger(options.maxShiftDays) || options.maxShiftDays < 0 || options.maxShiftDays > 365) {
+    throw new Error('Date shift must be a whole number of days from 0 to 365');
+  }
+  const secret = options.studyKey
+    ? new TextEncoder().encode(options.studyKey)
+    : crypto.getRandomValues(new Uint8Array(32));
+  const key = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+
+  const included = students.filter(student => student.consent?.research);
+  const span = 2 * options.maxShiftDays + 1;
+  const pseudonymous = await Promise.all(included.map(async student => {
+    const digest = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(student.id)));
+    const offset = new DataView(digest.buffer).getUint32(8) % span - options.maxShiftDays;
+    return { pseudonym: `P-${hex(digest.slice(0, 6))}`, offset, assessments: student.assessments };
+  }));
+  // Sorted by pseudonym so row order does not follow the alphabetical order
+  // of names.
+  pseudonymous.sort((a, b) => a.pseudonym.localeCompare(b.pseudonym));
+
+  const riskColumns = featureKeys.map(feature => riskDetailKeys[feature]);
+  const text = (value: number | string | null) => (value === null ? '' : String(value));
+  const rows = pseudonymous.flatMap(({ pseudonym, offset, assessments }) =>
+    assessments.map(assessment => [
+      pseudonym,
+      shiftDate(assessment.date, offset),
+      assessment.profileId,
+      ...featureKeys.map(feature => text(assessment.data[feature])),
+      assessment.result.decision,
+      text(assessment.result.riskScore),
+      ...riskColumns.map(column => assessment.result.details[column]),
+      assessment.result.missingFeatures.join(' ')
+    ]));
+
+  return {
+    csv: formatDelimited([
+      ['pseudonym', 'shiftedDate', 'profileId', ...featureKeys, 'decision', 'riskScore', ...riskColumns, 'missingFeatures'],
+      ...rows
+    ]),
+    students: included.length,
+    assessments: rows.length,
+    excluded: students.length - included.length
+  };
+}
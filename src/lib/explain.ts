@@ -0,0 +1,173 @@
+import { FormDataType, Measurements, RiskLevel } from '../types';
+import {
+  analyzeData,
+  defaultOperatingPoint,
+  featureKeys,
+  FeatureRule,
+  getRiskLevel,
+  getRule,
+  OperatingPoint,
+  riskPoints,
+  ScoringProfile
+} from './scoring';
+import { defaultLocale, Locale, translate } from './i18n';
+
+export interface FeatureContribution {
+  feature: keyof FormDataType;
+  value: number | null;
+  level: RiskLevel;
+  weight: number;
+  // Share of the 0–10 risk score this feature adds; contributions sum to riskScore.
+  contribution: number;
+  // Nearest threshold that would move the feature into a lower risk band.
+  nextThreshold: number | null;
+  distanceToThreshold: number | null;
+}
+
+export interface Counterfactual {
+  feature: keyof FormDataType;
+  targetValue: number;
+  fromLevel: RiskLevel;
+  toLevel: RiskLevel;
+  riskScore: number;
+  prediction: 0 | 1;
+  flipsPrediction: boolean;
+  description: string;
+}
+
+export interface Explanation {
+  profileId: string;
+  riskScore: number;
+  prediction: 0 | 1;
+  contributions: FeatureContribution[];
+  topDrivers: string[];
+  counterfactuals: Counterfactual[];
+}
+
+// Nearest value in the band next to the current one. Thresholds are strict
+// (`value < low` is High), so landing exactly on one counts as the safer band.
+const valueForLevel = (rule: FeatureRule, target: RiskLevel, improving: boolean): number => {
+  if (rule.direction === 'lower') {
+    if (improving) return target === 'Low' ? rule.high : rule.low;
+    return target === 'Medium' ? rule.high - 1 : rule.low - 1;
+  }
+  if (improving) return target === 'Low' ? rule.low : rule.high;
+  return target === 'Medium' ? rule.low + 1 : rule.high + 1;
+};
+
+// A missing feature has no neighbouring band to move into.
+const betterLevel = (level: RiskLevel): RiskLevel | null =>
+  level === 'High' ? 'Medium' : level === 'Medium' ? 'Low' : null;
+
+const worseLevel = (level: RiskLevel): RiskLevel | null =>
+  level === 'Low' ? 'Medium' : level === 'Medium' ? 'High' : null;
+
+const describeThreshold = (locale: Locale, rule: FeatureRule, targetValue: number, improving: boolean) => {
+  const feature = translate(locale, `feature.${rule.feature}`);
+  if (rule.direction === 'lower') {
+    return improving
+      ? translate(locale, 'explain.atLeast', { feature, value: targetValue })
+      : translate(locale, 'explain.below', { feature, value: targetValue + 1 });
+  }
+  return improving
+    ? translate(locale, 'explain.atMost', { feature, value: targetValue })
+    : translate(locale, 'explain.above', { feature, value: targetValue - 1 });
+};
+
+// Driver and counterfactual sentences are in `locale`.
+export function explainResult(
+  data: Measurements,
+  profile: ScoringProfile,
+  operatingPoint: OperatingPoint = defaultOperatingPoint,
+  locale: Locale = defaultLocale
+): Explanation {
+  const result = analyzeData(data, profile, operatingPoint);
+  // Normalized by the measured weight only, as analyzeData does, so the
+  // contributions still sum to riskScore when features are missing.
+  const scoredWeight = profile.rules
+    .filter(rule => data[rule.feature] !== null)
+    .reduce((sum, rule) => sum + rule.weight, 0);
+  const scale = scoredWeight > 0 ? 10 / (2 * scoredWeight) : 0;
+
+  const contributions: FeatureContribution[] = featureKeys.map(feature => {
+    const rule = getRule(profile, feature);
+    const value = data[feature];
+    const level = getRiskLevel(value, rule);
+    const target = betterLevel(level);
+    const nextThreshold = target ? valueForLevel(rule, target, true) : null;
+    return {
+      feature,
+      value,
+      level,
+      weight: rule.weight,
+      contribution: riskPoints[level] * rule.weight * scale,
+      nextThreshold,
+      distanceToThreshold: nextThreshold === null || value === null ? null : Math.abs(nextThreshold - value)
+    };
+  });
+
+  const topDrivers = [...contributions]
+    .filter(c => c.contribution > 0)
+    .sort((a, b) => b.contribution - a.contribution)
+    .slice(0, 3)
+    .map(c => {
+      const rule = getRule(profile, c.feature);
+      const cutOff = rule.direction === 'lower'
+        ? c.level === 'High' ? rule.low : rule.high
+        : c.level === 'High' ? rule.high : rule.low;
+      return translate(locale, rule.direction === 'lower' ? 'explain.driverBelow' : 'explain.driverAbove', {
+        feature: translate(locale, `feature.${c.feature}`),
+        value: c.value ?? '',
+        cutOff,
+        level: translate(locale, `level.${c.level}`),
+        points: c.contribution.toFixed(1),
+        score: result.riskScore.toFixed(1)
+      });
+    });
+
+  // Single-feature changes of one risk band in either direction. A feature
+  // already at its best band has no improving counterfactual, and vice versa.
+  const counterfactuals: Counterfactual[] = [];
+  contributions.forEach(c => {
+    const rule = getRule(profile, c.feature);
+    [betterLevel(c.level), worseLevel(c.level)].forEach((toLevel, i) => {
+      if (!toLevel) return;
+      const improving = i === 0;
+      const targetValue = valueForLevel(rule, toLevel, improving);
+      const changed = analyzeData({ ...data, [c.feature]: targetValue }, profile, operatingPoint);
+      const flipsPrediction = changed.prediction !== result.prediction;
+      // Only surface worsening changes when they would change the outcome.
+      if (!improving && !flipsPrediction) return;
+      counterfactuals.push({
+        feature: c.feature,
+        targetValue,
+        fromLevel: c.level,
+        toLevel,
+        riskScore: changed.riskScore,
+        prediction: changed.prediction,
+        flipsPrediction,
+        description: translate(locale, improving ? 'explain.lowers' : 'explain.raises', {
+          change: describeThreshold(locale, rule, targetValue, improving),
+          from: translate(locale, `level.${c.level}`),
+          to: translate(locale, `level.${toLevel}`),
+          score: changed.riskScore.toFixed(1)
+        }) + (flipsPrediction
+          ? translate(locale, changed.prediction === 1 ? 'explain.flipsToRisk' : 'explain.flipsToLow')
+          : '.')
+      });
+    });
+  });
+  counterfactuals.sort((a, b) =>
+    Number(b.flipsPrediction) - Number(a.flipsPrediction) ||
+    Math.abs(b.riskScore - result.riskScore) - Math.abs(a.riskScore - result.riskScore)
+  );
+
+  return {
+    profileId: profile.id,
+    riskScore: result.riskScore,
+    prediction: result.prediction,
+    contributions,
+    topDrivers,
+    counterfactuals
+  };
+}
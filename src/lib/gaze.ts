@@ -0,0 +1,349 @@
+import { ImportTable, normalizeHeader, readTable } from './importer';
+import { referencePixelsPerDegree, ScoringProfile } from './scoring';
+
+// One raw sample from an eye tracker. `t` is in milliseconds and `x`/`y` in
+// screen pixels; invalid samples (blinks, track loss) keep their timestamp
+// so gaps can be detected.
+export interface GazeSample {
+  t: number;
+  x: number;
+  y: number;
+  valid: boolean;
+}
+
+export interface GazeRecording {
+  fileName: string;
+  format: string;
+  samples: GazeSample[];
+  // Median interval between samples, in milliseconds.
+  sampleIntervalMs: number;
+}
+
+export type DetectionAlgorithm = 'ivt' | 'idt';
+
+export interface DetectionSettings {
+  algorithm: DetectionAlgorithm;
+  // Converts pixels to degrees of visual angle; depends on screen size and
+  // viewing distance (about 35 px/° for a 24" 1080p screen at 65 cm).
+  pixelsPerDegree: number;
+  // I-VT: samples slower than this (°/s) belong to a fixation.
+  velocityThreshold: number;
+  // I-DT: maximum (x range + y range) of a fixation window, in degrees.
+  dispersionThreshold: number;
+  // Shorter fixations are discarded as noise.
+  minFixationDuration: number;
+  // Invalid gaps longer than this (ms) end the current fixation.
+  maxGapDuration: number;
+}
+
+export const defaultDetectionSettings: DetectionSettings = {
+  algorithm: 'ivt',
+  pixelsPerDegree: 35,
+  velocityThreshold: 30,
+  dispersionThreshold: 1,
+  minFixationDuration: 60,
+  maxGapDuration: 75
+};
+
+export interface Fixation {
+  start: number;
+  end: number;
+  duration: number;
+  // Centroid of the fixation's samples.
+  x: number;
+  y: number;
+}
+
+export interface Saccade {
+  from: Fixation;
+  to: Fixation;
+  // Distance between the two fixation centroids, in degrees of visual angle.
+  amplitude: number;
+  regression: boolean;
+  // A leftward jump to another line, back to the start of the next one.
+  returnSweep: boolean;
+  // Tracking was lost between the two fixations (an invalid sample or a
+  // missing stretch of samples), so the movement was not actually seen.
+  acrossGap: boolean;
+}
+
+export interface GazeMetrics {
+  fixationCount: number;
+  meanFixationDuration: number | null;
+  medianFixationDuration: number | null;
+  // In degrees of visual angle, over saccades within a line that were tracked
+  // throughout; see toScoredSaccadeLength.
+  meanSaccadeLength: number | null;
+  // Share of saccades that move backwards along the line, 0–1.
+  regressionRate: number | null;
+  fixationsPerSecond: number | null;
+  // Share of samples that were invalid, 0–1.
+  trackingLoss: number;
+  durationMs: number;
+}
+
+// Saccade-length cut-offs are in pixels of the display the profile names.
+// Recordings are converted through degrees, so the same reading scores the
+// same whatever screen it was recorded on.
+export const toScoredSaccadeLength = (degrees: number, profile: ScoringProfile) =>
+  Math.round(degrees * referencePixelsPerDegree(profile));
+
+export interface GazeAnalysis {
+  fixations: Fixation[];
+  saccades: Saccade[];
+  metrics: GazeMetrics;
+}
+
+// Normalized header spellings for generic CSV exports and the column names
+// used by Tobii Pro Lab / Studio and Gazepoint Analysis.
+const timeAliases = ['timestamp', 'time', 't', 'recording timestamp', 'eyetracker timestamp', 'time ms', 'system time stamp'];
+const xAliases = ['x', 'gaze x', 'gaze point x', 'gazepointx', 'fpogx', 'bpogx', 'gaze point x mcsnorm'];
+const yAliases = ['y', 'gaze y', 'gaze point y', 'gazepointy', 'fpogy', 'bpogy', 'gaze point y mcsnorm'];
+// 1 (or "valid"/"true") means valid.
+const validFlagAliases = ['valid', 'validity', 'fpogv', 'bpogv'];
+// Tobii validity codes: 0 (certain) to 4 (lost); 0–1 are usable.
+const validityCodeAliases = ['validity left', 'validity right'];
+
+const findColumn = (headers: string[], aliases: string[]) => {
+  const index = headers.map(normalizeHeader).findIndex(h => aliases.includes(h));
+  return index >= 0 ? index : null;
+};
+
+// Blank cells are NaN rather than 0; a decimal comma is accepted.
+const parseNumber = (raw: string | undefined) => {
+  const text = (raw ?? '').trim();
+  return text === '' ? NaN : Number(text.replace(/^(-?\d+),(\d+)$/, '$1.$2'));
+};
+
+export const median = (values: number[]) => {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export const medianInterval = (samples: GazeSample[]) =>
+  median(samples.slice(1).map((s, i) => s.t - samples[i].t).filter(dt => dt > 0));
+
+// Timestamps arrive in seconds, milliseconds or microseconds depending on the
+// tracker; trackers sample at 30–2000 Hz, so the typical interval tells
+// which. Times are rebased to start at zero.
+const toMilliseconds = (samples: GazeSample[]) => {
+  const interval = medianInterval(samples);
+  const factor = interval < 0.1 ? 1000 : interval > 100 ? 0.001 : 1;
+  const origin = samples[0]?.t ?? 0;
+  return samples.map(s => ({ ...s, t: (s.t - origin) * factor }));
+};
+
+export interface ScreenSize {
+  width: number;
+  height: number;
+}
+
+// Gazepoint and Tobii "MCSnorm" columns give coordinates as fractions of the
+// screen.
+const toPixels = (samples: GazeSample[], screen: ScreenSize) => {
+  const valid = samples.filter(s => s.valid);
+  const normalized = valid.length > 0 && valid.every(s => Math.abs(s.x) <= 1.5 && Math.abs(s.y) <= 1.5);
+  return normalized ? samples.map(s => ({ ...s, x: s.x * screen.width, y: s.y * screen.height })) : samples;
+};
+
+export function parseGazeTable(table: ImportTable, screen: ScreenSize): GazeRecording {
+  const time = findColumn(table.headers, timeAliases);
+  const x = findColumn(table.headers, xAliases);
+  const y = findColumn(table.headers, yAliases);
+  if (time === null || x === null || y === null) {
+    throw new Error('Gaze file needs timestamp, x and y columns');
+  }
+  const validFlag = findColumn(table.headers, validFlagAliases);
+  const validityCode = findColumn(table.headers, validityCodeAliases);
+
+  const samples: GazeSample[] = [];
+  table.rows.forEach(row => {
+    const t = parseNumber(row[time]);
+    // Event-only rows (e.g. Tobii stimulus markers) have no timestamp or gaze.
+    if (!Number.isFinite(t)) return;
+    const gx = parseNumber(row[x]);
+    const gy = parseNumber(row[y]);
+    let valid = Number.isFinite(gx) && Number.isFinite(gy);
+    if (valid && validFlag !== null) {
+      valid = ['1', 'true', 'valid'].includes((row[validFlag] ?? '').trim().toLowerCase());
+    } else if (valid && validityCode !== null) {
+      valid = parseNumber(row[validityCode]) <= 1;
+    }
+    samples.push({ t, x: valid ? gx : NaN, y: valid ? gy : NaN, valid });
+  });
+
+  const recognised = normalizeHeader(table.headers[x]);
+  const format = recognised.startsWith('fpog') || recognised.startsWith('bpog')
+    ? 'Gazepoint'
+    : recognised.startsWith('gaze point') ? 'Tobii' : 'CSV';
+  return finishRecording(table.fileName, format, samples, screen);
+}
+
+// SR Research EyeLink ASCII (.asc, from edf2asc): sample lines start with a
+// timestamp followed by x, y and pupil size; "." marks missing data.
+// Message and event lines start with a keyword and are skipped.
+export function parseEyeLinkAsc(fileName: string, text: string, screen: ScreenSize): GazeRecording {
+  const samples: GazeSample[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    if (!/^\d/.test(line)) return;
+    const [t, x, y] = line.trim().split(/\s+/);
+    const gx = parseNumber(x);
+    const gy = parseNumber(y);
+    const valid = Number.isFinite(gx) && Number.isFinite(gy);
+    samples.push({ t: parseNumber(t), x: gx, y: gy, valid });
+  });
+  return finishRecording(fileName, 'EyeLink ASC', samples, screen);
+}
+
+const finishRecording = (fileName: string, format: string, raw: GazeSample[], screen: ScreenSize): GazeRecording => {
+  if (raw.filter(s => s.valid).length < 2) {
+    throw new Error('Gaze file contains fewer than two valid samples');
+  }
+  const samples = toPixels(toMilliseconds([...raw].sort((a, b) => a.t - b.t)), screen);
+  return { fileName, format, samples, sampleIntervalMs: medianInterval(samples) };
+};
+
+export async function readGazeFile(file: File, screen: ScreenSize): Promise<GazeRecording> {
+  if (/\.asc$/i.test(file.name)) {
+    return parseEyeLinkAsc(file.name, await file.text(), screen);
+  }
+  return parseGazeTable(await readTable(file), screen);
+}
+
+const toFixation = (window: GazeSample[]): Fixation => {
+  const start = window[0].t;
+  const end = window[window.length - 1].t;
+  return {
+    start,
+    end,
+    duration: end - start,
+    x: window.reduce((sum, s) => sum + s.x, 0) / window.length,
+    y: window.reduce((sum, s) => sum + s.y, 0) / window.length
+  };
+};
+
+// Velocity-threshold identification (Salvucci & Goldberg, 2000): consecutive
+// below-threshold samples form a fixation.
+export function detectFixationsIVT(samples: GazeSample[], settings: DetectionSettings): Fixation[] {
+  const threshold = settings.velocityThreshold * settings.pixelsPerDegree / 1000;
+  const fixations: Fixation[] = [];
+  let current: GazeSample[] = [];
+  let previous: GazeSample | null = null;
+
+  const close = () => {
+    if (current.length > 1) fixations.push(toFixation(current));
+    current = [];
+  };
+
+  samples.forEach(sample => {
+    if (!sample.valid) return;
+    if (previous) {
+      const dt = sample.t - previous.t;
+      const speed = Math.hypot(sample.x - previous.x, sample.y - previous.y) / Math.max(dt, 1e-6);
+      if (dt > settings.maxGapDuration || speed > threshold) close();
+    }
+    current.push(sample);
+    previous = sample;
+  });
+  close();
+  return fixations.filter(f => f.duration >= settings.minFixationDuration);
+}
+
+const dispersion = (window: GazeSample[]) => {
+  const xs = window.map(s => s.x);
+  const ys = window.map(s => s.y);
+  return Math.max(...xs) - Math.min(...xs) + Math.max(...ys) - Math.min(...ys);
+};
+
+// Dispersion-threshold identification: a window spanning the minimum
+// duration whose spread is under the threshold is grown until it is not.
+export function detectFixationsIDT(samples: GazeSample[], settings: DetectionSettings): Fixation[] {
+  const threshold = settings.dispersionThreshold * settings.pixelsPerDegree;
+  const fixations: Fixation[] = [];
+  // Split at long gaps so a window never spans a blink.
+  const segments: GazeSample[][] = [[]];
+  samples.filter(s => s.valid).forEach((sample, i, valid) => {
+    if (i > 0 && sample.t - valid[i - 1].t > settings.maxGapDuration) segments.push([]);
+    segments[segments.length - 1].push(sample);
+  });
+
+  segments.forEach(segment => {
+    let start = 0;
+    while (start < segment.length) {
+      let end = start;
+      while (end < segment.length && segment[end].t - segment[start].t < settings.minFixationDuration) end++;
+      if (end >= segment.length) break;
+      if (dispersion(segment.slice(start, end + 1)) > threshold) {
+        start++;
+        continue;
+      }
+      while (end + 1 < segment.length && dispersion(segment.slice(start, end + 2)) <= threshold) end++;
+      fixations.push(toFixation(segment.slice(start, end + 1)));
+      start = end + 1;
+    }
+  });
+  return fixations;
+}
+
+// A regression is a leftward saccade that stays on the same line (within
+// about a degree vertically); larger leftward-and-down jumps are return
+// sweeps to the next line.
+const isRegression = (from: Fixation, to: Fixation, settings: DetectionSettings) =>
+  to.x < from.x && Math.abs(to.y - from.y) <= settings.pixelsPerDegree;
+
+const isReturnSweep = (from: Fixation, to: Fixation, settings: DetectionSettings) =>
+  to.x < from.x && Math.abs(to.y - from.y) > settings.pixelsPerDegree;
+
+export function analyzeGaze(recording: GazeRecording, settings: DetectionSettings): GazeAnalysis {
+  const fixations = settings.algorithm === 'ivt'
+    ? detectFixationsIVT(recording.samples, settings)
+    : detectFixationsIDT(recording.samples, settings);
+
+  const samples = recording.samples;
+  // Steps up to half again the typical interval are timing jitter; anything
+  // longer means samples were dropped.
+  const maxStep = medianInterval(samples) * 1.5;
+  // Fixations are in time order, so one pass over the samples finds what lies
+  // between each pair.
+  let cursor = 0;
+  const saccades: Saccade[] = fixations.slice(1).map((to, i) => {
+    const from = fixations[i];
+    while (cursor < samples.length && samples[cursor].t < from.end) cursor++;
+    let acrossGap = false;
+    for (let k = cursor; k < samples.length && samples[k].t <= to.start; k++) {
+      if (!samples[k].valid || (k > cursor && samples[k].t - samples[k - 1].t > maxStep)) acrossGap = true;
+    }
+    return {
+      from,
+      to,
+      amplitude: Math.hypot(to.x - from.x, to.y - from.y) / settings.pixelsPerDegree,
+      regression: isRegression(from, to, settings),
+      returnSweep: isReturnSweep(from, to, settings),
+      acrossGap
+    };
+  });
+  // Return sweeps and jumps over blinks are many times a reading saccade and
+  // would swamp the mean on a multi-line passage.
+  const readingSaccades = saccades.filter(s => !s.returnSweep && !s.acrossGap);
+
+  const durationMs = samples.length > 0 ? samples[samples.length - 1].t - samples[0].t : 0;
+  const durations = fixations.map(f => f.duration);
+  const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+
+  return {
+    fixations,
+    saccades,
+    metrics: {
+      fixationCount: fixations.length,
+      meanFixationDuration: mean(durations),
+      medianFixationDuration: durations.length > 0 ? median(durations) : null,
+      meanSaccadeLength: mean(readingSaccades.map(s => s.amplitude)),
+      regressionRate: saccades.length > 0 ? saccades.filter(s => s.regression).length / saccades.length : null,
+      fixationsPerSecond: durationMs > 0 ? fixations.length / (durationMs / 1000) : null,
+      trackingLoss: samples.filter(s => !s.valid).length / Math.max(samples.length, 1),
+      durationMs
+    }
+  };
+}
@@ -0,0 +1,57 @@
+import { FormDataType } from '../types';
+import en, { messages as referenceMessages } from '../locales/en';
+import es from '../locales/es';
+import fi from '../locales/fi';
+
+export type MessageKey = keyof typeof referenceMessages;
+
+// A language's built-in scoring norms, turned into a ScoringProfile with
+// `language` set to the locale code. Values are [low, high, weight] cut-offs
+// as in FeatureRule.
+export interface LocaleNorm {
+  id: string;
+  name: string;
+  description: string;
+  gradeBand?: string;
+  values: Record<keyof FormDataType, [low: number, high: number, weight: number]>;
+}
+
+export interface Locale {
+  // BCP 47 language code, also used for <html lang> and speech synthesis.
+  code: string;
+  // The language's own name for itself.
+  name: string;
+  messages: Record<MessageKey, string>;
+  norms: LocaleNorm[];
+  // Translations of the default intervention library, by intervention and
+  // rule id; entries the user has edited are left alone.
+  interventions?: Record<string, { name: string; description: string }>;
+  rules?: Record<string, string>;
+}
+
+export type MessageParams = Record<string, string | number>;
+
+export const locales: Locale[] = [en, es, fi];
+
+export const defaultLocale = en;
+
+export const findLocale = (code: string | null | undefined) =>
+  locales.find(locale => locale.code === code) ?? null;
+
+// The first of the browser's preferred languages that has a locale.
+export function browserLocale(): Locale {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const tag of preferred) {
+    const locale = findLocale(tag.toLowerCase().split('-')[0]);
+    if (locale) return locale;
+  }
+  return defaultLocale;
+}
+
+// Fills `{name}` placeholders from `params`; unknown placeholders are kept.
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  const template = locale.messages[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder);
+}
@@ -0,0 +1,220 @@
+import { FormDataType, Measurements } from '../types';
+import { featureKeys } from './scoring';
+import { detectDelimiter, parseDelimited } from './csv';
+import { validateMeasurements } from './validation';
+import { defaultLocale, Locale, translate } from './i18n';
+
+export type ImportField = keyof FormDataType | 'studentId';
+
+// Column index in the source table for each field, or null when unmapped.
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export const importFields: ImportField[] = ['studentId', ...featureKeys];
+
+export const importFieldLabel = (field: ImportField, locale: Locale = defaultLocale) =>
+  translate(locale, field === 'studentId' ? 'import.studentId' : `feature.${field}`);
+
+// Normalized header spellings recognised for each field. `reading_speed`,
+// `Reading-Speed` and `Reading Speed (wpm)` all normalize to `reading speed`;
+// the camelCase field names used by the scoring API are accepted too.
+const fieldAliases: Record<ImportField, string[]> = {
+  studentId: ['student id', 'studentid', 'student', 'id', 'name', 'student name', 'pupil', 'pupil id'],
+  readingSpeed: ['reading speed', 'readingspeed', 'speed', 'wpm', 'words per minute', 'reading rate'],
+  fixationDuration: ['fixation duration', 'fixationduration', 'fixation', 'mean fixation duration', 'avg fixation duration'],
+  saccadeLength: ['saccade length', 'saccadelength', 'saccade', 'mean saccade length', 'avg saccade length'],
+  phonemeErrors: ['phoneme errors', 'phonemeerrors', 'phoneme', 'phonemic errors'],
+  spellingErrors: ['spelling errors', 'spellingerrors', 'spelling'],
+  comprehensionScore: ['comprehension score', 'comprehensionscore', 'comprehension']
+};
+
+// Labelled by the `importUnit.<id>` messages.
+export type UnitId = 'wpm' | 'wps' | 'ms' | 's' | 'percent' | 'fraction';
+
+export interface UnitOption {
+  id: UnitId;
+  // Multiplier converting the source unit into the unit FormDataType uses.
+  factor: number;
+}
+
+export const unitOptions: Partial<Record<keyof FormDataType, UnitOption[]>> = {
+  readingSpeed: [
+    { id: 'wpm', factor: 1 },
+    { id: 'wps', factor: 60 }
+  ],
+  fixationDuration: [
+    { id: 'ms', factor: 1 },
+    { id: 's', factor: 1000 }
+  ],
+  comprehensionScore: [
+    { id: 'percent', factor: 1 },
+    { id: 'fraction', factor: 100 }
+  ]
+};
+
+export type UnitSelection = Partial<Record<keyof FormDataType, string>>;
+
+export interface CellError {
+  field: ImportField;
+  message: string;
+}
+
+export interface ImportedRow {
+  // 1-based row number in the source file, counting the header row.
+  rowNumber: number;
+  studentId: string;
+  cells: Partial<Record<ImportField, string>>;
+  // Blank cells become null (not measured); null overall when any cell has an error.
+  data: Measurements | null;
+  errors: CellError[];
+  warnings: CellError[];
+}
+
+export interface ImportTable {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export const normalizeHeader = (header: string) =>
+  header
+    .toLowerCase()
+    .replace(/\(.*?\)|\[.*?\]/g, ' ')
+    .replace(/[_\-.\s]+/g, ' ')
+    .trim();
+
+export async function readTable(file: File): Promise<ImportTable> {
+  if (!/\.(xlsx|xls|ods)$/i.test(file.name)) {
+    return parseTable(file.name, await file.text());
+  }
+
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new Error('Workbook contains no sheets');
+  }
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, blankrows: false, defval: '' })
+    .map(row => row.map(cell => String(cell ?? '')));
+  return toImportTable(file.name, table);
+}
+
+// Delimited text that did not come from a File, e.g. a request body.
+export function parseTable(fileName: string, text: string): ImportTable {
+  return toImportTable(fileName, parseDelimited(text, /\.tsv$/i.test(fileName) ? '\t' : detectDelimiter(text)));
+}
+
+function toImportTable(fileName: string, table: string[][]): ImportTable {
+  if (table.length < 2) {
+    throw new Error('File must contain a header row and at least one data row');
+  }
+  return { fileName, headers: table[0].map(h => h.trim()), rows: table.slice(1) };
+}
+
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  importFields.forEach(field => {
+    const index = normalized.findIndex((h, i) => !used.has(i) && fieldAliases[field].includes(h));
+    mapping[field] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  });
+  return mapping;
+}
+
+export function missingMappings(mapping: ColumnMapping): ImportField[] {
+  return featureKeys.filter(field => mapping[field] === null);
+}
+
+// Accepts a decimal comma ("12,5") as written by European spreadsheet locales.
+const parseNumber = (raw: string) => Number(/^-?\d+,\d+$/.test(raw) ? raw.replace(',', '.') : raw);
+
+const columnValues = (table: ImportTable, index: number | null) =>
+  index === null
+    ? []
+    : table.rows.map(row => parseNumber((row[index] ?? '').trim())).filter(v => Number.isFinite(v));
+
+// Guesses source units from header hints first, then from the value range.
+export function detectUnits(table: ImportTable, mapping: ColumnMapping): UnitSelection {
+  const header = (field: keyof FormDataType) =>
+    mapping[field] === null ? '' : table.headers[mapping[field] as number].toLowerCase();
+  // NaN for an empty column so neither range check below fires.
+  const max = (field: keyof FormDataType) => {
+    const values = columnValues(table, mapping[field]);
+    return values.length > 0 ? Math.max(...values) : NaN;
+  };
+
+  const fixationHeader = header('fixationDuration');
+  const readingHeader = header('readingSpeed');
+  const comprehensionHeader = header('comprehensionScore');
+
+  return {
+    readingSpeed: /wps|per second|\/s\b/.test(readingHeader) ? 'wps' : 'wpm',
+    fixationDuration: /\bms\b|milli/.test(fixationHeader)
+      ? 'ms'
+      : /\(s\)|\bsec|seconds/.test(fixationHeader) || max('fixationDuration') < 10 ? 's' : 'ms',
+    comprehensionScore: comprehensionHeader.includes('%')
+      ? 'percent'
+      : max('comprehensionScore') <= 1 ? 'fraction' : 'percent'
+  };
+}
+
+const unitFactor = (field: keyof FormDataType, units: UnitSelection) =>
+  unitOptions[field]?.find(option => option.id === units[field])?.factor ?? 1;
+
+// Cell messages are in `locale`; the API and CLI keep the English default.
+export function mapRows(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  units: UnitSelection,
+  locale: Locale = defaultLocale
+): ImportedRow[] {
+  return table.rows.map((row, i) => {
+    const cells: Partial<Record<ImportField, string>> = {};
+    const errors: CellError[] = [];
+    const data = {} as Measurements;
+
+    importFields.forEach(field => {
+      const index = mapping[field];
+      cells[field] = index === null ? '' : (row[index] ?? '').trim();
+    });
+
+    featureKeys.forEach(field => {
+      const raw = cells[field] ?? '';
+      if (raw === '') {
+        data[field] = null;
+        return;
+      }
+      const value = parseNumber(raw);
+      if (!Number.isFinite(value)) {
+        errors.push({ field, message: translate(locale, 'import.notNumber', { feature: translate(locale, `feature.${field}`), value: raw }) });
+        data[field] = null;
+        return;
+      }
+      // Round away floating-point noise from unit conversion (0.55 * 100).
+      data[field] = Math.round(value * unitFactor(field, units) * 1000) / 1000;
+    });
+
+    // Range and required-field checks only apply to cells that parsed, so a
+    // bad number is not also reported as missing.
+    const warnings: CellError[] = [];
+    validateMeasurements(data, locale).issues
+      .filter(issue => !errors.some(error => error.field === issue.feature))
+      .forEach(issue => {
+        (issue.severity === 'error' ? errors : warnings).push({ field: issue.feature, message: issue.message });
+      });
+
+    return {
+      rowNumber: i + 2,
+      studentId: cells.studentId ?? '',
+      cells,
+      data: errors.length === 0 ? data : null,
+      errors,
+      warnings
+    };
+  });
+}
+
+// Each message already names its feature.
+export const describeErrors = (errors: CellError[]) => errors.map(error => error.message).join('; ');
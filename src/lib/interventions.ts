@@ -0,0 +1,603 @@
+import { AnalysisResult, Decision, FormDataType, Measurements, RiskLevel } from '../types';
+import { featureKeys, riskDetailKeys } from './scoring';
+import { Assessment } from './studentStore';
+
+export type InterventionCategory =
+  | 'assessment'
+  | 'phonological'
+  | 'decoding'
+  | 'fluency'
+  | 'spelling'
+  | 'comprehension'
+  | 'visual'
+  | 'accommodation'
+  | 'monitoring';
+
+export const categories: InterventionCategory[] = [
+  'assessment',
+  'phonological',
+  'decoding',
+  'fluency',
+  'spelling',
+  'comprehension',
+  'visual',
+  'accommodation',
+  'monitoring'
+];
+
+export type Intensity = 'low' | 'moderate' | 'high';
+
+export const intensities: Intensity[] = ['low', 'moderate', 'high'];
+
+// Graded from the kind of study behind an intervention, strongest first.
+export type EvidenceLevel = 'strong' | 'moderate' | 'emerging' | 'consensus';
+
+export const evidenceLevels: EvidenceLevel[] = ['strong', 'moderate', 'emerging', 'consensus'];
+
+// A measurable aim for the feature an intervention targets: reach
+// `targetLevel` (or better) within `weeks`.
+export interface GoalTemplate {
+  feature: keyof FormDataType;
+  targetLevel: 'Low' | 'Medium';
+  weeks: number;
+}
+
+export interface Intervention {
+  id: string;
+  name: string;
+  category: InterventionCategory;
+  description: string;
+  // Target age range in years, inclusive.
+  minAge: number;
+  maxAge: number;
+  intensity: Intensity;
+  evidence: EvidenceLevel;
+  goal: GoalTemplate | null;
+}
+
+export interface RiskCondition {
+  feature: keyof FormDataType;
+  levels: RiskLevel[];
+}
+
+// A rule fires when the decision is one of `decisions` (any, if empty) and
+// every condition holds, and adds its interventions at its priority.
+export interface InterventionRule {
+  id: string;
+  description: string;
+  decisions: Decision[];
+  conditions: RiskCondition[];
+  interventions: string[];
+  // 0–100; the highest priority among the rules that selected an
+  // intervention orders the plan.
+  priority: number;
+}
+
+export interface InterventionLibrary {
+  interventions: Intervention[];
+  rules: InterventionRule[];
+}
+
+export const defaultInterventionLibrary: InterventionLibrary = {
+  interventions: [
+    {
+      id: 'diagnostic-assessment',
+      name: 'Comprehensive diagnostic assessment',
+      category: 'assessment',
+      description: 'Refer to an educational psychologist or specialist teacher for a full assessment of reading, spelling, phonological processing and cognitive profile.',
+      minAge: 5,
+      maxAge: 18,
+      intensity: 'low',
+      evidence: 'consensus',
+      goal: null
+    },
+    {
+      id: 'rescreen',
+      name: 'Re-screen in 8–12 weeks',
+      category: 'monitoring',
+      description: 'Repeat the screening after a period of ordinary classroom teaching, preferably with every measurement taken, before deciding on further support.',
+      minAge: 5,
+      maxAge: 18,
+      intensity: 'low',
+      evidence: 'consensus',
+      goal: null
+    },
+    {
+      id: 'annual-monitoring',
+      name: 'Routine classroom monitoring',
+      category: 'monitoring',
+      description: 'No targeted support needed now; keep an eye on progress and re-screen at the next routine check.',
+      minAge: 5,
+      maxAge: 18,
+      intensity: 'low',
+      evidence: 'consensus',
+      goal: null
+    },
+    {
+      id: 'phonological-awareness',
+      name: 'Explicit phonological awareness training',
+      category: 'phonological',
+      description: 'Short, frequent sessions on segmenting, blending and manipulating phonemes, linked to letters as soon as possible.',
+      minAge: 4,
+      maxAge: 9,
+      intensity: 'moderate',
+      evidence: 'strong',
+      goal: { feature: 'phonemeErrors', targetLevel: 'Low', weeks: 12 }
+    },
+    {
+      id: 'systematic-phonics',
+      name: 'Systematic phonics programme',
+      category: 'decoding',
+      description: 'Daily, sequenced teaching of grapheme–phoneme correspondences with decodable text for practice.',
+      minAge: 5,
+      maxAge: 11,
+      intensity: 'high',
+      evidence: 'strong',
+      goal: { feature: 'readingSpeed', targetLevel: 'Medium', weeks: 16 }
+    },
+    {
+      id: 'structured-literacy',
+      name: 'Structured literacy small-group intervention',
+      category: 'decoding',
+      description: 'Multisensory, cumulative teaching of phonology, orthography and morphology in a small group with a trained teacher.',
+      minAge: 6,
+      maxAge: 16,
+      intensity: 'high',
+      evidence: 'moderate',
+      goal: { feature: 'spellingErrors', targetLevel: 'Medium', weeks: 20 }
+    },
+    {
+      id: 'repeated-reading',
+      name: 'Repeated reading with feedback',
+      category: 'fluency',
+      description: 'The student rereads short passages at an instructional level, with modelling and error correction, until a fluency target is met.',
+      minAge: 6,
+      maxAge: 16,
+      intensity: 'moderate',
+      evidence: 'strong',
+      goal: { feature: 'readingSpeed', targetLevel: 'Low', weeks: 12 }
+    },
+    {
+      id: 'assisted-reading',
+      name: 'Paired or assisted reading',
+      category: 'fluency',
+      description: 'Reading aloud together with a fluent partner who drops out as the student gains confidence.',
+      minAge: 6,
+      maxAge: 14,
+      intensity: 'low',
+      evidence: 'moderate',
+      goal: null
+    },
+    {
+      id: 'spelling-instruction',
+      name: 'Explicit spelling instruction',
+      category: 'spelling',
+      description: 'Teaching spelling patterns and rules directly, with cumulative review and dictation practice.',
+      minAge: 7,
+      maxAge: 16,
+      intensity: 'moderate',
+      evidence: 'moderate',
+      goal: { feature: 'spellingErrors', targetLevel: 'Low', weeks: 16 }
+    },
+    {
+      id: 'morphology',
+      name: 'Morphological awareness instruction',
+      category: 'spelling',
+      description: 'Working with prefixes, suffixes and roots to support spelling and decoding of longer words.',
+      minAge: 8,
+      maxAge: 16,
+      intensity: 'low',
+      evidence: 'moderate',
+      goal: null
+    },
+    {
+      id: 'comprehension-strategies',
+      name: 'Reading comprehension strategy instruction',
+      category: 'comprehension',
+      description: 'Explicit teaching of predicting, questioning, clarifying and summarising, for example through reciprocal teaching.',
+      minAge: 8,
+      maxAge: 18,
+      intensity: 'moderate',
+      evidence: 'strong',
+      goal: { feature: 'comprehensionScore', targetLevel: 'Low', weeks: 12 }
+    },
+    {
+      id: 'text-accommodations',
+      name: 'Text accommodations',
+      category: 'accommodation',
+      description: 'Larger font, wider letter and line spacing, shorter lines and access to audiobooks or text-to-speech.',
+      minAge: 6,
+      maxAge: 18,
+      intensity: 'low',
+      evidence: 'emerging',
+      goal: null
+    },
+    {
+      id: 'vision-check',
+      name: 'Eye examination',
+      category: 'assessment',
+      description: 'Rule out uncorrected refractive error or binocular vision problems before attributing unusual eye movements to reading difficulty.',
+      minAge: 5,
+      maxAge: 18,
+      intensity: 'low',
+      evidence: 'consensus',
+      goal: null
+    },
+    {
+      id: 'reading-guide',
+      name: 'Line guide or reading window',
+      category: 'visual',
+      description: 'A ruler, reading window or on-screen line focus to help the student keep their place along the line.',
+      minAge: 6,
+      maxAge: 12,
+      intensity: 'low',
+      evidence: 'emerging',
+      goal: { feature: 'fixationDuration', targetLevel: 'Medium', weeks: 8 }
+    }
+  ],
+  rules: [
+    {
+      id: 'risk-referral',
+      description: 'The screening indicates dyslexia risk',
+      decisions: ['risk'],
+      conditions: [],
+      interventions: ['diagnostic-assessment'],
+      priority: 100
+    },
+    {
+      id: 'indeterminate-rescreen',
+      description: 'The result is indeterminate',
+      decisions: ['indeterminate'],
+      conditions: [],
+      interventions: ['rescreen'],
+      priority: 90
+    },
+    {
+      id: 'low-risk-monitoring',
+      description: 'The screening indicates low risk',
+      decisions: ['low'],
+      conditions: [],
+      interventions: ['annual-monitoring'],
+      priority: 10
+    },
+    {
+      id: 'phoneme-high',
+      description: 'Phoneme errors are high',
+      decisions: [],
+      conditions: [{ feature: 'phonemeErrors', levels: ['High'] }],
+      interventions: ['phonological-awareness', 'systematic-phonics'],
+      priority: 80
+    },
+    {
+      id: 'phoneme-medium',
+      description: 'Phoneme errors are raised',
+      decisions: [],
+      conditions: [{ feature: 'phonemeErrors', levels: ['Medium'] }],
+      interventions: ['phonological-awareness'],
+      priority: 50
+    },
+    {
+      id: 'phonological-core',
+      description: 'Phoneme and spelling errors are both raised, pointing to a core decoding difficulty',
+      decisions: [],
+      conditions: [
+        { feature: 'phonemeErrors', levels: ['High'] },
+        { feature: 'spellingErrors', levels: ['High', 'Medium'] }
+      ],
+      interventions: ['structured-literacy'],
+      priority: 85
+    },
+    {
+      id: 'spelling',
+      description: 'Spelling errors are raised',
+      decisions: [],
+      conditions: [{ feature: 'spellingErrors', levels: ['High', 'Medium'] }],
+      interventions: ['spelling-instruction', 'morphology'],
+      priority: 60
+    },
+    {
+      id: 'fluency',
+      description: 'Reading speed is slow',
+      decisions: [],
+      conditions: [{ feature: 'readingSpeed', levels: ['High', 'Medium'] }],
+      interventions: ['repeated-reading', 'assisted-reading'],
+      priority: 60
+    },
+    {
+      id: 'fluency-without-decoding',
+      description: 'Reading is slow although phoneme skills are secure, so fluency is the main target',
+      decisions: [],
+      conditions: [
+        { feature: 'readingSpeed', levels: ['High'] },
+        { feature: 'phonemeErrors', levels: ['Low'] }
+      ],
+      interventions: ['repeated-reading'],
+      priority: 75
+    },
+    {
+      id: 'comprehension',
+      description: 'Comprehension is weak',
+      decisions: [],
+      conditions: [{ feature: 'comprehensionScore', levels: ['High', 'Medium'] }],
+      interventions: ['comprehension-strategies'],
+      priority: 55
+    },
+    {
+      id: 'comprehension-with-slow-reading',
+      description: 'Weak comprehension alongside slow reading suggests decoding load is limiting understanding',
+      decisions: [],
+      conditions: [
+        { feature: 'comprehensionScore', levels: ['High', 'Medium'] },
+        { feature: 'readingSpeed', levels: ['High'] }
+      ],
+      interventions: ['text-accommodations', 'assisted-reading'],
+      priority: 65
+    },
+    {
+      id: 'fixation-high',
+      description: 'Fixations are long',
+      decisions: [],
+      conditions: [{ feature: 'fixationDuration', levels: ['High'] }],
+      interventions: ['vision-check', 'text-accommodations'],
+      priority: 40
+    },
+    {
+      id: 'saccade-high',
+      description: 'Saccades are unusually short',
+      decisions: [],
+      conditions: [{ feature: 'saccadeLength', levels: ['High'] }],
+      interventions: ['vision-check', 'text-accommodations'],
+      priority: 40
+    },
+    {
+      id: 'eye-movement-only',
+      description: 'Eye movements are atypical while phoneme skills are secure',
+      decisions: [],
+      conditions: [
+        { feature: 'fixationDuration', levels: ['High'] },
+        { feature: 'phonemeErrors', levels: ['Low'] }
+      ],
+      interventions: ['reading-guide'],
+      priority: 35
+    }
+  ]
+};
+
+export interface LibraryTranslations {
+  interventions?: Record<string, { name: string; description: string }>;
+  rules?: Record<string, string>;
+}
+
+// Swaps in translated text for entries that still read exactly as in the
+// default library, so a user's own wording is never overwritten.
+export function localizeLibrary(library: InterventionLibrary, translations: LibraryTranslations): InterventionLibrary {
+  const original = (id: string) => defaultInterventionLibrary.interventions.find(item => item.id === id);
+  const originalRule = (id: string) => defaultInterventionLibrary.rules.find(rule => rule.id === id);
+  return {
+    interventions: library.interventions.map(item => {
+      const source = original(item.id);
+      const translated = translations.interventions?.[item.id];
+      if (!source || !translated) return item;
+      return {
+        ...item,
+        name: item.name === source.name ? translated.name : item.name,
+        description: item.description === source.description ? translated.description : item.description
+      };
+    }),
+    rules: library.rules.map(rule => {
+      const translated = translations.rules?.[rule.id];
+      return translated && rule.description === originalRule(rule.id)?.description
+        ? { ...rule, description: translated }
+        : rule;
+    })
+  };
+}
+
+const riskLevels: RiskLevel[] = ['Low', 'Medium', 'High', 'Missing'];
+const decisions: Decision[] = ['risk', 'indeterminate', 'low'];
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Checks untrusted JSON (an imported file or localStorage) against the
+// library schema and throws with every problem found.
+export function validateInterventionLibrary(input: unknown): InterventionLibrary {
+  const errors: string[] = [];
+  const library = input as Partial<InterventionLibrary> | null;
+  if (!library || typeof library !== 'object') {
+    throw new Error('Intervention library must be a JSON object');
+  }
+
+  const ids = new Set<string>();
+  if (!Array.isArray(library.interventions)) {
+    errors.push('"interventions" must be an array');
+  } else {
+    library.interventions.forEach((item: Partial<Intervention>, i) => {
+      const label = `interventions[${i}]`;
+      if (!item || typeof item.id !== 'string' || item.id.trim() === '') {
+        errors.push(`${label}: "id" must be a non-empty string`);
+        return;
+      }
+      if (ids.has(item.id)) errors.push(`${label}: duplicate id "${item.id}"`);
+      ids.add(item.id);
+      if (typeof item.name !== 'string' || item.name.trim() === '') errors.push(`${label}: "name" must be a non-empty string`);
+      if (!categories.includes(item.category as InterventionCategory)) errors.push(`${label}: unknown category "${item.category}"`);
+      if (!intensities.includes(item.intensity as Intensity)) errors.push(`${label}: unknown intensity "${item.intensity}"`);
+      if (!evidenceLevels.includes(item.evidence as EvidenceLevel)) errors.push(`${label}: unknown evidence level "${item.evidence}"`);
+      if (!isFiniteNumber(item.minAge) || !isFiniteNumber(item.maxAge) || item.minAge > item.maxAge) {
+        errors.push(`${label}: minAge and maxAge must be numbers with minAge ≤ maxAge`);
+      }
+      if (item.goal) {
+        if (!featureKeys.includes(item.goal.feature)) errors.push(`${label}: goal has unknown feature "${item.goal.feature}"`);
+        if (item.goal.targetLevel !== 'Low' && item.goal.targetLevel !== 'Medium') {
+          errors.push(`${label}: goal targetLevel must be "Low" or "Medium"`);
+        }
+        if (!isFiniteNumber(item.goal.weeks) || item.goal.weeks <= 0) errors.push(`${label}: goal weeks must be a positive number`);
+      }
+    });
+  }
+
+  if (!Array.isArray(library.rules)) {
+    errors.push('"rules" must be an array');
+  } else {
+    library.rules.forEach((rule: Partial<InterventionRule>, i) => {
+      const label = `rules[${i}]`;
+      if (!rule || typeof rule.id !== 'string' || rule.id.trim() === '') {
+        errors.push(`${label}: "id" must be a non-empty string`);
+        return;
+      }
+      if (!Array.isArray(rule.decisions) || rule.decisions.some(d => !decisions.includes(d))) {
+        errors.push(`${label}: "decisions" must list risk, indeterminate or low`);
+      }
+      if (!Array.isArray(rule.conditions) || rule.conditions.some(c =>
+        !c || !featureKeys.includes(c.feature) || !Array.isArray(c.levels) || c.levels.some(l => !riskLevels.includes(l)))) {
+        errors.push(`${label}: every condition needs a known feature and risk levels`);
+      }
+      if (!Array.isArray(rule.interventions) || rule.interventions.length === 0) {
+        errors.push(`${label}: "interventions" must be a non-empty array`);
+      } else {
+        rule.interventions.filter(id => !ids.has(id)).forEach(id => errors.push(`${label}: unknown intervention "${id}"`));
+      }
+      if (!isFiniteNumber(rule.priority) || rule.priority < 0 || rule.priority > 100) {
+        errors.push(`${label}: priority must be a number from 0 to 100`);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid intervention library: ${errors.join('; ')}`);
+  }
+  return library as InterventionLibrary;
+}
+
+export type PlanTier = 'immediate' | 'core' | 'supplementary';
+
+export const planTiers: PlanTier[] = ['immediate', 'core', 'supplementary'];
+
+const tierFor = (priority: number): PlanTier => (priority >= 80 ? 'immediate' : priority >= 50 ? 'core' : 'supplementary');
+
+export interface PlanItem {
+  intervention: Intervention;
+  priority: number;
+  tier: PlanTier;
+  // Descriptions of the rules that selected it.
+  reasons: string[];
+}
+
+export interface PlanGoal {
+  feature: keyof FormDataType;
+  baselineLevel: RiskLevel;
+  baselineValue: number | null;
+  targetLevel: 'Low' | 'Medium';
+  // ISO date by which the goal should be met.
+  reviewBy: string;
+  interventionId: string;
+}
+
+export interface InterventionPlan {
+  // ISO date the plan was made; only later assessments count towards goals.
+  createdAt: string;
+  age: number | null;
+  items: PlanItem[];
+  goals: PlanGoal[];
+  // Interventions a rule selected but outside the student's age range.
+  excludedForAge: string[];
+}
+
+const levelRank: Record<RiskLevel, number> = { Low: 0, Medium: 1, High: 2, Missing: 3 };
+const evidenceRank = (level: EvidenceLevel) => evidenceLevels.indexOf(level);
+
+const addWeeks = (date: string, weeks: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + Math.round(weeks * 7));
+  return next.toISOString().slice(0, 10);
+};
+
+// Typical age for a profile grade band such as "3-5": grade + 5 at the
+// band's midpoint.
+export function ageForGradeBand(gradeBand?: string): number | null {
+  const grades = gradeBand?.match(/\d+/g)?.map(Number);
+  if (!grades || grades.length === 0) return null;
+  return Math.round((grades[0] + grades[grades.length - 1]) / 2) + 5;
+}
+
+export function buildPlan(
+  data: Measurements,
+  result: AnalysisResult,
+  library: InterventionLibrary,
+  age: number | null,
+  createdAt: string
+): InterventionPlan {
+  const levelOf = (feature: keyof FormDataType) => result.details[riskDetailKeys[feature]];
+  const selected = new Map<string, { priority: number; reasons: string[] }>();
+
+  library.rules
+    .filter(rule => rule.decisions.length === 0 || rule.decisions.includes(result.decision))
+    .filter(rule => rule.conditions.every(condition => condition.levels.includes(levelOf(condition.feature))))
+    .forEach(rule => {
+      rule.interventions.forEach(id => {
+        const entry = selected.get(id) ?? { priority: 0, reasons: [] };
+        selected.set(id, { priority: Math.max(entry.priority, rule.priority), reasons: [...entry.reasons, rule.description] });
+      });
+    });
+
+  const excludedForAge: string[] = [];
+  const items: PlanItem[] = [];
+  selected.forEach(({ priority, reasons }, id) => {
+    const intervention = library.interventions.find(item => item.id === id);
+    if (!intervention) return;
+    if (age !== null && (age < intervention.minAge || age > intervention.maxAge)) {
+      excludedForAge.push(intervention.name);
+      return;
+    }
+    items.push({ intervention, priority, tier: tierFor(priority), reasons });
+  });
+  // Higher priority first; among equals, better evidence, then lighter intensity.
+  const intensityRank: Record<Intensity, number> = { low: 0, moderate: 1, high: 2 };
+  items.sort((a, b) =>
+    b.priority - a.priority
+    || evidenceRank(a.intervention.evidence) - evidenceRank(b.intervention.evidence)
+    || intensityRank[a.intervention.intensity] - intensityRank[b.intervention.intensity]);
+
+  // One goal per feature, from the highest-priority intervention that sets
+  // one, and only where the student is currently above the target.
+  const goals: PlanGoal[] = [];
+  items.forEach(({ intervention }) => {
+    const goal = intervention.goal;
+    if (!goal || goals.some(g => g.feature === goal.feature)) return;
+    const baselineLevel = levelOf(goal.feature);
+    if (baselineLevel === 'Missing' || levelRank[baselineLevel] <= levelRank[goal.targetLevel]) return;
+    goals.push({
+      feature: goal.feature,
+      baselineLevel,
+      baselineValue: data[goal.feature],
+      targetLevel: goal.targetLevel,
+      reviewBy: addWeeks(createdAt, goal.weeks),
+      interventionId: intervention.id
+    });
+  });
+
+  return { createdAt, age, items, goals, excludedForAge };
+}
+
+export type GoalStatus = 'met' | 'in-progress' | 'overdue' | 'not-assessed';
+
+export interface GoalProgress {
+  status: GoalStatus;
+  // Most recent later assessment that measured the feature.
+  latest: { date: string; level: RiskLevel; value: number | null } | null;
+}
+
+// Checks a goal against the assessments taken after its plan was made.
+export function goalProgress(goal: PlanGoal, plan: InterventionPlan, assessments: Assessment[], today: string): GoalProgress {
+  const later = assessments
+    .filter(a => a.date > plan.createdAt && a.result.details[riskDetailKeys[goal.feature]] !== 'Missing')
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const last = later[later.length - 1];
+  const latest = last
+    ? { date: last.date, level: last.result.details[riskDetailKeys[goal.feature]], value: last.data[goal.feature] }
+    : null;
+
+  if (latest && levelRank[latest.level] <= levelRank[goal.targetLevel]) return { status: 'met', latest };
+  if (today > goal.reviewBy) return { status: 'overdue', latest };
+  return { status: latest ? 'in-progress' : 'not-assessed', latest };
+}
@@ -0,0 +1,116 @@
+// Binary classification metrics over labels (0/1) and predicted
+// probabilities of the positive class.
+
+export interface ConfusionMatrix {
+  tp: number;
+  fp: number;
+  tn: number;
+  fn: number;
+}
+
+export interface ClassificationMetrics {
+  accuracy: number;
+  precision: number;
+  recall: number;
+  specificity: number;
+  f1: number;
+}
+
+export interface CurvePoint {
+  x: number;
+  y: number;
+  threshold: number;
+}
+
+export interface CalibrationBin {
+  meanPredicted: number;
+  observedRate: number;
+  count: number;
+}
+
+const safeDivide = (a: number, b: number) => (b > 0 ? a / b : 0);
+
+export function confusionMatrix(labels: number[], scores: number[], threshold = 0.5): ConfusionMatrix {
+  const cm = { tp: 0, fp: 0, tn: 0, fn: 0 };
+  labels.forEach((label, i) => {
+    const predicted = scores[i] >= threshold;
+    if (label === 1) {
+      if (predicted) cm.tp += 1;
+      else cm.fn += 1;
+    } else if (predicted) {
+      cm.fp += 1;
+    } else {
+      cm.tn += 1;
+    }
+  });
+  return cm;
+}
+
+export function classificationMetrics(cm: ConfusionMatrix): ClassificationMetrics {
+  const precision = safeDivide(cm.tp, cm.tp + cm.fp);
+  const recall = safeDivide(cm.tp, cm.tp + cm.fn);
+  return {
+    accuracy: safeDivide(cm.tp + cm.tn, cm.tp + cm.tn + cm.fp + cm.fn),
+    precision,
+    recall,
+    specificity: safeDivide(cm.tn, cm.tn + cm.fp),
+    f1: safeDivide(2 * precision * recall, precision + recall)
+  };
+}
+
+// Distinct scores in descending order; each is a candidate threshold.
+const thresholds = (scores: number[]) => [...new Set(scores)].sort((a, b) => b - a);
+
+// ROC points from (0,0) to (1,1), x = false positive rate, y = true positive
+// rate, with the area under the curve by the trapezoidal rule.
+export function rocCurve(labels: number[], scores: number[]): { points: CurvePoint[]; auc: number } {
+  const positives = labels.filter(l => l === 1).length;
+  const negatives = labels.length - positives;
+  const points: CurvePoint[] = [{ x: 0, y: 0, threshold: Infinity }];
+
+  thresholds(scores).forEach(threshold => {
+    const cm = confusionMatrix(labels, scores, threshold);
+    points.push({ x: safeDivide(cm.fp, negatives), y: safeDivide(cm.tp, positives), threshold });
+  });
+
+  let auc = 0;
+  for (let i = 1; i < points.length; i++) {
+    auc += (points[i].x - points[i - 1].x) * (points[i].y + points[i - 1].y) / 2;
+  }
+  return { points, auc };
+}
+
+// Precision-recall points, x = recall, y = precision, with average precision
+// (the step-wise area used by scikit-learn).
+export function prCurve(labels: number[], scores: number[]): { points: CurvePoint[]; averagePrecision: number } {
+  const points: CurvePoint[] = [];
+  let averagePrecision = 0;
+  let previousRecall = 0;
+
+  thresholds(scores).forEach(threshold => {
+    const { precision, recall } = classificationMetrics(confusionMatrix(labels, scores, threshold));
+    points.push({ x: recall, y: precision, threshold });
+    averagePrecision += (recall - previousRecall) * precision;
+    previousRecall = recall;
+  });
+  return { points, averagePrecision };
+}
+
+// Reliability diagram: predictions grouped into equal-width probability bins,
+// comparing the mean prediction with the observed positive rate in each.
+export function calibrationBins(labels: number[], scores: number[], binCount = 10): CalibrationBin[] {
+  const bins = Array.from({ length: binCount }, () => ({ sumPredicted: 0, positives: 0, count: 0 }));
+  scores.forEach((score, i) => {
+    const index = Math.min(binCount - 1, Math.floor(score * binCount));
+    bins[index].sumPredicted += score;
+    bins[index].positives += labels[i];
+    bins[index].count += 1;
+  });
+  return bins
+    .filter(bin => bin.count > 0)
+    .map(bin => ({
+      meanPredicted: bin.sumPredicted / bin.count,
+      observedRate: bin.positives / bin.count,
+      count: bin.count
+    }));
+}
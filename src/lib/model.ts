@@ -0,0 +1,160 @@
+import * as tf from '@tensorflow/tfjs';
+import { FormDataType, ModelPrediction } from '../types';
+
+// Column order used by src/train.py; exported artifacts list their features
+// in this naming so they can be mapped back onto FormDataType.
+export const modelFeatureNames: Record<string, keyof FormDataType> = {
+  reading_speed: 'readingSpeed',
+  fixation_duration: 'fixationDuration',
+  saccade_length: 'saccadeLength',
+  phoneme_errors: 'phonemeErrors',
+  spelling_errors: 'spellingErrors',
+  comprehension_score: 'comprehensionScore'
+};
+
+export const defaultModelUrl = `${import.meta.env.BASE_URL}models/dyslexia_model.json`;
+
+// One fitted decision tree in scikit-learn's array layout (`tree_` attribute).
+// Leaves have `childrenLeft[i] === -1`; `value[i]` holds per-class weights.
+interface TreeJSON {
+  childrenLeft: number[];
+  childrenRight: number[];
+  feature: number[];
+  threshold: number[];
+  value: number[][];
+}
+
+// Format written by `export_model_json` in src/train.py.
+interface TreeEnsembleJSON {
+  format: 'tree-ensemble';
+  features: string[];
+  classes: number[];
+  trees: TreeJSON[];
+}
+
+// Per-feature standardization applied before a tf.js model sees its input,
+// in the model's feature order.
+export interface Normalization {
+  mean: number[];
+  std: number[];
+}
+
+export interface PredictionModel {
+  kind: 'tree-ensemble' | 'tfjs';
+  // Shown next to the model's predictions.
+  name: string;
+  features: (keyof FormDataType)[];
+  predict: (data: FormDataType) => Promise<ModelPrediction>;
+}
+
+const toFeatureKeys = (names: string[]): (keyof FormDataType)[] =>
+  names.map(name => {
+    const key = modelFeatureNames[name];
+    if (!key) {
+      throw new Error(`Model uses unknown feature "${name}"`);
+    }
+    return key;
+  });
+
+const toPrediction = (probabilities: number[], classes: number[]): ModelPrediction => {
+  const positiveIndex = classes.indexOf(1);
+  const probability = positiveIndex >= 0 ? probabilities[positiveIndex] : 0;
+  return {
+    prediction: probability >= 0.5 ? 1 : 0,
+    probability,
+    probabilities
+  };
+};
+
+// Walks one tree to its leaf and returns that leaf's class distribution,
+// normalized the same way scikit-learn's predict_proba does.
+const evaluateTree = (tree: TreeJSON, x: number[]): number[] => {
+  let node = 0;
+  while (tree.childrenLeft[node] !== -1) {
+    node = x[tree.feature[node]] <= tree.threshold[node]
+      ? tree.childrenLeft[node]
+      : tree.childrenRight[node];
+  }
+  const counts = tree.value[node];
+  const total = counts.reduce((sum, c) => sum + c, 0);
+  return counts.map(c => (total > 0 ? c / total : 0));
+};
+
+export function createTreeEnsembleModel(json: TreeEnsembleJSON): PredictionModel {
+  if (!Array.isArray(json.trees) || json.trees.length === 0) {
+    throw new Error('Model contains no trees');
+  }
+  const features = toFeatureKeys(json.features);
+
+  return {
+    kind: 'tree-ensemble',
+    name: 'Random Forest',
+    features,
+    predict: async (data: FormDataType) => {
+      const x = features.map(key => data[key]);
+      const sums = new Array(json.classes.length).fill(0);
+      json.trees.forEach(tree => {
+        evaluateTree(tree, x).forEach((p, i) => {
+          sums[i] += p;
+        });
+      });
+      return toPrediction(sums.map(s => s / json.trees.length), json.classes);
+    }
+  };
+}
+
+// A tf.js layers or graph model exported with a single sigmoid or
+// two-class softmax output.
+export function createTfjsModel(
+  model: tf.LayersModel | tf.GraphModel,
+  featureNames: string[],
+  normalization?: Normalization,
+  name = 'tf.js model'
+): PredictionModel {
+  const features = toFeatureKeys(featureNames);
+  const scale = (value: number, i: number) =>
+    normalization ? (value - normalization.mean[i]) / normalization.std[i] : value;
+
+  return {
+    kind: 'tfjs',
+    name,
+    features,
+    predict: async (data: FormDataType) => {
+      const input = tf.tensor2d([features.map((key, i) => scale(data[key], i))]);
+      const output = model.predict(input) as tf.Tensor;
+      const values = Array.from(await output.data());
+      input.dispose();
+      output.dispose();
+      const probabilities = values.length === 1 ? [1 - values[0], values[0]] : values;
+      return toPrediction(probabilities, [0, 1]);
+    }
+  };
+}
+
+// Resolves to null when no artifact has been exported yet: the repository
+// does not ship one, so that is the normal state of a fresh install.
+export async function loadPredictionModel(url: string = defaultModelUrl): Promise<PredictionModel | null> {
+  const response = await fetch(url);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Model artifact not found (${response.status})`);
+  }
+  const json = await response.json();
+
+  if (json.format === 'tree-ensemble') {
+    return createTreeEnsembleModel(json as TreeEnsembleJSON);
+  }
+
+  const featureNames: string[] = json.userDefinedMetadata?.features ?? Object.keys(modelFeatureNames);
+  const normalization: Normalization | undefined = json.userDefinedMetadata?.normalization;
+  if (json.format === 'graph-model') {
+    return createTfjsModel(await tf.loadGraphModel(url), featureNames, normalization);
+  }
+  if (json.format === 'layers-model') {
+    return createTfjsModel(await tf.loadLayersModel(url), featureNames, normalization);
+  }
+
+  throw new Error(`Unsupported model format "${json.format}"`);
+}
@@ -0,0 +1,169 @@
+import { OperatingPoint, ScoringProfile, validateProfile } from './scoring';
+import { Calibration } from './calibration';
+import { defaultInterventionLibrary, InterventionLibrary, validateInterventionLibrary } from './interventions';
+import { AccessibilitySettings, normalizeAccessibilitySettings } from './accessibility';
+import type { VaultMeta } from './vault';
+import { downloadFile } from './download';
+
+const STORAGE_KEY = 'dyslexia.scoringProfiles';
+const ACTIVE_KEY = 'dyslexia.activeProfile';
+const CALIBRATIONS_KEY = 'dyslexia.calibrations';
+const OPERATING_POINTS_KEY = 'dyslexia.operatingPoints';
+const INTERVENTIONS_KEY = 'dyslexia.interventionLibrary';
+const ACCESSIBILITY_KEY = 'dyslexia.accessibility';
+const LANGUAGE_KEY = 'dyslexia.language';
+const VAULT_KEY = 'dyslexia.vault';
+const VAULT_RESET_KEY = 'dyslexia.vaultReset';
+
+// Custom profiles saved from the editor. Entries that no longer pass
+// validation are dropped rather than breaking the app on load.
+export function loadCustomProfiles(): ScoringProfile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap(entry => {
+      try {
+        return [validateProfile(entry)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomProfiles(profiles: ScoringProfile[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export function loadActiveProfileId(): string | null {
+  return localStorage.getItem(ACTIVE_KEY);
+}
+
+export function saveActiveProfileId(id: string) {
+  localStorage.setItem(ACTIVE_KEY, id);
+}
+
+// Both keyed by profile id, since scores are only comparable within a profile.
+const loadRecord = <T>(key: string): Record<string, T> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) ?? '{}');
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+export const loadCalibrations = () => loadRecord<Calibration>(CALIBRATIONS_KEY);
+
+export function saveCalibrations(calibrations: Record<string, Calibration>) {
+  localStorage.setItem(CALIBRATIONS_KEY, JSON.stringify(calibrations));
+}
+
+export const loadOperatingPoints = () => loadRecord<OperatingPoint>(OPERATING_POINTS_KEY);
+
+export function saveOperatingPoints(points: Record<string, OperatingPoint>) {
+  localStorage.setItem(OPERATING_POINTS_KEY, JSON.stringify(points));
+}
+
+export function exportProfile(profile: ScoringProfile) {
+  downloadFile(JSON.stringify(profile, null, 2), `${profile.id}.json`, 'application/json');
+}
+
+export async function importProfile(file: File): Promise<ScoringProfile> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error('Profile file is not valid JSON');
+  }
+  return validateProfile(json);
+}
+
+// The edited library, or the default one if none was saved or the saved one
+// no longer validates.
+export function loadInterventionLibrary(): InterventionLibrary {
+  try {
+    const stored = localStorage.getItem(INTERVENTIONS_KEY);
+    return stored ? validateInterventionLibrary(JSON.parse(stored)) : defaultInterventionLibrary;
+  } catch {
+    return defaultInterventionLibrary;
+  }
+}
+
+export function saveInterventionLibrary(library: InterventionLibrary) {
+  localStorage.setItem(INTERVENTIONS_KEY, JSON.stringify(library));
+}
+
+export function resetInterventionLibrary() {
+  localStorage.removeItem(INTERVENTIONS_KEY);
+}
+
+export function exportInterventionLibrary(library: InterventionLibrary) {
+  downloadFile(JSON.stringify(library, null, 2), 'intervention-library.json', 'application/json');
+}
+
+export async function importInterventionLibrary(file: File): Promise<InterventionLibrary> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error('Intervention library file is not valid JSON');
+  }
+  return validateInterventionLibrary(json);
+}
+
+export function loadAccessibilitySettings(): AccessibilitySettings {
+  try {
+    return normalizeAccessibilitySettings(JSON.parse(localStorage.getItem(ACCESSIBILITY_KEY) ?? '{}'));
+  } catch {
+    return normalizeAccessibilitySettings({});
+  }
+}
+
+export function saveAccessibilitySettings(settings: AccessibilitySettings) {
+  localStorage.setItem(ACCESSIBILITY_KEY, JSON.stringify(settings));
+}
+
+// The chosen UI language code, or null to follow the browser.
+export function loadLanguage(): string | null {
+  return localStorage.getItem(LANGUAGE_KEY);
+}
+
+export function saveLanguage(code: string) {
+  localStorage.setItem(LANGUAGE_KEY, code);
+}
+
+// Salt, iteration count and check value for the student data passphrase;
+// null until a passphrase has been set.
+export function loadVaultMeta(): VaultMeta | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(VAULT_KEY) ?? 'null');
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? (stored as VaultMeta) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveVaultMeta(meta: VaultMeta) {
+  localStorage.setItem(VAULT_KEY, JSON.stringify(meta));
+}
+
+export function clearVaultMeta() {
+  localStorage.removeItem(VAULT_KEY);
+}
+
+// When the vault was last reset, kept until the reset can be written to the
+// new audit log; null when there is nothing to record.
+export function loadVaultReset(): string | null {
+  return localStorage.getItem(VAULT_RESET_KEY);
+}
+
+export function saveVaultReset(at: string) {
+  localStorage.setItem(VAULT_RESET_KEY, at);
+}
+
+export function clearVaultReset() {
+  localStorage.removeItem(VAULT_RESET_KEY);
+}
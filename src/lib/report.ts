@@ -0,0 +1,176 @@
+import { jsPDF } from 'jspdf';
+import { AnalysisResult, Measurements, ModelPrediction } from '../types';
+import { featureKeys, riskDetailKeys } from './scoring';
+import { CalibratedProbability } from './calibration';
+import { InterventionPlan, planTiers } from './interventions';
+import { Locale, MessageKey, MessageParams, translate } from './i18n';
+
+export interface ChartImage {
+  title: string;
+  dataUrl: string;
+}
+
+export const describeCalibrated = (locale: Locale, { probability, lower, upper }: CalibratedProbability) =>
+  `${(probability * 100).toFixed(0)}% (${translate(locale, 'decisionPanel.interval', {
+    lower: (lower * 100).toFixed(0),
+    upper: `${(upper * 100).toFixed(0)}%`
+  })})`;
+
+export interface ReportData {
+  // Language the report is written in.
+  locale: Locale;
+  studentId: string;
+  date: string;
+  profileName: string;
+  measurements: Measurements;
+  result: AnalysisResult;
+  modelResult: ModelPrediction | null;
+  // Null when the scoring profile has not been calibrated.
+  calibrated: CalibratedProbability | null;
+  plan: InterventionPlan | null;
+  chartImages: ChartImage[];
+}
+
+export const riskRows = (report: ReportData) =>
+  featureKeys.map(feature => ({
+    feature,
+    label: translate(report.locale, `feature.${feature}`),
+    value: report.measurements[feature] ?? translate(report.locale, 'explain.notMeasured'),
+    risk: translate(report.locale, `level.${report.result.details[riskDetailKeys[feature]]}`)
+  }));
+
+export interface PlanSection {
+  title: string;
+  items: string[];
+}
+
+// The intervention plan as titled lists, one per tier plus the goals, for
+// the PDF and the print layout.
+export function planSections(plan: InterventionPlan | null, locale: Locale): PlanSection[] {
+  if (!plan) return [];
+  const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+  const sections = planTiers.map(tier => ({
+    title: t(`tier.${tier}`),
+    items: plan.items
+      .filter(item => item.tier === tier)
+      .map(({ intervention, reasons }) =>
+        `${intervention.name} — ${t('plan.evidence', { grade: t(`evidence.${intervention.evidence}`).charAt(0) })}, `
+        + `${t(`intensity.${intervention.intensity}`)}. ${intervention.description} ${t('plan.why', { reasons: reasons.join('; ') })}`)
+  }));
+  sections.push({
+    title: t('plan.goals'),
+    items: plan.goals.map(goal => t('plan.goal', {
+      feature: t(`feature.${goal.feature}`),
+      from: t(`level.${goal.baselineLevel}`),
+      to: t(`level.${goal.targetLevel}`),
+      date: goal.reviewBy
+    }))
+  });
+  return sections.filter(section => section.items.length > 0);
+}
+
+const MARGIN = 48;
+
+export function buildReportPDF(report: ReportData): jsPDF {
+  const t = (key: MessageKey, params?: MessageParams) => translate(report.locale, key, params);
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(28);
+    y += 8;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.text(text, MARGIN, y);
+    y += 18;
+  };
+
+  const paragraph = (text: string, size = 10) => {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(size);
+    const lines: string[] = doc.splitTextToSize(text, contentWidth);
+    lines.forEach(line => {
+      ensureSpace(size + 4);
+      doc.text(line, MARGIN, y);
+      y += size + 4;
+    });
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(t('report.heading'), MARGIN, y);
+  y += 24;
+  paragraph(`${t('report.student')}: ${report.studentId || t('report.notSpecified')}`, 11);
+  paragraph(`${t('report.date')}: ${report.date}`, 11);
+  paragraph(`${t('report.profile')}: ${report.profileName}`, 11);
+
+  heading(t('report.result'));
+  paragraph(t(`decision.${report.result.decision}`), 11);
+  paragraph(`${t('results.riskScore')}: ${report.result.riskScore.toFixed(1)} / 10`);
+  // The margin is not a probability, so a calibrated probability replaces it.
+  paragraph(report.calibrated
+    ? `${t('decisionPanel.calibrated')}: ${describeCalibrated(report.locale, report.calibrated)}`
+    : `${t('report.margin')}: ${report.result.confidence.toFixed(0)}%`);
+  if (report.modelResult) {
+    paragraph(`${t('report.modelProbability')}: ${(report.modelResult.probability * 100).toFixed(1)}%`);
+  }
+
+  heading(t('report.measurements'));
+  doc.setFontSize(10);
+  riskRows(report).forEach(row => {
+    ensureSpace(16);
+    doc.setFont('helvetica', 'normal');
+    doc.text(row.label, MARGIN, y);
+    doc.text(String(row.value), MARGIN + 200, y);
+    doc.setFont('helvetica', 'bold');
+    doc.text(row.risk, MARGIN + 300, y);
+    y += 16;
+  });
+
+  if (report.chartImages.length > 0) {
+    heading(t('report.charts'));
+    const imageWidth = (contentWidth - 16) / 2;
+    report.chartImages.forEach((image, i) => {
+      const props = doc.getImageProperties(image.dataUrl);
+      const imageHeight = (props.height / props.width) * imageWidth;
+      if (i % 2 === 0) ensureSpace(imageHeight + 16);
+      const x = MARGIN + (i % 2) * (imageWidth + 16);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      doc.text(image.title, x, y);
+      doc.addImage(image.dataUrl, 'PNG', x, y + 6, imageWidth, imageHeight);
+      if (i % 2 === 1 || i === report.chartImages.length - 1) {
+        y += imageHeight + 20;
+      }
+    });
+  }
+
+  const sections = planSections(report.plan, report.locale);
+  if (sections.length > 0) {
+    heading(t('plan.title'));
+    sections.forEach(group => {
+      paragraph(group.title, 11);
+      group.items.forEach(item => paragraph(`•  ${item}`));
+    });
+  }
+
+  heading(t('report.disclaimerTitle'));
+  paragraph(t('report.disclaimer'), 9);
+
+  return doc;
+}
+
+export function saveReportPDF(report: ReportData) {
+  const name = (report.studentId || 'student').replace(/[^a-z0-9-_]+/gi, '_');
+  buildReportPDF(report).save(`screening-report-${name}-${report.date}.pdf`);
+}
@@ -0,0 +1,250 @@
+import { AnalysisResult, FormDataType, Measurements, RiskDetails, RiskLevel } from '../types';
+import { locales } from './i18n';
+
+// 'lower' means small values indicate risk (e.g. reading speed); 'higher'
+// means large values do (e.g. error counts).
+export type RiskDirection = 'lower' | 'higher';
+
+export interface FeatureRule {
+  feature: keyof FormDataType;
+  direction: RiskDirection;
+  low: number;
+  high: number;
+  weight: number;
+  // Error counts only: how many items (words or phonemes) the cut-offs were
+  // set for. Test modules scale their counts to it; see referenceItems.
+  referenceItems?: number;
+  // Saccade length only: pixels per degree of the display the cut-offs are
+  // in. Gaze recordings are converted to it; see referencePixelsPerDegree.
+  pixelsPerDegree?: number;
+}
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description?: string;
+  gradeBand?: string;
+  language?: string;
+  rules: FeatureRule[];
+}
+
+export const featureKeys: (keyof FormDataType)[] = [
+  'readingSpeed',
+  'fixationDuration',
+  'saccadeLength',
+  'phonemeErrors',
+  'spellingErrors',
+  'comprehensionScore'
+];
+
+export const riskDetailKeys: Record<keyof FormDataType, keyof RiskDetails> = {
+  readingSpeed: 'readingSpeedRisk',
+  fixationDuration: 'fixationRisk',
+  saccadeLength: 'saccadeRisk',
+  phonemeErrors: 'phonemeRisk',
+  spellingErrors: 'spellingRisk',
+  comprehensionScore: 'comprehensionRisk'
+};
+
+export const riskPoints: Record<RiskLevel, number> = { High: 2, Medium: 1, Low: 0, Missing: 0 };
+
+const directions: Record<keyof FormDataType, RiskDirection> = {
+  readingSpeed: 'lower',
+  fixationDuration: 'higher',
+  saccadeLength: 'lower',
+  phonemeErrors: 'higher',
+  spellingErrors: 'higher',
+  comprehensionScore: 'lower'
+};
+
+const makeRules = (
+  values: Record<keyof FormDataType, [low: number, high: number, weight: number]>
+): FeatureRule[] =>
+  featureKeys.map(feature => {
+    const [low, high, weight] = values[feature];
+    return { feature, direction: directions[feature], low, high, weight };
+  });
+
+// One profile per locale norm; a language's first norm is its general-purpose
+// profile and the rest are tied to grade bands.
+export const builtInProfiles: ScoringProfile[] = locales.flatMap(locale =>
+  locale.norms.map(({ values, ...norm }) => ({ ...norm, language: locale.code, rules: makeRules(values) }))
+);
+
+export const defaultProfile = builtInProfiles[0];
+
+// The built-in profile for a language and grade band, falling back to the
+// language's general profile and then to the English default.
+export function profileForLanguage(language: string, gradeBand?: string): ScoringProfile {
+  const own = builtInProfiles.filter(profile => profile.language === language);
+  return own.find(profile => gradeBand && profile.gradeBand === gradeBand)
+    ?? own.find(profile => !profile.gradeBand)
+    ?? defaultProfile;
+}
+
+// Test lengths the built-in error cut-offs assume: a 20-word dictation and a
+// segmentation task of 40 phonemes.
+export const defaultReferenceItems = { spellingErrors: 20, phonemeErrors: 40 };
+
+export type CountedFeature = keyof typeof defaultReferenceItems;
+
+export const referenceItems = (profile: ScoringProfile, feature: CountedFeature) =>
+  getRule(profile, feature).referenceItems ?? defaultReferenceItems[feature];
+
+// The built-in saccade cut-offs (20 and 35 px) came from the original app
+// with no display geometry, so they have no defined size in degrees. They are
+// read as pixels at 20 px per degree: an assumption, not a calibration, chosen
+// so that a skilled reader's typical 2° saccade (about eight letters) scores
+// as low risk. Profiles whose cut-offs were set on a known display should
+// give its resolution in the rule's pixelsPerDegree instead.
+export const defaultReferencePixelsPerDegree = 20;
+
+export const referencePixelsPerDegree = (profile: ScoringProfile) =>
+  getRule(profile, 'saccadeLength').pixelsPerDegree ?? defaultReferencePixelsPerDegree;
+
+export function getRiskLevel(value: number | null, rule: FeatureRule): RiskLevel {
+  if (value === null) return 'Missing';
+  if (rule.direction === 'lower') {
+    return value < rule.low ? 'High' : value < rule.high ? 'Medium' : 'Low';
+  }
+  return value > rule.high ? 'High' : value > rule.low ? 'Medium' : 'Low';
+}
+
+export function getRule(profile: ScoringProfile, feature: keyof FormDataType): FeatureRule {
+  const rule = profile.rules.find(r => r.feature === feature);
+  if (!rule) {
+    throw new Error(`Scoring profile "${profile.name}" has no rule for ${feature}`);
+  }
+  return rule;
+}
+
+// Where the 0–10 score is cut. Scores within `indeterminateMargin` of the
+// threshold are reported as indeterminate and flagged for retesting.
+export interface OperatingPoint {
+  threshold: number;
+  indeterminateMargin: number;
+}
+
+export const defaultOperatingPoint: OperatingPoint = { threshold: 5, indeterminateMargin: 0.5 };
+
+export function analyzeData(
+  data: Measurements,
+  profile: ScoringProfile,
+  operatingPoint: OperatingPoint = defaultOperatingPoint
+): AnalysisResult {
+  const details = {} as RiskDetails;
+  const missingFeatures: (keyof FormDataType)[] = [];
+  let riskScore = 0;
+  let scoredWeight = 0;
+  let totalWeight = 0;
+
+  // Iterate in feature order so `details` keys keep a stable order for charts.
+  featureKeys.forEach(feature => {
+    const rule = getRule(profile, feature);
+    const level = getRiskLevel(data[feature], rule);
+    details[riskDetailKeys[feature]] = level;
+    totalWeight += rule.weight;
+    if (level === 'Missing') {
+      missingFeatures.push(feature);
+      return;
+    }
+    riskScore += riskPoints[level] * rule.weight;
+    scoredWeight += rule.weight;
+  });
+
+  // Scale to 0–10 against the worst case (every measured feature High), so
+  // custom weights do not have to sum to one and missing features are left
+  // out rather than imputed.
+  const normalizedScore = scoredWeight > 0 ? (riskScore / (2 * scoredWeight)) * 10 : 0;
+  const completeness = totalWeight > 0 ? scoredWeight / totalWeight : 0;
+
+  // The score had every missing feature come back Low, or every one High.
+  const missingWeight = totalWeight - scoredWeight;
+  const scoreRange: [number, number] = missingWeight > 0 && totalWeight > 0
+    ? [(riskScore / (2 * totalWeight)) * 10, ((riskScore + 2 * missingWeight) / (2 * totalWeight)) * 10]
+    : [normalizedScore, normalizedScore];
+
+  const { threshold, indeterminateMargin } = operatingPoint;
+  const prediction = normalizedScore >= threshold ? 1 : 0;
+  const indeterminate = Math.abs(normalizedScore - threshold) < indeterminateMargin
+    || (scoreRange[0] < threshold && scoreRange[1] >= threshold);
+
+  // 0% at the threshold, 100% at the far end of the scale on the same side,
+  // and shrinking with the share of profile weight that was not measured.
+  const headroom = prediction === 1 ? 10 - threshold : threshold;
+  const distance = headroom > 0 ? Math.min(1, Math.abs(normalizedScore - threshold) / headroom) : 1;
+
+  return {
+    prediction,
+    decision: indeterminate ? 'indeterminate' : prediction === 1 ? 'risk' : 'low',
+    riskScore: normalizedScore,
+    scoreRange,
+    confidence: distance * 100 * completeness,
+    details,
+    missingFeatures
+  };
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Checks untrusted JSON (an imported file or localStorage) against the
+// profile schema and throws with every problem found.
+export function validateProfile(input: unknown): ScoringProfile {
+  const errors: string[] = [];
+  const profile = input as Partial<ScoringProfile> | null;
+
+  if (!profile || typeof profile !== 'object') {
+    throw new Error('Scoring profile must be a JSON object');
+  }
+  if (typeof profile.id !== 'string' || profile.id.trim() === '') {
+    errors.push('"id" must be a non-empty string');
+  }
+  if (typeof profile.name !== 'string' || profile.name.trim() === '') {
+    errors.push('"name" must be a non-empty string');
+  }
+  if (!Array.isArray(profile.rules)) {
+    errors.push('"rules" must be an array');
+  } else {
+    const seen = new Set<string>();
+    profile.rules.forEach((rule: Partial<FeatureRule>, i) => {
+      const label = `rules[${i}]`;
+      if (!rule || !featureKeys.includes(rule.feature as keyof FormDataType)) {
+        errors.push(`${label}: unknown feature "${rule?.feature}"`);
+        return;
+      }
+      if (seen.has(rule.feature as string)) {
+        errors.push(`${label}: duplicate feature "${rule.feature}"`);
+      }
+      seen.add(rule.feature as string);
+      if (rule.direction !== 'lower' && rule.direction !== 'higher') {
+        errors.push(`${label}: direction must be "lower" or "higher"`);
+      }
+      if (!isFiniteNumber(rule.low) || !isFiniteNumber(rule.high)) {
+        errors.push(`${label}: low and high must be numbers`);
+      } else if (rule.low >= rule.high) {
+        errors.push(`${label}: low must be less than high`);
+      }
+      if (!isFiniteNumber(rule.weight) || rule.weight < 0) {
+        errors.push(`${label}: weight must be a non-negative number`);
+      }
+      if (rule.referenceItems !== undefined && !(isFiniteNumber(rule.referenceItems) && rule.referenceItems > 0)) {
+        errors.push(`${label}: referenceItems must be a positive number`);
+      }
+      if (rule.pixelsPerDegree !== undefined && !(isFiniteNumber(rule.pixelsPerDegree) && rule.pixelsPerDegree > 0)) {
+        errors.push(`${label}: pixelsPerDegree must be a positive number`);
+      }
+    });
+    featureKeys
+      .filter(key => !seen.has(key))
+      .forEach(key => errors.push(`missing rule for "${key}"`));
+    if (profile.rules.every((rule: Partial<FeatureRule>) => !rule?.weight)) {
+      errors.push('at least one rule must have a positive weight');
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid scoring profile: ${errors.join('; ')}`);
+  }
+  return profile as ScoringProfile;
+}
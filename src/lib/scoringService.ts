@@ -0,0 +1,149 @@
+import { ScoredRow } from '../types';
+import {
+  analyzeData,
+  builtInProfiles,
+  defaultOperatingPoint,
+  defaultProfile,
+  featureKeys,
+  OperatingPoint,
+  riskDetailKeys,
+  ScoringProfile,
+  validateProfile
+} from './scoring';
+import {
+  ColumnMapping,
+  describeErrors,
+  detectUnits,
+  ImportedRow,
+  importFields,
+  ImportTable,
+  mapRows,
+  missingMappings,
+  suggestMapping
+} from './importer';
+import { formatDelimited } from './csv';
+
+// The scoring pipeline shared by the web app, the HTTP API and the CLI.
+// Nothing here touches the DOM or Node, so all three score a row the same way.
+
+export interface ScoringOptions {
+  profile: ScoringProfile;
+  operatingPoint: OperatingPoint;
+}
+
+export const defaultScoringOptions: ScoringOptions = {
+  profile: defaultProfile,
+  operatingPoint: defaultOperatingPoint
+};
+
+export function scoreRows(rows: ImportedRow[], options: ScoringOptions): ScoredRow[] {
+  return rows.map(row => ({
+    rowNumber: row.rowNumber,
+    studentId: row.studentId,
+    data: row.data,
+    result: row.data ? analyzeData(row.data, options.profile, options.operatingPoint) : null,
+    error: row.errors.length > 0 ? describeErrors(row.errors) : null,
+    warning: row.warnings.length > 0 ? describeErrors(row.warnings) : null
+  }));
+}
+
+// Columns and units are detected as in the import wizard's defaults.
+export function scoreTable(table: ImportTable, options: ScoringOptions): ScoredRow[] {
+  const mapping = suggestMapping(table.headers);
+  if (missingMappings(mapping).length === featureKeys.length) {
+    throw new Error(`No measurement columns recognised; expected headers such as ${featureKeys.join(', ')}`);
+  }
+  return scoreRows(mapRows(table, mapping, detectUnits(table, mapping)), options);
+}
+
+// JSON records use the FormDataType field names and units. They are turned
+// into table cells so they go through the same parsing and validation as an
+// uploaded file; `rowNumber` is the 1-based record index.
+export function scoreRecords(records: unknown[], options: ScoringOptions): ScoredRow[] {
+  const rows = records.map((record, i) => {
+    if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+      throw new Error(`Record ${i + 1} is not an object`);
+    }
+    return importFields.map(field => {
+      const value = (record as Record<string, unknown>)[field];
+      if (value === undefined || value === null) return '';
+      // String() would turn [3] into "3" and let it through.
+      if (typeof value !== 'number' && typeof value !== 'string') {
+        throw new Error(`Record ${i + 1}: ${field} must be a number or a string`);
+      }
+      return String(value);
+    });
+  });
+  const mapping = Object.fromEntries(importFields.map((field, i) => [field, i])) as ColumnMapping;
+  const table: ImportTable = { fileName: 'request.json', headers: importFields, rows };
+  return scoreRows(mapRows(table, mapping, {}), options).map((row, i) => ({ ...row, rowNumber: i + 1 }));
+}
+
+// A built-in profile id, a profile object (as exported from the app) or
+// nothing for the default profile.
+export function resolveProfile(input: unknown): ScoringProfile {
+  if (input === undefined || input === null || input === '') return defaultProfile;
+  if (typeof input === 'string') {
+    const profile = builtInProfiles.find(p => p.id === input);
+    if (!profile) {
+      throw new Error(`Unknown scoring profile "${input}"; expected one of ${builtInProfiles.map(p => p.id).join(', ')}`);
+    }
+    return profile;
+  }
+  return validateProfile(input);
+}
+
+// Numbers may arrive as strings from query parameters and CLI flags.
+const scaleValue = (value: unknown, name: string, fallback: number) => {
+  if (value === undefined || value === null || value === '') return fallback;
+  const number = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(number) || number < 0 || number > 10) {
+    throw new Error(`${name} must be a number from 0 to 10`);
+  }
+  return number;
+};
+
+export function resolveOperatingPoint(input: unknown = {}): OperatingPoint {
+  if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('operatingPoint must be an object with threshold and indeterminateMargin');
+  }
+  const { threshold, indeterminateMargin } = input as { threshold?: unknown; indeterminateMargin?: unknown };
+  return {
+    threshold: scaleValue(threshold, 'threshold', defaultOperatingPoint.threshold),
+    indeterminateMargin: scaleValue(indeterminateMargin, 'indeterminateMargin', defaultOperatingPoint.indeterminateMargin)
+  };
+}
+
+const riskColumns = featureKeys.map(feature => riskDetailKeys[feature]);
+
+// Flat CSV of scored rows; column names match the JSON fields.
+export function scoredRowsToCsv(rows: ScoredRow[]): string {
+  const header = [
+    'rowNumber', 'studentId', ...featureKeys,
+    'decision', 'prediction', 'riskScore', 'scoreRangeLow', 'scoreRangeHigh', 'confidence',
+    ...riskColumns, 'missingFeatures', 'error', 'warning'
+  ];
+  const text = (value: number | string | null | undefined) => (value === null || value === undefined ? '' : String(value));
+
+  return formatDelimited([
+    header,
+    ...rows.map(row => {
+      const result = row.result;
+      return [
+        text(row.rowNumber),
+        row.studentId,
+        ...featureKeys.map(feature => text(row.data?.[feature])),
+        text(result?.decision),
+        text(result?.prediction),
+        text(result?.riskScore),
+        text(result?.scoreRange[0]),
+        text(result?.scoreRange[1]),
+        text(result?.confidence),
+        ...riskColumns.map(key => text(result?.details[key])),
+        result ? result.missingFeatures.join(' ') : '',
+        text(row.error),
+        text(row.warning)
+      ];
+    })
+  ]);
+}
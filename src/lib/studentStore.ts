@@ -0,0 +1,202 @@
+import { AnalysisResult, FormDataType, Measurements, RiskLevel } from '../types';
+import { featureKeys, riskDetailKeys } from './scoring';
+import { InterventionPlan } from './interventions';
+import { decryptJSON, EncryptedPayload, encryptJSON } from './vault';
+
+export interface Assessment {
+  id: string;
+  // ISO date (yyyy-mm-dd) the measurements were taken, not when they were saved.
+  date: string;
+  data: Measurements;
+  result: AnalysisResult;
+  profileId: string;
+  // Intervention plan made from this assessment, if one was saved with it.
+  plan?: InterventionPlan;
+}
+
+export type ConsentMethod = 'signed-form' | 'electronic' | 'verbal';
+
+export const consentMethods: ConsentMethod[] = ['signed-form', 'electronic', 'verbal'];
+
+// A parent's or guardian's consent to screening, required before a named
+// student's results can be kept.
+export interface ConsentRecord {
+  guardianName: string;
+  // e.g. parent, legal guardian, or the student if of age.
+  relationship: string;
+  method: ConsentMethod;
+  // ISO date consent was given.
+  date: string;
+  // Whether de-identified results may be shared for research.
+  research: boolean;
+  // Who entered the record in the app.
+  recordedBy: string;
+}
+
+export interface StudentRecord {
+  id: string;
+  name: string;
+  createdAt: string;
+  // Missing only on records saved before consent was required.
+  consent?: ConsentRecord;
+  assessments: Assessment[];
+}
+
+const DB_NAME = 'dyslexia-detection';
+const DB_VERSION = 2;
+const STUDENTS = 'students';
+const AUDIT = 'audit';
+
+// What IndexedDB holds for each record: only the random id is in the clear.
+export interface SealedEntry {
+  id: string;
+  payload: EncryptedPayload;
+}
+
+export const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        [STUDENTS, AUDIT].forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Could not open student database'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export async function withStore<T>(
+  storeName: typeof STUDENTS | typeof AUDIT,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? new Error('Student database error'));
+  });
+}
+
+const byDate = (a: Assessment, b: Assessment) => a.date.localeCompare(b.date);
+
+const putSealed = async (student: StudentRecord) => {
+  const entry: SealedEntry = { id: student.id, payload: await encryptJSON(student) };
+  await withStore(STUDENTS, 'readwrite', store => store.put(entry));
+};
+
+// Records saved in the clear by earlier versions are encrypted on first read.
+export async function listStudents(): Promise<StudentRecord[]> {
+  const entries = await withStore(STUDENTS, 'readonly', store => store.getAll() as IDBRequest<(SealedEntry | StudentRecord)[]>);
+  const students = await Promise.all(entries.map(async entry => {
+    if ('payload' in entry) return decryptJSON<StudentRecord>(entry.payload);
+    await putSealed(entry);
+    return entry;
+  }));
+  return students.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveStudent(student: StudentRecord): Promise<StudentRecord> {
+  if (!student.consent) {
+    throw new Error(`Record guardian consent for ${student.name} before saving`);
+  }
+  const sorted = { ...student, assessments: [...student.assessments].sort(byDate) };
+  await putSealed(sorted);
+  return sorted;
+}
+
+export async function deleteStudent(id: string): Promise<void> {
+  await withStore(STUDENTS, 'readwrite', store => store.delete(id));
+}
+
+export async function clearStudents(): Promise<void> {
+  await withStore(STUDENTS, 'readwrite', store => store.clear());
+}
+
+export function createStudent(name: string, consent: ConsentRecord): StudentRecord {
+  return { id: createId(), name: name.trim(), createdAt: new Date().toISOString(), consent, assessments: [] };
+}
+
+// Checks a consent record from the form and throws with every problem found.
+export function validateConsent(consent: ConsentRecord): ConsentRecord {
+  const errors: string[] = [];
+  if (consent.guardianName.trim() === '') errors.push('guardian name is required');
+  if (consent.relationship.trim() === '') errors.push('relationship is required');
+  if (!consentMethods.includes(consent.method)) errors.push('method must be a signed form, electronic or verbal');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(consent.date)) {
+    errors.push('date must be a valid date');
+  } else if (consent.date > today()) {
+    errors.push('date cannot be in the future');
+  }
+  if (consent.recordedBy.trim() === '') errors.push('recorded by is required');
+  if (errors.length > 0) {
+    throw new Error(`Invalid consent record: ${errors.join('; ')}`);
+  }
+  return { ...consent, guardianName: consent.guardianName.trim(), relationship: consent.relationship.trim() };
+}
+
+export function addAssessment(
+  student: StudentRecord,
+  assessment: Omit<Assessment, 'id'>
+): StudentRecord {
+  return {
+    ...student,
+    assessments: [...student.assessments, { ...assessment, id: createId() }].sort(byDate)
+  };
+}
+
+export const today = () => new Date().toISOString().slice(0, 10);
+
+export interface FeatureChange {
+  feature: keyof FormDataType;
+  // Null when the feature was not measured in one of the two sessions.
+  delta: number | null;
+  previousLevel: RiskLevel;
+  level: RiskLevel;
+  // True when the feature moved into a different risk band.
+  crossedBand: boolean;
+}
+
+export interface AssessmentChange {
+  riskScoreDelta: number;
+  features: FeatureChange[];
+}
+
+// Change since the previous assessment; null for a student's first session.
+export function compareAssessments(previous: Assessment | undefined, current: Assessment): AssessmentChange | null {
+  if (!previous) return null;
+  return {
+    riskScoreDelta: current.result.riskScore - previous.result.riskScore,
+    features: featureKeys.map(feature => {
+      const previousLevel = previous.result.details[riskDetailKeys[feature]];
+      const level = current.result.details[riskDetailKeys[feature]];
+      const before = previous.data[feature];
+      const after = current.data[feature];
+      return {
+        feature,
+        delta: before === null || after === null ? null : after - before,
+        previousLevel,
+        level,
+        crossedBand: previousLevel !== level && previousLevel !== 'Missing' && level !== 'Missing'
+      };
+    })
+  };
+}
@@ -0,0 +1,285 @@
+import * as tf from '@tensorflow/tfjs';
+import { FormDataType } from '../types';
+import { ColumnMapping, ImportTable, mapRows, normalizeHeader, UnitSelection } from './importer';
+import { createTfjsModel, modelFeatureNames, Normalization, PredictionModel } from './model';
+import { isComplete } from './validation';
+import { seededRandom } from './random';
+import {
+  calibrationBins,
+  CalibrationBin,
+  ClassificationMetrics,
+  classificationMetrics,
+  ConfusionMatrix,
+  confusionMatrix,
+  CurvePoint,
+  prCurve,
+  rocCurve
+} from './metrics';
+
+// Trained models live in the browser's IndexedDB under a fixed key, so
+// there is at most one at a time and it survives reloads.
+export const trainedModelUrl = 'indexeddb://dyslexia-trained-model';
+
+// Snake-case feature order, the same columns src/train.py uses.
+const trainingFeatures = Object.keys(modelFeatureNames);
+
+export interface LabeledExample {
+  rowNumber: number;
+  data: FormDataType;
+  // `data` in the model's feature order.
+  features: number[];
+  label: 0 | 1;
+}
+
+export interface LabeledDataset {
+  examples: LabeledExample[];
+  // File rows left out because a feature or the label was missing or invalid.
+  skipped: number[];
+}
+
+export interface TrainingOptions {
+  // Share of examples held out for evaluation, 0–1.
+  testFraction: number;
+  epochs: number;
+  batchSize: number;
+  learningRate: number;
+  // Width of the single hidden layer; 0 trains a logistic regression.
+  hiddenUnits: number;
+  // Seeds the train/test split, weight initialisation and per-epoch shuffle
+  // so runs repeat.
+  seed: number;
+}
+
+export const defaultTrainingOptions: TrainingOptions = {
+  testFraction: 0.2,
+  epochs: 50,
+  batchSize: 32,
+  learningRate: 0.01,
+  hiddenUnits: 8,
+  seed: 42
+};
+
+export interface EvaluationReport {
+  labels: number[];
+  probabilities: number[];
+  confusion: ConfusionMatrix;
+  metrics: ClassificationMetrics;
+  roc: { points: CurvePoint[]; auc: number };
+  pr: { points: CurvePoint[]; averagePrecision: number };
+  calibration: CalibrationBin[];
+}
+
+export interface TrainingResult {
+  model: tf.LayersModel;
+  normalization: Normalization;
+  losses: number[];
+  trainSize: number;
+  testSize: number;
+  report: EvaluationReport;
+}
+
+// Recorded in the saved artifact next to the weights.
+interface TrainedModelMetadata {
+  features: string[];
+  normalization: Normalization;
+  trainedAt: string;
+  metrics: ClassificationMetrics & { auc: number };
+}
+
+const labelAliases = ['dyslexia', 'label', 'diagnosis', 'target', 'class', 'outcome'];
+
+export const findLabelColumn = (headers: string[]): number | null => {
+  const index = headers.map(normalizeHeader).findIndex(h => labelAliases.includes(h));
+  return index >= 0 ? index : null;
+};
+
+const parseLabel = (raw: string): 0 | 1 | null => {
+  const value = raw.trim().toLowerCase();
+  if (['1', '1.0', 'true', 'yes', 'y'].includes(value)) return 1;
+  if (['0', '0.0', 'false', 'no', 'n'].includes(value)) return 0;
+  return null;
+};
+
+// Reuses the import pipeline for parsing, units and range checks; only rows
+// with every feature present, valid and a readable label are kept.
+export function toLabeledDataset(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  units: UnitSelection,
+  labelIndex: number
+): LabeledDataset {
+  const examples: LabeledExample[] = [];
+  const skipped: number[] = [];
+
+  mapRows(table, mapping, units).forEach((row, i) => {
+    const label = parseLabel(table.rows[i][labelIndex] ?? '');
+    if (!row.data || !isComplete(row.data) || label === null) {
+      skipped.push(row.rowNumber);
+      return;
+    }
+    const data: FormDataType = row.data;
+    examples.push({
+      rowNumber: row.rowNumber,
+      data,
+      features: trainingFeatures.map(name => data[modelFeatureNames[name]]),
+      label
+    });
+  });
+  return { examples, skipped };
+}
+
+// Fisher–Yates, in place.
+const shuffle = <T>(items: T[], random: () => number) => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+export function splitDataset(examples: LabeledExample[], testFraction: number, seed: number) {
+  const shuffled = shuffle([...examples], seededRandom(seed));
+  const testSize = Math.round(shuffled.length * testFraction);
+  return { train: shuffled.slice(testSize), test: shuffled.slice(0, testSize) };
+}
+
+const fitNormalization = (rows: number[][]): Normalization => {
+  const mean = trainingFeatures.map((_, j) => rows.reduce((sum, row) => sum + row[j], 0) / rows.length);
+  const std = trainingFeatures.map((_, j) => {
+    const variance = rows.reduce((sum, row) => sum + (row[j] - mean[j]) ** 2, 0) / rows.length;
+    // A constant column would divide by zero; leave it centred but unscaled.
+    return Math.sqrt(variance) || 1;
+  });
+  return { mean, std };
+};
+
+const normalize = (rows: number[][], { mean, std }: Normalization) =>
+  rows.map(row => row.map((value, j) => (value - mean[j]) / std[j]));
+
+export function evaluate(labels: number[], probabilities: number[]): EvaluationReport {
+  const confusion = confusionMatrix(labels, probabilities);
+  return {
+    labels,
+    probabilities,
+    confusion,
+    metrics: classificationMetrics(confusion),
+    roc: rocCurve(labels, probabilities),
+    pr: prCurve(labels, probabilities),
+    calibration: calibrationBins(labels, probabilities)
+  };
+}
+
+const buildModel = (options: TrainingOptions) => {
+  const model = tf.sequential();
+  const inputShape = [trainingFeatures.length];
+  if (options.hiddenUnits > 0) {
+    model.add(tf.layers.dense({
+      inputShape,
+      units: options.hiddenUnits,
+      activation: 'relu',
+      kernelInitializer: tf.initializers.glorotUniform({ seed: options.seed })
+    }));
+  }
+  model.add(tf.layers.dense({
+    ...(options.hiddenUnits > 0 ? {} : { inputShape }),
+    units: 1,
+    activation: 'sigmoid',
+    kernelInitializer: tf.initializers.glorotUniform({ seed: options.seed + 1 })
+  }));
+  model.compile({ optimizer: tf.train.adam(options.learningRate), loss: 'binaryCrossentropy' });
+  return model;
+};
+
+export async function trainModel(
+  dataset: LabeledDataset,
+  options: TrainingOptions,
+  onEpochEnd?: (epoch: number, loss: number) => void
+): Promise<TrainingResult> {
+  const { train, test } = splitDataset(dataset.examples, options.testFraction, options.seed);
+  if (train.length < 2 || test.length < 2) {
+    throw new Error('Not enough labeled rows for this split; at least two are needed on each side');
+  }
+  if (new Set(train.map(e => e.label)).size < 2) {
+    throw new Error('The training split contains only one class');
+  }
+
+  const normalization = fitNormalization(train.map(e => e.features));
+  const rows = normalize(train.map(e => e.features), normalization);
+  const model = buildModel(options);
+  const losses: number[] = [];
+
+  // tf's own shuffle is unseeded and would keep runs from repeating, so the
+  // rows are reshuffled here before each epoch from the run's seed.
+  const random = seededRandom(options.seed + 2);
+  const order = rows.map((_, i) => i);
+  for (let epoch = 0; epoch < options.epochs; epoch++) {
+    shuffle(order, random);
+    const xs = tf.tensor2d(order.map(i => rows[i]));
+    const ys = tf.tensor2d(order.map(i => [train[i].label]));
+    let loss = NaN;
+    try {
+      const history = await model.fit(xs, ys, { epochs: 1, batchSize: options.batchSize, shuffle: false });
+      loss = Number(history.history.loss[0]);
+    } finally {
+      xs.dispose();
+      ys.dispose();
+    }
+    losses.push(loss);
+    onEpochEnd?.(epoch, loss);
+    // Yield so the progress display can repaint between epochs.
+    await tf.nextFrame();
+  }
+
+  const testXs = tf.tensor2d(normalize(test.map(e => e.features), normalization));
+  const output = model.predict(testXs) as tf.Tensor;
+  const probabilities = Array.from(await output.data());
+  testXs.dispose();
+  output.dispose();
+
+  return {
+    model,
+    normalization,
+    losses,
+    trainSize: train.length,
+    testSize: test.length,
+    report: evaluate(test.map(e => e.label), probabilities)
+  };
+}
+
+export async function saveTrainedModel(result: TrainingResult): Promise<PredictionModel> {
+  const metadata: TrainedModelMetadata = {
+    features: trainingFeatures,
+    normalization: result.normalization,
+    trainedAt: new Date().toISOString(),
+    metrics: { ...result.report.metrics, auc: result.report.roc.auc }
+  };
+  result.model.setUserDefinedMetadata({ ...metadata });
+  await result.model.save(trainedModelUrl);
+  return toPredictionModel(result.model, metadata);
+}
+
+const toPredictionModel = (model: tf.LayersModel, metadata: TrainedModelMetadata) =>
+  createTfjsModel(
+    model,
+    metadata.features,
+    metadata.normalization,
+    `Trained in browser (${metadata.trainedAt.slice(0, 10)})`
+  );
+
+// Null when nothing has been saved yet.
+export async function loadTrainedModel(): Promise<PredictionModel | null> {
+  const saved = await tf.io.listModels();
+  if (!(trainedModelUrl in saved)) {
+    return null;
+  }
+  const model = await tf.loadLayersModel(trainedModelUrl);
+  const metadata = model.getUserDefinedMetadata() as TrainedModelMetadata | undefined;
+  if (!metadata?.normalization) {
+    throw new Error('Saved model is missing its normalization metadata');
+  }
+  return toPredictionModel(model, metadata);
+}
+
+export async function deleteTrainedModel(): Promise<void> {
+  await tf.io.removeModel(trainedModelUrl);
+}
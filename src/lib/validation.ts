@@ -0,0 +1,84 @@
+import { FormDataType, Measurements } from '../types';
+import { featureKeys } from './scoring';
+import { defaultLocale, Locale, translate } from './i18n';
+
+export interface FeatureSpec {
+  unit: string;
+  // Values outside this range are impossible and cannot be scored.
+  validRange: [min: number, max: number];
+  // Values outside this range are possible but unusual for a school-age
+  // reader; they are scored and flagged for a second look.
+  plausibleRange: [min: number, max: number];
+  required: boolean;
+  step: number;
+}
+
+// Eye-movement features are optional because many sites have no tracker.
+// Saccade length is in pixels of the display the scoring profile names
+// (referencePixelsPerDegree), not of whatever screen a recording came from.
+export const featureSchema: Record<keyof FormDataType, FeatureSpec> = {
+  readingSpeed: { unit: 'wpm', validRange: [0, 400], plausibleRange: [10, 250], required: true, step: 1 },
+  fixationDuration: { unit: 'ms', validRange: [50, 2000], plausibleRange: [150, 600], required: false, step: 5 },
+  saccadeLength: { unit: 'px', validRange: [0, 500], plausibleRange: [5, 100], required: false, step: 1 },
+  phonemeErrors: { unit: 'errors', validRange: [0, 100], plausibleRange: [0, 40], required: true, step: 1 },
+  spellingErrors: { unit: 'errors', validRange: [0, 100], plausibleRange: [0, 30], required: true, step: 1 },
+  comprehensionScore: { unit: '%', validRange: [0, 100], plausibleRange: [0, 100], required: true, step: 1 }
+};
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  feature: keyof FormDataType;
+  severity: IssueSeverity;
+  message: string;
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  missing: (keyof FormDataType)[];
+  // False when any issue is an error; warnings alone still allow scoring.
+  canScore: boolean;
+}
+
+// Messages are in `locale`; the API and CLI keep the English default.
+export function validateMeasurements(data: Measurements, locale: Locale = defaultLocale): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  const missing: (keyof FormDataType)[] = [];
+
+  featureKeys.forEach(feature => {
+    const spec = featureSchema[feature];
+    const value = data[feature];
+    const params = { feature: translate(locale, `feature.${feature}`), value: value ?? '', unit: translate(locale, `unit.${feature}`) };
+
+    if (value === null) {
+      missing.push(feature);
+      issues.push(spec.required
+        ? { feature, severity: 'error', message: translate(locale, 'validation.required', params) }
+        : { feature, severity: 'warning', message: translate(locale, 'validation.notMeasured', params) });
+      return;
+    }
+
+    const [validMin, validMax] = spec.validRange;
+    const [plausibleMin, plausibleMax] = spec.plausibleRange;
+    if (value < validMin || value > validMax) {
+      issues.push({
+        feature,
+        severity: 'error',
+        message: translate(locale, 'validation.outOfRange', { ...params, min: validMin, max: validMax })
+      });
+    } else if (value < plausibleMin || value > plausibleMax) {
+      issues.push({
+        feature,
+        severity: 'warning',
+        message: translate(locale, 'validation.unusual', { ...params, min: plausibleMin, max: plausibleMax })
+      });
+    }
+  });
+
+  return { issues, missing, canScore: issues.every(issue => issue.severity !== 'error') };
+}
+
+// Narrows to a complete measurement set, e.g. for the model engine, which
+// cannot score partial input.
+export const isComplete = (data: Measurements): data is FormDataType =>
+  featureKeys.every(feature => data[feature] !== null);
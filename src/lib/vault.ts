@@ -0,0 +1,119 @@
+import { clearVaultMeta, loadVaultMeta, saveVaultMeta, saveVaultReset } from './profileStore';
+
+// Passphrase-based encryption for student data at rest. A key is derived
+// from the passphrase with PBKDF2 and held in memory only while the app is
+// unlocked; records are sealed with AES-GCM under a fresh IV each time.
+
+export interface EncryptedPayload {
+  // Base64 AES-GCM IV and ciphertext (with its authentication tag).
+  iv: string;
+  data: string;
+}
+
+// Stored in the clear: none of it reveals the passphrase or the key.
+export interface VaultMeta {
+  version: 1;
+  salt: string;
+  iterations: number;
+  // A known value sealed with the key, to tell a wrong passphrase apart.
+  check: EncryptedPayload;
+}
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256.
+const PBKDF2_ITERATIONS = 600_000;
+const CHECK_VALUE = 'dyslexia-detection-vault';
+export const MIN_PASSPHRASE_LENGTH = 10;
+
+let sessionKey: CryptoKey | null = null;
+
+// In chunks, since spreading a large record's bytes overflows the call stack.
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function seal(key: CryptoKey, value: unknown): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+async function open<T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+  return JSON.parse(new TextDecoder().decode(data)) as T;
+}
+
+export const vaultExists = () => loadVaultMeta() !== null;
+
+export const isUnlocked = () => sessionKey !== null;
+
+// Sets the passphrase on first use and unlocks the vault with it.
+export async function createVault(passphrase: string): Promise<void> {
+  if (vaultExists()) {
+    throw new Error('A passphrase has already been set');
+  }
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  saveVaultMeta({ version: 1, salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, check: await seal(key, CHECK_VALUE) });
+  sessionKey = key;
+}
+
+export async function unlockVault(passphrase: string): Promise<void> {
+  const meta = loadVaultMeta();
+  if (!meta) {
+    throw new Error('No passphrase has been set');
+  }
+  const key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  // AES-GCM rejects a wrong key when the tag does not verify.
+  const check = await open<string>(key, meta.check).catch(() => null);
+  if (check !== CHECK_VALUE) {
+    throw new Error('Incorrect passphrase');
+  }
+  sessionKey = key;
+}
+
+export function lockVault() {
+  sessionKey = null;
+}
+
+// Forgets the passphrase so a new one can be set. Records sealed under the old
+// key can never be read again and should be deleted first. The time is kept
+// so the reset can be logged once a new passphrase is set.
+export function resetVault() {
+  clearVaultMeta();
+  saveVaultReset(new Date().toISOString());
+  sessionKey = null;
+}
+
+function requireKey(): CryptoKey {
+  if (!sessionKey) {
+    throw new Error('Student records are locked');
+  }
+  return sessionKey;
+}
+
+export async function encryptJSON(value: unknown): Promise<EncryptedPayload> {
+  return seal(requireKey(), value);
+}
+
+export async function decryptJSON<T>(payload: EncryptedPayload): Promise<T> {
+  return open<T>(requireKey(), payload);
+}
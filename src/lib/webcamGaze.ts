@@ -0,0 +1,313 @@
+import {
+  defaultDetectionSettings,
+  DetectionSettings,
+  GazeRecording,
+  GazeSample,
+  median,
+  medianInterval,
+  ScreenSize
+} from './gaze';
+import { defaultLocale, Locale, translate } from './i18n';
+
+// The MediaPipe face mesh solution is served with the app rather than fetched
+// from a CDN, so webcam capture works offline. It ships in the
+// @mediapipe/face_mesh package; scripts/copy-face-model.js copies it into
+// public/models/face_mesh before every dev server start and build.
+export const faceModelBaseUrl = `${import.meta.env.BASE_URL}models/face_mesh`;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Per-frame input to the gaze mapping, plus lid opening for blink detection.
+export interface EyeFeatures {
+  vector: number[];
+  openness: number;
+}
+
+// Lid opening (as a fraction of eye width) below which a frame is a blink.
+export const blinkOpenness = 0.15;
+
+// Face mesh keypoint indices; 468 and 473 are the iris centres added by the
+// attention (refined) model.
+const eyeLandmarks = {
+  right: { outer: 33, inner: 133, upper: 159, lower: 145, iris: 468 },
+  left: { outer: 263, inner: 362, upper: 386, lower: 374, iris: 473 }
+};
+const noseTip = 1;
+
+type EyeIndices = typeof eyeLandmarks.right;
+
+// Iris offset from the eye's centre along and across the corner-to-corner
+// axis, in eye widths, so it is unaffected by head roll and distance.
+const eyeState = (points: Point[], eye: EyeIndices) => {
+  const a = points[eye.outer];
+  const b = points[eye.inner];
+  const width = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+  const ux = (b.x - a.x) / width;
+  const uy = (b.y - a.y) / width;
+  const dx = points[eye.iris].x - (a.x + b.x) / 2;
+  const dy = points[eye.iris].y - (a.y + b.y) / 2;
+  return {
+    along: (dx * ux + dy * uy) / width,
+    across: (dy * ux - dx * uy) / width,
+    openness: Math.hypot(points[eye.upper].x - points[eye.lower].x, points[eye.upper].y - points[eye.lower].y) / width
+  };
+};
+
+// Eye-in-head position of both irises plus head position and size in the
+// frame; a linear map of these tracks gaze well enough for reading metrics.
+export function eyeFeatures(points: Point[], frame: ScreenSize): EyeFeatures | null {
+  if (points.length <= eyeLandmarks.left.iris) return null;
+  const right = eyeState(points, eyeLandmarks.right);
+  const left = eyeState(points, eyeLandmarks.left);
+  const nose = points[noseTip];
+  const span = Math.hypot(points[eyeLandmarks.left.outer].x - points[eyeLandmarks.right.outer].x,
+    points[eyeLandmarks.left.outer].y - points[eyeLandmarks.right.outer].y);
+  return {
+    vector: [right.along, right.across, left.along, left.across, nose.x / frame.width, nose.y / frame.height, span / frame.width],
+    openness: (right.openness + left.openness) / 2
+  };
+}
+
+export interface FaceTracker {
+  // Features of the first face in the current video frame, or null when no
+  // face is found.
+  estimate: (video: HTMLVideoElement) => Promise<EyeFeatures | null>;
+  dispose: () => void;
+}
+
+export async function loadFaceTracker(): Promise<FaceTracker> {
+  const faceLandmarks = await import('@tensorflow-models/face-landmarks-detection');
+  let detector: Awaited<ReturnType<typeof faceLandmarks.createDetector>>;
+  try {
+    detector = await faceLandmarks.createDetector(faceLandmarks.SupportedModels.MediaPipeFaceMesh, {
+      runtime: 'mediapipe',
+      refineLandmarks: true,
+      maxFaces: 1,
+      solutionPath: faceModelBaseUrl
+    });
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new Error(`Face landmark model could not be loaded (${reason}). Run \`npm run copy-face-model\` and reload.`);
+  }
+
+  return {
+    estimate: async video => {
+      const faces = await detector.estimateFaces(video);
+      return faces.length > 0
+        ? eyeFeatures(faces[0].keypoints, { width: video.videoWidth, height: video.videoHeight })
+        : null;
+    },
+    dispose: () => detector.dispose()
+  };
+}
+
+// Dot positions for a 3×3 calibration grid, inset from the screen edges.
+export function calibrationTargets(screen: ScreenSize, inset = 0.1): Point[] {
+  const stops = [inset, 0.5, 1 - inset];
+  return stops.flatMap(fy => stops.map(fx => ({ x: fx * screen.width, y: fy * screen.height })));
+}
+
+// One frame captured while the student looked at calibration dot `point`.
+export interface CalibrationSample {
+  point: number;
+  target: Point;
+  features: number[];
+}
+
+// Ridge regression from standardized eye features to screen x and y.
+export interface GazeMapping {
+  mean: number[];
+  std: number[];
+  wx: number[];
+  wy: number[];
+}
+
+export interface GazeCalibration {
+  mapping: GazeMapping;
+  screen: ScreenSize;
+  // Leave-one-point-out error per calibration dot, in pixels.
+  pointErrors: number[];
+  meanErrorPx: number;
+}
+
+// Gaussian elimination with partial pivoting; the systems here are 8×8.
+const solve = (a: number[][], b: number[]) => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+};
+
+const design = (mapping: Pick<GazeMapping, 'mean' | 'std'>, features: number[]) =>
+  [1, ...features.map((v, i) => (v - mapping.mean[i]) / mapping.std[i])];
+
+function fitMapping(samples: CalibrationSample[], lambda: number): GazeMapping {
+  const dims = samples[0].features.length;
+  const mean = Array.from({ length: dims }, (_, i) => samples.reduce((sum, s) => sum + s.features[i], 0) / samples.length);
+  const std = mean.map((m, i) =>
+    Math.sqrt(samples.reduce((sum, s) => sum + (s.features[i] - m) ** 2, 0) / samples.length) || 1);
+  const rows = samples.map(s => design({ mean, std }, s.features));
+
+  // Normal equations with the penalty left off the intercept.
+  const xtx = rows[0].map((_, i) => rows[0].map((_, j) =>
+    rows.reduce((sum, r) => sum + r[i] * r[j], 0) + (i === j && i > 0 ? lambda * samples.length : 0)));
+  const xty = (target: (s: CalibrationSample) => number) =>
+    rows[0].map((_, i) => rows.reduce((sum, r, k) => sum + r[i] * target(samples[k]), 0));
+
+  return { mean, std, wx: solve(xtx, xty(s => s.target.x)), wy: solve(xtx, xty(s => s.target.y)) };
+}
+
+export function predictGaze(mapping: GazeMapping, features: number[]): Point {
+  const row = design(mapping, features);
+  const dot = (w: number[]) => row.reduce((sum, v, i) => sum + v * w[i], 0);
+  return { x: dot(mapping.wx), y: dot(mapping.wy) };
+}
+
+export function fitGazeCalibration(samples: CalibrationSample[], screen: ScreenSize, lambda = 0.1): GazeCalibration {
+  const points = [...new Set(samples.map(s => s.point))];
+  if (points.length < 5) {
+    throw new Error(`Only ${points.length} calibration dots had a visible face; at least 5 are needed`);
+  }
+
+  // Each dot is predicted from a mapping fitted without it, which estimates
+  // accuracy at places the mapping has not seen.
+  const pointErrors = points.map(point => {
+    const held = samples.filter(s => s.point === point);
+    const mapping = fitMapping(samples.filter(s => s.point !== point), lambda);
+    const predicted = held.map(s => predictGaze(mapping, s.features));
+    const x = median(predicted.map(p => p.x));
+    const y = median(predicted.map(p => p.y));
+    return Math.hypot(x - held[0].target.x, y - held[0].target.y);
+  });
+
+  return {
+    mapping: fitMapping(samples, lambda),
+    screen,
+    pointErrors,
+    meanErrorPx: pointErrors.reduce((sum, e) => sum + e, 0) / pointErrors.length
+  };
+}
+
+// Webcam gaze is far noisier than a research tracker's and arrives at about
+// 30 Hz, so fixations are found by dispersion over a wider window.
+export const webcamDetectionSettings: DetectionSettings = {
+  ...defaultDetectionSettings,
+  algorithm: 'idt',
+  dispersionThreshold: 2.5,
+  minFixationDuration: 100,
+  maxGapDuration: 150
+};
+
+// Running median over valid samples; removes single-frame landmark jitter
+// without smearing saccades the way a mean would.
+export function smoothSamples(samples: GazeSample[], window = 5): GazeSample[] {
+  const valid = samples.filter(s => s.valid);
+  const half = Math.floor(window / 2);
+  const smoothed = valid.map((sample, i) => {
+    const neighbours = valid.slice(Math.max(0, i - half), i + half + 1);
+    return { ...sample, x: median(neighbours.map(s => s.x)), y: median(neighbours.map(s => s.y)) };
+  });
+  let next = 0;
+  return samples.map(sample => (sample.valid ? smoothed[next++] : sample));
+}
+
+export function toGazeRecording(samples: GazeSample[]): GazeRecording {
+  const smoothed = smoothSamples(samples);
+  return { fileName: 'Webcam capture', format: 'Webcam', samples: smoothed, sampleIntervalMs: medianInterval(smoothed) };
+}
+
+export interface CaptureQuality {
+  // 0–100; below `minimumQualityScore` the capture is flagged.
+  score: number;
+  calibrationErrorDeg: number;
+  samplingRateHz: number;
+  // Share of frames with an open-eyed face, 0–1.
+  validFraction: number;
+  // Share of valid gaze estimates that landed on the screen, 0–1.
+  onScreenFraction: number;
+  durationMs: number;
+  issues: string[];
+  lowQuality: boolean;
+}
+
+export const minimumQualityScore = 60;
+const minimumDurationMs = 10000;
+
+// Linear ramp from 0 at `bad` to 1 at `good`.
+const ramp = (value: number, bad: number, good: number) =>
+  Math.min(1, Math.max(0, (value - bad) / (good - bad)));
+
+// Issues are described in `locale`.
+export function captureQuality(
+  recording: GazeRecording,
+  calibration: GazeCalibration,
+  pixelsPerDegree: number,
+  locale: Locale = defaultLocale
+): CaptureQuality {
+  const samples = recording.samples;
+  const valid = samples.filter(s => s.valid);
+  const { width, height } = calibration.screen;
+  const durationMs = samples.length > 1 ? samples[samples.length - 1].t - samples[0].t : 0;
+
+  const calibrationErrorDeg = calibration.meanErrorPx / pixelsPerDegree;
+  const samplingRateHz = recording.sampleIntervalMs > 0 ? 1000 / recording.sampleIntervalMs : 0;
+  const validFraction = valid.length / Math.max(samples.length, 1);
+  const onScreenFraction = valid.filter(s => s.x >= 0 && s.x <= width && s.y >= 0 && s.y <= height).length
+    / Math.max(valid.length, 1);
+
+  const components = {
+    accuracy: ramp(calibrationErrorDeg, 4.5, 1.5),
+    rate: ramp(samplingRateHz, 10, 25),
+    validity: ramp(validFraction, 0.5, 0.9),
+    onScreen: ramp(onScreenFraction, 0.6, 0.95)
+  };
+  const score = 100 * (0.4 * components.accuracy + 0.2 * components.rate
+    + 0.2 * components.validity + 0.2 * components.onScreen);
+
+  const issues: string[] = [];
+  if (components.accuracy < 0.5) {
+    issues.push(translate(locale, 'webcam.issueCalibration', { error: calibrationErrorDeg.toFixed(1) }));
+  }
+  if (components.rate < 0.5) {
+    issues.push(translate(locale, 'webcam.issueRate', { rate: samplingRateHz.toFixed(0) }));
+  }
+  if (components.validity < 0.5) {
+    issues.push(translate(locale, 'webcam.issueLost', { percent: ((1 - validFraction) * 100).toFixed(0) }));
+  }
+  if (components.onScreen < 0.5) {
+    issues.push(translate(locale, 'webcam.issueOffScreen', { percent: ((1 - onScreenFraction) * 100).toFixed(0) }));
+  }
+  if (durationMs < minimumDurationMs) {
+    issues.push(translate(locale, 'webcam.issueShort'));
+  }
+
+  return {
+    score,
+    calibrationErrorDeg,
+    samplingRateHz,
+    validFraction,
+    onScreenFraction,
+    durationMs,
+    issues,
+    lowQuality: score < minimumQualityScore || durationMs < minimumDurationMs
+  };
+}
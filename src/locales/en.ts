@@ -0,0 +1,700 @@
+import type { Locale } from '../lib/i18n';
+
+// English is the reference locale: its messages define the keys every other
+// locale must translate.
+export const messages = {
+  'app.title': 'Dyslexia Detection System',
+  'app.readingSettings': 'Reading settings',
+  'app.language': 'Language',
+  'app.sections': 'Sections',
+  'app.lock': 'Lock student records',
+
+  'tab.input': 'Input Data',
+  'tab.results': 'Results',
+  'tab.cohort': 'Cohort',
+  'tab.analytics': 'Analytics',
+  'tab.students': 'Students',
+  'tab.profiles': 'Scoring',
+  'tab.training': 'Training',
+  'tab.interventions': 'Interventions',
+  'tab.privacy': 'Privacy',
+
+  'feature.readingSpeed': 'Reading Speed',
+  'feature.fixationDuration': 'Fixation Duration',
+  'feature.saccadeLength': 'Saccade Length',
+  'feature.phonemeErrors': 'Phoneme Errors',
+  'feature.spellingErrors': 'Spelling Errors',
+  'feature.comprehensionScore': 'Comprehension',
+
+  'unit.readingSpeed': 'wpm',
+  'unit.fixationDuration': 'ms',
+  'unit.saccadeLength': 'px',
+  'unit.phonemeErrors': 'errors',
+  'unit.spellingErrors': 'errors',
+  'unit.comprehensionScore': '%',
+
+  'decision.risk': 'Dyslexia risk detected',
+  'decision.indeterminate': 'Indeterminate — retest recommended',
+  'decision.low': 'Low dyslexia risk',
+
+  'level.High': 'High',
+  'level.Medium': 'Medium',
+  'level.Low': 'Low',
+  'level.Missing': 'Missing',
+
+  'input.profile': 'Scoring profile',
+  'input.method': 'Input method',
+  'input.manual': 'Manual Input',
+  'input.tests': 'Test Modules',
+  'input.gaze': 'Eye Tracking',
+  'input.webcam': 'Webcam Gaze',
+  'input.csv': 'File Import',
+  'input.currentMeasurements': 'Current Measurements',
+
+  'form.notMeasured': 'Not measured',
+  'form.missing': 'Missing — left out of the score',
+  'form.missingOne': '1 measurement is missing; the result will be scored on the rest with reduced confidence.',
+  'form.missingMany': '{count} measurements are missing; the result will be scored on the rest with reduced confidence.',
+  'form.analyze': 'Analyze Data',
+
+  'chart.measurementValues': 'Measurement Values',
+  'chart.currentValues': 'Current Values',
+  'chart.measurementsLabel': 'Bar chart of the current measurement values',
+  'chart.riskProfile': 'Risk Profile',
+  'chart.riskProfileLabel': 'Radar chart of the risk level for each measurement',
+  'chart.riskProfileCaption': 'Risk level per measurement: 3 High, 2 Medium, 1 Low, 0 not measured',
+  'chart.riskScore': 'Risk Score',
+  'chart.safeZone': 'Safe Zone',
+  'chart.gaugeLabel': 'Gauge of the overall risk score, {score} out of 10',
+  'chart.gaugeCaption': 'Overall risk score out of 10',
+  'chart.showTable': 'Show data table',
+  'chart.value': 'Value',
+
+  'results.riskAnalysis': 'Risk Analysis',
+  'results.overallRiskScore': 'Overall Risk Score',
+  'results.riskScore': 'Risk Score',
+  'results.notMeasured': 'Not measured: {features}. Scored on the remaining measurements with a reduced decision margin ({margin}%).',
+  'results.lowQualityGaze': 'Fixation duration and saccade length come from a low-quality webcam capture (data quality {score}/100); retest before relying on them.',
+  'results.detailedAnalysis': 'Detailed Analysis:',
+  'results.spoken': '{decision}. Risk score {score} out of 10.',
+  'results.readAloud': 'Read aloud',
+
+  'engine.title': 'Prediction Engines',
+  'engine.heuristic': 'Heuristic',
+  'engine.model': 'Model',
+  'engine.heuristicTitle': 'Heuristic (weighted thresholds)',
+  'engine.riskScore': 'Risk score',
+  'engine.margin': '{decision} · {margin}% decision margin',
+  'engine.calibrated': '{decision} · calibrated probability {probability}',
+  'engine.modelTitle': 'Model ({name})',
+  'engine.probability': 'Probability of dyslexia',
+  'engine.riskDetected': 'Risk detected',
+  'engine.lowRisk': 'Low risk',
+  'engine.unavailable': 'Model unavailable: {error}. Export one with src/train.py or train one in the Training tab.',
+  'engine.needsAll': 'The model needs every measurement; this result has missing values.',
+  'engine.loading': 'Loading model…',
+
+  'decisionPanel.title': 'Decision and Uncertainty',
+  'decisionPanel.rangeStraddles': 'The unmeasured features could move the score anywhere from {low} to {high}, on either side of the {threshold} threshold.',
+  'decisionPanel.withinMargin': 'The score of {score} is within {margin} of the {threshold} threshold.',
+  'decisionPanel.retest': 'Retest, ideally with every measurement, before acting on this result.',
+  'decisionPanel.calibrated': 'Calibrated probability of dyslexia',
+  'decisionPanel.interval': '90% interval {lower}–{upper}',
+  'decisionPanel.fitted': 'fitted on {count} labeled rows ({method})',
+  'decisionPanel.notCalibrated': 'This scoring profile has not been calibrated, so the risk score cannot be read as a probability. Fit a calibration from labeled data in the Training tab.',
+  'decisionPanel.operatingPoint': 'Operating point',
+  'decisionPanel.optionRates': 'Sensitivity {sensitivity}, specificity {specificity}',
+  'decisionPanel.threshold': 'Risk score threshold: {value}',
+  'decisionPanel.thresholdValue': '{value} out of 10',
+  'decisionPanel.margin': 'Indeterminate band: ± {value}',
+  'decisionPanel.marginValue': 'plus or minus {value}',
+  'decisionPanel.rates': 'On the calibration data this threshold gives {sensitivity} sensitivity and {specificity} specificity.',
+  'operatingPoint.balanced': 'Balanced',
+  'operatingPoint.sensitive': 'Sensitivity ≥ {rate}%',
+  'operatingPoint.specific': 'Specificity ≥ {rate}%',
+
+  'save.title': 'Save to Student Record',
+  'save.newStudent': 'New student…',
+  'save.studentName': 'Student name or ID',
+  'save.submit': 'Save Assessment',
+  'save.chooseStudent': 'Choose a student or enter a new name.',
+  'save.saved': 'Assessment saved.',
+  'save.failed': 'Could not save assessment',
+
+  'report.title': 'Screening Report',
+  'report.pdf': 'Download PDF',
+  'report.print': 'Print',
+
+  'plan.title': 'Intervention Plan',
+  'plan.age': 'Student age (years)',
+  'plan.anyAge': 'Any',
+  'plan.evidence': 'Evidence {grade}',
+  'plan.ages': 'ages {min}–{max}',
+  'plan.why': 'Why: {reasons}.',
+  'plan.goals': 'Goals',
+  'plan.goal': '{feature}: from {from} to {to} risk or better by {date}',
+  'plan.trackGoals': 'Save this assessment to a student record to track the goals against later assessments.',
+  'plan.excluded': 'Outside the age range and left out: {names}.',
+  'tier.immediate': 'Immediate actions',
+  'tier.core': 'Core interventions',
+  'tier.supplementary': 'Supplementary support',
+  'evidence.strong': 'A — several randomized trials or meta-analyses',
+  'evidence.moderate': 'B — controlled or quasi-experimental studies',
+  'evidence.emerging': 'C — small or uncontrolled studies',
+  'evidence.consensus': 'D — professional consensus',
+  'category.assessment': 'Assessment',
+  'category.phonological': 'Phonological awareness',
+  'category.decoding': 'Decoding',
+  'category.fluency': 'Fluency',
+  'category.spelling': 'Spelling',
+  'category.comprehension': 'Comprehension',
+  'category.visual': 'Visual and eye movement',
+  'category.accommodation': 'Accommodation',
+  'category.monitoring': 'Monitoring',
+  'intensity.low': 'Low (under 1 hour a week)',
+  'intensity.moderate': 'Moderate (1–2 hours a week)',
+  'intensity.high': 'High (daily sessions)',
+
+  'cohort.save': 'Save scored rows to student records ({date})',
+  'cohort.skipped': 'Not saved, as there is no student record with guardian consent: {names}.',
+
+  'error.loadModel': 'Failed to load model',
+  'error.loadStudents': 'Could not load student records',
+  'error.noStudentRows': 'No rows with a student ID to save.',
+
+  'settings.title': 'Reading Settings',
+  'settings.reset': 'Reset',
+  'settings.font': 'Font',
+  'settings.fontDefault': 'Default',
+  'settings.lineLength': 'Line length',
+  'settings.lineFull': 'Full width',
+  'settings.lineWide': 'About 80 characters',
+  'settings.lineNarrow': 'About 60 characters',
+  'settings.textSize': 'Text size',
+  'settings.lineSpacing': 'Line spacing',
+  'settings.default': 'Default',
+  'settings.letterSpacing': 'Letter spacing',
+  'settings.wordSpacing': 'Word spacing',
+  'settings.normal': 'Normal',
+  'settings.overlay': 'Colour overlay',
+  'overlay.none': 'No overlay',
+  'overlay.cream': 'Cream',
+  'overlay.yellow': 'Yellow',
+  'overlay.blue': 'Blue',
+  'overlay.green': 'Green',
+  'overlay.rose': 'Rose',
+  'overlay.grey': 'Grey',
+  'settings.speech': 'Read instructions and results aloud',
+  'settings.speechRate': 'Speech rate',
+  'settings.trySpeech': 'Try the speech rate',
+  'settings.speechSample': 'This is how instructions will be read aloud.',
+  'settings.noSpeech': 'This browser does not support text-to-speech.',
+
+  'vault.createTitle': 'Protect Student Records',
+  'vault.createIntro': 'Student records are encrypted on this device with a passphrase of at least {min} characters. It cannot be recovered: without it, saved records cannot be read.',
+  'vault.unlockTitle': 'Unlock Student Records',
+  'vault.unlockIntro': 'Enter the passphrase to decrypt the student records stored on this device.',
+  'vault.actor': 'Your name',
+  'vault.actorHint': 'Recorded in the audit log for every record you view, change or export.',
+  'vault.passphrase': 'Passphrase',
+  'vault.confirm': 'Confirm passphrase',
+  'vault.mismatch': 'The passphrases do not match.',
+  'vault.nameRequired': 'Enter your name.',
+  'vault.create': 'Set Passphrase',
+  'vault.unlock': 'Unlock',
+  'vault.working': 'Deriving key…',
+  'vault.failed': 'Could not unlock student records',
+
+  'consent.title': 'Guardian Consent',
+  'consent.required': 'A named student can only be saved once a parent or guardian has consented.',
+  'consent.guardianName': 'Parent or guardian name',
+  'consent.relationship': 'Relationship to student',
+  'consent.method': 'Consent given by',
+  'consent.method.signed-form': 'Signed form',
+  'consent.method.electronic': 'Electronic form',
+  'consent.method.verbal': 'Verbal, noted by staff',
+  'consent.date': 'Date given',
+  'consent.research': 'Agrees to de-identified results being shared for research',
+
+  'validation.required': '{feature} is required',
+  'validation.notMeasured': '{feature} was not measured',
+  'validation.outOfRange': '{feature} of {value} {unit} is outside the valid range {min}–{max}',
+  'validation.unusual': '{feature} of {value} {unit} is unusual (typical {min}–{max}); please double-check',
+  'import.studentId': 'Student ID / Name',
+  'import.notNumber': '{feature} of "{value}" is not a number',
+
+  'importUnit.wpm': 'words per minute',
+  'importUnit.wps': 'words per second',
+  'importUnit.ms': 'milliseconds',
+  'importUnit.s': 'seconds',
+  'importUnit.percent': 'percent (0–100)',
+  'importUnit.fraction': 'fraction (0–1)',
+
+  'import.chooseFile': 'Choose CSV, TSV or Excel file',
+  'import.hint': 'Upload a CSV, TSV or Excel file with one row per student; every row is scored',
+  'import.readError': 'Error reading file',
+  'import.example': 'Example format (columns can be mapped after upload; the student id column is optional):',
+  'import.mappingTitle': 'Column Mapping — {file}',
+  'import.notMapped': '— not mapped —',
+  'import.column': 'Column {number}',
+  'import.sourceUnit': 'Unit in the source file',
+  'import.mapMissing': 'Map a column for: {fields}',
+  'import.preview': 'Preview ({rows} rows, {valid} valid, {errors} with errors, {warnings} with warnings)',
+  'import.row': 'Row',
+  'import.missingCell': 'missing',
+  'import.rowErrors': 'Row {row}: {errors}',
+  'import.moreErrors': '…and {count} more rows with errors',
+  'import.groupName': 'Group name (e.g. class and term)',
+  'import.scoreOne': 'Score 1 Valid Row',
+  'import.scoreMany': 'Score {count} Valid Rows',
+
+  'training.modelInUse': 'Prediction model in use:',
+  'training.noModel': 'none',
+  'training.delete': 'Delete trained model',
+  'training.calibrated': 'Risk scores of {profile} are calibrated ({method}, {rows} rows, ROC AUC {auc}, fitted {date}).',
+  'calibration.platt': 'Platt',
+  'calibration.isotonic': 'isotonic',
+  'training.calibratedProbability': 'Calibrated probability',
+  'training.band': '90% band',
+  'training.bandUpper': '90% band (upper)',
+  'training.probabilityAxis': 'P(dyslexia)',
+  'training.chooseFile': 'Choose labeled CSV, TSV or Excel file',
+  'training.hint': 'Upload labeled data: the six measurements plus a dyslexia column of 0 or 1',
+  'training.columns': 'Columns — {file}',
+  'training.label': 'Label (dyslexia)',
+  'training.rows': '{count} labeled rows ({positive} positive, {negative} negative)',
+  'training.skipped': '; {count} skipped for missing or invalid values (rows {rows})',
+  'training.calibrateTitle': 'Calibrate the Heuristic Score — {profile}',
+  'training.isotonic': 'Isotonic regression',
+  'training.platt': 'Platt scaling (sigmoid)',
+  'training.fitCalibration': 'Fit calibration',
+  'training.hyperparameters': 'Split and Hyperparameters',
+  'training.testFraction': 'Test share',
+  'training.epochs': 'Epochs',
+  'training.batchSize': 'Batch size',
+  'training.learningRate': 'Learning rate',
+  'training.hiddenUnits': 'Hidden units (0 = logistic)',
+  'training.seed': 'Random seed',
+  'training.progress': 'Training… epoch {epoch}/{epochs}, loss {loss}',
+  'training.training': 'Training…',
+  'training.train': 'Train Model',
+  'training.failed': 'Training failed',
+  'training.saveFailed': 'Could not save the model',
+  'training.deleteFailed': 'Could not delete the saved model',
+  'training.calibrationFailed': 'Calibration failed',
+  'training.evaluation': 'Evaluation on {test} held-out rows (trained on {train})',
+  'training.saved': 'Saved and in use',
+  'training.save': 'Save and use for predictions',
+  'training.accuracy': 'Accuracy',
+  'training.precision': 'Precision',
+  'training.recall': 'Recall',
+  'training.confusion': 'Confusion Matrix (threshold 0.5)',
+  'training.predictedRisk': 'Predicted risk',
+  'training.predictedNoRisk': 'Predicted no risk',
+  'training.actualDyslexia': 'Actual dyslexia',
+  'training.actualNoDyslexia': 'Actual no dyslexia',
+  'training.roc': 'ROC (AUC {auc})',
+  'training.falsePositiveRate': 'False positive rate',
+  'training.truePositiveRate': 'True positive rate',
+  'training.pr': 'Precision–Recall (AP {ap})',
+  'training.calibration': 'Calibration',
+  'training.meanPredicted': 'Mean predicted probability',
+  'training.observedRate': 'Observed positive rate',
+
+  'short.readingSpeed': 'Reading',
+  'short.fixationDuration': 'Fixation',
+  'short.saccadeLength': 'Saccade',
+  'short.phonemeErrors': 'Phoneme',
+  'short.spellingErrors': 'Spelling',
+  'short.comprehensionScore': 'Compr.',
+
+  'cohort.risk': 'Risk',
+  'cohort.retest': 'Retest',
+  'cohort.low': 'Low risk',
+  'cohort.scored': 'Students scored',
+  'cohort.atRisk': 'At risk',
+  'cohort.errorRows': 'Rows with errors',
+  'cohort.search': 'Filter by student ID or name',
+  'cohort.filterAll': 'All rows',
+  'cohort.filterRisk': 'Risk detected',
+  'cohort.filterIndeterminate': 'Indeterminate (retest)',
+  'cohort.filterLow': 'Low risk',
+  'cohort.filterErrors': 'Errors only',
+  'cohort.student': 'Student',
+  'cohort.prediction': 'Prediction',
+  'cohort.modelProbability': 'Model P',
+  'cohort.issues': 'Issues',
+  'cohort.view': 'View detailed results',
+  'cohort.noMatch': 'No rows match the current filter.',
+
+  'band.low': 'Low ({min}–{max})',
+  'band.retest': 'Retest ({min}–{max})',
+  'band.elevated': 'Elevated ({min}–{max})',
+  'band.high': 'High ({min}–{max})',
+
+  'analytics.empty': 'Import a file to see cohort analytics.',
+  'analytics.students': 'Students',
+  'analytics.groupA': 'Group A',
+  'analytics.groupB': 'Compare with (Group B)',
+  'analytics.noComparison': 'No comparison',
+  'analytics.atRiskOf': 'at risk of {count} scored',
+  'analytics.bands': 'Risk Bands — {name}',
+  'analytics.bandsChart': 'Doughnut chart of students per risk band in {name}',
+  'analytics.bandsCaption': 'Students per risk band — {name}',
+  'analytics.mix': 'Risk Level Mix per Feature',
+  'analytics.mixChart': 'Stacked bar chart of risk levels for each feature',
+  'analytics.mixCaption': 'Students at each risk level per feature',
+  'analytics.share': 'Risk Band Share (%)',
+  'analytics.shareChart': 'Bar chart comparing the share of students per risk band between the groups',
+  'analytics.shareCaption': 'Share of students per risk band (%)',
+  'analytics.distribution': 'Distribution',
+  'analytics.histogram': '{feature} histogram',
+  'analytics.histogramChart': 'Histogram of {feature}',
+  'analytics.histogramCaption': 'Students per {feature} range',
+  'analytics.noValues': 'No values recorded for {feature}.',
+  'analytics.summary': 'Feature Summary',
+  'analytics.feature': 'Feature',
+  'analytics.meanMedian': '{name} mean / median',
+  'analytics.difference': 'Difference (B − A)',
+  'analytics.outliers': 'Outliers — {name}',
+  'analytics.noOutliers': 'No values fall outside 1.5 × IQR of the group.',
+  'analytics.value': 'Value',
+  'analytics.unusually.low': 'unusually low',
+  'analytics.unusually.high': 'unusually high',
+
+  'explain.title': 'Why This Score?',
+  'explain.contribution': 'Contribution to risk score',
+  'explain.waterfall': 'Contribution Waterfall',
+  'explain.waterfallChart': 'Waterfall chart of each measurement\'s contribution to the risk score',
+  'explain.waterfallCaption': 'Running risk score before and after each measurement',
+  'explain.topDrivers': 'Top Drivers',
+  'explain.allLow': 'Every measurement is in the low-risk band.',
+  'explain.measurement': 'Measurement',
+  'explain.points': 'Points',
+  'explain.nextThreshold': 'Next threshold',
+  'explain.notMeasured': 'Not measured',
+  'explain.away': '{value} ({distance} away)',
+  'explain.changes': 'What Would Change the Outcome',
+  'explain.noChanges': 'No single-measurement change would alter this result.',
+  'explain.driverBelow': '{feature} ({value}) is below the {cutOff} cut-off, rated {level} risk and adding {points} of the {score} risk points.',
+  'explain.driverAbove': '{feature} ({value}) is above the {cutOff} cut-off, rated {level} risk and adding {points} of the {score} risk points.',
+  'explain.atLeast': '{feature} of {value} or more',
+  'explain.below': '{feature} below {value}',
+  'explain.atMost': '{feature} of {value} or less',
+  'explain.above': '{feature} above {value}',
+  'explain.lowers': '{change} would move that measure from {from} to {to} and lower the risk score to {score}',
+  'explain.raises': '{change} would move that measure from {from} to {to} and raise the risk score to {score}',
+  'explain.flipsToRisk': ', changing the outcome to risk detected.',
+  'explain.flipsToLow': ', changing the outcome to low risk.',
+
+  'module.reading': 'Timed Reading',
+  'module.spelling': 'Dictation',
+  'module.phoneme': 'Phoneme Segmentation',
+  'module.comprehension': 'Comprehension Quiz',
+  'modules.pack': 'Content pack',
+  'modules.hint': 'Each finished module fills in its measurement. Review or add the remaining values under Manual Input, then analyze.',
+  'modules.useResult': 'Use result',
+  'reading.instructions': 'The passage appears when the timer starts. Ask the student to read it aloud at their normal pace.',
+  'reading.lastWord': 'Last word read',
+  'reading.start': 'Start timer',
+  'reading.stop': 'Stop — student finished',
+  'reading.timing': '{seconds} s for {read} of {total} words',
+  'reading.wpm': '{wpm} words per minute',
+  'reading.markHint': 'Click a word, or use the arrow keys on the passage, to mark where the student stopped.',
+  'reading.retry': 'Retry',
+  'spelling.instructionsSpoken': 'Play each word and have the student type it.',
+  'spelling.instructions': 'Read each word, its sentence and the word again; the student types it.',
+  'spelling.hideWords': 'Hide words',
+  'spelling.showWords': 'Show words (examiner)',
+  'spelling.play': 'Play word',
+  'spelling.playNumber': 'Play word {number}',
+  'spelling.mark': 'Mark spelling',
+  'spelling.errorsOne': '{count} spelling error',
+  'spelling.errorsMany': '{count} spelling errors',
+  'spelling.outOf': 'out of {total} words.',
+  'spelling.edit': 'Edit answers',
+  'phoneme.instructions': 'Say each item and ask the student to break it into its sounds. Click any sound they miss or get wrong. Nonwords test decoding without relying on sight vocabulary.',
+  'phoneme.nonword': 'nonword',
+  'phoneme.errorsOne': '{count} phoneme error',
+  'phoneme.errorsMany': '{count} phoneme errors',
+  'phoneme.outOf': 'out of {total} sounds.',
+  'quiz.instructions': 'Questions about “{title}”. Give this after the timed reading.',
+  'quiz.score': 'Score quiz',
+  'quiz.result': '{score}% correct ({correct} of {total}).',
+
+  'gaze.duration': 'Recording length',
+  'gaze.trackingLoss': 'Tracking loss',
+  'gaze.fixations': 'Fixations',
+  'gaze.meanFixation': 'Mean fixation duration',
+  'gaze.medianFixation': 'Median fixation duration',
+  'gaze.meanSaccade': 'Mean saccade length',
+  'gaze.regressionRate': 'Regression rate',
+  'gaze.fixationsPerSecond': 'Fixations per second',
+  'gaze.scanpathChart': 'Scanpath of {fixations} fixations and {saccades} saccades',
+  'gaze.pixelsPerDegree': 'Pixels per degree',
+  'gaze.velocityThreshold': 'Velocity threshold (°/s)',
+  'gaze.dispersionThreshold': 'Dispersion threshold (°)',
+  'gaze.minFixation': 'Minimum fixation (ms)',
+  'gaze.maxGap': 'Maximum gap (ms)',
+  'gaze.chooseFile': 'Choose gaze sample file',
+  'gaze.fileHint': 'Raw gaze samples with timestamp, x, y and optional validity columns; Tobii and Gazepoint exports and EyeLink .asc files are recognised',
+  'gaze.screenWidth': 'Screen width (px)',
+  'gaze.screenHeight': 'Screen height (px)',
+  'gaze.algorithm': 'Algorithm',
+  'gaze.ivt': 'I-VT (velocity threshold)',
+  'gaze.idt': 'I-DT (dispersion threshold)',
+  'gaze.samples': '{count} samples at {rate} Hz',
+  'gaze.highLoss': 'More than 20% of samples are invalid; the derived values may be unreliable.',
+  'gaze.scanpath': 'Scanpath',
+  'gaze.addStimulus': 'Add stimulus image',
+  'gaze.changeStimulus': 'Change stimulus image',
+  'gaze.scanpathLegend': 'Circles are fixations, sized by duration and numbered in order; orange lines are regressions.',
+  'gaze.apply': 'Use fixation duration and saccade length',
+  'gaze.applied': 'Applied to the measurement form',
+  'gaze.readError': 'Error reading gaze file',
+
+  'webcam.intro': 'Estimates gaze from the webcam with a face and iris landmark model that runs in the browser; no video leaves this device. The student sits about an arm\'s length from the screen, is calibrated on nine dots and then reads “{title}” aloud.',
+  'webcam.startError': 'Error starting the webcam',
+  'webcam.calibrationError': 'Calibration failed',
+  'webcam.loading': 'Loading face model…',
+  'webcam.start': 'Start webcam',
+  'webcam.calibrate': 'Calibrate and record',
+  'webcam.calibrateAgain': 'Calibrate and record again',
+  'webcam.lookAtDot': 'Look at the red dot and keep your head still ({number} of {total}).',
+  'webcam.calibrationResult': 'Calibration error: {error}°',
+  'webcam.readNext': 'Read the passage on the next screen aloud, then press Finished.',
+  'webcam.showPassage': 'Show passage',
+  'webcam.recalibrate': 'Recalibrate',
+  'webcam.finished': 'Finished',
+  'webcam.cancel': 'Cancel',
+  'webcam.quality': 'Data quality {score}/100',
+  'webcam.lowQuality': 'low-quality capture',
+  'webcam.qualityDetail': 'Calibration error {error}°, {rate} frames/s, face tracked in {tracked}% of frames, {onScreen}% of gaze on screen.',
+  'webcam.lowQualityHint': 'Captures scoring under {score} or shorter than 10 seconds are too unreliable to score by default; record again or leave the two measurements unmeasured.',
+  'webcam.leaveUnmeasured': 'Leave fixation and saccade unmeasured',
+  'webcam.useAnyway': 'Use the values anyway',
+  'webcam.issueCalibration': 'Calibration error is {error}°; recalibrate with the head still and the face evenly lit.',
+  'webcam.issueRate': 'Only {rate} frames per second were processed; close other tabs or use a faster device.',
+  'webcam.issueLost': 'The face or eyes were lost in {percent}% of frames.',
+  'webcam.issueOffScreen': '{percent}% of gaze estimates fell off the screen; the student may have moved since calibration.',
+  'webcam.issueShort': 'The recording is shorter than 10 seconds.',
+
+  'profile.active': 'Active scoring profile',
+  'profile.builtInName': '{name} (built-in)',
+  'profile.customName': '{name} (custom)',
+  'profile.invalid': 'Invalid scoring profile',
+  'profile.importError': 'Error importing scoring profile',
+  'profile.import': 'Import',
+  'profile.export': 'Export',
+  'profile.name': 'Profile name',
+  'profile.riskWhen': 'Risk when',
+  'profile.low': 'Low',
+  'profile.high': 'High',
+  'profile.weight': 'Weight',
+  'profile.lower': 'Value is low',
+  'profile.higher': 'Value is high',
+  'profile.saveAsNew': 'Save as New Profile',
+  'profile.save': 'Save Profile',
+  'profile.delete': 'Delete',
+
+  'report.heading': 'Dyslexia Screening Report',
+  'report.student': 'Student',
+  'report.notSpecified': 'Not specified',
+  'report.date': 'Date',
+  'report.profile': 'Scoring profile',
+  'report.result': 'Result',
+  'report.margin': 'Decision margin',
+  'report.modelProbability': 'Model probability of dyslexia',
+  'report.measurements': 'Measurements and Risk Levels',
+  'report.risk': 'Risk',
+  'report.charts': 'Charts',
+  'report.disclaimerTitle': 'Disclaimer',
+  'report.disclaimer': 'This report is a screening aid, not a diagnosis. Results are based on a limited set of measurements and should be interpreted by a qualified professional together with a full educational and clinical assessment.',
+
+  'students.addError': 'Could not add student',
+  'students.consentError': 'Could not record consent',
+  'students.featureChart': 'Line chart of {feature} by assessment date',
+  'students.featureCaption': '{feature} by assessment date',
+  'students.none': 'No saved students yet',
+  'students.select': 'Select a student',
+  'students.optionOne': '{name} ({count} assessment)',
+  'students.optionMany': '{name} ({count} assessments)',
+  'students.confirmDelete': 'Delete {name} and all saved assessments?',
+  'students.consentResearch': 'Consent from {guardian} ({relationship}) on {date}, including research sharing; recorded by {recordedBy}.',
+  'students.consentNoResearch': 'Consent from {guardian} ({relationship}) on {date}, not including research sharing; recorded by {recordedBy}.',
+  'students.consentMissing': '{name} was saved before consent was required. Record guardian consent before adding assessments.',
+  'students.recordConsent': 'Record Consent',
+  'students.newName': 'New student name or ID',
+  'students.add': 'Add Student',
+  'students.noAssessments': 'No assessments saved for {name} yet. Run an analysis and save it from the Results tab.',
+  'students.riskChart': 'Line chart of the overall risk score by assessment date',
+  'students.riskCaption': 'Overall risk score by assessment date',
+  'students.goals': 'Intervention Goals (plan of {date})',
+  'students.latest': '{level} risk on {date} ({value}, baseline {baseline})',
+  'students.changes': 'Change Since Last Assessment',
+  'students.moved': 'Moved from {from} to {to}',
+  'goalStatus.met': 'Met',
+  'goalStatus.in-progress': 'In progress',
+  'goalStatus.overdue': 'Not met by review date',
+  'goalStatus.not-assessed': 'Not yet reassessed',
+
+  'library.or': ' or ',
+  'library.and': ' and ',
+  'library.always': 'always',
+  'library.decisionIs': 'decision is {decisions}',
+  'library.featureIs': '{feature} is {levels}',
+  'library.invalid': 'Invalid intervention library',
+  'library.importError': 'Error importing intervention library',
+  'library.intro': 'Rules pick interventions from the library by decision and per-feature risk level. Edits are stored in this browser.',
+  'library.confirmReset': 'Replace the library with the built-in defaults?',
+  'library.reset': 'Reset',
+  'library.interventions': 'Interventions',
+  'library.name': 'Name',
+  'library.delete': 'Delete {name}',
+  'library.description': 'Description',
+  'library.category': 'Category',
+  'library.intensity': 'Intensity',
+  'library.evidence': 'Evidence',
+  'library.minAge': 'Minimum age',
+  'library.maxAge': 'Maximum age',
+  'library.goal': 'Goal:',
+  'library.goalFeature': 'Goal feature',
+  'library.noGoal': 'None',
+  'library.reaches': 'reaches',
+  'library.goalLevel': 'Goal risk level',
+  'library.goalLow': 'Low risk',
+  'library.goalMedium': 'Medium risk or better',
+  'library.within': 'within',
+  'library.goalWeeks': 'Goal weeks',
+  'library.weeks': 'weeks',
+  'library.newName': 'New intervention',
+  'library.add': 'Add intervention',
+  'library.rules': 'Rules',
+  'library.when': 'When',
+  'library.reasonShown': 'Reason shown',
+  'library.adds': 'Adds',
+  'library.priority': 'Priority',
+  'library.reason': 'Reason',
+  'library.deleteRule': 'Delete rule',
+  'library.rulesHint': 'To add rules or change their conditions, export the library, edit the JSON and import it again.',
+  'library.save': 'Save Library',
+
+  'vault.reset': 'Reset vault (deletes encrypted records)',
+  'vault.confirmReset': 'Delete every student record and the audit log on this device, and set a new passphrase? This cannot be undone.',
+  'vault.resetFailed': 'Could not reset the vault',
+
+  'audit.view': 'Viewed',
+  'audit.create': 'Created',
+  'audit.update': 'Updated',
+  'audit.delete': 'Deleted',
+  'audit.report': 'Report',
+  'audit.export': 'Exported',
+  'audit.reset': 'Reset',
+
+  'privacy.exportTitle': 'De-identified Export',
+  'privacy.exportIntro': 'One CSV row per assessment for research sharing. Names, consent details and record ids are dropped, each student gets a pseudonymous id, and each student\'s dates are shifted by the same random number of days. Only students whose guardian agreed to research sharing are included ({consenting} of {total}).',
+  'privacy.studyKey': 'Study key (optional)',
+  'privacy.studyKeyHint': 'Reuse the same key to give students the same pseudonyms in later exports. Keep it from the recipients.',
+  'privacy.maxShift': 'Shift dates by up to (days)',
+  'privacy.export': 'Export De-identified CSV',
+  'privacy.exportFailed': 'Could not export',
+  'privacy.exported': 'Exported {assessments} of {students}.',
+  'privacy.assessmentsOne': '{count} assessment',
+  'privacy.assessmentsMany': '{count} assessments',
+  'privacy.studentsOne': '{count} student',
+  'privacy.studentsMany': '{count} students',
+  'privacy.excluded': '{count} left out without research consent.',
+  'privacy.auditTitle': 'Audit Log',
+  'privacy.downloadCsv': 'Download CSV',
+  'privacy.auditEmpty': 'No student records have been viewed, changed or exported yet.',
+  'privacy.when': 'When',
+  'privacy.who': 'Who',
+  'privacy.action': 'Action',
+  'privacy.students': 'Students',
+  'privacy.detail': 'Detail',
+
+  'engine.notInstalled': 'No model is installed, so results use the heuristic. Run python src/train.py to export one, or train one in the Training tab.',
+
+  'modules.scaled': 'Spelling and phoneme errors are scaled to the test length the scoring profile assumes: {words} words and {phonemes} phonemes.',
+
+  'training.calibrationCaption': 'Calibrated probability and 90% band by risk score',
+
+  'chart.range': '{from} to {to}',
+
+  'error.auditLog': 'Could not write the audit log',
+  'auditDetail.consent': 'Guardian consent recorded',
+  'auditDetail.assessment': 'Assessment of {date} saved',
+  'auditDetail.cohort': 'Cohort assessments of {date} saved',
+  'auditDetail.pdf': 'PDF report for "{student}"',
+  'auditDetail.print': 'Printed report for "{student}"',
+  'auditDetail.deidentified': 'De-identified CSV, {count} assessments',
+  'auditDetail.reset': 'Every student record and the previous audit log were deleted at {at} to set a new passphrase',
+  'report.unlockFirst': 'Unlock student records on the Students tab to put a name on the report. Every named report is recorded in the audit log.'
+};
+
+const en: Locale = {
+  code: 'en',
+  name: 'English',
+  messages,
+  // Opaque orthography: decoding and spelling errors stay common well into
+  // the primary years, so they carry as much weight as reading speed.
+  norms: [
+    {
+      id: 'default',
+      name: 'Default',
+      description: 'Original general-purpose cut-offs',
+      values: {
+        readingSpeed: [50, 80, 0.25],
+        fixationDuration: [300, 400, 0.15],
+        saccadeLength: [20, 35, 0.15],
+        phonemeErrors: [8, 12, 0.20],
+        spellingErrors: [5, 10, 0.15],
+        comprehensionScore: [60, 80, 0.10]
+      }
+    },
+    {
+      id: 'grades-1-2',
+      name: 'Grades 1–2',
+      description: 'Early readers; slower reading and longer fixations are expected',
+      gradeBand: '1-2',
+      values: {
+        readingSpeed: [30, 60, 0.20],
+        fixationDuration: [350, 450, 0.10],
+        saccadeLength: [15, 28, 0.10],
+        phonemeErrors: [10, 15, 0.30],
+        spellingErrors: [7, 12, 0.20],
+        comprehensionScore: [55, 75, 0.10]
+      }
+    },
+    {
+      id: 'grades-3-5',
+      name: 'Grades 3–5',
+      description: 'Transition from decoding to fluent reading',
+      gradeBand: '3-5',
+      values: {
+        readingSpeed: [70, 100, 0.25],
+        fixationDuration: [300, 400, 0.15],
+        saccadeLength: [20, 35, 0.15],
+        phonemeErrors: [8, 12, 0.20],
+        spellingErrors: [5, 10, 0.15],
+        comprehensionScore: [60, 80, 0.10]
+      }
+    },
+    {
+      id: 'grades-6-8',
+      name: 'Grades 6–8',
+      description: 'Fluent readers; comprehension carries more weight',
+      gradeBand: '6-8',
+      values: {
+        readingSpeed: [100, 130, 0.25],
+        fixationDuration: [250, 350, 0.15],
+        saccadeLength: [25, 40, 0.15],
+        phonemeErrors: [5, 9, 0.15],
+        spellingErrors: [3, 7, 0.15],
+        comprehensionScore: [65, 85, 0.15]
+      }
+    }
+  ]
+};
+
+export default en;
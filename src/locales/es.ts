@@ -0,0 +1,770 @@
+import type { Locale } from '../lib/i18n';
+
+const es: Locale = {
+  code: 'es',
+  name: 'Español',
+  messages: {
+    'app.title': 'Sistema de Detección de Dislexia',
+    'app.readingSettings': 'Ajustes de lectura',
+    'app.language': 'Idioma',
+    'app.sections': 'Secciones',
+    'app.lock': 'Bloquear los expedientes',
+
+    'tab.input': 'Datos',
+    'tab.results': 'Resultados',
+    'tab.cohort': 'Grupo',
+    'tab.analytics': 'Análisis',
+    'tab.students': 'Alumnos',
+    'tab.profiles': 'Puntuación',
+    'tab.training': 'Entrenamiento',
+    'tab.interventions': 'Intervenciones',
+    'tab.privacy': 'Privacidad',
+
+    'feature.readingSpeed': 'Velocidad lectora',
+    'feature.fixationDuration': 'Duración de las fijaciones',
+    'feature.saccadeLength': 'Longitud de los movimientos sacádicos',
+    'feature.phonemeErrors': 'Errores fonológicos',
+    'feature.spellingErrors': 'Errores ortográficos',
+    'feature.comprehensionScore': 'Comprensión',
+
+    'unit.readingSpeed': 'ppm',
+    'unit.fixationDuration': 'ms',
+    'unit.saccadeLength': 'px',
+    'unit.phonemeErrors': 'errores',
+    'unit.spellingErrors': 'errores',
+    'unit.comprehensionScore': '%',
+
+    'decision.risk': 'Riesgo de dislexia detectado',
+    'decision.indeterminate': 'Indeterminado: se recomienda repetir la prueba',
+    'decision.low': 'Riesgo de dislexia bajo',
+
+    'level.High': 'Alto',
+    'level.Medium': 'Medio',
+    'level.Low': 'Bajo',
+    'level.Missing': 'Sin medir',
+
+    'input.profile': 'Perfil de puntuación',
+    'input.method': 'Método de entrada',
+    'input.manual': 'Entrada manual',
+    'input.tests': 'Pruebas',
+    'input.gaze': 'Seguimiento ocular',
+    'input.webcam': 'Mirada por cámara web',
+    'input.csv': 'Importar archivo',
+    'input.currentMeasurements': 'Mediciones actuales',
+
+    'form.notMeasured': 'Sin medir',
+    'form.missing': 'Sin medir: no cuenta en la puntuación',
+    'form.missingOne': 'Falta 1 medición; el resultado se calculará con el resto y con menor confianza.',
+    'form.missingMany': 'Faltan {count} mediciones; el resultado se calculará con el resto y con menor confianza.',
+    'form.analyze': 'Analizar datos',
+
+    'chart.measurementValues': 'Valores medidos',
+    'chart.currentValues': 'Valores actuales',
+    'chart.measurementsLabel': 'Gráfico de barras de los valores medidos',
+    'chart.riskProfile': 'Perfil de riesgo',
+    'chart.riskProfileLabel': 'Gráfico radial del nivel de riesgo de cada medición',
+    'chart.riskProfileCaption': 'Nivel de riesgo por medición: 3 alto, 2 medio, 1 bajo, 0 sin medir',
+    'chart.riskScore': 'Puntuación de riesgo',
+    'chart.safeZone': 'Zona segura',
+    'chart.gaugeLabel': 'Indicador de la puntuación de riesgo global, {score} sobre 10',
+    'chart.gaugeCaption': 'Puntuación de riesgo global sobre 10',
+    'chart.showTable': 'Mostrar tabla de datos',
+    'chart.value': 'Valor',
+
+    'results.riskAnalysis': 'Análisis de riesgo',
+    'results.overallRiskScore': 'Puntuación de riesgo global',
+    'results.riskScore': 'Puntuación de riesgo',
+    'results.notMeasured': 'Sin medir: {features}. Calculado con las mediciones restantes y con un margen de decisión menor ({margin}%).',
+    'results.lowQualityGaze': 'La duración de las fijaciones y la longitud de los sacádicos proceden de una captura por cámara web de baja calidad (calidad {score}/100); repita la prueba antes de basarse en ellas.',
+    'results.detailedAnalysis': 'Análisis detallado:',
+    'results.spoken': '{decision}. Puntuación de riesgo: {score} sobre 10.',
+    'results.readAloud': 'Leer en voz alta',
+
+    'engine.title': 'Motores de predicción',
+    'engine.heuristic': 'Heurístico',
+    'engine.model': 'Modelo',
+    'engine.heuristicTitle': 'Heurístico (umbrales ponderados)',
+    'engine.riskScore': 'Puntuación de riesgo',
+    'engine.margin': '{decision} · margen de decisión del {margin}%',
+    'engine.calibrated': '{decision} · probabilidad calibrada {probability}',
+    'engine.modelTitle': 'Modelo ({name})',
+    'engine.probability': 'Probabilidad de dislexia',
+    'engine.riskDetected': 'Riesgo detectado',
+    'engine.lowRisk': 'Riesgo bajo',
+    'engine.unavailable': 'Modelo no disponible: {error}. Exporte uno con src/train.py o entrénelo en la pestaña Entrenamiento.',
+    'engine.needsAll': 'El modelo necesita todas las mediciones y a este resultado le faltan valores.',
+    'engine.loading': 'Cargando el modelo…',
+
+    'decisionPanel.title': 'Decisión e incertidumbre',
+    'decisionPanel.rangeStraddles': 'Las mediciones que faltan podrían situar la puntuación entre {low} y {high}, a cualquier lado del umbral de {threshold}.',
+    'decisionPanel.withinMargin': 'La puntuación de {score} está a menos de {margin} del umbral de {threshold}.',
+    'decisionPanel.retest': 'Repita la prueba, a ser posible con todas las mediciones, antes de actuar según este resultado.',
+    'decisionPanel.calibrated': 'Probabilidad calibrada de dislexia',
+    'decisionPanel.interval': 'intervalo del 90 %: {lower}–{upper}',
+    'decisionPanel.fitted': 'ajustada con {count} filas etiquetadas ({method})',
+    'decisionPanel.notCalibrated': 'Este perfil de puntuación no está calibrado, por lo que la puntuación de riesgo no puede leerse como una probabilidad. Ajuste una calibración con datos etiquetados en la pestaña Entrenamiento.',
+    'decisionPanel.operatingPoint': 'Punto de corte',
+    'decisionPanel.optionRates': 'Sensibilidad {sensitivity}, especificidad {specificity}',
+    'decisionPanel.threshold': 'Umbral de la puntuación de riesgo: {value}',
+    'decisionPanel.thresholdValue': '{value} sobre 10',
+    'decisionPanel.margin': 'Banda indeterminada: ± {value}',
+    'decisionPanel.marginValue': 'más o menos {value}',
+    'decisionPanel.rates': 'Con los datos de calibración, este umbral da una sensibilidad del {sensitivity} y una especificidad del {specificity}.',
+    'operatingPoint.balanced': 'Equilibrado',
+    'operatingPoint.sensitive': 'Sensibilidad ≥ {rate} %',
+    'operatingPoint.specific': 'Especificidad ≥ {rate} %',
+
+    'save.title': 'Guardar en el expediente del alumno',
+    'save.newStudent': 'Nuevo alumno…',
+    'save.studentName': 'Nombre o identificador del alumno',
+    'save.submit': 'Guardar evaluación',
+    'save.chooseStudent': 'Elija un alumno o escriba un nombre nuevo.',
+    'save.saved': 'Evaluación guardada.',
+    'save.failed': 'No se pudo guardar la evaluación',
+
+    'report.title': 'Informe de cribado',
+    'report.pdf': 'Descargar PDF',
+    'report.print': 'Imprimir',
+
+    'plan.title': 'Plan de intervención',
+    'plan.age': 'Edad del alumno (años)',
+    'plan.anyAge': 'Cualquiera',
+    'plan.evidence': 'Evidencia {grade}',
+    'plan.ages': 'de {min} a {max} años',
+    'plan.why': 'Motivo: {reasons}.',
+    'plan.goals': 'Objetivos',
+    'plan.goal': '{feature}: de riesgo {from} a riesgo {to} o mejor antes del {date}',
+    'plan.trackGoals': 'Guarde esta evaluación en el expediente de un alumno para seguir los objetivos en evaluaciones posteriores.',
+    'plan.excluded': 'Fuera del rango de edad y excluidas: {names}.',
+    'tier.immediate': 'Acciones inmediatas',
+    'tier.core': 'Intervenciones principales',
+    'tier.supplementary': 'Apoyo complementario',
+    'evidence.strong': 'A — varios ensayos aleatorizados o metaanálisis',
+    'evidence.moderate': 'B — estudios controlados o cuasiexperimentales',
+    'evidence.emerging': 'C — estudios pequeños o no controlados',
+    'evidence.consensus': 'D — consenso profesional',
+    'category.assessment': 'Evaluación',
+    'category.phonological': 'Conciencia fonológica',
+    'category.decoding': 'Decodificación',
+    'category.fluency': 'Fluidez',
+    'category.spelling': 'Ortografía',
+    'category.comprehension': 'Comprensión',
+    'category.visual': 'Visión y movimientos oculares',
+    'category.accommodation': 'Adaptaciones',
+    'category.monitoring': 'Seguimiento',
+    'intensity.low': 'Baja (menos de 1 hora a la semana)',
+    'intensity.moderate': 'Moderada (1–2 horas a la semana)',
+    'intensity.high': 'Alta (sesiones diarias)',
+
+    'cohort.save': 'Guardar las filas puntuadas en los expedientes ({date})',
+    'cohort.skipped': 'No se han guardado porque no hay expediente con consentimiento del tutor: {names}.',
+
+    'error.loadModel': 'No se pudo cargar el modelo',
+    'error.loadStudents': 'No se pudieron cargar los expedientes de los alumnos',
+    'error.noStudentRows': 'No hay filas con identificador de alumno que guardar.',
+
+    'settings.title': 'Ajustes de lectura',
+    'settings.reset': 'Restablecer',
+    'settings.font': 'Tipo de letra',
+    'settings.fontDefault': 'Predeterminado',
+    'settings.lineLength': 'Longitud de línea',
+    'settings.lineFull': 'Ancho completo',
+    'settings.lineWide': 'Unos 80 caracteres',
+    'settings.lineNarrow': 'Unos 60 caracteres',
+    'settings.textSize': 'Tamaño del texto',
+    'settings.lineSpacing': 'Interlineado',
+    'settings.default': 'Predeterminado',
+    'settings.letterSpacing': 'Espacio entre letras',
+    'settings.wordSpacing': 'Espacio entre palabras',
+    'settings.normal': 'Normal',
+    'settings.overlay': 'Filtro de color',
+    'overlay.none': 'Sin filtro',
+    'overlay.cream': 'Crema',
+    'overlay.yellow': 'Amarillo',
+    'overlay.blue': 'Azul',
+    'overlay.green': 'Verde',
+    'overlay.rose': 'Rosa',
+    'overlay.grey': 'Gris',
+    'settings.speech': 'Leer en voz alta las instrucciones y los resultados',
+    'settings.speechRate': 'Velocidad de la voz',
+    'settings.trySpeech': 'Probar la velocidad de la voz',
+    'settings.speechSample': 'Así se leerán en voz alta las instrucciones.',
+    'settings.noSpeech': 'Este navegador no admite la síntesis de voz.',
+
+    'vault.createTitle': 'Proteger los expedientes',
+    'vault.createIntro': 'Los expedientes se cifran en este dispositivo con una frase de contraseña de al menos {min} caracteres. No se puede recuperar: sin ella no se pueden leer los expedientes guardados.',
+    'vault.unlockTitle': 'Desbloquear los expedientes',
+    'vault.unlockIntro': 'Introduzca la frase de contraseña para descifrar los expedientes guardados en este dispositivo.',
+    'vault.actor': 'Su nombre',
+    'vault.actorHint': 'Se anota en el registro de auditoría por cada expediente que consulte, modifique o exporte.',
+    'vault.passphrase': 'Frase de contraseña',
+    'vault.confirm': 'Confirmar la frase de contraseña',
+    'vault.mismatch': 'Las frases de contraseña no coinciden.',
+    'vault.nameRequired': 'Escriba su nombre.',
+    'vault.create': 'Guardar la frase de contraseña',
+    'vault.unlock': 'Desbloquear',
+    'vault.working': 'Derivando la clave…',
+    'vault.failed': 'No se pudieron desbloquear los expedientes',
+
+    'consent.title': 'Consentimiento del tutor',
+    'consent.required': 'Solo se puede guardar a un alumno con nombre si su madre, padre o tutor ha dado su consentimiento.',
+    'consent.guardianName': 'Nombre de la madre, el padre o el tutor',
+    'consent.relationship': 'Relación con el alumno',
+    'consent.method': 'Forma del consentimiento',
+    'consent.method.signed-form': 'Formulario firmado',
+    'consent.method.electronic': 'Formulario electrónico',
+    'consent.method.verbal': 'Verbal, anotado por el personal',
+    'consent.date': 'Fecha',
+    'consent.research': 'Acepta que los resultados anonimizados se compartan con fines de investigación',
+
+    'validation.required': '{feature}: dato obligatorio',
+    'validation.notMeasured': '{feature}: sin medir',
+    'validation.outOfRange': '{feature} de {value} {unit} está fuera del rango válido {min}–{max}',
+    'validation.unusual': '{feature} de {value} {unit} es poco habitual (lo típico es {min}–{max}); compruébelo',
+    'import.studentId': 'ID o nombre del alumno',
+    'import.notNumber': '{feature}: «{value}» no es un número',
+
+    'importUnit.wpm': 'palabras por minuto',
+    'importUnit.wps': 'palabras por segundo',
+    'importUnit.ms': 'milisegundos',
+    'importUnit.s': 'segundos',
+    'importUnit.percent': 'porcentaje (0–100)',
+    'importUnit.fraction': 'fracción (0–1)',
+
+    'import.chooseFile': 'Elegir un archivo CSV, TSV o Excel',
+    'import.hint': 'Suba un archivo CSV, TSV o Excel con una fila por alumno; se puntúan todas las filas',
+    'import.readError': 'No se pudo leer el archivo',
+    'import.example': 'Formato de ejemplo (las columnas se asignan tras subir el archivo; la columna del alumno es opcional):',
+    'import.mappingTitle': 'Asignación de columnas: {file}',
+    'import.notMapped': '— sin asignar —',
+    'import.column': 'Columna {number}',
+    'import.sourceUnit': 'Unidad en el archivo de origen',
+    'import.mapMissing': 'Asigne una columna a: {fields}',
+    'import.preview': 'Vista previa ({rows} filas: {valid} válidas, {errors} con errores, {warnings} con avisos)',
+    'import.row': 'Fila',
+    'import.missingCell': 'vacío',
+    'import.rowErrors': 'Fila {row}: {errors}',
+    'import.moreErrors': '…y {count} filas más con errores',
+    'import.groupName': 'Nombre del grupo (p. ej., clase y trimestre)',
+    'import.scoreOne': 'Puntuar 1 fila válida',
+    'import.scoreMany': 'Puntuar {count} filas válidas',
+
+    'training.modelInUse': 'Modelo de predicción en uso:',
+    'training.noModel': 'ninguno',
+    'training.delete': 'Eliminar el modelo entrenado',
+    'training.calibrated': 'Las puntuaciones de riesgo de {profile} están calibradas ({method}, {rows} filas, ROC AUC {auc}, ajuste del {date}).',
+    'calibration.platt': 'Platt',
+    'calibration.isotonic': 'isotónica',
+    'training.calibratedProbability': 'Probabilidad calibrada',
+    'training.band': 'Banda del 90 %',
+    'training.bandUpper': 'Banda del 90 % (superior)',
+    'training.probabilityAxis': 'P(dislexia)',
+    'training.chooseFile': 'Elegir un archivo CSV, TSV o Excel etiquetado',
+    'training.hint': 'Suba datos etiquetados: las seis mediciones y una columna dyslexia con 0 o 1',
+    'training.columns': 'Columnas: {file}',
+    'training.label': 'Etiqueta (dislexia)',
+    'training.rows': '{count} filas etiquetadas ({positive} positivas, {negative} negativas)',
+    'training.skipped': '; {count} omitidas por valores ausentes o no válidos (filas {rows})',
+    'training.calibrateTitle': 'Calibrar la puntuación heurística: {profile}',
+    'training.isotonic': 'Regresión isotónica',
+    'training.platt': 'Escalado de Platt (sigmoide)',
+    'training.fitCalibration': 'Ajustar la calibración',
+    'training.hyperparameters': 'División e hiperparámetros',
+    'training.testFraction': 'Proporción de prueba',
+    'training.epochs': 'Épocas',
+    'training.batchSize': 'Tamaño del lote',
+    'training.learningRate': 'Tasa de aprendizaje',
+    'training.hiddenUnits': 'Unidades ocultas (0 = logística)',
+    'training.seed': 'Semilla aleatoria',
+    'training.progress': 'Entrenando… época {epoch}/{epochs}, pérdida {loss}',
+    'training.training': 'Entrenando…',
+    'training.train': 'Entrenar el modelo',
+    'training.failed': 'El entrenamiento falló',
+    'training.saveFailed': 'No se pudo guardar el modelo',
+    'training.deleteFailed': 'No se pudo eliminar el modelo guardado',
+    'training.calibrationFailed': 'La calibración falló',
+    'training.evaluation': 'Evaluación con {test} filas reservadas (entrenado con {train})',
+    'training.saved': 'Guardado y en uso',
+    'training.save': 'Guardar y usar para las predicciones',
+    'training.accuracy': 'Exactitud',
+    'training.precision': 'Precisión',
+    'training.recall': 'Exhaustividad',
+    'training.confusion': 'Matriz de confusión (umbral 0,5)',
+    'training.predictedRisk': 'Riesgo predicho',
+    'training.predictedNoRisk': 'Sin riesgo predicho',
+    'training.actualDyslexia': 'Dislexia real',
+    'training.actualNoDyslexia': 'Sin dislexia real',
+    'training.roc': 'ROC (AUC {auc})',
+    'training.falsePositiveRate': 'Tasa de falsos positivos',
+    'training.truePositiveRate': 'Tasa de verdaderos positivos',
+    'training.pr': 'Precisión–exhaustividad (AP {ap})',
+    'training.calibration': 'Calibración',
+    'training.meanPredicted': 'Probabilidad media predicha',
+    'training.observedRate': 'Tasa de positivos observada',
+
+    'short.readingSpeed': 'Lectura',
+    'short.fixationDuration': 'Fijación',
+    'short.saccadeLength': 'Sacádico',
+    'short.phonemeErrors': 'Fonemas',
+    'short.spellingErrors': 'Ortografía',
+    'short.comprehensionScore': 'Compr.',
+
+    'cohort.risk': 'Riesgo',
+    'cohort.retest': 'Repetir',
+    'cohort.low': 'Riesgo bajo',
+    'cohort.scored': 'Alumnos puntuados',
+    'cohort.atRisk': 'En riesgo',
+    'cohort.errorRows': 'Filas con errores',
+    'cohort.search': 'Filtrar por ID o nombre del alumno',
+    'cohort.filterAll': 'Todas las filas',
+    'cohort.filterRisk': 'Riesgo detectado',
+    'cohort.filterIndeterminate': 'Indeterminado (repetir)',
+    'cohort.filterLow': 'Riesgo bajo',
+    'cohort.filterErrors': 'Solo errores',
+    'cohort.student': 'Alumno',
+    'cohort.prediction': 'Predicción',
+    'cohort.modelProbability': 'P del modelo',
+    'cohort.issues': 'Incidencias',
+    'cohort.view': 'Ver los resultados detallados',
+    'cohort.noMatch': 'Ninguna fila coincide con el filtro.',
+
+    'band.low': 'Bajo ({min}–{max})',
+    'band.retest': 'Repetir prueba ({min}–{max})',
+    'band.elevated': 'Elevado ({min}–{max})',
+    'band.high': 'Alto ({min}–{max})',
+
+    'analytics.empty': 'Importe un archivo para ver el análisis del grupo.',
+    'analytics.students': 'Alumnos',
+    'analytics.groupA': 'Grupo A',
+    'analytics.groupB': 'Comparar con (grupo B)',
+    'analytics.noComparison': 'Sin comparación',
+    'analytics.atRiskOf': 'en riesgo de {count} puntuados',
+    'analytics.bands': 'Bandas de riesgo — {name}',
+    'analytics.bandsChart': 'Gráfico de anillo de alumnos por banda de riesgo en {name}',
+    'analytics.bandsCaption': 'Alumnos por banda de riesgo — {name}',
+    'analytics.mix': 'Niveles de riesgo por medida',
+    'analytics.mixChart': 'Gráfico de barras apiladas de los niveles de riesgo de cada medida',
+    'analytics.mixCaption': 'Alumnos en cada nivel de riesgo por medida',
+    'analytics.share': 'Proporción por banda de riesgo (%)',
+    'analytics.shareChart': 'Gráfico de barras que compara la proporción de alumnos por banda de riesgo entre los grupos',
+    'analytics.shareCaption': 'Proporción de alumnos por banda de riesgo (%)',
+    'analytics.distribution': 'Distribución',
+    'analytics.histogram': 'Histograma de {feature}',
+    'analytics.histogramChart': 'Histograma de {feature}',
+    'analytics.histogramCaption': 'Alumnos por intervalo de {feature}',
+    'analytics.noValues': 'No hay valores registrados de {feature}.',
+    'analytics.summary': 'Resumen de medidas',
+    'analytics.feature': 'Medida',
+    'analytics.meanMedian': '{name} media / mediana',
+    'analytics.difference': 'Diferencia (B − A)',
+    'analytics.outliers': 'Valores atípicos — {name}',
+    'analytics.noOutliers': 'Ningún valor queda fuera de 1,5 × RIC del grupo.',
+    'analytics.value': 'Valor',
+    'analytics.unusually.low': 'inusualmente bajo',
+    'analytics.unusually.high': 'inusualmente alto',
+
+    'explain.title': '¿Por qué esta puntuación?',
+    'explain.contribution': 'Aportación a la puntuación de riesgo',
+    'explain.waterfall': 'Cascada de aportaciones',
+    'explain.waterfallChart': 'Gráfico de cascada de la aportación de cada medida a la puntuación de riesgo',
+    'explain.waterfallCaption': 'Puntuación de riesgo acumulada antes y después de cada medida',
+    'explain.topDrivers': 'Factores principales',
+    'explain.allLow': 'Todas las medidas están en la banda de riesgo bajo.',
+    'explain.measurement': 'Medida',
+    'explain.points': 'Puntos',
+    'explain.nextThreshold': 'Siguiente umbral',
+    'explain.notMeasured': 'Sin medir',
+    'explain.away': '{value} (a {distance})',
+    'explain.changes': 'Qué cambiaría el resultado',
+    'explain.noChanges': 'Ningún cambio en una sola medida alteraría este resultado.',
+    'explain.driverBelow': '{feature} ({value}) está por debajo del punto de corte de {cutOff}, con riesgo {level}, y aporta {points} de los {score} puntos de riesgo.',
+    'explain.driverAbove': '{feature} ({value}) está por encima del punto de corte de {cutOff}, con riesgo {level}, y aporta {points} de los {score} puntos de riesgo.',
+    'explain.atLeast': '{feature} de {value} o más',
+    'explain.below': '{feature} por debajo de {value}',
+    'explain.atMost': '{feature} de {value} o menos',
+    'explain.above': '{feature} por encima de {value}',
+    'explain.lowers': '{change} llevaría esa medida de {from} a {to} y bajaría la puntuación de riesgo a {score}',
+    'explain.raises': '{change} llevaría esa medida de {from} a {to} y subiría la puntuación de riesgo a {score}',
+    'explain.flipsToRisk': ', y el resultado pasaría a riesgo detectado.',
+    'explain.flipsToLow': ', y el resultado pasaría a riesgo bajo.',
+
+    'module.reading': 'Lectura cronometrada',
+    'module.spelling': 'Dictado',
+    'module.phoneme': 'Segmentación fonémica',
+    'module.comprehension': 'Cuestionario de comprensión',
+    'modules.pack': 'Paquete de contenido',
+    'modules.hint': 'Cada módulo terminado rellena su medida. Revise o añada los valores restantes en Entrada manual y después analice.',
+    'modules.useResult': 'Usar resultado',
+    'reading.instructions': 'El texto aparece al iniciar el cronómetro. Pida al alumno que lo lea en voz alta a su ritmo habitual.',
+    'reading.lastWord': 'Última palabra leída',
+    'reading.start': 'Iniciar cronómetro',
+    'reading.stop': 'Detener — el alumno ha terminado',
+    'reading.timing': '{seconds} s para {read} de {total} palabras',
+    'reading.wpm': '{wpm} palabras por minuto',
+    'reading.markHint': 'Haga clic en una palabra, o use las flechas sobre el texto, para marcar dónde se detuvo el alumno.',
+    'reading.retry': 'Repetir',
+    'spelling.instructionsSpoken': 'Reproduzca cada palabra y pida al alumno que la escriba.',
+    'spelling.instructions': 'Lea cada palabra, su frase y otra vez la palabra; el alumno la escribe.',
+    'spelling.hideWords': 'Ocultar palabras',
+    'spelling.showWords': 'Mostrar palabras (evaluador)',
+    'spelling.play': 'Reproducir palabra',
+    'spelling.playNumber': 'Reproducir la palabra {number}',
+    'spelling.mark': 'Corregir ortografía',
+    'spelling.errorsOne': '{count} error de ortografía',
+    'spelling.errorsMany': '{count} errores de ortografía',
+    'spelling.outOf': 'de {total} palabras.',
+    'spelling.edit': 'Editar respuestas',
+    'phoneme.instructions': 'Diga cada elemento y pida al alumno que lo separe en sus sonidos. Haga clic en los sonidos que omita o diga mal. Las pseudopalabras evalúan la decodificación sin apoyarse en el vocabulario visual.',
+    'phoneme.nonword': 'pseudopalabra',
+    'phoneme.errorsOne': '{count} error fonémico',
+    'phoneme.errorsMany': '{count} errores fonémicos',
+    'phoneme.outOf': 'de {total} sonidos.',
+    'quiz.instructions': 'Preguntas sobre «{title}». Aplíquelo después de la lectura cronometrada.',
+    'quiz.score': 'Puntuar cuestionario',
+    'quiz.result': '{score}% de aciertos ({correct} de {total}).',
+
+    'gaze.duration': 'Duración de la grabación',
+    'gaze.trackingLoss': 'Pérdida de seguimiento',
+    'gaze.fixations': 'Fijaciones',
+    'gaze.meanFixation': 'Duración media de fijación',
+    'gaze.medianFixation': 'Duración mediana de fijación',
+    'gaze.meanSaccade': 'Longitud media de sacádico',
+    'gaze.regressionRate': 'Tasa de regresiones',
+    'gaze.fixationsPerSecond': 'Fijaciones por segundo',
+    'gaze.scanpathChart': 'Recorrido visual de {fixations} fijaciones y {saccades} sacádicos',
+    'gaze.pixelsPerDegree': 'Píxeles por grado',
+    'gaze.velocityThreshold': 'Umbral de velocidad (°/s)',
+    'gaze.dispersionThreshold': 'Umbral de dispersión (°)',
+    'gaze.minFixation': 'Fijación mínima (ms)',
+    'gaze.maxGap': 'Hueco máximo (ms)',
+    'gaze.chooseFile': 'Elegir archivo de muestras de mirada',
+    'gaze.fileHint': 'Muestras de mirada sin procesar con columnas de tiempo, x, y y validez opcional; se reconocen las exportaciones de Tobii y Gazepoint y los archivos .asc de EyeLink',
+    'gaze.screenWidth': 'Ancho de pantalla (px)',
+    'gaze.screenHeight': 'Alto de pantalla (px)',
+    'gaze.algorithm': 'Algoritmo',
+    'gaze.ivt': 'I-VT (umbral de velocidad)',
+    'gaze.idt': 'I-DT (umbral de dispersión)',
+    'gaze.samples': '{count} muestras a {rate} Hz',
+    'gaze.highLoss': 'Más del 20 % de las muestras no son válidas; los valores obtenidos pueden no ser fiables.',
+    'gaze.scanpath': 'Recorrido visual',
+    'gaze.addStimulus': 'Añadir imagen del estímulo',
+    'gaze.changeStimulus': 'Cambiar imagen del estímulo',
+    'gaze.scanpathLegend': 'Los círculos son fijaciones, con tamaño según su duración y numeradas en orden; las líneas naranjas son regresiones.',
+    'gaze.apply': 'Usar duración de fijación y longitud de sacádico',
+    'gaze.applied': 'Aplicado al formulario de medidas',
+    'gaze.readError': 'Error al leer el archivo de mirada',
+
+    'webcam.intro': 'Estima la mirada con la cámara web mediante un modelo de puntos de la cara y el iris que se ejecuta en el navegador; ningún vídeo sale de este dispositivo. El alumno se sienta a un brazo de distancia de la pantalla, se calibra con nueve puntos y después lee «{title}» en voz alta.',
+    'webcam.startError': 'Error al iniciar la cámara web',
+    'webcam.calibrationError': 'La calibración ha fallado',
+    'webcam.loading': 'Cargando el modelo facial…',
+    'webcam.start': 'Iniciar cámara web',
+    'webcam.calibrate': 'Calibrar y grabar',
+    'webcam.calibrateAgain': 'Calibrar y grabar de nuevo',
+    'webcam.lookAtDot': 'Mira el punto rojo sin mover la cabeza ({number} de {total}).',
+    'webcam.calibrationResult': 'Error de calibración: {error}°',
+    'webcam.readNext': 'Lee en voz alta el texto de la siguiente pantalla y pulsa Terminado.',
+    'webcam.showPassage': 'Mostrar texto',
+    'webcam.recalibrate': 'Volver a calibrar',
+    'webcam.finished': 'Terminado',
+    'webcam.cancel': 'Cancelar',
+    'webcam.quality': 'Calidad de los datos {score}/100',
+    'webcam.lowQuality': 'captura de baja calidad',
+    'webcam.qualityDetail': 'Error de calibración {error}°, {rate} fotogramas/s, cara detectada en el {tracked} % de los fotogramas, {onScreen} % de la mirada en pantalla.',
+    'webcam.lowQualityHint': 'Las capturas con menos de {score} puntos o de menos de 10 segundos no son lo bastante fiables para puntuarse por defecto; grabe de nuevo o deje las dos medidas sin medir.',
+    'webcam.leaveUnmeasured': 'Dejar fijación y sacádico sin medir',
+    'webcam.useAnyway': 'Usar los valores de todos modos',
+    'webcam.issueCalibration': 'El error de calibración es de {error}°; vuelva a calibrar con la cabeza quieta y la cara bien iluminada.',
+    'webcam.issueRate': 'Solo se procesaron {rate} fotogramas por segundo; cierre otras pestañas o use un dispositivo más rápido.',
+    'webcam.issueLost': 'La cara o los ojos se perdieron en el {percent} % de los fotogramas.',
+    'webcam.issueOffScreen': 'El {percent} % de las estimaciones de mirada cayeron fuera de la pantalla; puede que el alumno se haya movido desde la calibración.',
+    'webcam.issueShort': 'La grabación dura menos de 10 segundos.',
+
+    'profile.active': 'Perfil de puntuación activo',
+    'profile.builtInName': '{name} (integrado)',
+    'profile.customName': '{name} (personalizado)',
+    'profile.invalid': 'Perfil de puntuación no válido',
+    'profile.importError': 'Error al importar el perfil de puntuación',
+    'profile.import': 'Importar',
+    'profile.export': 'Exportar',
+    'profile.name': 'Nombre del perfil',
+    'profile.riskWhen': 'Riesgo cuando',
+    'profile.low': 'Bajo',
+    'profile.high': 'Alto',
+    'profile.weight': 'Peso',
+    'profile.lower': 'El valor es bajo',
+    'profile.higher': 'El valor es alto',
+    'profile.saveAsNew': 'Guardar como perfil nuevo',
+    'profile.save': 'Guardar perfil',
+    'profile.delete': 'Eliminar',
+
+    'report.heading': 'Informe de cribado de dislexia',
+    'report.student': 'Alumno',
+    'report.notSpecified': 'Sin especificar',
+    'report.date': 'Fecha',
+    'report.profile': 'Perfil de puntuación',
+    'report.result': 'Resultado',
+    'report.margin': 'Margen de decisión',
+    'report.modelProbability': 'Probabilidad de dislexia según el modelo',
+    'report.measurements': 'Medidas y niveles de riesgo',
+    'report.risk': 'Riesgo',
+    'report.charts': 'Gráficos',
+    'report.disclaimerTitle': 'Aviso',
+    'report.disclaimer': 'Este informe es una ayuda para el cribado, no un diagnóstico. Los resultados se basan en un conjunto limitado de medidas y debe interpretarlos un profesional cualificado junto con una evaluación educativa y clínica completa.',
+
+    'students.addError': 'No se pudo añadir al alumno',
+    'students.consentError': 'No se pudo registrar el consentimiento',
+    'students.featureChart': 'Gráfico de líneas de {feature} por fecha de evaluación',
+    'students.featureCaption': '{feature} por fecha de evaluación',
+    'students.none': 'Aún no hay alumnos guardados',
+    'students.select': 'Seleccione un alumno',
+    'students.optionOne': '{name} ({count} evaluación)',
+    'students.optionMany': '{name} ({count} evaluaciones)',
+    'students.confirmDelete': '¿Eliminar a {name} y todas sus evaluaciones guardadas?',
+    'students.consentResearch': 'Consentimiento de {guardian} ({relationship}) el {date}, incluido el uso en investigación; registrado por {recordedBy}.',
+    'students.consentNoResearch': 'Consentimiento de {guardian} ({relationship}) el {date}, sin uso en investigación; registrado por {recordedBy}.',
+    'students.consentMissing': '{name} se guardó antes de que se exigiera el consentimiento. Registre el consentimiento del tutor antes de añadir evaluaciones.',
+    'students.recordConsent': 'Registrar consentimiento',
+    'students.newName': 'Nombre o ID del nuevo alumno',
+    'students.add': 'Añadir alumno',
+    'students.noAssessments': 'Aún no hay evaluaciones guardadas de {name}. Realice un análisis y guárdelo desde la pestaña Resultados.',
+    'students.riskChart': 'Gráfico de líneas de la puntuación de riesgo global por fecha de evaluación',
+    'students.riskCaption': 'Puntuación de riesgo global por fecha de evaluación',
+    'students.goals': 'Objetivos de intervención (plan del {date})',
+    'students.latest': 'Riesgo {level} el {date} ({value}, línea base {baseline})',
+    'students.changes': 'Cambios desde la última evaluación',
+    'students.moved': 'Pasó de {from} a {to}',
+    'goalStatus.met': 'Cumplido',
+    'goalStatus.in-progress': 'En curso',
+    'goalStatus.overdue': 'No cumplido en la fecha de revisión',
+    'goalStatus.not-assessed': 'Aún sin reevaluar',
+
+    'library.or': ' o ',
+    'library.and': ' y ',
+    'library.always': 'siempre',
+    'library.decisionIs': 'la decisión es {decisions}',
+    'library.featureIs': '{feature} es {levels}',
+    'library.invalid': 'Biblioteca de intervenciones no válida',
+    'library.importError': 'Error al importar la biblioteca de intervenciones',
+    'library.intro': 'Las reglas eligen intervenciones de la biblioteca según la decisión y el nivel de riesgo de cada medida. Los cambios se guardan en este navegador.',
+    'library.confirmReset': '¿Sustituir la biblioteca por la predeterminada?',
+    'library.reset': 'Restablecer',
+    'library.interventions': 'Intervenciones',
+    'library.name': 'Nombre',
+    'library.delete': 'Eliminar {name}',
+    'library.description': 'Descripción',
+    'library.category': 'Categoría',
+    'library.intensity': 'Intensidad',
+    'library.evidence': 'Evidencia',
+    'library.minAge': 'Edad mínima',
+    'library.maxAge': 'Edad máxima',
+    'library.goal': 'Objetivo:',
+    'library.goalFeature': 'Medida del objetivo',
+    'library.noGoal': 'Ninguno',
+    'library.reaches': 'alcanza',
+    'library.goalLevel': 'Nivel de riesgo objetivo',
+    'library.goalLow': 'Riesgo bajo',
+    'library.goalMedium': 'Riesgo medio o mejor',
+    'library.within': 'en',
+    'library.goalWeeks': 'Semanas del objetivo',
+    'library.weeks': 'semanas',
+    'library.newName': 'Nueva intervención',
+    'library.add': 'Añadir intervención',
+    'library.rules': 'Reglas',
+    'library.when': 'Cuándo',
+    'library.reasonShown': 'Motivo mostrado',
+    'library.adds': 'Añade',
+    'library.priority': 'Prioridad',
+    'library.reason': 'Motivo',
+    'library.deleteRule': 'Eliminar regla',
+    'library.rulesHint': 'Para añadir reglas o cambiar sus condiciones, exporte la biblioteca, edite el JSON y vuelva a importarlo.',
+    'library.save': 'Guardar biblioteca',
+
+    'vault.reset': 'Restablecer la frase de contraseña (borra los expedientes cifrados)',
+    'vault.confirmReset': '¿Borrar todos los expedientes y el registro de auditoría de este dispositivo y establecer una nueva frase de contraseña? No se puede deshacer.',
+    'vault.resetFailed': 'No se pudo restablecer la frase de contraseña',
+
+    'audit.view': 'Consultado',
+    'audit.create': 'Creado',
+    'audit.update': 'Actualizado',
+    'audit.delete': 'Eliminado',
+    'audit.report': 'Informe',
+    'audit.export': 'Exportado',
+    'audit.reset': 'Restablecido',
+
+    'privacy.exportTitle': 'Exportación anonimizada',
+    'privacy.exportIntro': 'Una fila CSV por evaluación para compartir con fines de investigación. Se eliminan los nombres, los datos del consentimiento y los identificadores de registro, cada alumno recibe un identificador seudónimo y todas las fechas de un alumno se desplazan el mismo número aleatorio de días. Solo se incluyen los alumnos cuyo tutor aceptó compartir datos para investigación ({consenting} de {total}).',
+    'privacy.studyKey': 'Clave del estudio (opcional)',
+    'privacy.studyKeyHint': 'Use la misma clave para que los alumnos reciban los mismos seudónimos en exportaciones posteriores. No la comparta con los destinatarios.',
+    'privacy.maxShift': 'Desplazar las fechas hasta (días)',
+    'privacy.export': 'Exportar CSV anonimizado',
+    'privacy.exportFailed': 'No se pudo exportar',
+    'privacy.exported': 'Se exportaron {assessments} de {students}.',
+    'privacy.assessmentsOne': '{count} evaluación',
+    'privacy.assessmentsMany': '{count} evaluaciones',
+    'privacy.studentsOne': '{count} alumno',
+    'privacy.studentsMany': '{count} alumnos',
+    'privacy.excluded': '{count} quedaron fuera por no tener consentimiento para investigación.',
+    'privacy.auditTitle': 'Registro de auditoría',
+    'privacy.downloadCsv': 'Descargar CSV',
+    'privacy.auditEmpty': 'Todavía no se ha consultado, modificado ni exportado ningún expediente.',
+    'privacy.when': 'Cuándo',
+    'privacy.who': 'Quién',
+    'privacy.action': 'Acción',
+    'privacy.students': 'Alumnos',
+    'privacy.detail': 'Detalle',
+
+    'engine.notInstalled': 'No hay ningún modelo instalado, así que los resultados usan la heurística. Ejecute python src/train.py para exportar uno o entrene uno en la pestaña Entrenamiento.',
+
+    'modules.scaled': 'Los errores de ortografía y de fonemas se escalan a la longitud de prueba que supone el perfil de puntuación: {words} palabras y {phonemes} fonemas.',
+
+    'training.calibrationCaption': 'Probabilidad calibrada y banda del 90 % por puntuación de riesgo',
+
+    'chart.range': 'de {from} a {to}',
+
+    'error.auditLog': 'No se pudo escribir el registro de auditoría',
+    'auditDetail.consent': 'Consentimiento del tutor registrado',
+    'auditDetail.assessment': 'Evaluación del {date} guardada',
+    'auditDetail.cohort': 'Evaluaciones del grupo del {date} guardadas',
+    'auditDetail.pdf': 'Informe PDF de «{student}»',
+    'auditDetail.print': 'Informe impreso de «{student}»',
+    'auditDetail.deidentified': 'CSV anonimizado, {count} evaluaciones',
+    'auditDetail.reset': 'Todos los expedientes y el registro de auditoría anterior se eliminaron el {at} para establecer una nueva frase de contraseña',
+    'report.unlockFirst': 'Desbloquee los expedientes en la pestaña Alumnos para poner un nombre en el informe. Cada informe con nombre queda anotado en el registro de auditoría.'
+  },
+  // Transparent orthography: decoding is accurate early, so errors are rarer
+  // and reading speed is the main marker of difficulty.
+  norms: [
+    {
+      id: 'es-default',
+      name: 'Español: general',
+      description: 'Puntos de corte generales para lectores en español',
+      values: {
+        readingSpeed: [60, 90, 0.30],
+        fixationDuration: [280, 380, 0.15],
+        saccadeLength: [20, 35, 0.15],
+        phonemeErrors: [5, 9, 0.15],
+        spellingErrors: [3, 7, 0.10],
+        comprehensionScore: [60, 80, 0.15]
+      }
+    },
+    {
+      id: 'es-grades-1-2',
+      name: 'Español: 1.º–2.º de Primaria',
+      description: 'Lectores iniciales; se espera una lectura más lenta y fijaciones más largas',
+      gradeBand: '1-2',
+      values: {
+        readingSpeed: [40, 70, 0.30],
+        fixationDuration: [330, 430, 0.10],
+        saccadeLength: [15, 28, 0.10],
+        phonemeErrors: [6, 10, 0.25],
+        spellingErrors: [4, 8, 0.15],
+        comprehensionScore: [55, 75, 0.10]
+      }
+    },
+    {
+      id: 'es-grades-3-5',
+      name: 'Español: 3.º–5.º de Primaria',
+      description: 'Paso de la decodificación a la lectura fluida',
+      gradeBand: '3-5',
+      values: {
+        readingSpeed: [80, 110, 0.30],
+        fixationDuration: [280, 380, 0.15],
+        saccadeLength: [20, 35, 0.15],
+        phonemeErrors: [5, 9, 0.15],
+        spellingErrors: [3, 7, 0.10],
+        comprehensionScore: [60, 80, 0.15]
+      }
+    },
+    {
+      id: 'es-grades-6-8',
+      name: 'Español: 6.º de Primaria–2.º de ESO',
+      description: 'Lectores fluidos; la comprensión pesa más',
+      gradeBand: '6-8',
+      values: {
+        readingSpeed: [110, 140, 0.30],
+        fixationDuration: [240, 340, 0.15],
+        saccadeLength: [25, 40, 0.15],
+        phonemeErrors: [3, 6, 0.10],
+        spellingErrors: [2, 5, 0.10],
+        comprehensionScore: [65, 85, 0.20]
+      }
+    }
+  ],
+  interventions: {
+    'diagnostic-assessment': {
+      name: 'Evaluación diagnóstica completa',
+      description: 'Derivar a un psicopedagogo o a un docente especialista para una evaluación completa de la lectura, la escritura, el procesamiento fonológico y el perfil cognitivo.'
+    },
+    rescreen: {
+      name: 'Repetir el cribado en 8–12 semanas',
+      description: 'Repetir el cribado tras un periodo de enseñanza ordinaria en el aula, a ser posible con todas las mediciones, antes de decidir sobre más apoyos.'
+    },
+    'annual-monitoring': {
+      name: 'Seguimiento ordinario en el aula',
+      description: 'No hace falta un apoyo específico por ahora; seguir su evolución y repetir el cribado en la próxima revisión ordinaria.'
+    },
+    'phonological-awareness': {
+      name: 'Entrenamiento explícito de la conciencia fonológica',
+      description: 'Sesiones breves y frecuentes para segmentar, unir y manipular fonemas, relacionándolos con las letras lo antes posible.'
+    },
+    'systematic-phonics': {
+      name: 'Programa sistemático de correspondencias grafema-fonema',
+      description: 'Enseñanza diaria y secuenciada de las correspondencias grafema-fonema, con textos decodificables para practicar.'
+    },
+    'structured-literacy': {
+      name: 'Intervención de lectoescritura estructurada en pequeño grupo',
+      description: 'Enseñanza multisensorial y acumulativa de la fonología, la ortografía y la morfología en un grupo pequeño con un docente formado.'
+    },
+    'repeated-reading': {
+      name: 'Lectura repetida con retroalimentación',
+      description: 'El alumno relee pasajes cortos de su nivel de instrucción, con modelado y corrección de errores, hasta alcanzar un objetivo de fluidez.'
+    },
+    'assisted-reading': {
+      name: 'Lectura en pareja o asistida',
+      description: 'Leer en voz alta junto a un compañero que lee con fluidez y que se va retirando a medida que el alumno gana confianza.'
+    },
+    'spelling-instruction': {
+      name: 'Enseñanza explícita de la ortografía',
+      description: 'Enseñar directamente los patrones y las reglas ortográficas, con repaso acumulativo y práctica de dictado.'
+    },
+    morphology: {
+      name: 'Enseñanza de la conciencia morfológica',
+      description: 'Trabajar con prefijos, sufijos y raíces para apoyar la escritura y la decodificación de palabras largas.'
+    },
+    'comprehension-strategies': {
+      name: 'Enseñanza de estrategias de comprensión lectora',
+      description: 'Enseñanza explícita de la predicción, las preguntas, la aclaración y el resumen, por ejemplo mediante la enseñanza recíproca.'
+    },
+    'text-accommodations': {
+      name: 'Adaptaciones del texto',
+      description: 'Letra más grande, más espacio entre letras y líneas, líneas más cortas y acceso a audiolibros o síntesis de voz.'
+    },
+    'vision-check': {
+      name: 'Revisión oftalmológica',
+      description: 'Descartar errores de refracción sin corregir o problemas de visión binocular antes de atribuir movimientos oculares atípicos a una dificultad lectora.'
+    },
+    'reading-guide': {
+      name: 'Guía de línea o ventana de lectura',
+      description: 'Una regla, una ventana de lectura o un resaltado de línea en pantalla para ayudar al alumno a no perder la línea.'
+    }
+  },
+  rules: {
+    'risk-referral': 'El cribado indica riesgo de dislexia',
+    'indeterminate-rescreen': 'El resultado es indeterminado',
+    'low-risk-monitoring': 'El cribado indica riesgo bajo',
+    'phoneme-high': 'Los errores fonológicos son altos',
+    'phoneme-medium': 'Los errores fonológicos son elevados',
+    'phonological-core': 'Los errores fonológicos y ortográficos son elevados, lo que apunta a una dificultad de decodificación de base',
+    spelling: 'Los errores ortográficos son elevados',
+    fluency: 'La velocidad lectora es lenta',
+    'fluency-without-decoding': 'La lectura es lenta aunque las habilidades fonológicas son sólidas, así que la fluidez es el objetivo principal',
+    comprehension: 'La comprensión es débil',
+    'comprehension-with-slow-reading': 'Una comprensión débil junto a una lectura lenta sugiere que el esfuerzo de decodificación limita la comprensión',
+    'fixation-high': 'Las fijaciones son largas',
+    'saccade-high': 'Los movimientos sacádicos son inusualmente cortos',
+    'eye-movement-only': 'Los movimientos oculares son atípicos aunque las habilidades fonológicas son sólidas'
+  }
+};
+
+export default es;
@@ -0,0 +1,771 @@
+import type { Locale } from '../lib/i18n';
+
+const fi: Locale = {
+  code: 'fi',
+  name: 'Suomi',
+  messages: {
+    'app.title': 'Lukivaikeuden seulontajärjestelmä',
+    'app.readingSettings': 'Lukuasetukset',
+    'app.language': 'Kieli',
+    'app.sections': 'Osiot',
+    'app.lock': 'Lukitse oppilastiedot',
+
+    'tab.input': 'Tiedot',
+    'tab.results': 'Tulokset',
+    'tab.cohort': 'Ryhmä',
+    'tab.analytics': 'Analytiikka',
+    'tab.students': 'Oppilaat',
+    'tab.profiles': 'Pisteytys',
+    'tab.training': 'Koulutus',
+    'tab.interventions': 'Tukitoimet',
+    'tab.privacy': 'Tietosuoja',
+
+    'feature.readingSpeed': 'Lukunopeus',
+    'feature.fixationDuration': 'Fiksaation kesto',
+    'feature.saccadeLength': 'Sakkadin pituus',
+    'feature.phonemeErrors': 'Äännevirheet',
+    'feature.spellingErrors': 'Kirjoitusvirheet',
+    'feature.comprehensionScore': 'Luetun ymmärtäminen',
+
+    'unit.readingSpeed': 'sanaa/min',
+    'unit.fixationDuration': 'ms',
+    'unit.saccadeLength': 'px',
+    'unit.phonemeErrors': 'virhettä',
+    'unit.spellingErrors': 'virhettä',
+    'unit.comprehensionScore': '%',
+
+    'decision.risk': 'Lukivaikeuden riski havaittu',
+    'decision.indeterminate': 'Epävarma – uusintatesti suositellaan',
+    'decision.low': 'Matala lukivaikeuden riski',
+
+    'level.High': 'Korkea',
+    'level.Medium': 'Keskitaso',
+    'level.Low': 'Matala',
+    'level.Missing': 'Ei mitattu',
+
+    'input.profile': 'Pisteytysprofiili',
+    'input.method': 'Syöttötapa',
+    'input.manual': 'Käsin syöttö',
+    'input.tests': 'Testit',
+    'input.gaze': 'Katseenseuranta',
+    'input.webcam': 'Verkkokameran katseenseuranta',
+    'input.csv': 'Tiedoston tuonti',
+    'input.currentMeasurements': 'Nykyiset mittaukset',
+
+    'form.notMeasured': 'Ei mitattu',
+    'form.missing': 'Puuttuu – ei mukana pisteytyksessä',
+    'form.missingOne': '1 mittaus puuttuu; tulos pisteytetään muiden perusteella pienemmällä varmuudella.',
+    'form.missingMany': '{count} mittausta puuttuu; tulos pisteytetään muiden perusteella pienemmällä varmuudella.',
+    'form.analyze': 'Analysoi tiedot',
+
+    'chart.measurementValues': 'Mittausarvot',
+    'chart.currentValues': 'Nykyiset arvot',
+    'chart.measurementsLabel': 'Pylväskaavio nykyisistä mittausarvoista',
+    'chart.riskProfile': 'Riskiprofiili',
+    'chart.riskProfileLabel': 'Tutkakaavio kunkin mittauksen riskitasosta',
+    'chart.riskProfileCaption': 'Riskitaso mittauksittain: 3 korkea, 2 keskitaso, 1 matala, 0 ei mitattu',
+    'chart.riskScore': 'Riskipisteet',
+    'chart.safeZone': 'Turvallinen alue',
+    'chart.gaugeLabel': 'Mittari kokonaisriskipisteistä, {score}/10',
+    'chart.gaugeCaption': 'Kokonaisriskipisteet asteikolla 0–10',
+    'chart.showTable': 'Näytä taulukkona',
+    'chart.value': 'Arvo',
+
+    'results.riskAnalysis': 'Riskianalyysi',
+    'results.overallRiskScore': 'Kokonaisriskipisteet',
+    'results.riskScore': 'Riskipisteet',
+    'results.notMeasured': 'Ei mitattu: {features}. Pisteytetty muiden mittausten perusteella pienemmällä päätösmarginaalilla ({margin} %).',
+    'results.lowQualityGaze': 'Fiksaation kesto ja sakkadin pituus perustuvat heikkolaatuiseen verkkokameratallenteeseen (laatu {score}/100); testaa uudelleen ennen kuin luotat niihin.',
+    'results.detailedAnalysis': 'Yksityiskohtainen analyysi:',
+    'results.spoken': '{decision}. Riskipisteet {score}/10.',
+    'results.readAloud': 'Lue ääneen',
+
+    'engine.title': 'Ennustemallit',
+    'engine.heuristic': 'Heuristiikka',
+    'engine.model': 'Malli',
+    'engine.heuristicTitle': 'Heuristiikka (painotetut raja-arvot)',
+    'engine.riskScore': 'Riskipisteet',
+    'engine.margin': '{decision} · päätösmarginaali {margin} %',
+    'engine.calibrated': '{decision} · kalibroitu todennäköisyys {probability}',
+    'engine.modelTitle': 'Malli ({name})',
+    'engine.probability': 'Lukivaikeuden todennäköisyys',
+    'engine.riskDetected': 'Riski havaittu',
+    'engine.lowRisk': 'Matala riski',
+    'engine.unavailable': 'Malli ei ole käytettävissä: {error}. Vie malli skriptillä src/train.py tai kouluta se Koulutus-välilehdellä.',
+    'engine.needsAll': 'Malli tarvitsee kaikki mittaukset, ja tästä tuloksesta puuttuu arvoja.',
+    'engine.loading': 'Ladataan mallia…',
+
+    'decisionPanel.title': 'Päätös ja epävarmuus',
+    'decisionPanel.rangeStraddles': 'Puuttuvat mittaukset voisivat siirtää pisteet mihin tahansa välillä {low}–{high}, raja-arvon {threshold} kummalle puolelle tahansa.',
+    'decisionPanel.withinMargin': 'Pisteet {score} ovat alle {margin} päässä raja-arvosta {threshold}.',
+    'decisionPanel.retest': 'Testaa uudelleen, mieluiten kaikilla mittauksilla, ennen kuin toimit tämän tuloksen perusteella.',
+    'decisionPanel.calibrated': 'Kalibroitu lukivaikeuden todennäköisyys',
+    'decisionPanel.interval': '90 %:n väli {lower}–{upper}',
+    'decisionPanel.fitted': 'sovitettu {count} luokitellulla rivillä ({method})',
+    'decisionPanel.notCalibrated': 'Tätä pisteytysprofiilia ei ole kalibroitu, joten riskipisteitä ei voi tulkita todennäköisyytenä. Sovita kalibrointi luokitelluista tiedoista Koulutus-välilehdellä.',
+    'decisionPanel.operatingPoint': 'Toimintapiste',
+    'decisionPanel.optionRates': 'Herkkyys {sensitivity}, tarkkuus {specificity}',
+    'decisionPanel.threshold': 'Riskipisteiden raja-arvo: {value}',
+    'decisionPanel.thresholdValue': '{value}/10',
+    'decisionPanel.margin': 'Epävarma vyöhyke: ± {value}',
+    'decisionPanel.marginValue': 'plus miinus {value}',
+    'decisionPanel.rates': 'Kalibrointiaineistossa tämä raja-arvo antaa herkkyydeksi {sensitivity} ja tarkkuudeksi {specificity}.',
+    'operatingPoint.balanced': 'Tasapainoinen',
+    'operatingPoint.sensitive': 'Herkkyys ≥ {rate} %',
+    'operatingPoint.specific': 'Tarkkuus ≥ {rate} %',
+
+    'save.title': 'Tallenna oppilaan tietoihin',
+    'save.newStudent': 'Uusi oppilas…',
+    'save.studentName': 'Oppilaan nimi tai tunniste',
+    'save.submit': 'Tallenna arviointi',
+    'save.chooseStudent': 'Valitse oppilas tai kirjoita uusi nimi.',
+    'save.saved': 'Arviointi tallennettu.',
+    'save.failed': 'Arvioinnin tallennus epäonnistui',
+
+    'report.title': 'Seulontaraportti',
+    'report.pdf': 'Lataa PDF',
+    'report.print': 'Tulosta',
+
+    'plan.title': 'Tukisuunnitelma',
+    'plan.age': 'Oppilaan ikä (vuotta)',
+    'plan.anyAge': 'Mikä tahansa',
+    'plan.evidence': 'Näyttö {grade}',
+    'plan.ages': '{min}–{max}-vuotiaille',
+    'plan.why': 'Peruste: {reasons}.',
+    'plan.goals': 'Tavoitteet',
+    'plan.goal': '{feature}: riskitasolta {from} tasolle {to} tai paremmaksi {date} mennessä',
+    'plan.trackGoals': 'Tallenna arviointi oppilaan tietoihin, niin tavoitteiden toteutumista voi seurata myöhemmissä arvioinneissa.',
+    'plan.excluded': 'Ikärajan ulkopuolella ja jätetty pois: {names}.',
+    'tier.immediate': 'Välittömät toimet',
+    'tier.core': 'Keskeiset tukitoimet',
+    'tier.supplementary': 'Täydentävä tuki',
+    'evidence.strong': 'A – useita satunnaistettuja tutkimuksia tai meta-analyysejä',
+    'evidence.moderate': 'B – kontrolloituja tai kvasikokeellisia tutkimuksia',
+    'evidence.emerging': 'C – pieniä tai kontrolloimattomia tutkimuksia',
+    'evidence.consensus': 'D – asiantuntijoiden konsensus',
+    'category.assessment': 'Arviointi',
+    'category.phonological': 'Fonologinen tietoisuus',
+    'category.decoding': 'Dekoodaus',
+    'category.fluency': 'Lukusujuvuus',
+    'category.spelling': 'Oikeinkirjoitus',
+    'category.comprehension': 'Luetun ymmärtäminen',
+    'category.visual': 'Näkö ja silmänliikkeet',
+    'category.accommodation': 'Mukautukset',
+    'category.monitoring': 'Seuranta',
+    'intensity.low': 'Matala (alle tunti viikossa)',
+    'intensity.moderate': 'Kohtalainen (1–2 tuntia viikossa)',
+    'intensity.high': 'Korkea (päivittäiset tuokiot)',
+
+    'cohort.save': 'Tallenna pisteytetyt rivit oppilaiden tietoihin ({date})',
+    'cohort.skipped': 'Ei tallennettu, koska huoltajan suostumuksella varustettua oppilastietoa ei ole: {names}.',
+
+    'error.loadModel': 'Mallin lataus epäonnistui',
+    'error.loadStudents': 'Oppilaiden tietojen lataus epäonnistui',
+    'error.noStudentRows': 'Tallennettavia rivejä, joilla on oppilastunniste, ei ole.',
+
+    'settings.title': 'Lukuasetukset',
+    'settings.reset': 'Palauta',
+    'settings.font': 'Kirjasin',
+    'settings.fontDefault': 'Oletus',
+    'settings.lineLength': 'Rivin pituus',
+    'settings.lineFull': 'Koko leveys',
+    'settings.lineWide': 'Noin 80 merkkiä',
+    'settings.lineNarrow': 'Noin 60 merkkiä',
+    'settings.textSize': 'Tekstin koko',
+    'settings.lineSpacing': 'Riviväli',
+    'settings.default': 'Oletus',
+    'settings.letterSpacing': 'Merkkiväli',
+    'settings.wordSpacing': 'Sanaväli',
+    'settings.normal': 'Normaali',
+    'settings.overlay': 'Värikalvo',
+    'overlay.none': 'Ei kalvoa',
+    'overlay.cream': 'Kerma',
+    'overlay.yellow': 'Keltainen',
+    'overlay.blue': 'Sininen',
+    'overlay.green': 'Vihreä',
+    'overlay.rose': 'Roosa',
+    'overlay.grey': 'Harmaa',
+    'settings.speech': 'Lue ohjeet ja tulokset ääneen',
+    'settings.speechRate': 'Puhenopeus',
+    'settings.trySpeech': 'Kokeile puhenopeutta',
+    'settings.speechSample': 'Näin ohjeet luetaan ääneen.',
+    'settings.noSpeech': 'Tämä selain ei tue puhesynteesiä.',
+
+    'vault.createTitle': 'Suojaa oppilastiedot',
+    'vault.createIntro': 'Oppilastiedot salataan tällä laitteella vähintään {min} merkin salalauseella. Sitä ei voi palauttaa: ilman sitä tallennettuja tietoja ei voi lukea.',
+    'vault.unlockTitle': 'Avaa oppilastiedot',
+    'vault.unlockIntro': 'Anna salalause, niin tälle laitteelle tallennetut oppilastiedot puretaan.',
+    'vault.actor': 'Nimesi',
+    'vault.actorHint': 'Kirjataan lokiin jokaisesta tiedosta, jota katselet, muutat tai viet.',
+    'vault.passphrase': 'Salalause',
+    'vault.confirm': 'Vahvista salalause',
+    'vault.mismatch': 'Salalauseet eivät täsmää.',
+    'vault.nameRequired': 'Kirjoita nimesi.',
+    'vault.create': 'Aseta salalause',
+    'vault.unlock': 'Avaa',
+    'vault.working': 'Johdetaan avainta…',
+    'vault.failed': 'Oppilastietojen avaaminen epäonnistui',
+
+    'consent.title': 'Huoltajan suostumus',
+    'consent.required': 'Nimettyä oppilasta voi tallentaa vasta, kun huoltaja on antanut suostumuksensa.',
+    'consent.guardianName': 'Huoltajan nimi',
+    'consent.relationship': 'Suhde oppilaaseen',
+    'consent.method': 'Suostumuksen muoto',
+    'consent.method.signed-form': 'Allekirjoitettu lomake',
+    'consent.method.electronic': 'Sähköinen lomake',
+    'consent.method.verbal': 'Suullinen, henkilöstön kirjaama',
+    'consent.date': 'Päivämäärä',
+    'consent.research': 'Hyväksyy tunnisteettomien tulosten jakamisen tutkimuskäyttöön',
+
+    'validation.required': '{feature} on pakollinen',
+    'validation.notMeasured': '{feature}: ei mitattu',
+    'validation.outOfRange': '{feature} {value} {unit} on sallitun välin {min}–{max} ulkopuolella',
+    'validation.unusual': '{feature} {value} {unit} on epätavallinen (tyypillisesti {min}–{max}); tarkista arvo',
+    'import.studentId': 'Oppilaan tunniste tai nimi',
+    'import.notNumber': '{feature}: ”{value}” ei ole luku',
+
+    'importUnit.wpm': 'sanaa minuutissa',
+    'importUnit.wps': 'sanaa sekunnissa',
+    'importUnit.ms': 'millisekuntia',
+    'importUnit.s': 'sekuntia',
+    'importUnit.percent': 'prosentti (0–100)',
+    'importUnit.fraction': 'osuus (0–1)',
+
+    'import.chooseFile': 'Valitse CSV-, TSV- tai Excel-tiedosto',
+    'import.hint': 'Lataa CSV-, TSV- tai Excel-tiedosto, jossa on yksi rivi oppilasta kohden; jokainen rivi pisteytetään',
+    'import.readError': 'Tiedoston lukeminen epäonnistui',
+    'import.example': 'Esimerkkimuoto (sarakkeet voi kohdistaa latauksen jälkeen; oppilassarake on valinnainen):',
+    'import.mappingTitle': 'Sarakkeiden kohdistus – {file}',
+    'import.notMapped': '— ei kohdistettu —',
+    'import.column': 'Sarake {number}',
+    'import.sourceUnit': 'Yksikkö lähdetiedostossa',
+    'import.mapMissing': 'Kohdista sarake kentille: {fields}',
+    'import.preview': 'Esikatselu ({rows} riviä: {valid} kelvollista, {errors} virheellistä, {warnings} varoituksin)',
+    'import.row': 'Rivi',
+    'import.missingCell': 'puuttuu',
+    'import.rowErrors': 'Rivi {row}: {errors}',
+    'import.moreErrors': '…ja {count} muuta virheellistä riviä',
+    'import.groupName': 'Ryhmän nimi (esim. luokka ja lukukausi)',
+    'import.scoreOne': 'Pisteytä 1 kelvollinen rivi',
+    'import.scoreMany': 'Pisteytä {count} kelvollista riviä',
+
+    'training.modelInUse': 'Käytössä oleva ennustemalli:',
+    'training.noModel': 'ei mitään',
+    'training.delete': 'Poista koulutettu malli',
+    'training.calibrated': 'Profiilin {profile} riskipisteet on kalibroitu ({method}, {rows} riviä, ROC AUC {auc}, sovitettu {date}).',
+    'calibration.platt': 'Platt',
+    'calibration.isotonic': 'isotoninen',
+    'training.calibratedProbability': 'Kalibroitu todennäköisyys',
+    'training.band': '90 %:n vyöhyke',
+    'training.bandUpper': '90 %:n vyöhyke (yläraja)',
+    'training.probabilityAxis': 'P(lukivaikeus)',
+    'training.chooseFile': 'Valitse luokiteltu CSV-, TSV- tai Excel-tiedosto',
+    'training.hint': 'Lataa luokiteltu aineisto: kuusi mittausta ja dyslexia-sarake, jonka arvo on 0 tai 1',
+    'training.columns': 'Sarakkeet – {file}',
+    'training.label': 'Luokka (lukivaikeus)',
+    'training.rows': '{count} luokiteltua riviä ({positive} positiivista, {negative} negatiivista)',
+    'training.skipped': '; {count} ohitettu puuttuvien tai virheellisten arvojen vuoksi (rivit {rows})',
+    'training.calibrateTitle': 'Kalibroi heuristiset pisteet – {profile}',
+    'training.isotonic': 'Isotoninen regressio',
+    'training.platt': 'Platt-skaalaus (sigmoidi)',
+    'training.fitCalibration': 'Sovita kalibrointi',
+    'training.hyperparameters': 'Jako ja hyperparametrit',
+    'training.testFraction': 'Testiosuus',
+    'training.epochs': 'Epookit',
+    'training.batchSize': 'Eräkoko',
+    'training.learningRate': 'Oppimisnopeus',
+    'training.hiddenUnits': 'Piilokerroksen yksiköt (0 = logistinen)',
+    'training.seed': 'Satunnaissiemen',
+    'training.progress': 'Koulutetaan… epookki {epoch}/{epochs}, häviö {loss}',
+    'training.training': 'Koulutetaan…',
+    'training.train': 'Kouluta malli',
+    'training.failed': 'Koulutus epäonnistui',
+    'training.saveFailed': 'Mallin tallennus epäonnistui',
+    'training.deleteFailed': 'Tallennetun mallin poisto epäonnistui',
+    'training.calibrationFailed': 'Kalibrointi epäonnistui',
+    'training.evaluation': 'Arviointi {test} erillisellä rivillä (koulutettu {train} rivillä)',
+    'training.saved': 'Tallennettu ja käytössä',
+    'training.save': 'Tallenna ja käytä ennusteisiin',
+    'training.accuracy': 'Tarkkuus',
+    'training.precision': 'Osuvuus',
+    'training.recall': 'Saanti',
+    'training.confusion': 'Sekaannusmatriisi (kynnys 0,5)',
+    'training.predictedRisk': 'Ennustettu riski',
+    'training.predictedNoRisk': 'Ennustettu ei riskiä',
+    'training.actualDyslexia': 'Todellinen lukivaikeus',
+    'training.actualNoDyslexia': 'Ei todellista lukivaikeutta',
+    'training.roc': 'ROC (AUC {auc})',
+    'training.falsePositiveRate': 'Väärien positiivisten osuus',
+    'training.truePositiveRate': 'Oikeiden positiivisten osuus',
+    'training.pr': 'Osuvuus–saanti (AP {ap})',
+    'training.calibration': 'Kalibrointi',
+    'training.meanPredicted': 'Ennustettu keskimääräinen todennäköisyys',
+    'training.observedRate': 'Havaittu positiivisten osuus',
+
+    'short.readingSpeed': 'Lukeminen',
+    'short.fixationDuration': 'Fiksaatio',
+    'short.saccadeLength': 'Sakkadi',
+    'short.phonemeErrors': 'Äänteet',
+    'short.spellingErrors': 'Oikeinkirj.',
+    'short.comprehensionScore': 'Ymmärt.',
+
+    'cohort.risk': 'Riski',
+    'cohort.retest': 'Uusintatesti',
+    'cohort.low': 'Matala riski',
+    'cohort.scored': 'Pisteytetyt oppilaat',
+    'cohort.atRisk': 'Riskissä',
+    'cohort.errorRows': 'Virheelliset rivit',
+    'cohort.search': 'Suodata oppilaan tunnisteella tai nimellä',
+    'cohort.filterAll': 'Kaikki rivit',
+    'cohort.filterRisk': 'Riski havaittu',
+    'cohort.filterIndeterminate': 'Epävarma (uusintatesti)',
+    'cohort.filterLow': 'Matala riski',
+    'cohort.filterErrors': 'Vain virheet',
+    'cohort.student': 'Oppilas',
+    'cohort.prediction': 'Ennuste',
+    'cohort.modelProbability': 'Mallin P',
+    'cohort.issues': 'Huomiot',
+    'cohort.view': 'Näytä tarkat tulokset',
+    'cohort.noMatch': 'Mikään rivi ei vastaa suodatinta.',
+
+    'band.low': 'Matala ({min}–{max})',
+    'band.retest': 'Uusintatesti ({min}–{max})',
+    'band.elevated': 'Kohonnut ({min}–{max})',
+    'band.high': 'Korkea ({min}–{max})',
+
+    'analytics.empty': 'Tuo tiedosto nähdäksesi ryhmän analyysin.',
+    'analytics.students': 'Oppilaat',
+    'analytics.groupA': 'Ryhmä A',
+    'analytics.groupB': 'Vertaa ryhmään (ryhmä B)',
+    'analytics.noComparison': 'Ei vertailua',
+    'analytics.atRiskOf': 'riskissä {count} pisteytetystä',
+    'analytics.bands': 'Riskiluokat — {name}',
+    'analytics.bandsChart': 'Rengaskaavio oppilaista riskiluokittain: {name}',
+    'analytics.bandsCaption': 'Oppilaat riskiluokittain — {name}',
+    'analytics.mix': 'Riskitasot mittareittain',
+    'analytics.mixChart': 'Pinottu pylväskaavio kunkin mittarin riskitasoista',
+    'analytics.mixCaption': 'Oppilaat kullakin riskitasolla mittareittain',
+    'analytics.share': 'Osuus riskiluokittain (%)',
+    'analytics.shareChart': 'Pylväskaavio, joka vertaa ryhmien oppilasosuuksia riskiluokittain',
+    'analytics.shareCaption': 'Oppilaiden osuus riskiluokittain (%)',
+    'analytics.distribution': 'Jakauma',
+    'analytics.histogram': '{feature}: histogrammi',
+    'analytics.histogramChart': 'Histogrammi: {feature}',
+    'analytics.histogramCaption': 'Oppilaat välein: {feature}',
+    'analytics.noValues': 'Ei kirjattuja arvoja: {feature}.',
+    'analytics.summary': 'Mittareiden yhteenveto',
+    'analytics.feature': 'Mittari',
+    'analytics.meanMedian': '{name} keskiarvo / mediaani',
+    'analytics.difference': 'Erotus (B − A)',
+    'analytics.outliers': 'Poikkeavat arvot — {name}',
+    'analytics.noOutliers': 'Yksikään arvo ei ole ryhmän 1,5 × IQR:n ulkopuolella.',
+    'analytics.value': 'Arvo',
+    'analytics.unusually.low': 'poikkeuksellisen matala',
+    'analytics.unusually.high': 'poikkeuksellisen korkea',
+
+    'explain.title': 'Miksi tämä pistemäärä?',
+    'explain.contribution': 'Osuus riskipistemäärästä',
+    'explain.waterfall': 'Osuuksien vesiputous',
+    'explain.waterfallChart': 'Vesiputouskaavio kunkin mittauksen osuudesta riskipistemäärään',
+    'explain.waterfallCaption': 'Kertyvä riskipistemäärä ennen kutakin mittausta ja sen jälkeen',
+    'explain.topDrivers': 'Tärkeimmät tekijät',
+    'explain.allLow': 'Kaikki mittaukset ovat matalan riskin alueella.',
+    'explain.measurement': 'Mittaus',
+    'explain.points': 'Pisteet',
+    'explain.nextThreshold': 'Seuraava raja',
+    'explain.notMeasured': 'Ei mitattu',
+    'explain.away': '{value} ({distance} päässä)',
+    'explain.changes': 'Mikä muuttaisi tuloksen',
+    'explain.noChanges': 'Minkään yksittäisen mittauksen muutos ei muuttaisi tätä tulosta.',
+    'explain.driverBelow': '{feature} ({value}) on alle rajan {cutOff}, riskitaso {level}, ja tuo {points} riskipistemäärän {score} pisteestä.',
+    'explain.driverAbove': '{feature} ({value}) on yli rajan {cutOff}, riskitaso {level}, ja tuo {points} riskipistemäärän {score} pisteestä.',
+    'explain.atLeast': '{feature} vähintään {value}',
+    'explain.below': '{feature} alle {value}',
+    'explain.atMost': '{feature} enintään {value}',
+    'explain.above': '{feature} yli {value}',
+    'explain.lowers': '{change} siirtäisi mittauksen tasolta {from} tasolle {to} ja laskisi riskipistemäärän arvoon {score}',
+    'explain.raises': '{change} siirtäisi mittauksen tasolta {from} tasolle {to} ja nostaisi riskipistemäärän arvoon {score}',
+    'explain.flipsToRisk': ', jolloin tulos muuttuisi riskiksi.',
+    'explain.flipsToLow': ', jolloin tulos muuttuisi matalaksi riskiksi.',
+
+    'module.reading': 'Ajastettu lukeminen',
+    'module.spelling': 'Sanelu',
+    'module.phoneme': 'Äänteisiin jakaminen',
+    'module.comprehension': 'Ymmärtämistehtävä',
+    'modules.pack': 'Sisältöpaketti',
+    'modules.hint': 'Jokainen valmis moduuli täyttää oman mittauksensa. Tarkista tai lisää loput arvot kohdassa Manuaalinen syöttö ja analysoi sitten.',
+    'modules.useResult': 'Käytä tulosta',
+    'reading.instructions': 'Teksti tulee näkyviin, kun ajanotto alkaa. Pyydä oppilasta lukemaan se ääneen tavallisella tahdillaan.',
+    'reading.lastWord': 'Viimeinen luettu sana',
+    'reading.start': 'Aloita ajanotto',
+    'reading.stop': 'Pysäytä — oppilas valmis',
+    'reading.timing': '{seconds} s, {read}/{total} sanaa',
+    'reading.wpm': '{wpm} sanaa minuutissa',
+    'reading.markHint': 'Napsauta sanaa tai käytä nuolinäppäimiä tekstissä merkitäksesi, mihin oppilas jäi.',
+    'reading.retry': 'Yritä uudelleen',
+    'spelling.instructionsSpoken': 'Toista jokainen sana ja pyydä oppilasta kirjoittamaan se.',
+    'spelling.instructions': 'Lue jokainen sana, sen lause ja sana uudelleen; oppilas kirjoittaa sen.',
+    'spelling.hideWords': 'Piilota sanat',
+    'spelling.showWords': 'Näytä sanat (arvioija)',
+    'spelling.play': 'Toista sana',
+    'spelling.playNumber': 'Toista sana {number}',
+    'spelling.mark': 'Tarkista oikeinkirjoitus',
+    'spelling.errorsOne': '{count} kirjoitusvirhe',
+    'spelling.errorsMany': '{count} kirjoitusvirhettä',
+    'spelling.outOf': '{total} sanasta.',
+    'spelling.edit': 'Muokkaa vastauksia',
+    'phoneme.instructions': 'Sano jokainen kohta ja pyydä oppilasta jakamaan se äänteisiin. Napsauta äänteitä, jotka jäävät pois tai menevät väärin. Epäsanat mittaavat dekoodausta ilman tuttujen sanojen tukea.',
+    'phoneme.nonword': 'epäsana',
+    'phoneme.errorsOne': '{count} äännevirhe',
+    'phoneme.errorsMany': '{count} äännevirhettä',
+    'phoneme.outOf': '{total} äänteestä.',
+    'quiz.instructions': 'Kysymyksiä tekstistä ”{title}”. Tee tämä ajastetun lukemisen jälkeen.',
+    'quiz.score': 'Pisteytä tehtävä',
+    'quiz.result': '{score} % oikein ({correct}/{total}).',
+
+    'gaze.duration': 'Tallenteen pituus',
+    'gaze.trackingLoss': 'Seurannan katkokset',
+    'gaze.fixations': 'Fiksaatiot',
+    'gaze.meanFixation': 'Fiksaation keskikesto',
+    'gaze.medianFixation': 'Fiksaation mediaanikesto',
+    'gaze.meanSaccade': 'Sakkadin keskipituus',
+    'gaze.regressionRate': 'Regressioiden osuus',
+    'gaze.fixationsPerSecond': 'Fiksaatiota sekunnissa',
+    'gaze.scanpathChart': 'Katseen reitti: {fixations} fiksaatiota ja {saccades} sakkadia',
+    'gaze.pixelsPerDegree': 'Pikseliä asteelle',
+    'gaze.velocityThreshold': 'Nopeusraja (°/s)',
+    'gaze.dispersionThreshold': 'Hajontaraja (°)',
+    'gaze.minFixation': 'Lyhin fiksaatio (ms)',
+    'gaze.maxGap': 'Pisin katko (ms)',
+    'gaze.chooseFile': 'Valitse katsenäytetiedosto',
+    'gaze.fileHint': 'Raakoja katsenäytteitä, joissa on aikaleima-, x-, y- ja valinnainen kelpoisuussarake; Tobii- ja Gazepoint-viennit sekä EyeLinkin .asc-tiedostot tunnistetaan',
+    'gaze.screenWidth': 'Näytön leveys (px)',
+    'gaze.screenHeight': 'Näytön korkeus (px)',
+    'gaze.algorithm': 'Algoritmi',
+    'gaze.ivt': 'I-VT (nopeusraja)',
+    'gaze.idt': 'I-DT (hajontaraja)',
+    'gaze.samples': '{count} näytettä, {rate} Hz',
+    'gaze.highLoss': 'Yli 20 % näytteistä on virheellisiä; johdetut arvot voivat olla epäluotettavia.',
+    'gaze.scanpath': 'Katseen reitti',
+    'gaze.addStimulus': 'Lisää ärsykekuva',
+    'gaze.changeStimulus': 'Vaihda ärsykekuva',
+    'gaze.scanpathLegend': 'Ympyrät ovat fiksaatioita, kokonsa keston mukaan ja numeroitu järjestyksessä; oranssit viivat ovat regressioita.',
+    'gaze.apply': 'Käytä fiksaation kestoa ja sakkadin pituutta',
+    'gaze.applied': 'Siirretty mittauslomakkeelle',
+    'gaze.readError': 'Katsetiedoston lukeminen epäonnistui',
+
+    'webcam.intro': 'Arvioi katseen verkkokameralla kasvojen ja iiriksen maamerkkimallilla, joka toimii selaimessa; videokuva ei poistu laitteelta. Oppilas istuu käsivarren mitan päässä näytöstä, kalibroidaan yhdeksällä pisteellä ja lukee sitten tekstin ”{title}” ääneen.',
+    'webcam.startError': 'Verkkokameran käynnistys epäonnistui',
+    'webcam.calibrationError': 'Kalibrointi epäonnistui',
+    'webcam.loading': 'Ladataan kasvomallia…',
+    'webcam.start': 'Käynnistä verkkokamera',
+    'webcam.calibrate': 'Kalibroi ja tallenna',
+    'webcam.calibrateAgain': 'Kalibroi ja tallenna uudelleen',
+    'webcam.lookAtDot': 'Katso punaista pistettä ja pidä pää paikallaan ({number}/{total}).',
+    'webcam.calibrationResult': 'Kalibrointivirhe: {error}°',
+    'webcam.readNext': 'Lue seuraavan näytön teksti ääneen ja paina sitten Valmis.',
+    'webcam.showPassage': 'Näytä teksti',
+    'webcam.recalibrate': 'Kalibroi uudelleen',
+    'webcam.finished': 'Valmis',
+    'webcam.cancel': 'Peruuta',
+    'webcam.quality': 'Datan laatu {score}/100',
+    'webcam.lowQuality': 'heikkolaatuinen tallenne',
+    'webcam.qualityDetail': 'Kalibrointivirhe {error}°, {rate} kuvaa/s, kasvot tunnistettu {tracked} %:ssa kuvista, {onScreen} % katseesta näytöllä.',
+    'webcam.lowQualityHint': 'Alle {score} pisteen tai alle 10 sekunnin tallenteet ovat liian epäluotettavia pisteytettäviksi oletuksena; tallenna uudelleen tai jätä molemmat mittaukset mittaamatta.',
+    'webcam.leaveUnmeasured': 'Jätä fiksaatio ja sakkadi mittaamatta',
+    'webcam.useAnyway': 'Käytä arvoja silti',
+    'webcam.issueCalibration': 'Kalibrointivirhe on {error}°; kalibroi uudelleen pää paikallaan ja kasvot tasaisesti valaistuina.',
+    'webcam.issueRate': 'Vain {rate} kuvaa sekunnissa käsiteltiin; sulje muita välilehtiä tai käytä nopeampaa laitetta.',
+    'webcam.issueLost': 'Kasvot tai silmät katosivat {percent} %:ssa kuvista.',
+    'webcam.issueOffScreen': '{percent} % katse-estimaateista osui näytön ulkopuolelle; oppilas on ehkä liikkunut kalibroinnin jälkeen.',
+    'webcam.issueShort': 'Tallenne on alle 10 sekuntia.',
+
+    'profile.active': 'Käytössä oleva pisteytysprofiili',
+    'profile.builtInName': '{name} (sisäänrakennettu)',
+    'profile.customName': '{name} (muokattu)',
+    'profile.invalid': 'Virheellinen pisteytysprofiili',
+    'profile.importError': 'Pisteytysprofiilin tuonti epäonnistui',
+    'profile.import': 'Tuo',
+    'profile.export': 'Vie',
+    'profile.name': 'Profiilin nimi',
+    'profile.riskWhen': 'Riski, kun',
+    'profile.low': 'Matala',
+    'profile.high': 'Korkea',
+    'profile.weight': 'Paino',
+    'profile.lower': 'Arvo on matala',
+    'profile.higher': 'Arvo on korkea',
+    'profile.saveAsNew': 'Tallenna uutena profiilina',
+    'profile.save': 'Tallenna profiili',
+    'profile.delete': 'Poista',
+
+    'report.heading': 'Lukivaikeusseulonnan raportti',
+    'report.student': 'Oppilas',
+    'report.notSpecified': 'Ei määritetty',
+    'report.date': 'Päivämäärä',
+    'report.profile': 'Pisteytysprofiili',
+    'report.result': 'Tulos',
+    'report.margin': 'Päätösmarginaali',
+    'report.modelProbability': 'Mallin arvioima lukivaikeuden todennäköisyys',
+    'report.measurements': 'Mittaukset ja riskitasot',
+    'report.risk': 'Riski',
+    'report.charts': 'Kaaviot',
+    'report.disclaimerTitle': 'Vastuuvapauslauseke',
+    'report.disclaimer': 'Tämä raportti on seulonnan apuväline, ei diagnoosi. Tulokset perustuvat rajattuun joukkoon mittauksia, ja pätevän ammattilaisen tulee tulkita ne yhdessä kattavan pedagogisen ja kliinisen arvion kanssa.',
+
+    'students.addError': 'Oppilaan lisääminen epäonnistui',
+    'students.consentError': 'Suostumuksen kirjaaminen epäonnistui',
+    'students.featureChart': 'Viivakaavio: {feature} arviointipäivittäin',
+    'students.featureCaption': '{feature} arviointipäivittäin',
+    'students.none': 'Ei vielä tallennettuja oppilaita',
+    'students.select': 'Valitse oppilas',
+    'students.optionOne': '{name} ({count} arviointi)',
+    'students.optionMany': '{name} ({count} arviointia)',
+    'students.confirmDelete': 'Poistetaanko {name} ja kaikki tallennetut arvioinnit?',
+    'students.consentResearch': 'Suostumus: {guardian} ({relationship}) {date}, sisältää tutkimuskäytön; kirjannut {recordedBy}.',
+    'students.consentNoResearch': 'Suostumus: {guardian} ({relationship}) {date}, ei sisällä tutkimuskäyttöä; kirjannut {recordedBy}.',
+    'students.consentMissing': '{name} tallennettiin ennen kuin suostumusta vaadittiin. Kirjaa huoltajan suostumus ennen arviointien lisäämistä.',
+    'students.recordConsent': 'Kirjaa suostumus',
+    'students.newName': 'Uuden oppilaan nimi tai tunniste',
+    'students.add': 'Lisää oppilas',
+    'students.noAssessments': 'Oppilaalle {name} ei ole vielä tallennettu arviointeja. Tee analyysi ja tallenna se Tulokset-välilehdeltä.',
+    'students.riskChart': 'Viivakaavio kokonaisriskipistemäärästä arviointipäivittäin',
+    'students.riskCaption': 'Kokonaisriskipistemäärä arviointipäivittäin',
+    'students.goals': 'Tukitoimien tavoitteet (suunnitelma {date})',
+    'students.latest': 'Riskitaso {level} {date} ({value}, lähtötaso {baseline})',
+    'students.changes': 'Muutos edellisestä arvioinnista',
+    'students.moved': 'Muuttui tasolta {from} tasolle {to}',
+    'goalStatus.met': 'Saavutettu',
+    'goalStatus.in-progress': 'Kesken',
+    'goalStatus.overdue': 'Ei saavutettu tarkistuspäivään mennessä',
+    'goalStatus.not-assessed': 'Ei vielä arvioitu uudelleen',
+
+    'library.or': ' tai ',
+    'library.and': ' ja ',
+    'library.always': 'aina',
+    'library.decisionIs': 'päätös on {decisions}',
+    'library.featureIs': '{feature} on {levels}',
+    'library.invalid': 'Virheellinen tukitoimikirjasto',
+    'library.importError': 'Tukitoimikirjaston tuonti epäonnistui',
+    'library.intro': 'Säännöt valitsevat tukitoimet kirjastosta päätöksen ja kunkin mittarin riskitason perusteella. Muutokset tallennetaan tähän selaimeen.',
+    'library.confirmReset': 'Korvataanko kirjasto oletuskirjastolla?',
+    'library.reset': 'Palauta',
+    'library.interventions': 'Tukitoimet',
+    'library.name': 'Nimi',
+    'library.delete': 'Poista {name}',
+    'library.description': 'Kuvaus',
+    'library.category': 'Luokka',
+    'library.intensity': 'Intensiteetti',
+    'library.evidence': 'Näyttö',
+    'library.minAge': 'Vähimmäisikä',
+    'library.maxAge': 'Enimmäisikä',
+    'library.goal': 'Tavoite:',
+    'library.goalFeature': 'Tavoitteen mittari',
+    'library.noGoal': 'Ei tavoitetta',
+    'library.reaches': 'saavuttaa tason',
+    'library.goalLevel': 'Tavoitteen riskitaso',
+    'library.goalLow': 'Matala riski',
+    'library.goalMedium': 'Kohtalainen riski tai parempi',
+    'library.within': '',
+    'library.goalWeeks': 'Tavoitteen viikot',
+    'library.weeks': 'viikon kuluessa',
+    'library.newName': 'Uusi tukitoimi',
+    'library.add': 'Lisää tukitoimi',
+    'library.rules': 'Säännöt',
+    'library.when': 'Milloin',
+    'library.reasonShown': 'Näytettävä syy',
+    'library.adds': 'Lisää',
+    'library.priority': 'Prioriteetti',
+    'library.reason': 'Syy',
+    'library.deleteRule': 'Poista sääntö',
+    'library.rulesHint': 'Jos haluat lisätä sääntöjä tai muuttaa niiden ehtoja, vie kirjasto, muokkaa JSON-tiedostoa ja tuo se uudelleen.',
+    'library.save': 'Tallenna kirjasto',
+
+    'vault.reset': 'Nollaa salalause (poistaa salatut oppilastiedot)',
+    'vault.confirmReset': 'Poistetaanko kaikki tämän laitteen oppilastiedot ja lokitiedot ja asetetaan uusi salalause? Toimintoa ei voi perua.',
+    'vault.resetFailed': 'Salalauseen nollaus epäonnistui',
+
+    'audit.view': 'Katsottu',
+    'audit.create': 'Luotu',
+    'audit.update': 'Päivitetty',
+    'audit.delete': 'Poistettu',
+    'audit.report': 'Raportti',
+    'audit.export': 'Viety',
+    'audit.reset': 'Nollattu',
+
+    'privacy.exportTitle': 'Tunnistamaton vienti',
+    'privacy.exportIntro': 'Yksi CSV-rivi arviointia kohden tutkimuskäyttöön. Nimet, suostumuksen tiedot ja tietueiden tunnisteet jätetään pois, jokainen oppilas saa pseudonyymin tunnisteen ja kunkin oppilaan päivämääriä siirretään samalla satunnaisella määrällä päiviä. Mukana ovat vain oppilaat, joiden huoltaja on suostunut tietojen käyttöön tutkimuksessa ({consenting}/{total}).',
+    'privacy.studyKey': 'Tutkimusavain (valinnainen)',
+    'privacy.studyKeyHint': 'Käytä samaa avainta, niin oppilaat saavat samat pseudonyymit myöhemmissäkin vienneissä. Älä anna avainta vastaanottajille.',
+    'privacy.maxShift': 'Siirrä päivämääriä enintään (päivää)',
+    'privacy.export': 'Vie tunnistamaton CSV',
+    'privacy.exportFailed': 'Vienti epäonnistui',
+    'privacy.exported': 'Vietiin {assessments} ({students}).',
+    'privacy.assessmentsOne': '{count} arviointi',
+    'privacy.assessmentsMany': '{count} arviointia',
+    'privacy.studentsOne': '{count} oppilas',
+    'privacy.studentsMany': '{count} oppilasta',
+    'privacy.excluded': '{count} jätettiin pois ilman tutkimussuostumusta.',
+    'privacy.auditTitle': 'Lokitiedot',
+    'privacy.downloadCsv': 'Lataa CSV',
+    'privacy.auditEmpty': 'Oppilastietoja ei ole vielä katsottu, muutettu eikä viety.',
+    'privacy.when': 'Milloin',
+    'privacy.who': 'Kuka',
+    'privacy.action': 'Toiminto',
+    'privacy.students': 'Oppilaat',
+    'privacy.detail': 'Lisätieto',
+
+    'engine.notInstalled': 'Mallia ei ole asennettu, joten tulokset lasketaan heuristiikalla. Vie malli ajamalla python src/train.py tai kouluta malli Koulutus-välilehdellä.',
+
+    'modules.scaled': 'Oikeinkirjoitus- ja äännevirheet suhteutetaan pisteytysprofiilin olettamaan testin pituuteen: {words} sanaa ja {phonemes} äännettä.',
+
+    'training.calibrationCaption': 'Kalibroitu todennäköisyys ja 90 %:n vyöhyke riskipisteittäin',
+
+    'chart.range': '{from}–{to}',
+
+    'error.auditLog': 'Tarkastuslokiin kirjoittaminen epäonnistui',
+    'auditDetail.consent': 'Huoltajan suostumus kirjattu',
+    'auditDetail.assessment': 'Arviointi {date} tallennettu',
+    'auditDetail.cohort': 'Ryhmän arvioinnit {date} tallennettu',
+    'auditDetail.pdf': 'PDF-raportti: "{student}"',
+    'auditDetail.print': 'Tulostettu raportti: "{student}"',
+    'auditDetail.deidentified': 'Tunnisteeton CSV, {count} arviointia',
+    'auditDetail.reset': 'Kaikki oppilastiedot ja aiempi tarkastusloki poistettiin {at} uuden salalauseen asettamiseksi',
+    'report.unlockFirst': 'Avaa oppilastiedot Oppilaat-välilehdellä, jotta voit lisätä raporttiin nimen. Jokainen nimetty raportti kirjataan tarkastuslokiin.'
+  },
+  // Highly transparent orthography with long compound words: accuracy is near
+  // ceiling after the first year, so slow reading is the clearest marker and
+  // words per minute run lower than in English.
+  norms: [
+    {
+      id: 'fi-default',
+      name: 'Suomi: yleinen',
+      description: 'Yleiset raja-arvot suomenkielisille lukijoille',
+      values: {
+        readingSpeed: [45, 70, 0.35],
+        fixationDuration: [290, 390, 0.15],
+        saccadeLength: [20, 35, 0.15],
+        phonemeErrors: [4, 8, 0.10],
+        spellingErrors: [2, 5, 0.10],
+        comprehensionScore: [60, 80, 0.15]
+      }
+    },
+    {
+      id: 'fi-grades-1-2',
+      name: 'Suomi: 1.–2. luokka',
+      description: 'Aloittelevat lukijat; hitaampi lukeminen ja pidemmät fiksaatiot ovat odotettuja',
+      gradeBand: '1-2',
+      values: {
+        readingSpeed: [25, 45, 0.35],
+        fixationDuration: [340, 440, 0.10],
+        saccadeLength: [15, 28, 0.10],
+        phonemeErrors: [5, 9, 0.20],
+        spellingErrors: [3, 6, 0.15],
+        comprehensionScore: [55, 75, 0.10]
+      }
+    },
+    {
+      id: 'fi-grades-3-5',
+      name: 'Suomi: 3.–5. luokka',
+      description: 'Siirtymä dekoodauksesta sujuvaan lukemiseen',
+      gradeBand: '3-5',
+      values: {
+        readingSpeed: [55, 80, 0.35],
+        fixationDuration: [290, 390, 0.15],
+        saccadeLength: [20, 35, 0.15],
+        phonemeErrors: [4, 8, 0.10],
+        spellingErrors: [2, 5, 0.10],
+        comprehensionScore: [60, 80, 0.15]
+      }
+    },
+    {
+      id: 'fi-grades-6-8',
+      name: 'Suomi: 6.–8. luokka',
+      description: 'Sujuvat lukijat; luetun ymmärtäminen painaa enemmän',
+      gradeBand: '6-8',
+      values: {
+        readingSpeed: [80, 105, 0.35],
+        fixationDuration: [250, 350, 0.15],
+        saccadeLength: [25, 40, 0.15],
+        phonemeErrors: [3, 6, 0.05],
+        spellingErrors: [1, 4, 0.10],
+        comprehensionScore: [65, 85, 0.20]
+      }
+    }
+  ],
+  interventions: {
+    'diagnostic-assessment': {
+      name: 'Kattava diagnostinen arviointi',
+      description: 'Ohjaa psykologille tai erityisopettajalle lukemisen, kirjoittamisen, fonologisen prosessoinnin ja kognitiivisen profiilin kattavaan arviointiin.'
+    },
+    rescreen: {
+      name: 'Uusintaseulonta 8–12 viikon kuluttua',
+      description: 'Seulo uudelleen tavallisen luokkaopetuksen jakson jälkeen, mieluiten kaikilla mittauksilla, ennen kuin päätät lisätuesta.'
+    },
+    'annual-monitoring': {
+      name: 'Tavallinen seuranta luokassa',
+      description: 'Kohdennettua tukea ei nyt tarvita; seuraa edistymistä ja seulo uudelleen seuraavan tavallisen tarkistuksen yhteydessä.'
+    },
+    'phonological-awareness': {
+      name: 'Fonologisen tietoisuuden suora harjoittelu',
+      description: 'Lyhyitä, tiheitä harjoituksia äänteiden erottelusta, yhdistämisestä ja muokkaamisesta, kytkettynä kirjaimiin mahdollisimman pian.'
+    },
+    'systematic-phonics': {
+      name: 'Järjestelmällinen kirjain-äännevastaavuuksien ohjelma',
+      description: 'Päivittäistä, etenevää opetusta kirjain-äännevastaavuuksista ja harjoittelua helposti dekoodattavilla teksteillä.'
+    },
+    'structured-literacy': {
+      name: 'Strukturoitu luku- ja kirjoitustaidon tuki pienryhmässä',
+      description: 'Moniaistista, kumuloituvaa opetusta fonologiasta, oikeinkirjoituksesta ja morfologiasta pienryhmässä koulutetun opettajan kanssa.'
+    },
+    'repeated-reading': {
+      name: 'Toistava lukeminen palautteen kanssa',
+      description: 'Oppilas lukee lyhyitä, opetustasonsa mukaisia tekstejä uudelleen mallin ja virheiden korjauksen tukemana, kunnes sujuvuustavoite täyttyy.'
+    },
+    'assisted-reading': {
+      name: 'Parilukeminen tai avustettu lukeminen',
+      description: 'Ääneen lukemista yhdessä sujuvan lukijan kanssa; tukea vähennetään oppilaan varmuuden kasvaessa.'
+    },
+    'spelling-instruction': {
+      name: 'Suora oikeinkirjoituksen opetus',
+      description: 'Opeta oikeinkirjoituksen säännönmukaisuudet ja säännöt suoraan, kertaa kumuloituvasti ja harjoittele sanelukirjoitusta.'
+    },
+    morphology: {
+      name: 'Morfologisen tietoisuuden opetus',
+      description: 'Harjoittele etu- ja jälkiliitteitä, sananvartaloita ja yhdyssanoja pitkien sanojen kirjoittamisen ja dekoodauksen tueksi.'
+    },
+    'comprehension-strategies': {
+      name: 'Luetun ymmärtämisen strategioiden opetus',
+      description: 'Suoraa opetusta ennustamisesta, kysymysten esittämisestä, epäselvien kohtien selvittämisestä ja tiivistämisestä, esimerkiksi vastavuoroisen opetuksen keinoin.'
+    },
+    'text-accommodations': {
+      name: 'Tekstin mukautukset',
+      description: 'Suurempi fonttikoko, väljempi merkki- ja riviväli, lyhyemmät rivit sekä äänikirjat tai puhesynteesi.'
+    },
+    'vision-check': {
+      name: 'Näöntutkimus',
+      description: 'Sulje pois korjaamattomat taittovirheet ja molempien silmien yhteistyön ongelmat ennen kuin poikkeavat silmänliikkeet tulkitaan lukemisen vaikeudeksi.'
+    },
+    'reading-guide': {
+      name: 'Lukuviivain tai lukuikkuna',
+      description: 'Viivain, lukuikkuna tai näytön rivikorostus auttaa oppilasta pysymään rivillä.'
+    }
+  },
+  rules: {
+    'risk-referral': 'Seulonta viittaa lukivaikeuden riskiin',
+    'indeterminate-rescreen': 'Tulos on epävarma',
+    'low-risk-monitoring': 'Seulonta viittaa matalaan riskiin',
+    'phoneme-high': 'Äännevirheitä on paljon',
+    'phoneme-medium': 'Äännevirheitä on tavallista enemmän',
+    'phonological-core': 'Sekä äänne- että kirjoitusvirheitä on tavallista enemmän, mikä viittaa perustavaan dekoodauksen vaikeuteen',
+    spelling: 'Kirjoitusvirheitä on tavallista enemmän',
+    fluency: 'Lukunopeus on hidas',
+    'fluency-without-decoding': 'Lukeminen on hidasta, vaikka fonologiset taidot ovat hyvät, joten päätavoite on sujuvuus',
+    comprehension: 'Luetun ymmärtäminen on heikkoa',
+    'comprehension-with-slow-reading': 'Heikko ymmärtäminen yhdessä hitaan lukemisen kanssa viittaa siihen, että dekoodauksen kuormitus rajoittaa ymmärtämistä',
+    'fixation-high': 'Fiksaatiot ovat pitkiä',
+    'saccade-high': 'Sakkadit ovat tavallista lyhyempiä',
+    'eye-movement-only': 'Silmänliikkeet ovat poikkeavia, vaikka fonologiset taidot ovat hyvät'
+  }
+};
+
+export default fi;
@@ -0,0 +1,169 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { ScoredRow } from '../types';
+import { builtInProfiles } from '../lib/scoring';
+import { parseTable } from '../lib/importer';
+import {
+  resolveOperatingPoint,
+  resolveProfile,
+  scoredRowsToCsv,
+  scoreRecords,
+  scoreTable,
+  ScoringOptions
+} from '../lib/scoringService';
+
+// JSON and CSV scoring endpoints for LMS integrations:
+//
+//   GET  /health        liveness check
+//   GET  /profiles      built-in scoring profiles
+//   POST /score         one student  -> AnalysisResult fields plus `warning`
+//   POST /score/batch   many rows    -> { profile, operatingPoint, rows }
+//
+// JSON bodies hold measurements under the FormDataType field names, with
+// optional `profile` (id or profile object) and `operatingPoint`. CSV bodies
+// (text/csv) are read like an uploaded file; options then come from the
+// `profile`, `threshold` and `margin` query parameters.
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+// Thrown for anything wrong with the request; reported as a 4xx.
+class RequestError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+  }
+}
+
+interface ParsedBody {
+  // One entry per JSON record or CSV row.
+  rows: ScoredRow[];
+  options: ScoringOptions;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop collecting but leave the socket open: destroying it here could
+        // drop the 413 before it is sent. The rest is discarded unread.
+        req.removeAllListeners('data');
+        req.resume();
+        reject(new RequestError('Request body is larger than 5 MB', 413));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+const isCsv = (contentType: string) => /text\/(csv|tab-separated-values|plain)/.test(contentType);
+
+async function parseRequest(req: IncomingMessage, url: URL, batch: boolean): Promise<ParsedBody> {
+  const contentType = req.headers['content-type'] ?? '';
+  const text = await readBody(req);
+
+  try {
+    if (isCsv(contentType)) {
+      const options = {
+        profile: resolveProfile(url.searchParams.get('profile')),
+        operatingPoint: resolveOperatingPoint({
+          threshold: url.searchParams.get('threshold'),
+          indeterminateMargin: url.searchParams.get('margin')
+        })
+      };
+      const fileName = contentType.includes('tab-separated') ? 'request.tsv' : 'request.csv';
+      return { rows: scoreTable(parseTable(fileName, text), options), options };
+    }
+
+    if (!contentType.includes('application/json')) {
+      throw new RequestError('Content-Type must be application/json or text/csv', 415);
+    }
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new RequestError('Request body is not valid JSON');
+    }
+    // A batch may also be a bare array of records.
+    const envelope = (Array.isArray(body) ? { rows: body } : body) as Record<string, unknown> | null;
+    if (typeof envelope !== 'object' || envelope === null) {
+      throw new RequestError('Request body must be a JSON object');
+    }
+    const options = {
+      profile: resolveProfile(envelope.profile),
+      operatingPoint: resolveOperatingPoint(envelope.operatingPoint ?? {})
+    };
+    if (!batch) {
+      return { rows: scoreRecords([envelope], options), options };
+    }
+    if (!Array.isArray(envelope.rows)) {
+      throw new RequestError('Batch requests need a `rows` array');
+    }
+    return { rows: scoreRecords(envelope.rows, options), options };
+  } catch (err) {
+    if (err instanceof RequestError) throw err;
+    // Everything the scoring core throws is about the input.
+    throw new RequestError(err instanceof Error ? err.message : 'Invalid request');
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown, contentType = 'application/json') {
+  const payload = contentType === 'application/json' ? JSON.stringify(body) : String(body);
+  res.writeHead(status, { 'Content-Type': `${contentType}; charset=utf-8` });
+  res.end(payload);
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const route = `${req.method} ${url.pathname.replace(/\/+$/, '') || '/'}`;
+
+  switch (route) {
+    case 'GET /health':
+      return send(res, 200, { status: 'ok' });
+
+    case 'GET /profiles':
+      return send(res, 200, builtInProfiles.map(({ id, name, gradeBand }) => ({ id, name, gradeBand })));
+
+    case 'POST /score': {
+      const { rows } = await parseRequest(req, url, false);
+      if (rows.length !== 1) {
+        throw new RequestError(`Expected one student, got ${rows.length}; use /score/batch for more`);
+      }
+      const [row] = rows;
+      if (!row.result) {
+        return send(res, 422, { error: row.error, warning: row.warning });
+      }
+      return send(res, 200, { ...row.result, warning: row.warning });
+    }
+
+    case 'POST /score/batch': {
+      const { rows, options } = await parseRequest(req, url, true);
+      if (/text\/csv/.test(req.headers.accept ?? '')) {
+        return send(res, 200, scoredRowsToCsv(rows), 'text/csv');
+      }
+      return send(res, 200, { profile: options.profile.id, operatingPoint: options.operatingPoint, rows });
+    }
+
+    default:
+      throw new RequestError(`No route for ${route}`, 404);
+  }
+}
+
+export function createScoringServer(): Server {
+  return createServer((req, res) => {
+    handle(req, res).catch(err => {
+      if (err instanceof RequestError) {
+        // Close the connection once the error has gone out rather than
+        // wait for the rest of an oversized body.
+        if (err.status === 413) res.setHeader('Connection', 'close');
+        send(res, err.status, { error: err.message });
+      } else {
+        console.error(err);
+        send(res, 500, { error: 'Internal server error' });
+      }
+    });
+  });
+}
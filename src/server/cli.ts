@@ -0,0 +1,82 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { readTable } from '../lib/importer';
+import { resolveOperatingPoint, resolveProfile, scoredRowsToCsv, scoreTable } from '../lib/scoringService';
+
+const usage = `Usage: npm run score -- <input.csv|.tsv|.xlsx> [options]
+
+Scores every row with the same engine as the web app and writes CSV or JSON.
+
+Options:
+  -o, --out <file>        Write to a file instead of stdout
+  -f, --format <format>   csv or json (default: from --out, else csv)
+  -p, --profile <id|file> Built-in profile id or an exported profile JSON file
+      --threshold <n>     Decision threshold on the 0-10 score (default 5)
+      --margin <n>        Indeterminate band around the threshold (default 0.5)
+  -h, --help              Show this message`;
+
+async function loadProfile(value: string | undefined) {
+  // Anything that looks like a path is read as an exported profile.
+  if (value && /\.json$/i.test(value)) {
+    let json: unknown;
+    try {
+      json = JSON.parse(await readFile(value, 'utf8'));
+    } catch {
+      throw new Error(`Profile file ${value} is not valid JSON`);
+    }
+    return resolveProfile(json);
+  }
+  return resolveProfile(value);
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      profile: { type: 'string', short: 'p' },
+      threshold: { type: 'string' },
+      margin: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(usage);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const format = values.format ?? (values.out && extname(values.out).toLowerCase() === '.json' ? 'json' : 'csv');
+  if (format !== 'csv' && format !== 'json') {
+    throw new Error(`Unknown format "${format}"; use csv or json`);
+  }
+
+  const input = positionals[0];
+  const table = await readTable(new File([await readFile(input)], basename(input)));
+  const options = {
+    profile: await loadProfile(values.profile),
+    operatingPoint: resolveOperatingPoint({ threshold: values.threshold, indeterminateMargin: values.margin })
+  };
+  const rows = scoreTable(table, options);
+
+  const output = format === 'json'
+    ? JSON.stringify({ profile: options.profile.id, operatingPoint: options.operatingPoint, rows }, null, 2) + '\n'
+    : scoredRowsToCsv(rows);
+  if (values.out) {
+    await writeFile(values.out, output);
+  } else {
+    process.stdout.write(output);
+  }
+
+  const failed = rows.filter(row => !row.result).length;
+  console.error(`Scored ${rows.length - failed} of ${rows.length} rows with profile "${options.profile.name}"`
+    + (failed > 0 ? `; ${failed} could not be scored (see the error column)` : ''));
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
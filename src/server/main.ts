@@ -0,0 +1,8 @@
+import { createScoringServer } from './api';
+
+const port = Number(process.env.PORT ?? 8787);
+const host = process.env.HOST ?? '127.0.0.1';
+
+createScoringServer().listen(port, host, () => {
+  console.log(`Scoring API listening on http://${host}:${port}`);
+});
@@ -4,6 +4,8 @@ from sklearn.ensemble import RandomForestClassifier
 from sklearn.model_selection import train_test_split
 from sklearn.metrics import accuracy_score, classification_report
 import joblib
+import json
+import os
 
 def load_data(file_path):
     """Load and preprocess the dataset"""
@@ -37,6 +39,33 @@ def save_model(model, file_path):
     joblib.dump(model, file_path)
     print(f"Model saved to {file_path}")
 
+def export_model_json(model, feature_names, file_path):
+    """Export the trained forest as JSON for the browser app (src/lib/model.ts)"""
+    trees = []
+    for estimator in model.estimators_:
+        tree = estimator.tree_
+        # Per-class weights at each node; the app normalizes leaves itself
+        values = tree.value[:, 0, :]
+        trees.append({
+            'childrenLeft': tree.children_left.tolist(),
+            'childrenRight': tree.children_right.tolist(),
+            'feature': tree.feature.tolist(),
+            'threshold': tree.threshold.tolist(),
+            'value': values.tolist()
+        })
+
+    artifact = {
+        'format': 'tree-ensemble',
+        'features': list(feature_names),
+        'classes': [int(c) for c in model.classes_],
+        'trees': trees
+    }
+
+    os.makedirs(os.path.dirname(file_path), exist_ok=True)
+    with open(file_path, 'w') as f:
+        json.dump(artifact, f)
+    print(f"Model exported to {file_path}")
+
 if __name__ == "__main__":
     # Sample dataset structure
     data = {
@@ -62,4 +91,5 @@ if __name__ == "__main__":
     y = df['dyslexia']
     
     model, accuracy = train_model(X, y)
-    save_model(model, 'models/dyslexia_model.joblib')
\ No newline at end of file
+    save_model(model, 'models/dyslexia_model.joblib')
+    export_model_json(model, X.columns, 'public/models/dyslexia_model.json')
\ No newline at end of file
@@ -0,0 +1,69 @@
+export interface FormDataType {
+  readingSpeed: number;
+  fixationDuration: number;
+  saccadeLength: number;
+  phonemeErrors: number;
+  spellingErrors: number;
+  comprehensionScore: number;
+}
+
+// A measurement set where any feature may be missing (not measured).
+export type Measurements = { [K in keyof FormDataType]: FormDataType[K] | null };
+
+export type RiskLevel = 'High' | 'Medium' | 'Low' | 'Missing';
+
+export interface RiskDetails {
+  readingSpeedRisk: RiskLevel;
+  fixationRisk: RiskLevel;
+  saccadeRisk: RiskLevel;
+  phonemeRisk: RiskLevel;
+  spellingRisk: RiskLevel;
+  comprehensionRisk: RiskLevel;
+}
+
+// Three-way outcome: scores near the threshold, or whose missing features
+// could push them across it, are reported as indeterminate rather than forced
+// into a hard call.
+export type Decision = 'risk' | 'indeterminate' | 'low';
+
+export interface AnalysisResult {
+  prediction: 0 | 1;
+  decision: Decision;
+  riskScore: number;
+  // Lowest and highest score the unmeasured features could produce; equal to
+  // riskScore when everything was measured.
+  scoreRange: [number, number];
+  // 0–100; how far the score sits from the threshold, scaled by completeness.
+  // Not a probability: shown as the decision margin, and replaced by the
+  // calibrated probability once the profile is calibrated.
+  confidence: number;
+  details: RiskDetails;
+  // Features left out of the score because they were not measured.
+  missingFeatures: (keyof FormDataType)[];
+}
+
+export type Engine = 'heuristic' | 'model';
+
+// Output of the trained model; `probability` is P(dyslexia).
+export interface ModelPrediction {
+  prediction: 0 | 1;
+  probability: number;
+  probabilities: number[];
+}
+
+// One data row of a batch upload or scoring request. `result` is null when
+// the row failed to parse or validate, in which case `error` says why.
+export interface ScoredRow {
+  rowNumber: number;
+  studentId: string;
+  data: Measurements | null;
+  result: AnalysisResult | null;
+  error: string | null;
+  // Non-fatal issues, e.g. missing optional features or unusual values.
+  warning: string | null;
+}
+
+// A scored upload row in the web app, which also runs the model.
+export interface CohortRow extends ScoredRow {
+  modelResult: ModelPrediction | null;
+}